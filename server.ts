@@ -6,7 +6,11 @@ import { watermarkLegacyGeneratedCovers } from "./src/library/cover-generation";
 import { pingPlexOwnerToken } from "./src/plex";
 import { BooksRepo } from "./src/repo";
 import { runWorker } from "./src/worker";
+import { queueInboxScan } from "./src/worker/inbox";
 import { queueStaleMetadataHydration } from "./src/worker/metadata-hydration";
+import { queueRssSync } from "./src/worker/rss";
+import { queueSeedingCheck } from "./src/worker/seeding";
+import { queueWantedSearch } from "./src/worker/wanted";
 
 const startTime = Date.now();
 
@@ -28,6 +32,18 @@ if (metadataHydrationJob) {
   console.log(`[metadata-hydration] job=${metadataHydrationJob.id} status=${metadataHydrationJob.status}`);
 }
 
+const seedingJob = queueSeedingCheck(repo);
+console.log(`[seeding] job=${seedingJob.id} status=${seedingJob.status}`);
+
+const wantedJob = queueWantedSearch(repo);
+console.log(`[wanted] job=${wantedJob.id} status=${wantedJob.status}`);
+
+const rssJob = queueRssSync(repo);
+console.log(`[rss] job=${rssJob.id} status=${rssJob.status}`);
+
+const inboxJob = queueInboxScan(repo);
+console.log(`[inbox] job=${inboxJob.id} status=${inboxJob.status}`);
+
 void runWorker({
   repo,
   getSettings: () => repo.getSettings(),
@@ -2,6 +2,8 @@ export type MediaType = "audio" | "ebook";
 
 export type ReleaseStatus = "snatched" | "downloading" | "downloaded" | "imported" | "failed";
 
+export type ReleaseProtocol = "torrent" | "usenet";
+
 export type JobType =
   | "full_library_refresh"
   | "acquire"
@@ -10,13 +12,23 @@ export type JobType =
   | "reconcile"
   | "chapter_analysis"
   | "cover_generation"
-  | "metadata_hydration";
+  | "metadata_hydration"
+  | "seeding_check"
+  | "wanted_search"
+  | "rss_sync"
+  | "upgrade_cleanup"
+  | "library_reorganize"
+  | "inbox_scan"
+  | "tag_write";
 
 export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
 
 export type ChapterAnalysisStatus = "pending" | "succeeded" | "failed";
 export type AssetTranscriptStatus = "pending" | "succeeded" | "failed";
 
+// "unstarted" is never stored; it is the absence of a book_consumption row.
+export type ConsumptionState = "unstarted" | "listening" | "reading" | "finished" | "abandoned";
+
 export type AssetKind = "single" | "multi";
 
 export type AuthMode = "plex";
@@ -32,7 +44,7 @@ export type PlexJwk = {
   use?: "sig";
 };
 
-export type TorznabSource = {
+export type IndexerSource = {
   name: string;
   baseUrl: string;
   apiKey?: string;
@@ -42,8 +54,78 @@ export type TorznabSource = {
   };
 };
 
+// When both limits are set, a torrent has to reach both before it is removed.
+export type SeedingRule = {
+  minRatio?: number;
+  minSeedMinutes?: number;
+};
+
+export type TorznabSource = IndexerSource & {
+  seeding?: SeedingRule;
+};
+
+// Newznab indexers answer the same `t=search` API Torznab was modelled on.
+export type NewznabSource = IndexerSource;
+
+export type SeedStatus = "seeding" | "removed" | "missing";
+
+export type WantedOutcome = "snatched" | "no_result" | "error";
+
+/** Why media is on the wanted list: nothing imported yet, or the best copy is below the upgrade cutoff. */
+export type WantedReason = "missing" | "upgrade";
+
+export type BlocklistSource = "manual" | "import_failed" | "user_report";
+
+/** How an imported file reached the library; `copy` is also the fallback when a hardlink crosses filesystems. */
+export type ImportMode = "hardlink" | "copy" | "move" | "symlink";
+
+// Torrents keep seeding from the download folder, so their files are never moved.
+export type TorrentImportMode = Exclude<ImportMode, "move">;
+
+/** An inbox drop waiting for a book (`unmatched`), whose import failed, or that was imported. */
+export type InboxItemStatus = "unmatched" | "failed" | "imported";
+
+export type QualityProfileBase = {
+  /** Most preferred first, e.g. `["m4b", "mp3"]` or `["epub", "azw3", "pdf"]`. */
+  preferredFormats: string[];
+  /** Every word must appear in the release title. */
+  requiredWords: string[];
+  /** No word may appear in the release title. */
+  forbiddenWords: string[];
+  /** Language codes, most preferred first. */
+  preferredLanguages: string[];
+};
+
+// Numeric limits of 0 are off.
+export type AudioQualityProfile = QualityProfileBase & {
+  minBitrateKbps: number;
+  maxBitrateKbps: number;
+  minMbPerHour: number;
+  maxMbPerHour: number;
+  preferredNarrators: string[];
+  unabridgedOnly: boolean;
+};
+
+export type EbookQualityProfile = QualityProfileBase;
+
+export type QualityBreakdown = {
+  score: number;
+  /** Why the release is unacceptable under the profile, or null. */
+  rejected: string | null;
+  reasons: Array<{ rule: string; points: number; detail: string }>;
+};
+
+export type TranscriptionProviderKind = "openai" | "openai-compatible" | "command";
+
+export type DownloadClientKind = "rtorrent" | "qbittorrent" | "transmission" | "deluge";
+
+export type UsenetClientKind = "none" | "sabnzbd" | "nzbget";
+
 export type AppSettings = {
   torznab: TorznabSource[];
+  newznab: NewznabSource[];
+  downloadClient: DownloadClientKind;
+  usenetClient: UsenetClientKind;
   rtorrent: {
     transport: "http-xmlrpc";
     url: string;
@@ -51,6 +133,36 @@ export type AppSettings = {
     password?: string;
     downloadPath?: string;
   };
+  qbittorrent: {
+    url: string;
+    username?: string;
+    password?: string;
+    category?: string;
+    savePath?: string;
+  };
+  transmission: {
+    url: string;
+    username?: string;
+    password?: string;
+    downloadPath?: string;
+  };
+  deluge: {
+    url: string;
+    password?: string;
+    downloadPath?: string;
+    label?: string;
+  };
+  sabnzbd: {
+    url: string;
+    apiKey: string;
+    category?: string;
+  };
+  nzbget: {
+    url: string;
+    username?: string;
+    password?: string;
+    category?: string;
+  };
   libraryRoot: string;
   polling: {
     rtorrentMs: number;
@@ -58,6 +170,57 @@ export type AppSettings = {
   recovery: {
     stalledTorrentMinutes: number;
   };
+  seeding: {
+    checkMinutes: number;
+  };
+  wanted: {
+    enabled: boolean;
+    checkMinutes: number;
+    retryMinutes: number;
+    maxRetryMinutes: number;
+    dailySearchLimit: number;
+  };
+  rss: {
+    enabled: boolean;
+    intervalMinutes: number;
+  };
+  quality: {
+    audio: AudioQualityProfile;
+    ebook: EbookQualityProfile;
+  };
+  upgrades: {
+    enabled: boolean;
+    /** Quality score (see `quality`) at which a book's media stops being upgraded. */
+    audioCutoff: number;
+    ebookCutoff: number;
+    /** Days a replaced manifestation's files are kept; 0 keeps them. */
+    deleteOldAfterDays: number;
+  };
+  naming: {
+    /**
+     * Book folder under `libraryRoot`; `/` separates folders. Tokens: `{author}`, `{series}`,
+     * `{seriesPosition}` (`{seriesPosition:00}` zero-pads), `{title}`, `{year}`, `{narrator}`,
+     * `{language}`, `{manifestationLabel}`.
+     */
+    folderTemplate: string;
+    /** File name without extension for single-file media, or the sub-folder holding multi-file audio. */
+    fileTemplate: string;
+  };
+  imports: {
+    torrentMode: TorrentImportMode;
+    usenetMode: ImportMode;
+  };
+  inbox: {
+    enabled: boolean;
+    /** Watched folder; every file or folder dropped directly inside it is one import. */
+    path: string;
+    intervalMinutes: number;
+    importMode: ImportMode;
+  };
+  tagWriting: {
+    /** Rewrite tags, cover and chapters into library audio files after imports and chapter edits. */
+    enabled: boolean;
+  };
   feed: {
     title: string;
     author: string;
@@ -80,6 +243,14 @@ export type AppSettings = {
     lowConfidenceThreshold: number;
     timeoutMs: number;
   };
+  transcription: {
+    provider: TranscriptionProviderKind;
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    command: string[];
+    concurrency: number;
+  };
   notifications: {
     pushover: {
       enabled: boolean;
@@ -122,12 +293,22 @@ export type ReleaseRow = {
   provider_guid: string | null;
   title: string;
   media_type: MediaType;
-  info_hash: string;
+  protocol: ReleaseProtocol;
+  info_hash: string | null;
+  download_id: string | null;
   size_bytes: number | null;
   url: string;
   snatched_at: string;
   status: ReleaseStatus;
   error: string | null;
+  seed_status: SeedStatus | null;
+  seed_ratio: number | null;
+  seed_seconds: number | null;
+  seed_checked_at: string | null;
+  seed_removed_at: string | null;
+  seed_error: string | null;
+  /** JSON `QualityBreakdown` scored against the quality profile at snatch time. */
+  quality_json: string | null;
   updated_at: string;
 };
 
@@ -153,10 +334,28 @@ export type AssetRow = {
   manifestation_id: number | null;
   sequence_in_manifestation: number;
   import_note: string | null;
+  /** `EmbeddedAudioTags` of the first audio file, when it was probed on import or scan. */
+  embedded_tags_json: string | null;
   created_at: string;
   updated_at: string;
 };
 
+/** Book-level tags ffprobe reads from an audio file's container; tags it does not carry are null. */
+export type EmbeddedAudioTags = {
+  title: string | null;
+  album: string | null;
+  artist: string | null;
+  albumArtist: string | null;
+  narrator: string | null;
+  series: string | null;
+  seriesPosition: string | null;
+  asin: string | null;
+  isbn: string | null;
+  publisher: string | null;
+  year: string | null;
+  hasCover: boolean;
+};
+
 export type ManifestationKind = "audio" | "ebook";
 
 export type ManifestationRow = {
@@ -170,6 +369,9 @@ export type ManifestationRow = {
   duration_ms: number | null;
   total_size: number;
   preferred_score: number;
+  /** Set on a manifestation grabbed as an upgrade: the one it replaces once imported. */
+  replaces_manifestation_id: number | null;
+  superseded_at: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -184,6 +386,8 @@ export type AssetFileRow = {
   end: number;
   duration_ms: number;
   title: string | null;
+  /** Null for files found in place by a library scan. */
+  import_mode: ImportMode | null;
   updated_at: string;
 };
 
@@ -217,6 +421,13 @@ export type ChapterAnalysisRow = {
   updated_at: string;
 };
 
+export type ChapterOverrideRow = {
+  manifestation_id: number;
+  chapters_json: string;
+  updated_by_user_id: number | null;
+  updated_at: string;
+};
+
 export type ManifestationTranscriptRow = {
   manifestation_id: number;
   status: AssetTranscriptStatus;
@@ -259,6 +470,56 @@ export type SessionWithUserRow = SessionRow & {
   is_admin: number;
 };
 
+export type PlaybackPositionRow = {
+  user_id: number;
+  manifestation_id: number;
+  book_id: number;
+  position_ms: number;
+  chapter_index: number | null;
+  device_name: string | null;
+  updated_at: string;
+};
+
+export type BookConsumptionRow = {
+  user_id: number;
+  book_id: number;
+  state: Exclude<ConsumptionState, "unstarted">;
+  started_at: string | null;
+  finished_at: string | null;
+  abandoned_at: string | null;
+  updated_at: string;
+};
+
+export type BookmarkRow = {
+  id: number;
+  user_id: number;
+  manifestation_id: number;
+  book_id: number;
+  position_ms: number;
+  end_ms: number | null;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type FeedTokenScope = "added" | "shelf" | "all";
+
+export type FeedTokenRow = {
+  id: number;
+  user_id: number;
+  token_hash: string;
+  scope: FeedTokenScope;
+  label: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+export type FeedTokenWithUserRow = FeedTokenRow & {
+  username: string;
+  display_name: string | null;
+};
+
 export type PlexLoginAttemptRow = {
   pin_id: number;
   client_identifier: string;
@@ -293,7 +554,9 @@ export type DownloadView = {
   release_status: ReleaseStatus | null;
   release_error: string | null;
   media_type: MediaType | null;
+  protocol: ReleaseProtocol | null;
   info_hash: string | null;
+  download_id: string | null;
   book_id: number | null;
 };
 
@@ -308,6 +571,94 @@ export type TorrentCacheRow = {
   updated_at: string;
 };
 
+export type IndexerStatusRow = {
+  protocol: ReleaseProtocol;
+  name: string;
+  caps_json: string | null;
+  caps_base_url: string | null;
+  caps_fetched_at: string | null;
+  success_count: number;
+  failure_count: number;
+  consecutive_failures: number;
+  last_latency_ms: number | null;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+  last_error: string | null;
+  disabled_until: string | null;
+  updated_at: string;
+};
+
+export type WantedMediaRow = {
+  book_id: number;
+  media_type: MediaType;
+  search_count: number;
+  consecutive_misses: number;
+  last_searched_at: string | null;
+  last_outcome: WantedOutcome | null;
+  last_detail: string | null;
+  next_search_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ReleaseBlocklistRow = {
+  id: number;
+  /** Null for entries that apply to every book. */
+  book_id: number | null;
+  info_hash: string | null;
+  guid: string | null;
+  /** Case-insensitive match anywhere in the release title; `*` matches any run of characters. */
+  title_pattern: string | null;
+  source: BlocklistSource;
+  reason: string | null;
+  release_id: number | null;
+  created_at: string;
+};
+
+export type WantedMediaView = {
+  book_id: number;
+  media_type: MediaType;
+  reason: WantedReason;
+  current_score: number | null;
+  title: string;
+  author: string;
+  search_count: number;
+  consecutive_misses: number;
+  last_searched_at: string | null;
+  last_outcome: WantedOutcome | null;
+  last_detail: string | null;
+  next_search_at: string | null;
+};
+
+export type InboxItemRow = {
+  id: number;
+  path: string;
+  status: InboxItemStatus;
+  book_id: number | null;
+  guess_title: string | null;
+  guess_author: string | null;
+  detail: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type LibraryMove = {
+  kind: "file" | "cover";
+  bookId: number;
+  from: string;
+  to: string;
+};
+
+/** Last library reorganize run: the previewed or applied moves and per-book failures. */
+export type LibraryReorganizeReport = {
+  jobId: number;
+  dryRun: boolean;
+  generatedAt: string;
+  moves: LibraryMove[];
+  unchanged: number;
+  errors: Array<{ bookId: number; message: string }>;
+};
+
 export type LibraryBook = {
   id: number;
   title: string;
@@ -1,6 +1,6 @@
 import { createHash, randomBytes } from "node:crypto";
 
-import type { SessionWithUserRow } from "./app-types";
+import type { FeedTokenWithUserRow, SessionWithUserRow } from "./app-types";
 
 export const SESSION_COOKIE_NAME = "podible_session";
 const BROWSER_SESSION_COOKIE_DURATION_MS = 1000 * 60 * 60 * 24 * 400;
@@ -77,6 +77,28 @@ export function resolveSessionFromRequest(
   return resolveBearerSessionFromRequest(request, resolveSession) ?? resolveBrowserSessionFromRequest(request, resolveSession);
 }
 
+export function feedTokenFromRequest(request: Request): string | null {
+  return new URL(request.url).searchParams.get("token")?.trim() || null;
+}
+
+// E-readers can't run the Plex sign-in flow, so OPDS clients send a feed token
+// as the HTTP basic password. The username is ignored.
+export function basicAuthFeedTokenFromRequest(request: Request): string | null {
+  const authorization = request.headers.get("authorization");
+  if (!authorization?.toLowerCase().startsWith("basic ")) return null;
+  const decoded = Buffer.from(authorization.slice("basic ".length).trim(), "base64").toString("utf8");
+  const separator = decoded.indexOf(":");
+  return separator >= 0 ? decoded.slice(separator + 1).trim() || null : null;
+}
+
+export function resolveFeedTokenFromRequest(
+  request: Request,
+  resolveFeedToken: (tokenHash: string) => FeedTokenWithUserRow | null
+): FeedTokenWithUserRow | null {
+  const token = feedTokenFromRequest(request) ?? basicAuthFeedTokenFromRequest(request);
+  return token ? resolveFeedToken(hashSessionToken(token)) : null;
+}
+
 export function buildSessionCookie(token: string, request: Request): string {
   const secure = isSecureRequest(request);
   const parts = [
@@ -32,6 +32,24 @@ const COVER_GENERATION_JOB_TYPE_MIGRATION_ID = 26;
 const BOOK_SERIES_MIGRATION_ID = 27;
 const OPENLIBRARY_METADATA_HYDRATION_MIGRATION_ID = 28;
 const DURABLE_SESSIONS_MIGRATION_ID = 29;
+const PLAYBACK_POSITIONS_MIGRATION_ID = 30;
+const BOOK_CONSUMPTION_MIGRATION_ID = 31;
+const BOOKMARKS_MIGRATION_ID = 32;
+const FEED_TOKENS_MIGRATION_ID = 33;
+const CHAPTER_OVERRIDES_MIGRATION_ID = 34;
+const USENET_RELEASES_MIGRATION_ID = 35;
+const SEEDING_MIGRATION_ID = 36;
+const INDEXER_STATUS_MIGRATION_ID = 37;
+const WANTED_MEDIA_MIGRATION_ID = 38;
+const RSS_SYNC_MIGRATION_ID = 39;
+const RELEASE_QUALITY_MIGRATION_ID = 40;
+const UPGRADES_MIGRATION_ID = 41;
+const RELEASE_BLOCKLIST_MIGRATION_ID = 42;
+const LIBRARY_REORGANIZE_MIGRATION_ID = 43;
+const ASSET_FILE_IMPORT_MODE_MIGRATION_ID = 44;
+const INBOX_MIGRATION_ID = 45;
+const ASSET_EMBEDDED_TAGS_MIGRATION_ID = 46;
+const TAG_WRITE_MIGRATION_ID = 47;
 
 const BASE_SCHEMA_SQL = `
 PRAGMA foreign_keys = ON;
@@ -920,6 +938,505 @@ CREATE INDEX idx_sessions_expires_at ON sessions(expires_at);
 `);
 }
 
+function applyPlaybackPositionsMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS playback_positions (
+  user_id INTEGER NOT NULL,
+  manifestation_id INTEGER NOT NULL,
+  book_id INTEGER NOT NULL,
+  position_ms INTEGER NOT NULL,
+  chapter_index INTEGER NULL,
+  device_name TEXT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, manifestation_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (manifestation_id) REFERENCES manifestations(id) ON DELETE CASCADE,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_playback_positions_user_updated ON playback_positions(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_playback_positions_user_book ON playback_positions(user_id, book_id);
+`);
+}
+
+function applyBookConsumptionMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS book_consumption (
+  user_id INTEGER NOT NULL,
+  book_id INTEGER NOT NULL,
+  state TEXT NOT NULL CHECK (state IN ('listening', 'reading', 'finished', 'abandoned')),
+  started_at TEXT NULL,
+  finished_at TEXT NULL,
+  abandoned_at TEXT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, book_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_book_consumption_user_state ON book_consumption(user_id, state, updated_at);
+`);
+}
+
+function applyBookmarksMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS bookmarks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  manifestation_id INTEGER NOT NULL,
+  book_id INTEGER NOT NULL,
+  position_ms INTEGER NOT NULL,
+  end_ms INTEGER NULL,
+  note TEXT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (manifestation_id) REFERENCES manifestations(id) ON DELETE CASCADE,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_book ON bookmarks(user_id, book_id, position_ms);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_manifestation ON bookmarks(manifestation_id);
+`);
+}
+
+function applyFeedTokensMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS feed_tokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  scope TEXT NOT NULL CHECK (scope IN ('added', 'shelf', 'all')),
+  label TEXT NULL,
+  created_at TEXT NOT NULL,
+  last_used_at TEXT NULL,
+  revoked_at TEXT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_feed_tokens_user ON feed_tokens(user_id, created_at);
+`);
+}
+
+function applyChapterOverridesMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS chapter_overrides (
+  manifestation_id INTEGER PRIMARY KEY,
+  chapters_json TEXT NOT NULL,
+  updated_by_user_id INTEGER NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (manifestation_id) REFERENCES manifestations(id) ON DELETE CASCADE,
+  FOREIGN KEY (updated_by_user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+`);
+}
+
+function applyUsenetReleasesMigration(db: Database): void {
+  // Fresh schemas that never had releases (only in partial test fixtures) have nothing to rebuild.
+  if (!hasColumn(db, "releases", "info_hash") || hasColumn(db, "releases", "protocol")) return;
+  // NZB releases have no info hash, so info_hash becomes nullable (the unique
+  // index still applies to torrents) and download_id holds the Usenet
+  // client's own job id. SQLite can't relax NOT NULL in place.
+  db.exec(`
+CREATE TABLE releases_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  book_id INTEGER NOT NULL,
+  provider TEXT NOT NULL,
+  provider_guid TEXT NULL,
+  title TEXT NOT NULL,
+  media_type TEXT NOT NULL CHECK (media_type IN ('audio', 'ebook')),
+  protocol TEXT NOT NULL DEFAULT 'torrent' CHECK (protocol IN ('torrent', 'usenet')),
+  info_hash TEXT NULL,
+  download_id TEXT NULL,
+  size_bytes INTEGER NULL,
+  url TEXT NOT NULL,
+  snatched_at TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('snatched', 'downloading', 'downloaded', 'imported', 'failed')),
+  error TEXT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+);
+
+INSERT INTO releases_new (
+  id, book_id, provider, provider_guid, title, media_type, protocol, info_hash, download_id, size_bytes, url, snatched_at, status, error, updated_at
+)
+SELECT
+  id, book_id, provider, provider_guid, title, media_type, 'torrent', info_hash, NULL, size_bytes, url, snatched_at, status, error, updated_at
+FROM releases;
+
+DROP TABLE releases;
+ALTER TABLE releases_new RENAME TO releases;
+
+CREATE INDEX IF NOT EXISTS idx_releases_book_status ON releases(book_id, status);
+CREATE INDEX IF NOT EXISTS idx_releases_book_media ON releases(book_id, media_type);
+CREATE INDEX IF NOT EXISTS idx_releases_info_hash ON releases(info_hash);
+CREATE INDEX IF NOT EXISTS idx_releases_provider_guid ON releases(provider, provider_guid);
+CREATE INDEX IF NOT EXISTS idx_releases_url ON releases(url);
+CREATE UNIQUE INDEX IF NOT EXISTS ux_releases_info_hash ON releases(info_hash);
+CREATE UNIQUE INDEX IF NOT EXISTS ux_releases_provider_guid ON releases(provider, provider_guid) WHERE provider_guid IS NOT NULL;
+`);
+}
+
+function applySeedingMigration(db: Database): void {
+  if (hasColumn(db, "releases", "id")) {
+    const columns: Array<[string, string]> = [
+      ["seed_status", "TEXT NULL CHECK (seed_status IN ('seeding', 'removed', 'missing'))"],
+      ["seed_ratio", "REAL NULL"],
+      ["seed_seconds", "INTEGER NULL"],
+      ["seed_checked_at", "TEXT NULL"],
+      ["seed_removed_at", "TEXT NULL"],
+      ["seed_error", "TEXT NULL"],
+    ];
+    for (const [column, definition] of columns) {
+      if (!hasColumn(db, "releases", column)) {
+        db.exec(`ALTER TABLE releases ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  db.exec(`
+CREATE TABLE jobs_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL CHECK (type IN ('full_library_refresh', 'acquire', 'download', 'import', 'reconcile', 'chapter_analysis', 'cover_generation', 'metadata_hydration', 'seeding_check')),
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  book_id INTEGER NULL,
+  release_id INTEGER NULL,
+  payload_json TEXT NULL,
+  error TEXT NULL,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_run_at TEXT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+  FOREIGN KEY (release_id) REFERENCES releases(id) ON DELETE CASCADE
+);
+
+INSERT INTO jobs_new (
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+)
+SELECT
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+FROM jobs;
+
+DROP TABLE jobs;
+ALTER TABLE jobs_new RENAME TO jobs;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_next_created ON jobs(status, next_run_at, created_at);
+`);
+}
+
+// One row per configured indexer, keyed by protocol and source name: the
+// cached `t=caps` answer plus search health used for backoff.
+function applyIndexerStatusMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS indexer_status (
+  protocol TEXT NOT NULL CHECK (protocol IN ('torrent', 'usenet')),
+  name TEXT NOT NULL,
+  caps_json TEXT NULL,
+  caps_base_url TEXT NULL,
+  caps_fetched_at TEXT NULL,
+  success_count INTEGER NOT NULL DEFAULT 0,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  last_latency_ms INTEGER NULL,
+  last_success_at TEXT NULL,
+  last_failure_at TEXT NULL,
+  last_error TEXT NULL,
+  disabled_until TEXT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (protocol, name)
+);
+`);
+}
+
+// Re-search schedule for media a book is still missing. Rows are created on
+// the first search; books never searched have none and are due immediately.
+function applyWantedMediaMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS wanted_media (
+  book_id INTEGER NOT NULL,
+  media_type TEXT NOT NULL CHECK (media_type IN ('audio', 'ebook')),
+  search_count INTEGER NOT NULL DEFAULT 0,
+  consecutive_misses INTEGER NOT NULL DEFAULT 0,
+  last_searched_at TEXT NULL,
+  last_outcome TEXT NULL CHECK (last_outcome IN ('snatched', 'no_result', 'error')),
+  last_detail TEXT NULL,
+  next_search_at TEXT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (book_id, media_type),
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+);
+
+CREATE TABLE jobs_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL CHECK (type IN ('full_library_refresh', 'acquire', 'download', 'import', 'reconcile', 'chapter_analysis', 'cover_generation', 'metadata_hydration', 'seeding_check', 'wanted_search')),
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  book_id INTEGER NULL,
+  release_id INTEGER NULL,
+  payload_json TEXT NULL,
+  error TEXT NULL,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_run_at TEXT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+  FOREIGN KEY (release_id) REFERENCES releases(id) ON DELETE CASCADE
+);
+
+INSERT INTO jobs_new (
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+)
+SELECT
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+FROM jobs;
+
+DROP TABLE jobs;
+ALTER TABLE jobs_new RENAME TO jobs;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_next_created ON jobs(status, next_run_at, created_at);
+`);
+}
+
+function applyRssSyncMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE jobs_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL CHECK (type IN ('full_library_refresh', 'acquire', 'download', 'import', 'reconcile', 'chapter_analysis', 'cover_generation', 'metadata_hydration', 'seeding_check', 'wanted_search', 'rss_sync')),
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  book_id INTEGER NULL,
+  release_id INTEGER NULL,
+  payload_json TEXT NULL,
+  error TEXT NULL,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_run_at TEXT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+  FOREIGN KEY (release_id) REFERENCES releases(id) ON DELETE CASCADE
+);
+
+INSERT INTO jobs_new (
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+)
+SELECT
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+FROM jobs;
+
+DROP TABLE jobs;
+ALTER TABLE jobs_new RENAME TO jobs;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_next_created ON jobs(status, next_run_at, created_at);
+`);
+}
+
+function applyReleaseQualityMigration(db: Database): void {
+  if (hasColumn(db, "releases", "id") && !hasColumn(db, "releases", "quality_json")) {
+    db.exec("ALTER TABLE releases ADD COLUMN quality_json TEXT NULL");
+  }
+}
+
+function applyUpgradesMigration(db: Database): void {
+  if (hasColumn(db, "manifestations", "id") && !hasColumn(db, "manifestations", "replaces_manifestation_id")) {
+    db.exec(`
+ALTER TABLE manifestations ADD COLUMN replaces_manifestation_id INTEGER NULL REFERENCES manifestations(id) ON DELETE SET NULL;
+ALTER TABLE manifestations ADD COLUMN superseded_at TEXT NULL;
+`);
+  }
+  db.exec(`
+CREATE TABLE jobs_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL CHECK (type IN ('full_library_refresh', 'acquire', 'download', 'import', 'reconcile', 'chapter_analysis', 'cover_generation', 'metadata_hydration', 'seeding_check', 'wanted_search', 'rss_sync', 'upgrade_cleanup')),
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  book_id INTEGER NULL,
+  release_id INTEGER NULL,
+  payload_json TEXT NULL,
+  error TEXT NULL,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_run_at TEXT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+  FOREIGN KEY (release_id) REFERENCES releases(id) ON DELETE CASCADE
+);
+
+INSERT INTO jobs_new (
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+)
+SELECT
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+FROM jobs;
+
+DROP TABLE jobs;
+ALTER TABLE jobs_new RENAME TO jobs;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_next_created ON jobs(status, next_run_at, created_at);
+`);
+}
+
+function applyReleaseBlocklistMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS release_blocklist (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  book_id INTEGER NULL,
+  info_hash TEXT NULL,
+  guid TEXT NULL,
+  title_pattern TEXT NULL,
+  source TEXT NOT NULL CHECK (source IN ('manual', 'import_failed', 'user_report')),
+  reason TEXT NULL,
+  release_id INTEGER NULL,
+  created_at TEXT NOT NULL,
+  CHECK (info_hash IS NOT NULL OR guid IS NOT NULL OR title_pattern IS NOT NULL),
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+  FOREIGN KEY (release_id) REFERENCES releases(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_release_blocklist_book ON release_blocklist(book_id);
+`);
+}
+
+function applyLibraryReorganizeMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE jobs_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL CHECK (type IN ('full_library_refresh', 'acquire', 'download', 'import', 'reconcile', 'chapter_analysis', 'cover_generation', 'metadata_hydration', 'seeding_check', 'wanted_search', 'rss_sync', 'upgrade_cleanup', 'library_reorganize')),
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  book_id INTEGER NULL,
+  release_id INTEGER NULL,
+  payload_json TEXT NULL,
+  error TEXT NULL,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_run_at TEXT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+  FOREIGN KEY (release_id) REFERENCES releases(id) ON DELETE CASCADE
+);
+
+INSERT INTO jobs_new (
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+)
+SELECT
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+FROM jobs;
+
+DROP TABLE jobs;
+ALTER TABLE jobs_new RENAME TO jobs;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_next_created ON jobs(status, next_run_at, created_at);
+`);
+}
+
+function applyAssetFileImportModeMigration(db: Database): void {
+  if (hasColumn(db, "asset_files", "id") && !hasColumn(db, "asset_files", "import_mode")) {
+    db.exec(
+      "ALTER TABLE asset_files ADD COLUMN import_mode TEXT NULL CHECK (import_mode IN ('hardlink', 'copy', 'move', 'symlink'))"
+    );
+  }
+}
+
+function applyAssetEmbeddedTagsMigration(db: Database): void {
+  if (hasColumn(db, "assets", "id") && !hasColumn(db, "assets", "embedded_tags_json")) {
+    db.exec("ALTER TABLE assets ADD COLUMN embedded_tags_json TEXT NULL");
+  }
+}
+
+function applyInboxMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS inbox_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  path TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL CHECK (status IN ('unmatched', 'failed', 'imported')),
+  book_id INTEGER NULL,
+  guess_title TEXT NULL,
+  guess_author TEXT NULL,
+  detail TEXT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_items_status ON inbox_items(status, updated_at);
+
+CREATE TABLE jobs_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL CHECK (type IN ('full_library_refresh', 'acquire', 'download', 'import', 'reconcile', 'chapter_analysis', 'cover_generation', 'metadata_hydration', 'seeding_check', 'wanted_search', 'rss_sync', 'upgrade_cleanup', 'library_reorganize', 'inbox_scan')),
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  book_id INTEGER NULL,
+  release_id INTEGER NULL,
+  payload_json TEXT NULL,
+  error TEXT NULL,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_run_at TEXT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+  FOREIGN KEY (release_id) REFERENCES releases(id) ON DELETE CASCADE
+);
+
+INSERT INTO jobs_new (
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+)
+SELECT
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+FROM jobs;
+
+DROP TABLE jobs;
+ALTER TABLE jobs_new RENAME TO jobs;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_next_created ON jobs(status, next_run_at, created_at);
+`);
+}
+
+function applyTagWriteMigration(db: Database): void {
+  db.exec(`
+CREATE TABLE jobs_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL CHECK (type IN ('full_library_refresh', 'acquire', 'download', 'import', 'reconcile', 'chapter_analysis', 'cover_generation', 'metadata_hydration', 'seeding_check', 'wanted_search', 'rss_sync', 'upgrade_cleanup', 'library_reorganize', 'inbox_scan', 'tag_write')),
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  book_id INTEGER NULL,
+  release_id INTEGER NULL,
+  payload_json TEXT NULL,
+  error TEXT NULL,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_run_at TEXT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+  FOREIGN KEY (release_id) REFERENCES releases(id) ON DELETE CASCADE
+);
+
+INSERT INTO jobs_new (
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+)
+SELECT
+  id, type, status, book_id, release_id, payload_json, error,
+  attempt_count, max_attempts, next_run_at, created_at, updated_at
+FROM jobs;
+
+DROP TABLE jobs;
+ALTER TABLE jobs_new RENAME TO jobs;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_next_created ON jobs(status, next_run_at, created_at);
+`);
+}
+
 export function nowIso(): string {
   return new Date().toISOString();
 }
@@ -1037,4 +1554,67 @@ export function runMigrations(db: Database): void {
   apply(DURABLE_SESSIONS_MIGRATION_ID, () => {
     applyDurableSessionsMigration(db);
   });
+  apply(PLAYBACK_POSITIONS_MIGRATION_ID, () => {
+    applyPlaybackPositionsMigration(db);
+  });
+  apply(BOOK_CONSUMPTION_MIGRATION_ID, () => {
+    applyBookConsumptionMigration(db);
+  });
+  apply(BOOKMARKS_MIGRATION_ID, () => {
+    applyBookmarksMigration(db);
+  });
+  apply(FEED_TOKENS_MIGRATION_ID, () => {
+    applyFeedTokensMigration(db);
+  });
+  apply(CHAPTER_OVERRIDES_MIGRATION_ID, () => {
+    applyChapterOverridesMigration(db);
+  });
+  // Dropping the old releases table would fire ON DELETE actions in jobs,
+  // assets and friends. The pragma is a no-op inside a transaction, so it has
+  // to be switched off around `apply` rather than inside the migration.
+  const foreignKeys = (db.query("PRAGMA foreign_keys").get() as { foreign_keys: number }).foreign_keys;
+  db.exec("PRAGMA foreign_keys = OFF;");
+  try {
+    apply(USENET_RELEASES_MIGRATION_ID, () => {
+      applyUsenetReleasesMigration(db);
+    });
+  } finally {
+    db.exec(`PRAGMA foreign_keys = ${foreignKeys ? "ON" : "OFF"};`);
+  }
+  apply(SEEDING_MIGRATION_ID, () => {
+    applySeedingMigration(db);
+  });
+  apply(INDEXER_STATUS_MIGRATION_ID, () => {
+    applyIndexerStatusMigration(db);
+  });
+  apply(WANTED_MEDIA_MIGRATION_ID, () => {
+    applyWantedMediaMigration(db);
+  });
+  apply(RSS_SYNC_MIGRATION_ID, () => {
+    applyRssSyncMigration(db);
+  });
+  apply(RELEASE_QUALITY_MIGRATION_ID, () => {
+    applyReleaseQualityMigration(db);
+  });
+  apply(UPGRADES_MIGRATION_ID, () => {
+    applyUpgradesMigration(db);
+  });
+  apply(RELEASE_BLOCKLIST_MIGRATION_ID, () => {
+    applyReleaseBlocklistMigration(db);
+  });
+  apply(LIBRARY_REORGANIZE_MIGRATION_ID, () => {
+    applyLibraryReorganizeMigration(db);
+  });
+  apply(ASSET_FILE_IMPORT_MODE_MIGRATION_ID, () => {
+    applyAssetFileImportModeMigration(db);
+  });
+  apply(INBOX_MIGRATION_ID, () => {
+    applyInboxMigration(db);
+  });
+  apply(ASSET_EMBEDDED_TAGS_MIGRATION_ID, () => {
+    applyAssetEmbeddedTagsMigration(db);
+  });
+  apply(TAG_WRITE_MIGRATION_ID, () => {
+    applyTagWriteMigration(db);
+  });
 }
@@ -0,0 +1,196 @@
+import { Buffer } from "node:buffer";
+import path from "node:path";
+
+import type { AppSettings } from "./app-types";
+import type { DownloadClient, DownloadImportSource, DownloadState, SeedingState } from "./download-client";
+
+type DelugeTorrentStatus = {
+  name?: string;
+  hash?: string;
+  state?: string;
+  message?: string;
+  is_finished?: boolean;
+  total_wanted?: number;
+  total_done?: number;
+  download_payload_rate?: number;
+  save_path?: string;
+  files?: Array<{ path?: string }>;
+  file_priorities?: number[];
+  ratio?: number;
+  seeding_time?: number;
+};
+
+type DelugeResponse = {
+  result?: unknown;
+  error?: { message?: string; code?: number } | null;
+};
+
+// Deluge's web UI reports this code when the session cookie is missing or stale.
+const NOT_AUTHENTICATED_CODE = 1;
+
+const STATE_KEYS = [
+  "name",
+  "hash",
+  "state",
+  "message",
+  "is_finished",
+  "total_wanted",
+  "total_done",
+  "download_payload_rate",
+  "save_path",
+];
+
+class DelugeRpcError extends Error {
+  constructor(
+    message: string,
+    readonly code: number | null
+  ) {
+    super(message);
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? Math.trunc(value) : null;
+}
+
+function torrentPath(status: DelugeTorrentStatus): string | null {
+  if (!status.save_path) return null;
+  return status.name ? path.join(status.save_path, status.name) : status.save_path;
+}
+
+/**
+ * Deluge web UI JSON-RPC client. Logs in with the web password, then makes
+ * sure the web UI is attached to a daemon before issuing `core.*` calls.
+ */
+export class DelugeClient implements DownloadClient {
+  readonly label = "Deluge";
+  private cookie: string | null = null;
+  private nextId = 1;
+
+  constructor(private readonly settings: AppSettings["deluge"]) {}
+
+  private async post(method: string, params: unknown[]): Promise<{ payload: DelugeResponse; response: Response }> {
+    const response = await fetch(this.settings.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(this.cookie ? { Cookie: this.cookie } : {}) },
+      body: JSON.stringify({ method, params, id: this.nextId++ }),
+    });
+    if (!response.ok) {
+      throw new Error(`Deluge returned ${response.status}`);
+    }
+    return { payload: (await response.json()) as DelugeResponse, response };
+  }
+
+  private async rawCall(method: string, params: unknown[]): Promise<unknown> {
+    const { payload } = await this.post(method, params);
+    if (payload.error) {
+      throw new DelugeRpcError(`Deluge ${method} failed: ${payload.error.message ?? "unknown error"}`, payload.error.code ?? null);
+    }
+    return payload.result;
+  }
+
+  private async login(): Promise<void> {
+    this.cookie = null;
+    const { payload, response } = await this.post("auth.login", [this.settings.password ?? ""]);
+    if (payload.result !== true) {
+      throw new Error("Deluge login failed");
+    }
+    const match = /_session_id=([^;,\s]+)/.exec(response.headers.get("set-cookie") ?? "");
+    this.cookie = match?.[1] ? `_session_id=${match[1]}` : "";
+
+    if ((await this.rawCall("web.connected", [])) === true) return;
+    const hosts = await this.rawCall("web.get_hosts", []);
+    const hostId = Array.isArray(hosts) && Array.isArray(hosts[0]) ? hosts[0][0] : null;
+    if (typeof hostId !== "string") {
+      throw new Error("Deluge web UI has no daemon configured");
+    }
+    await this.rawCall("web.connect", [hostId]);
+  }
+
+  private async call(method: string, params: unknown[]): Promise<unknown> {
+    if (this.cookie === null) await this.login();
+    try {
+      return await this.rawCall(method, params);
+    } catch (error) {
+      if (!(error instanceof DelugeRpcError) || error.code !== NOT_AUTHENTICATED_CODE) throw error;
+      await this.login();
+      return await this.rawCall(method, params);
+    }
+  }
+
+  private async findStatus(infoHash: string, keys: string[]): Promise<DelugeTorrentStatus | null> {
+    const status = (await this.call("core.get_torrent_status", [infoHash.toLowerCase(), keys])) as DelugeTorrentStatus | null;
+    // Deluge answers an unknown torrent id with an empty status rather than an error.
+    return status && Object.keys(status).length > 0 ? status : null;
+  }
+
+  private async getStatus(infoHash: string, keys: string[]): Promise<DelugeTorrentStatus> {
+    const status = await this.findStatus(infoHash, keys);
+    if (!status) {
+      throw new Error(`Deluge has no torrent ${infoHash.toLowerCase()}`);
+    }
+    return status;
+  }
+
+  async addTorrent(torrentBytes: Uint8Array): Promise<void> {
+    const downloadPath = this.settings.downloadPath?.trim() ?? "";
+    const torrentId = await this.call("core.add_torrent_file", [
+      "podible.torrent",
+      Buffer.from(torrentBytes).toString("base64"),
+      { add_paused: false, ...(downloadPath ? { download_location: downloadPath } : {}) },
+    ]);
+    const label = this.settings.label?.trim().toLowerCase() ?? "";
+    if (!label || typeof torrentId !== "string") return;
+    try {
+      await this.call("label.add", [label]);
+    } catch (error) {
+      if (!/already exists/i.test((error as Error).message)) throw error;
+    }
+    await this.call("label.set_torrent", [torrentId, label]);
+  }
+
+  async getDownloadState(infoHash: string): Promise<DownloadState> {
+    const status = await this.getStatus(infoHash, STATE_KEYS);
+    const sizeBytes = toNumber(status.total_wanted);
+    const bytesDone = toNumber(status.total_done);
+    const state = status.state ?? "";
+    return {
+      name: status.name ?? null,
+      hash: status.hash ?? null,
+      complete: status.is_finished === true && state !== "Checking",
+      isActive: state !== "Paused" && state !== "Error",
+      basePath: torrentPath(status),
+      bytesDone,
+      sizeBytes,
+      leftBytes: sizeBytes !== null && bytesDone !== null ? Math.max(0, sizeBytes - bytesDone) : null,
+      downRate: toNumber(status.download_payload_rate),
+      // Healthy torrents carry the message "OK"; only surface it once Deluge flags an error.
+      message: state === "Error" ? status.message || "Deluge reported an error for this torrent" : null,
+    };
+  }
+
+  async getSeedingState(infoHash: string): Promise<SeedingState | null> {
+    const status = await this.findStatus(infoHash, ["hash", "ratio", "seeding_time"]);
+    if (!status) return null;
+    // Deluge reports -1 while a torrent has nothing downloaded to compare uploads against.
+    const ratio = typeof status.ratio === "number" && status.ratio >= 0 ? status.ratio : null;
+    return {
+      ratio,
+      seedingSeconds: toNumber(status.seeding_time),
+    };
+  }
+
+  async getImportSource(infoHash: string): Promise<DownloadImportSource> {
+    const status = await this.getStatus(infoHash, ["name", "hash", "save_path", "files", "file_priorities"]);
+    const savePath = status.save_path ?? "";
+    const selectedPaths = (status.files ?? [])
+      .map((file, index) => ({ path: file.path ?? "", priority: status.file_priorities?.[index] ?? 1 }))
+      .filter((file) => file.path.length > 0 && file.priority > 0)
+      .map((file) => (savePath ? path.join(savePath, file.path) : file.path));
+    return { basePath: torrentPath(status), selectedPaths };
+  }
+
+  async remove(infoHash: string): Promise<void> {
+    await this.call("core.remove_torrent", [infoHash.toLowerCase(), false]);
+  }
+}
@@ -0,0 +1,106 @@
+import { DelugeClient } from "./deluge";
+import { NzbgetClient } from "./nzbget";
+import { QbittorrentClient } from "./qbittorrent";
+import { RtorrentClient } from "./rtorrent";
+import { SabnzbdClient } from "./sabnzbd";
+import { TransmissionClient } from "./transmission";
+
+import type { AppSettings, ReleaseProtocol } from "./app-types";
+
+/**
+ * What the download worker and progress views need from a download client.
+ * Byte counts and rates are null when the client does not report them.
+ */
+export type DownloadState = {
+  name: string | null;
+  hash: string | null;
+  complete: boolean;
+  isActive: boolean;
+  basePath: string | null;
+  bytesDone: number | null;
+  sizeBytes: number | null;
+  leftBytes: number | null;
+  downRate: number | null;
+  message: string | null;
+};
+
+/** Upload progress of a finished torrent; fields are null when the client does not report them. */
+export type SeedingState = {
+  ratio: number | null;
+  seedingSeconds: number | null;
+};
+
+export type DownloadImportSource = {
+  basePath: string | null;
+  selectedPaths: string[];
+};
+
+/**
+ * Operations shared by torrent and Usenet clients. Downloads are addressed by
+ * the torrent info hash or by the id the Usenet client assigned on add.
+ */
+export type DownloadTracker = {
+  /** Human-readable client name used in logs and release errors, e.g. `qBittorrent`. */
+  label: string;
+  getDownloadState(downloadId: string): Promise<DownloadState>;
+  getImportSource(downloadId: string): Promise<DownloadImportSource>;
+  /** Drops the download from the client; downloaded data stays on disk. */
+  remove(downloadId: string): Promise<void>;
+};
+
+export type DownloadClient = DownloadTracker & {
+  addTorrent(torrentBytes: Uint8Array): Promise<void>;
+  /** Returns null when the client no longer has the torrent. */
+  getSeedingState(infoHash: string): Promise<SeedingState | null>;
+};
+
+export type UsenetClient = DownloadTracker & {
+  /** Queues an NZB and returns the client's id for the new download. */
+  addNzb(nzbBytes: Uint8Array, name: string): Promise<string>;
+};
+
+export type DownloadClients = {
+  torrent: DownloadClient;
+  usenet: UsenetClient | null;
+};
+
+export function createDownloadClient(settings: AppSettings): DownloadClient {
+  if (settings.downloadClient === "qbittorrent") {
+    return new QbittorrentClient(settings.qbittorrent);
+  }
+  if (settings.downloadClient === "transmission") {
+    return new TransmissionClient(settings.transmission);
+  }
+  if (settings.downloadClient === "deluge") {
+    return new DelugeClient(settings.deluge);
+  }
+  return new RtorrentClient(settings.rtorrent);
+}
+
+export function createUsenetClient(settings: AppSettings): UsenetClient | null {
+  if (settings.usenetClient === "sabnzbd") {
+    return new SabnzbdClient(settings.sabnzbd);
+  }
+  if (settings.usenetClient === "nzbget") {
+    return new NzbgetClient(settings.nzbget);
+  }
+  return null;
+}
+
+export function createDownloadClients(settings: AppSettings): DownloadClients {
+  return { torrent: createDownloadClient(settings), usenet: createUsenetClient(settings) };
+}
+
+/**
+ * Picks the client that owns a release and the id it knows the download by.
+ * Returns null when the release has no id yet or its protocol has no client configured.
+ */
+export function downloadTarget(
+  clients: DownloadClients,
+  release: { protocol: ReleaseProtocol | null; info_hash: string | null; download_id: string | null }
+): { client: DownloadTracker; downloadId: string } | null {
+  if (release.protocol === "usenet") {
+    return clients.usenet && release.download_id ? { client: clients.usenet, downloadId: release.download_id } : null;
+  }
+  return release.info_hash ? { client: clients.torrent, downloadId: release.info_hash } : null;
+}
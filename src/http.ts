@@ -14,6 +14,7 @@ import {
 } from "./http/asset-routes";
 import { createAppAuthRoutes, createLoginRoutes, createLogoutRoutes } from "./http/auth-routes";
 import { createFeedRoutes } from "./http/feed-routes";
+import { createOpdsRoutes } from "./http/opds-routes";
 import { createRequestContextMiddleware, type HttpEnv } from "./http/middleware";
 import { createRpcRoutes } from "./http/rpc-routes";
 import { createActivityRoutes, createAddRoutes, createBookRoutes, createHomeRoutes, createLibraryRoutes } from "./http/user-routes";
@@ -39,6 +40,7 @@ export function createPodibleFetchHandler(repo: BooksRepo, startTime: number, bu
   app.route("/transcripts", createTranscriptsRoutes(repo));
   app.route("/covers", createCoverRoutes(repo));
   app.route("/ebook", createEbookRoutes(repo));
+  app.route("/opds", createOpdsRoutes(repo));
   app.route("/", createFeedRoutes(repo));
 
   app.onError((error, c) => {
@@ -64,6 +64,40 @@ function renderSettingsScript(): string {
           }
         }
 
+        async function suggestIndexerCategories() {
+          const status = document.getElementById("settings-status");
+          const editor = document.getElementById("settings-editor");
+          status.textContent = "Fetching indexer capabilities…";
+          try {
+            const nextSettings = JSON.parse(editor.value);
+            const result = await rpcCall("settings.indexerCaps", {});
+            let filled = 0;
+            const failed = [];
+            for (const indexer of result.indexers) {
+              if (indexer.error) {
+                failed.push(indexer.name + ": " + indexer.error);
+                continue;
+              }
+              const list = indexer.protocol === "usenet" ? nextSettings.newznab : nextSettings.torznab;
+              const source = (list || []).find(function (entry) { return entry.name === indexer.name; });
+              if (!source) continue;
+              source.categories = source.categories || {};
+              for (const key of ["audio", "ebook"]) {
+                if (!source.categories[key] && indexer.suggestedCategories[key]) {
+                  source.categories[key] = indexer.suggestedCategories[key];
+                  filled += 1;
+                }
+              }
+            }
+            editor.value = JSON.stringify(nextSettings, null, 2);
+            status.textContent =
+              "Filled " + filled + " empty categor" + (filled === 1 ? "y" : "ies") + ". Review and save." +
+              (failed.length > 0 ? " Failed: " + failed.join("; ") : "");
+          } catch (error) {
+            status.textContent = error instanceof Error ? error.message : String(error);
+          }
+        }
+
         async function wipeDatabase() {
           if (!window.confirm("Wipe the entire database? This cannot be undone.")) return;
           const status = document.getElementById("settings-status");
@@ -198,7 +232,7 @@ function renderManualSearchScript(): string {
                   '<td>' + escapeHtml(release.provider || '') + '</td>' +
                   '<td>' + escapeHtml(release.seeders ?? '') + '</td>' +
                   '<td>' + escapeHtml(formatBytes(release.sizeBytes)) + '</td>' +
-                  '<td><button type="button" data-snatch-book-id="' + escapeHtml(bookId) + '" data-snatch-provider="' + escapeHtml(release.provider || '') + '" data-snatch-title="' + escapeHtml(release.title || '') + '" data-snatch-media-type="' + escapeHtml(media) + '" data-snatch-url="' + escapeHtml(release.url || '') + '" data-snatch-guid="' + escapeHtml(release.guid || '') + '" data-snatch-info-hash="' + escapeHtml(release.infoHash || '') + '" data-snatch-size-bytes="' + escapeHtml(release.sizeBytes ?? '') + '">Snatch</button></td>' +
+                  '<td><button type="button" data-snatch-book-id="' + escapeHtml(bookId) + '" data-snatch-provider="' + escapeHtml(release.provider || '') + '" data-snatch-title="' + escapeHtml(release.title || '') + '" data-snatch-media-type="' + escapeHtml(media) + '" data-snatch-url="' + escapeHtml(release.url || '') + '" data-snatch-guid="' + escapeHtml(release.guid || '') + '" data-snatch-protocol="' + escapeHtml(release.protocol || 'torrent') + '" data-snatch-info-hash="' + escapeHtml(release.infoHash || '') + '" data-snatch-size-bytes="' + escapeHtml(release.sizeBytes ?? '') + '">Snatch</button></td>' +
                 '</tr>';
               }).join('');
             }
@@ -256,6 +290,7 @@ function renderManualSearchScript(): string {
               mediaType: button.getAttribute("data-snatch-media-type"),
               url: button.getAttribute("data-snatch-url"),
               guid: button.getAttribute("data-snatch-guid") || undefined,
+              protocol: button.getAttribute("data-snatch-protocol") || undefined,
               infoHash: button.getAttribute("data-snatch-info-hash") || undefined,
               sizeBytes: button.getAttribute("data-snatch-size-bytes") || undefined,
             });
@@ -330,6 +365,7 @@ export function renderManualImportScript(): string {
 function renderSettingsBootstrapScript(): string {
   return `
         document.getElementById("settings-save-btn")?.addEventListener("click", saveSettings);
+        document.getElementById("indexer-caps-btn")?.addEventListener("click", suggestIndexerCategories);
         document.getElementById("wipe-db-btn")?.addEventListener("click", wipeDatabase);
   `;
 }
@@ -362,6 +398,7 @@ function renderJobsBootstrapScript(): string {
 function renderLegacyAdminBootstrapScript(): string {
   return `
         document.getElementById("settings-save-btn")?.addEventListener("click", saveSettings);
+        document.getElementById("indexer-caps-btn")?.addEventListener("click", suggestIndexerCategories);
         document.getElementById("wipe-db-btn")?.addEventListener("click", wipeDatabase);
         document.getElementById("manual-search-btn")?.addEventListener("click", runManualSearch);
         document.getElementById("manual-group-snatch-btn")?.addEventListener("click", snatchCheckedAsManifestation);
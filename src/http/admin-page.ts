@@ -1,6 +1,21 @@
 import { BooksRepo } from "../repo";
-import type { AppSettings, DownloadView, JobRow, JobType, SessionWithUserRow } from "../app-types";
+import type {
+  AppSettings,
+  DownloadView,
+  FeedTokenScope,
+  InboxItemRow,
+  JobRow,
+  JobType,
+  LibraryReorganizeReport,
+  ReleaseBlocklistRow,
+  ReleaseRow,
+  SessionWithUserRow,
+  WantedMediaView,
+} from "../app-types";
 import { manifestationDurationMs, preferredAudioManifestationsForBooks } from "../library/media";
+import { latestLibraryReorganize } from "../library/reorganize";
+import { formatSeedingRule, seedingRuleFor } from "../library/seeding";
+import { listWantedMediaForSettings } from "../library/wanted";
 
 import { addApiKey, escapeHtml, messageMarkup, renderAppPage } from "./common";
 import { renderAdminOpsPageScript, renderAdminSettingsPageScript } from "./admin-page-client";
@@ -76,6 +91,13 @@ const OPS_JOB_TYPES: JobType[] = [
   "chapter_analysis",
   "cover_generation",
   "metadata_hydration",
+  "seeding_check",
+  "wanted_search",
+  "rss_sync",
+  "upgrade_cleanup",
+  "library_reorganize",
+  "inbox_scan",
+  "tag_write",
 ];
 
 function jobTarget(job: JobRow): string {
@@ -117,6 +139,86 @@ function renderDownloadOpsItem(download: DownloadView): string {
   return renderOpsItem(`download job ${download.job_id}`, detail, download.book_id ? `/book/${download.book_id}` : null);
 }
 
+function renderSeedingOpsItem(release: ReleaseRow & { book_title: string }, settings: AppSettings): string {
+  const rule = seedingRuleFor(settings, release.provider);
+  const status = release.seed_status ?? (rule ? "awaiting check" : "no seeding goal");
+  const detail = [
+    status,
+    release.provider,
+    release.seed_ratio !== null ? `ratio ${release.seed_ratio.toFixed(2)}` : null,
+    release.seed_seconds !== null ? `seeded ${Math.round(release.seed_seconds / 60)} min` : null,
+    rule ? `goal ${formatSeedingRule(rule)}` : null,
+    release.seed_error ? `error: ${release.seed_error}` : null,
+  ]
+    .filter(Boolean)
+    .join(" - ");
+  return renderOpsItem(`${release.book_title} (release ${release.id})`, detail, `/book/${release.book_id}`);
+}
+
+function renderWantedOpsItem(wanted: WantedMediaView): string {
+  const detail = [
+    wanted.reason === "upgrade" ? `${wanted.media_type} upgrade from score ${wanted.current_score}` : wanted.media_type,
+    wanted.next_search_at ? `next search ${wanted.next_search_at}` : "search due",
+    wanted.last_outcome ? `last ${wanted.last_outcome.replace("_", " ")} at ${wanted.last_searched_at}` : "never searched",
+    wanted.search_count > 0 ? `${wanted.search_count} search${wanted.search_count === 1 ? "" : "es"}` : null,
+    wanted.last_outcome !== "snatched" ? wanted.last_detail : null,
+  ]
+    .filter(Boolean)
+    .join(" - ");
+  return renderOpsItem(`${wanted.title} by ${wanted.author}`, detail, `/book/${wanted.book_id}`);
+}
+
+function blocklistMatchLabel(entry: ReleaseBlocklistRow): string {
+  if (entry.info_hash) return `info hash ${entry.info_hash}`;
+  if (entry.guid) return `guid ${entry.guid}`;
+  return `title ~ ${entry.title_pattern ?? ""}`;
+}
+
+function renderBlocklistRow(entry: ReleaseBlocklistRow, bookTitle: string | null, apiKey: string | null): string {
+  const scope = entry.book_id
+    ? `<a href="/book/${entry.book_id}">${escapeHtml(bookTitle ?? `book ${entry.book_id}`)}</a>`
+    : "all books";
+  return `<tr>
+    <td>${entry.id}</td>
+    <td>${scope}</td>
+    <td><code>${escapeHtml(blocklistMatchLabel(entry))}</code></td>
+    <td>${escapeHtml(entry.source.replace("_", " "))}</td>
+    <td>${escapeHtml(entry.reason || "")}</td>
+    <td>${escapeHtml(entry.created_at)}</td>
+    <td><form method="post" action="${escapeHtml(addApiKey(`/admin/blocklist/${entry.id}/remove`, apiKey))}">
+      <button type="submit">Remove</button>
+    </form></td>
+  </tr>`;
+}
+
+function renderInboxItem(item: InboxItemRow, bookTitle: string | null, apiKey: string | null): string {
+  const guess = item.guess_title ? `guess: ${item.guess_title}${item.guess_author ? ` by ${item.guess_author}` : ""}` : null;
+  const detail = [item.status, guess, item.status === "imported" ? `into ${bookTitle ?? `book ${item.book_id}`}` : null, item.detail]
+    .filter(Boolean)
+    .join(" - ");
+  if (item.status === "imported") {
+    return renderOpsItem(item.path, detail, item.book_id ? `/book/${item.book_id}` : null);
+  }
+  return `<div class="ops-item"><strong>${escapeHtml(item.path)}</strong><div class="muted">${escapeHtml(detail)}</div>
+    <form method="post" action="${escapeHtml(addApiKey(`/admin/inbox/${item.id}/assign`, apiKey))}" class="row">
+      <input type="number" name="bookId" min="1" list="inbox-books" placeholder="Book ID" required />
+      <button type="submit">Assign to book</button>
+    </form></div>`;
+}
+
+function renderReorganizeSummary(report: LibraryReorganizeReport | null): string {
+  if (!report) return `<div class="empty">No preview yet.</div>`;
+  const verb = report.dryRun ? "would move" : "moved";
+  const summary = `${report.dryRun ? "Preview" : "Run"} ${report.generatedAt} (job ${report.jobId}): ${verb} ${report.moves.length} file${
+    report.moves.length === 1 ? "" : "s"
+  }, ${report.unchanged} already in place, ${report.errors.length} error${report.errors.length === 1 ? "" : "s"}.`;
+  const items = [
+    ...report.errors.map((error) => renderOpsItem(`Book ${error.bookId}`, `error: ${error.message}`, `/book/${error.bookId}`)),
+    ...report.moves.slice(0, 50).map((move) => renderOpsItem(`${move.kind} of book ${move.bookId}`, `${move.from} -> ${move.to}`, `/book/${move.bookId}`)),
+  ];
+  return `<p class="muted">${escapeHtml(summary)}</p>${renderOpsList(items, "Everything already matches the templates.")}`;
+}
+
 function renderStatusKpi(label: string, value: number, detail: string): string {
   return `<div class="ops-kpi"><strong>${value}</strong><span>${escapeHtml(label)}</span><div class="muted">${escapeHtml(detail)}</div></div>`;
 }
@@ -199,6 +301,7 @@ export function renderAdminSettingsPage(
         <div class="settings-actions">
           <div class="settings-actions-left">
             <button id="settings-save-btn" type="button">Save Settings</button>
+            <button id="indexer-caps-btn" type="button">Suggest Indexer Categories</button>
           </div>
           <button id="wipe-db-btn" type="button" style="background: var(--danger); color: var(--danger-contrast); border: 1px solid var(--danger-border);">Wipe Entire Database</button>
         </div>
@@ -210,11 +313,17 @@ export function renderAdminSettingsPage(
   return adminPage("Admin Settings", body, settings, currentUser, apiKey, renderAdminSettingsPageScript(), options);
 }
 
+const FEED_TOKEN_SCOPE_LABELS: Record<FeedTokenScope, string> = {
+  added: "Books they added",
+  shelf: "Books on their shelves",
+  all: "Everything",
+};
+
 export function renderAdminUsersPage(
   repo: BooksRepo,
   settings: AppSettings,
   currentUser: SessionWithUserRow | null,
-  options: AdminPageOptions = {}
+  options: AdminPageOptions & { createdFeed?: { username: string; rssUrl: string; jsonUrl: string } | null } = {}
 ): Response {
   const apiKey = options.apiKey ?? null;
   const rows = repo.listUsers();
@@ -232,6 +341,36 @@ export function renderAdminUsersPage(
         )
         .join("")
     : `<tr><td colspan="6">No users yet.</td></tr>`;
+  const feedTokens = repo.listFeedTokens();
+  const feedTokenRows = feedTokens.length
+    ? feedTokens
+        .map(
+          (token) => `<tr>
+            <td>${token.id}</td>
+            <td>${escapeHtml(token.username)}</td>
+            <td>${escapeHtml(token.label || "")}</td>
+            <td>${escapeHtml(FEED_TOKEN_SCOPE_LABELS[token.scope])}</td>
+            <td>${escapeHtml(token.created_at)}</td>
+            <td>${escapeHtml(token.last_used_at || "never")}</td>
+            <td>${
+              token.revoked_at
+                ? `revoked ${escapeHtml(token.revoked_at)}`
+                : `<form method="post" action="${escapeHtml(addApiKey(`/admin/users/feed-tokens/${token.id}/revoke`, apiKey))}">
+                    <button type="submit">Revoke</button>
+                  </form>`
+            }</td>
+          </tr>`
+        )
+        .join("")
+    : `<tr><td colspan="7">No feed tokens yet.</td></tr>`;
+  const userOptions = rows.map((user) => `<option value="${user.id}">${escapeHtml(user.username)}</option>`).join("");
+  const scopeOptions = (Object.keys(FEED_TOKEN_SCOPE_LABELS) as FeedTokenScope[])
+    .map((scope) => `<option value="${scope}">${escapeHtml(FEED_TOKEN_SCOPE_LABELS[scope])}</option>`)
+    .join("");
+  const createdFeed = options.createdFeed
+    ? `<p class="muted" style="margin-top: 10px;">New feed for ${escapeHtml(options.createdFeed.username)}. Copy it now; it will not be shown again.</p>
+       <pre>${escapeHtml(options.createdFeed.rssUrl)}\n${escapeHtml(options.createdFeed.jsonUrl)}</pre>`
+    : "";
   const body = `
     <section class="hero"><h1>Users</h1><p>${rows.length} user${rows.length === 1 ? "" : "s"} with app access.</p></section>
     <section class="card admin-only-card">
@@ -240,6 +379,26 @@ export function renderAdminUsersPage(
         <thead><tr><th>ID</th><th>Provider</th><th>Username</th><th>Display Name</th><th>Admin</th><th>Updated</th></tr></thead>
         <tbody>${userRows}</tbody>
       </table></div>
+    </section>
+    <section class="card admin-only-card">
+      ${adminTitle("Feed Tokens")}
+      <p class="muted">Private podcast feed URLs. Each token carries its own scope and can be revoked without affecting sign-in.</p>
+      ${
+        rows.length
+          ? `<form method="post" action="${escapeHtml(addApiKey("/admin/users/feed-tokens", apiKey))}" class="row">
+              <select name="userId">${userOptions}</select>
+              <select name="scope">${scopeOptions}</select>
+              <input type="text" name="label" placeholder="Label (optional)" />
+              <button type="submit">Create feed token</button>
+            </form>`
+          : ""
+      }
+      ${createdFeed}
+      ${messageMarkup(options.notice, options.error)}
+      <div class="table-wrap" style="margin-top: 14px;"><table>
+        <thead><tr><th>ID</th><th>User</th><th>Label</th><th>Scope</th><th>Created</th><th>Last Used</th><th></th></tr></thead>
+        <tbody>${feedTokenRows}</tbody>
+      </table></div>
     </section>`;
   return adminPage("Admin Users", body, settings, currentUser, apiKey, "", options);
 }
@@ -262,6 +421,11 @@ export function renderAdminOpsPage(
   const recentDownloads = repo.listDownloads().slice(0, 40);
   const activeDownloads = recentDownloads.filter((download) => download.job_status === "queued" || download.job_status === "running" || download.release_status === "downloading");
   const failedDownloads = recentDownloads.filter((download) => download.job_status === "failed" || download.release_status === "failed");
+  const seedingReleases = repo.listSeedingReleases(12);
+  const wantedMedia = listWantedMediaForSettings(repo, settings);
+  const blocklist = repo.listBlocklist();
+  const inboxItems = repo.listInboxItems();
+  const inboxReview = inboxItems.filter((item) => item.status !== "imported");
   const contentRows = repo.listAdminContentOps();
   const failedContentRows = contentRows.filter((row) => row.transcript_status === "failed" || row.chapter_status === "failed");
   const pendingContentRows = contentRows.filter((row) => row.transcript_status === "pending" || row.chapter_status === "pending");
@@ -358,6 +522,92 @@ export function renderAdminOpsPage(
         <p class="muted">${contentRows.length} audio edition${contentRows.length === 1 ? "" : "s"} - ${withChapters} with chapters - ${failedContent} failed</p>
         ${renderOpsList(contentSummaryItems, "No content operations yet.")}
       </section>
+      <section class="card span-12 admin-only-card">
+        ${adminTitle("Wanted")}
+        <p class="muted">${wantedMedia.length} missing audio/ebook edition${wantedMedia.length === 1 ? "" : "s"}${
+          settings.wanted.enabled ? ` - re-searched from ${settings.wanted.retryMinutes} min, up to ${settings.wanted.dailySearchLimit} searches/day` : " - re-search disabled"
+        }</p>
+        ${renderOpsList(wantedMedia.slice(0, 20).map(renderWantedOpsItem), "Nothing is missing.")}
+      </section>
+      <section class="card span-12 admin-only-card">
+        ${adminTitle("Blocklist")}
+        <p class="muted">Releases every search skips. Failed imports and wrong-file reports add entries for their book automatically; a title pattern matches anywhere in the release title, with <code>*</code> for any text and a leading <code>^</code> or trailing <code>$</code> anchoring it.</p>
+        <form method="post" action="${escapeHtml(addApiKey("/admin/blocklist", apiKey))}" class="row">
+          <input type="text" name="infoHash" placeholder="Info hash" />
+          <input type="text" name="guid" placeholder="Indexer guid" />
+          <input type="text" name="titlePattern" placeholder="Title pattern" />
+          <input type="number" name="bookId" min="1" placeholder="Book ID (all books if empty)" />
+          <input type="text" name="reason" placeholder="Reason (optional)" />
+          <button type="submit">Add to blocklist</button>
+        </form>
+        <div class="table-wrap" style="margin-top: 14px;"><table>
+          <thead><tr><th>ID</th><th>Scope</th><th>Match</th><th>Source</th><th>Reason</th><th>Created</th><th></th></tr></thead>
+          <tbody>${
+            blocklist.length
+              ? blocklist
+                  .slice(0, 100)
+                  .map((entry) => renderBlocklistRow(entry, entry.book_id ? repo.getBookRow(entry.book_id)?.title ?? null : null, apiKey))
+                  .join("")
+              : `<tr><td colspan="7">No blocklisted releases.</td></tr>`
+          }</tbody>
+        </table></div>
+      </section>
+      <section class="card span-12 admin-only-card">
+        ${adminTitle("Library Layout")}
+        <p class="muted">Folders follow <code>${escapeHtml(settings.naming.folderTemplate)}</code> and files <code>${escapeHtml(
+          settings.naming.fileTemplate
+        )}</code>. Preview the moves a template change needs, then apply them.</p>
+        <div class="actions">
+          <form method="post" action="${escapeHtml(addApiKey("/admin/reorganize", apiKey))}">
+            <input type="hidden" name="dryRun" value="true" />
+            <button type="submit">Preview reorganize</button>
+          </form>
+          <form method="post" action="${escapeHtml(addApiKey("/admin/reorganize", apiKey))}">
+            <input type="hidden" name="dryRun" value="false" />
+            <button type="submit">Apply reorganize</button>
+          </form>
+        </div>
+        ${renderReorganizeSummary(latestLibraryReorganize(repo))}
+        <p class="muted">${
+          settings.tagWriting.enabled
+            ? "Tags, covers and chapters are written into library audio files after imports, metadata refreshes and chapter edits."
+            : "Tag writing is disabled."
+        }</p>
+        ${
+          settings.tagWriting.enabled
+            ? `<div class="actions">
+          <form method="post" action="${escapeHtml(addApiKey("/admin/tags", apiKey))}">
+            <button type="submit">Write tags for all books</button>
+          </form>
+        </div>`
+            : ""
+        }
+      </section>
+      <section class="card span-12 admin-only-card">
+        ${adminTitle("Inbox")}
+        <p class="muted">${
+          settings.inbox.enabled && settings.inbox.path
+            ? `Watching <code>${escapeHtml(settings.inbox.path)}</code> every ${settings.inbox.intervalMinutes} min; drops are imported with ${escapeHtml(settings.inbox.importMode)}.`
+            : "Inbox watching is disabled."
+        } ${inboxReview.length} drop${inboxReview.length === 1 ? "" : "s"} need${inboxReview.length === 1 ? "s" : ""} review.</p>
+        <datalist id="inbox-books">${repo
+          .listAllBooks()
+          .map((book) => `<option value="${book.id}">${escapeHtml(`${book.title} by ${book.author}`)}</option>`)
+          .join("")}</datalist>
+        ${renderOpsList(
+          [...inboxReview, ...inboxItems.filter((item) => item.status === "imported").slice(0, 10)].map((item) =>
+            renderInboxItem(item, item.book_id ? repo.getBookRow(item.book_id)?.title ?? null : null, apiKey)
+          ),
+          "Nothing has been dropped in the inbox."
+        )}
+      </section>
+      <section class="card span-12 admin-only-card">
+        ${adminTitle("Seeding")}
+        ${renderOpsList(
+          seedingReleases.map((release) => renderSeedingOpsItem(release, settings)),
+          "No imported torrents yet."
+        )}
+      </section>
       <section class="card span-12 admin-only-card">
         ${adminTitle("Raw Queues")}
         <details class="ops-details">
@@ -2,6 +2,11 @@ import { createHash } from "node:crypto";
 
 import { Hono } from "hono";
 
+import { blocklistEntryProblem } from "../library/blocklist";
+import { feedUrlsForToken, issueFeedToken, requestOrigin } from "../library/feed";
+import { assignInboxItem } from "../library/inbox";
+import { queueLibraryReorganize } from "../library/reorganize";
+import { queueTagWrite } from "../library/tag-writing";
 import { fetchPlexServerDevices } from "../plex";
 import { BooksRepo } from "../repo";
 import {
@@ -13,8 +18,8 @@ import {
 } from "./admin-page";
 import { curationRunsResponse, curationTraceResponse } from "./curation-dashboard";
 import { getCurrentSession, requireAdminSession, type HttpEnv } from "./middleware";
-import { formString } from "./route-helpers";
-import type { AppSettings } from "../app-types";
+import { formString, parseId } from "./route-helpers";
+import type { AppSettings, FeedTokenScope } from "../app-types";
 import type { BuildInfo } from "../build-info";
 
 type PlexServerView = {
@@ -129,6 +134,24 @@ export function createAdminRoutes(repo: BooksRepo, startTime: number, buildInfo:
     return c.redirect(`/admin/ops?notice=${encodeURIComponent(`Queued library refresh job ${job.id}.`)}`, 303);
   });
 
+  app.post("/reorganize", async (c) => {
+    const body = await c.req.parseBody();
+    const dryRun = formString(body, "dryRun") !== "false";
+    const job = queueLibraryReorganize(repo, dryRun);
+    return c.redirect(
+      `/admin/ops?notice=${encodeURIComponent(`Queued library reorganize ${dryRun ? "preview" : "run"} job ${job.id}.`)}`,
+      303
+    );
+  });
+
+  app.post("/tags", (c) => {
+    const job = queueTagWrite(repo, null);
+    if (!job) {
+      return c.redirect(`/admin/ops?error=${encodeURIComponent("Tag writing is disabled.")}`, 303);
+    }
+    return c.redirect(`/admin/ops?notice=${encodeURIComponent(`Queued tag write job ${job.id}.`)}`, 303);
+  });
+
   app.get("/", (c) => c.redirect("/admin/settings", 303));
 
   app.get("/settings", async (c) => {
@@ -145,7 +168,93 @@ export function createAdminRoutes(repo: BooksRepo, startTime: number, buildInfo:
     });
   });
 
-  app.get("/users", (c) => renderAdminUsersPage(repo, repo.getSettings(), getCurrentSession(c), { apiKey: null, ...adminRuntime }));
+  app.get("/users", (c) =>
+    renderAdminUsersPage(repo, repo.getSettings(), getCurrentSession(c), {
+      apiKey: null,
+      notice: c.req.query("notice"),
+      error: c.req.query("error"),
+      ...adminRuntime,
+    })
+  );
+
+  app.post("/users/feed-tokens", async (c) => {
+    const body = await c.req.parseBody();
+    const user = repo.getUserById(parseId(formString(body, "userId")));
+    const scope = formString(body, "scope").trim();
+    if (!user) {
+      return c.redirect(`/admin/users?error=${encodeURIComponent("Unknown user.")}`, 303);
+    }
+    if (scope !== "added" && scope !== "shelf" && scope !== "all") {
+      return c.redirect(`/admin/users?error=${encodeURIComponent("Unknown feed scope.")}`, 303);
+    }
+    const { token } = issueFeedToken(repo, user.id, scope as FeedTokenScope, formString(body, "label").trim() || null);
+    // Render instead of redirecting so the secret never lands in a URL or history entry.
+    return renderAdminUsersPage(repo, repo.getSettings(), getCurrentSession(c), {
+      apiKey: null,
+      createdFeed: { username: user.username, ...feedUrlsForToken(requestOrigin(c.req.raw), token) },
+      ...adminRuntime,
+    });
+  });
+
+  app.post("/users/feed-tokens/:tokenId/revoke", (c) => {
+    const revoked = repo.revokeFeedToken(parseId(c.req.param("tokenId")));
+    if (!revoked) {
+      return c.redirect(`/admin/users?error=${encodeURIComponent("Feed token not found.")}`, 303);
+    }
+    return c.redirect(`/admin/users?notice=${encodeURIComponent(`Revoked feed token ${revoked.id}.`)}`, 303);
+  });
+
+  app.post("/blocklist", async (c) => {
+    const body = await c.req.parseBody();
+    const input = {
+      infoHash: formString(body, "infoHash"),
+      guid: formString(body, "guid"),
+      titlePattern: formString(body, "titlePattern"),
+    };
+    const problem = blocklistEntryProblem(input);
+    if (problem) {
+      return c.redirect(`/admin/ops?error=${encodeURIComponent(`${problem}.`)}`, 303);
+    }
+    const rawBookId = formString(body, "bookId").trim();
+    const book = rawBookId ? repo.getBookRow(parseId(rawBookId)) : null;
+    if (rawBookId && !book) {
+      return c.redirect(`/admin/ops?error=${encodeURIComponent("Unknown book.")}`, 303);
+    }
+    const entry = repo.createBlocklistEntry({
+      ...input,
+      bookId: book?.id ?? null,
+      source: "manual",
+      reason: formString(body, "reason").trim() || null,
+    });
+    return c.redirect(`/admin/ops?notice=${encodeURIComponent(`Saved blocklist entry ${entry.id}.`)}`, 303);
+  });
+
+  app.post("/blocklist/:entryId/remove", (c) => {
+    const entryId = parseId(c.req.param("entryId"));
+    if (!repo.deleteBlocklistEntry(entryId)) {
+      return c.redirect(`/admin/ops?error=${encodeURIComponent("Blocklist entry not found.")}`, 303);
+    }
+    return c.redirect(`/admin/ops?notice=${encodeURIComponent(`Removed blocklist entry ${entryId}.`)}`, 303);
+  });
+
+  app.post("/inbox/:itemId/assign", async (c) => {
+    const itemId = parseId(c.req.param("itemId"));
+    const body = await c.req.parseBody();
+    const rawBookId = formString(body, "bookId").trim();
+    const book = rawBookId ? repo.getBookRow(parseId(rawBookId)) : null;
+    if (!book) {
+      return c.redirect(`/admin/ops?error=${encodeURIComponent("Unknown book.")}`, 303);
+    }
+    try {
+      const item = await assignInboxItem(repo, itemId, book.id);
+      if (item.status !== "imported") {
+        return c.redirect(`/admin/ops?error=${encodeURIComponent(`Inbox import failed: ${item.detail ?? "unknown error"}.`)}`, 303);
+      }
+    } catch (error) {
+      return c.redirect(`/admin/ops?error=${encodeURIComponent(`${(error as Error).message}.`)}`, 303);
+    }
+    return c.redirect(`/admin/ops?notice=${encodeURIComponent(`Imported inbox item ${itemId} into ${book.title}.`)}`, 303);
+  });
 
   app.get("/ops", (c) =>
     renderAdminOpsPage(repo, repo.getSettings(), getCurrentSession(c), {
@@ -1,21 +1,25 @@
 import { Hono } from "hono";
 
 import {
+  buildManifestationChapterExport,
   buildManifestationChapters,
   streamAudioManifestation,
   streamExtension,
+  streamManifestationEpisode,
 } from "../library/media";
+import { loadStoredManifestationTranscriptPayload } from "../library/chapter-analysis";
+import { CHAPTER_FORMATS, chapterFormatForAccept, chapterFormatForSuffix, renderChapters } from "../library/chapter-formats";
+import { feedScopeIncludesBook } from "../library/feed";
+import { renderTranscript, transcriptFormatForSuffix, TRANSCRIPT_FORMATS } from "../library/transcript-formats";
 import { BooksRepo } from "../repo";
-import { requireAuthenticatedRequest, type HttpEnv } from "./middleware";
-import { jsonResponse, parseId } from "./route-helpers";
+import { requireAuthenticatedRequest, requireFeedAccess, type HttpEnv } from "./middleware";
+import { contentDispositionAttachment, jsonResponse, parseId } from "./route-helpers";
+import type { FeedTokenWithUserRow } from "../app-types";
 
-function contentDispositionAttachment(filename: string): string {
-  const fallback = filename
-    .normalize("NFKD")
-    .replace(/[^\x20-\x7E]+/g, "")
-    .replace(/[\\"]/g, "_")
-    .trim() || "download";
-  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+function feedTokenAllowsBook(repo: BooksRepo, feedToken: FeedTokenWithUserRow | null, bookId: number): boolean {
+  if (!feedToken) return true;
+  const book = repo.getBook(bookId);
+  return book !== null && feedScopeIncludesBook(repo, { userId: feedToken.user_id, scope: feedToken.scope }, book);
 }
 
 export function createAssetsIndexRoutes(repo: BooksRepo): Hono<HttpEnv> {
@@ -35,45 +39,92 @@ export function createAssetsIndexRoutes(repo: BooksRepo): Hono<HttpEnv> {
 
 export function createStreamRoutes(repo: BooksRepo): Hono<HttpEnv> {
   const app = new Hono<HttpEnv>();
-  app.use("*", requireAuthenticatedRequest);
+  app.use("*", requireFeedAccess(repo));
   app.get("/m/:idPart", async (c) => {
     const manifestationId = parseId(c.req.param("idPart").split(".")[0] ?? "");
     const target = repo.getManifestationWithContainers(manifestationId);
-    if (!target) {
+    if (!target || !feedTokenAllowsBook(repo, c.get("feedToken"), target.manifestation.book_id)) {
       return c.notFound();
     }
     const book = repo.getBookRow(target.manifestation.book_id);
     return streamAudioManifestation(c.req.raw, repo, target.manifestation, target.containers, book?.cover_path);
   });
+  app.get("/m/:manifestationId/episodes/:idPart", async (c) => {
+    const manifestationId = parseId(c.req.param("manifestationId"));
+    const episodeNumber = parseId(c.req.param("idPart").split(".")[0] ?? "");
+    const target = repo.getManifestationWithContainers(manifestationId);
+    if (!target || !feedTokenAllowsBook(repo, c.get("feedToken"), target.manifestation.book_id)) {
+      return c.notFound();
+    }
+    return streamManifestationEpisode(c.req.raw, repo, target.manifestation, target.containers, episodeNumber - 1);
+  });
   return app;
 }
 
 export function createChaptersRoutes(repo: BooksRepo): Hono<HttpEnv> {
   const app = new Hono<HttpEnv>();
-  app.use("*", requireAuthenticatedRequest);
+  app.use("*", requireFeedAccess(repo));
   app.get("/m/:idPart", async (c) => {
-    const manifestationId = parseId(c.req.param("idPart").replace(/\.json$/i, ""));
+    const [idText = "", ...suffixParts] = c.req.param("idPart").split(".");
+    const suffix = suffixParts.join(".");
+    const format = suffix ? chapterFormatForSuffix(suffix) : chapterFormatForAccept(c.req.header("accept"));
+    const manifestationId = parseId(idText);
     const target = repo.getManifestationWithContainers(manifestationId);
-    if (!target) {
+    if (!format || !target || !feedTokenAllowsBook(repo, c.get("feedToken"), target.manifestation.book_id)) {
       return c.json({ error: "not_found" }, 404);
     }
-    const chapters = await buildManifestationChapters(repo, target.manifestation, target.containers);
-    if (!chapters) {
+    if (format === "json") {
+      const chapters = await buildManifestationChapters(repo, target.manifestation, target.containers);
+      if (!chapters) {
+        return c.json({ error: "not_found" }, 404);
+      }
+      return jsonResponse(c.req.raw, chapters);
+    }
+    const book = repo.getBook(target.manifestation.book_id);
+    const chapters = await buildManifestationChapterExport(repo, target.manifestation, target.containers);
+    if (!book || !chapters) {
       return c.json({ error: "not_found" }, 404);
     }
-    return jsonResponse(c.req.raw, chapters);
+    const body = renderChapters({ title: book.title, author: book.author, ...chapters }, format);
+    return new Response(body, {
+      headers: {
+        "Content-Type": `${CHAPTER_FORMATS[format].mime}; charset=utf-8`,
+        "Cache-Control": "no-store",
+        ...(suffix ? {} : { Vary: "Accept" }),
+      },
+    });
   });
   return app;
 }
 
 export function createTranscriptsRoutes(repo: BooksRepo): Hono<HttpEnv> {
   const app = new Hono<HttpEnv>();
-  app.use("*", requireAuthenticatedRequest);
+  app.use("*", requireFeedAccess(repo));
   app.get("/m/:idPart", async (c) => {
-    const manifestationId = parseId(c.req.param("idPart").replace(/\.json$/i, ""));
-    if (!repo.getManifestationWithContainers(manifestationId)) {
+    const [idText = "", ...suffixParts] = c.req.param("idPart").split(".");
+    const suffix = suffixParts.join(".");
+    const manifestationId = parseId(idText);
+    const target = repo.getManifestationWithContainers(manifestationId);
+    if (!target || !feedTokenAllowsBook(repo, c.get("feedToken"), target.manifestation.book_id)) {
       return c.json({ error: "not_found" }, 404);
     }
+    const internalJson = !suffix || suffix.toLowerCase() === "json";
+    const format = internalJson ? null : transcriptFormatForSuffix(suffix);
+    if (!internalJson && !format) {
+      return c.json({ error: "not_found" }, 404);
+    }
+    if (format) {
+      const payload = await loadStoredManifestationTranscriptPayload(repo, manifestationId);
+      if (!payload) {
+        return c.json({ error: "not_found" }, 404);
+      }
+      return new Response(renderTranscript(payload, format), {
+        headers: {
+          "Content-Type": `${TRANSCRIPT_FORMATS[format].mime}; charset=utf-8`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
     const row = repo.getManifestationTranscript(manifestationId);
     if (!row || row.status !== "succeeded" || !row.transcript_path) {
       return c.json({ error: "not_found" }, 404);
@@ -94,11 +145,11 @@ export function createTranscriptsRoutes(repo: BooksRepo): Hono<HttpEnv> {
 
 export function createCoverRoutes(repo: BooksRepo): Hono<HttpEnv> {
   const app = new Hono<HttpEnv>();
-  app.use("*", requireAuthenticatedRequest);
+  app.use("*", requireFeedAccess(repo));
   app.get("/:idPart", async (c) => {
     const bookId = parseId(c.req.param("idPart").replace(/\.jpg$/i, ""));
     const book = repo.getBookRow(bookId);
-    if (!book?.cover_path) {
+    if (!book?.cover_path || !feedTokenAllowsBook(repo, c.get("feedToken"), book.id)) {
       return c.notFound();
     }
     const file = Bun.file(book.cover_path);
@@ -116,11 +167,15 @@ export function createCoverRoutes(repo: BooksRepo): Hono<HttpEnv> {
 
 export function createEbookRoutes(repo: BooksRepo): Hono<HttpEnv> {
   const app = new Hono<HttpEnv>();
-  app.use("*", requireAuthenticatedRequest);
+  app.use("*", requireFeedAccess(repo, { basicChallenge: true }));
   app.get("/:assetId", async (c) => {
     const assetId = parseId(c.req.param("assetId"));
     const target = repo.getAssetWithFiles(assetId);
-    if (!target || (target.asset.mime !== "application/epub+zip" && target.asset.mime !== "application/pdf")) {
+    if (
+      !target ||
+      (target.asset.mime !== "application/epub+zip" && target.asset.mime !== "application/pdf") ||
+      !feedTokenAllowsBook(repo, c.get("feedToken"), target.asset.book_id)
+    ) {
       return c.notFound();
     }
     const first = target.files[0];
@@ -1,14 +1,35 @@
 import { buildManifestationChapters, manifestationDurationMs, selectPreferredAudioManifestation, streamExtensionForManifestation } from "../library/media";
 import { getBookTranscriptStatus, hasStoredManifestationTranscriptPayload, selectPreferredDownloadableEbookAsset } from "../library/chapter-analysis";
 import { CURRENT_OPENLIBRARY_METADATA_VERSION, openLibraryMetadataStatus } from "../library/hydration";
+import { buildBookmarkViews, type BookmarkView } from "../library/bookmarks";
+import { transcriptionConfigured } from "../library/transcription";
+import { formatQualityBreakdown, parseQualityBreakdown } from "../library/quality";
+import { formatEmbeddedTags, parseEmbeddedTags } from "../library/embedded-tags";
 import { BooksRepo } from "../repo";
-import type { AppSettings, AssetFileRow, AssetRow, LibraryBook, ManifestationRow, ReleaseRow, SessionWithUserRow } from "../app-types";
+import { formatPlaybackPosition } from "../utils/time";
+import type {
+  AppSettings,
+  AssetFileRow,
+  AssetRow,
+  ConsumptionState,
+  LibraryBook,
+  ManifestationRow,
+  ReleaseRow,
+  SessionWithUserRow,
+} from "../app-types";
 
 import type { TranscriptRequestResult } from "../library/chapter-analysis";
 
 import { addApiKey, escapeHtml, messageMarkup, renderAppPage } from "./common";
 import { renderManualImportPageScript } from "./admin-page-client";
-import { coverMarkup, describeBookState, formatBookStatusLine, formatMediaStatus, formatMinutes } from "./page-helpers";
+import {
+  coverMarkup,
+  describeBookState,
+  formatBookStatusLine,
+  formatConsumptionState,
+  formatMediaStatus,
+  formatMinutes,
+} from "./page-helpers";
 
 type BookAudioCandidate = {
   manifestation: ManifestationRow;
@@ -31,12 +52,57 @@ function describeTranscriptStatus(status: TranscriptRequestResult | null): strin
     case "missing_audio":
       return "No audio";
     case "missing_config":
-      return "Unavailable (API key not configured)";
+      return "Unavailable (transcription not configured)";
     default:
       return "Not ready yet";
   }
 }
 
+const CONSUMPTION_STATES: ConsumptionState[] = ["unstarted", "listening", "reading", "finished", "abandoned"];
+
+function renderConsumptionForm(bookId: number, state: ConsumptionState, apiKey: string | null): string {
+  return `<form class="consumption-form" method="post" action="${escapeHtml(addApiKey(`/book/${bookId}/consumption`, apiKey))}">
+    <label>My progress
+      <select name="state">
+        ${CONSUMPTION_STATES.map(
+          (candidate) =>
+            `<option value="${candidate}"${candidate === state ? " selected" : ""}>${escapeHtml(formatConsumptionState(candidate))}</option>`
+        ).join("")}
+      </select>
+    </label>
+    <button type="submit">Save</button>
+  </form>`;
+}
+
+function renderBookmarksSection(bookId: number, bookmarks: BookmarkView[], apiKey: string | null): string {
+  return `<section class="card span-12">
+    <div class="section-title-row">
+      <h2>Bookmarks</h2>
+      ${bookmarks.length > 0 ? `<a href="${escapeHtml(addApiKey(`/book/${bookId}/bookmarks.md`, apiKey))}">Export Markdown</a>` : ""}
+    </div>
+    ${
+      bookmarks.length > 0
+        ? `<div class="section-list">${bookmarks
+            .map(
+              (bookmark) => `<div class="bookmark-row">
+                <div>
+                  <strong>${escapeHtml(formatPlaybackPosition(bookmark.positionMs))}${
+                    bookmark.endMs !== null ? `–${escapeHtml(formatPlaybackPosition(bookmark.endMs))}` : ""
+                  }</strong>${bookmark.chapterTitle ? ` <span class="muted">${escapeHtml(bookmark.chapterTitle)}</span>` : ""}
+                  ${bookmark.note ? `<div>${escapeHtml(bookmark.note)}</div>` : ""}
+                  ${bookmark.transcriptText ? `<blockquote class="muted">${escapeHtml(bookmark.transcriptText)}</blockquote>` : ""}
+                </div>
+                <form method="post" action="${escapeHtml(addApiKey(`/book/${bookId}/bookmarks/${bookmark.id}/delete`, apiKey))}">
+                  <button type="submit">Delete</button>
+                </form>
+              </div>`
+            )
+            .join("")}</div>`
+        : `<div class="empty">No bookmarks yet. Add them from the app while listening.</div>`
+    }
+  </section>`;
+}
+
 function displayAddedByUser(book: LibraryBook): string | null {
   const user = book.addedByUser;
   if (!user) return null;
@@ -219,6 +285,27 @@ function renderManualImportSection(bookId: number): string {
       </section>`;
 }
 
+function renderChapterEditorSection(manifestationId: number, hasOverride: boolean): string {
+  return `
+      <section class="card span-12 admin-only-card" data-chapter-editor-panel data-manifestation-id="${manifestationId}">
+        <div class="section-title-row"><h2>Chapter editor</h2><span class="admin-only-pill">Admin only</span></div>
+        <p class="muted">Rename, split, merge, or nudge chapter starts against the transcript. Saved edits replace curated chapters for this edition and survive re-analysis until discarded.</p>
+        <p class="muted" data-chapter-editor-status>${hasOverride ? "Manual override applied." : "Showing curated or file chapters."}</p>
+        <div class="table-wrap">
+          <table>
+            <thead><tr><th>Start (s)</th><th>Title</th><th></th></tr></thead>
+            <tbody data-chapter-editor-rows><tr><td colspan="3">Loading chapters...</td></tr></tbody>
+          </table>
+        </div>
+        <div class="chapter-editor-transcript" data-chapter-editor-transcript hidden></div>
+        <div class="actions" style="margin-top: 12px;">
+          <button type="button" data-chapter-editor-save>Save override</button>
+          <button type="button" data-chapter-editor-reset>Revert unsaved edits</button>
+          <button type="button" data-chapter-editor-discard ${hasOverride ? "" : "hidden"}>Discard override</button>
+        </div>
+      </section>`;
+}
+
 function renderAdminManifestationSection(
   repo: BooksRepo,
   manifestations: ManifestationRow[],
@@ -239,6 +326,8 @@ function renderAdminManifestationSection(
         formatMinutes(manifestation.duration_ms),
         `${manifestation.total_size} bytes`,
         `score ${manifestation.preferred_score}`,
+        manifestation.replaces_manifestation_id ? `upgrade of #${manifestation.replaces_manifestation_id}` : null,
+        manifestation.superseded_at ? `superseded ${manifestation.superseded_at}` : null,
       ].filter(Boolean);
       const containerMarkup =
         containers.length > 0
@@ -246,9 +335,13 @@ function renderAdminManifestationSection(
               .map((asset) => {
                 const release = asset.source_release_id ? releasesById.get(asset.source_release_id) : null;
                 const files = repo.getAssetFiles(asset.id);
+                const quality = release ? parseQualityBreakdown(release.quality_json) : null;
+                const embeddedTags = parseEmbeddedTags(asset.embedded_tags_json);
                 return `<li>
                   <div><strong>Asset ${asset.id}</strong> • ${escapeHtml(asset.kind)} • ${escapeHtml(asset.mime)} • seq ${asset.sequence_in_manifestation}${release ? ` • release ${release.id}: ${escapeHtml(release.title)}` : ""}</div>
+                  ${quality ? `<div class="muted">Quality: ${escapeHtml(formatQualityBreakdown(quality))}</div>` : ""}
                   ${asset.import_note ? `<div class="muted">Import note: ${escapeHtml(asset.import_note)}</div>` : ""}
+                  ${embeddedTags ? `<div class="muted">Embedded tags: ${escapeHtml(formatEmbeddedTags(embeddedTags) || "none")}</div>` : ""}
                   ${
                     files.length > 0
                       ? `<ul>${files.map((file) => renderAdminAssetFile(file)).join("")}</ul>`
@@ -343,7 +436,8 @@ function numberValue(value: unknown): number | null {
 
 function renderAdminAssetFile(file: AssetFileRow): string {
   const source = file.source_path && file.source_path !== file.path ? ` • source ${file.source_path}` : "";
-  return `<li><code>${escapeHtml(file.path)}</code><span class="muted"> • ${file.size} bytes • ${formatMinutes(file.duration_ms)}${escapeHtml(source)}</span></li>`;
+  const mode = file.import_mode ? ` • ${file.import_mode}` : "";
+  return `<li><code>${escapeHtml(file.path)}</code><span class="muted"> • ${file.size} bytes • ${formatMinutes(file.duration_ms)}${escapeHtml(mode)}${escapeHtml(source)}</span></li>`;
 }
 
 function renderTranscriptRuntimeScript(bookId: number, manifestationId: number | null, transcriptHref: string): string {
@@ -366,7 +460,7 @@ function renderTranscriptRuntimeScript(bookId: number, manifestationId: number |
             case "running": return "Generating…";
             case "failed": return "Failed";
             case "missing_audio": return "No audio";
-            case "missing_config": return "Unavailable (API key not configured)";
+            case "missing_config": return "Unavailable (transcription not configured)";
             default: return "Not ready yet";
           }
         }
@@ -655,6 +749,193 @@ function renderManualReleaseSearchRuntimeScript(bookId: number): string {
   `;
 }
 
+function renderChapterEditorRuntimeScript(manifestationId: number): string {
+  return `
+    <script>
+      (() => {
+        const panel = document.querySelector('[data-chapter-editor-panel][data-manifestation-id="${manifestationId}"]');
+        if (!panel) return;
+        const rows = panel.querySelector('[data-chapter-editor-rows]');
+        const status = panel.querySelector('[data-chapter-editor-status]');
+        const transcript = panel.querySelector('[data-chapter-editor-transcript]');
+        const saveButton = panel.querySelector('[data-chapter-editor-save]');
+        const resetButton = panel.querySelector('[data-chapter-editor-reset]');
+        const discardButton = panel.querySelector('[data-chapter-editor-discard]');
+        let durationSeconds = null;
+        let saved = [];
+        let chapters = [];
+        let scrubIndex = null;
+
+        function setStatus(message) {
+          if (status) status.textContent = message;
+        }
+
+        function escapeText(value) {
+          return String(value ?? "").replace(/[&<>"']/g, (char) => ({
+            "&": "&amp;",
+            "<": "&lt;",
+            ">": "&gt;",
+            '"': "&quot;",
+            "'": "&#39;",
+          })[char]);
+        }
+
+        function formatTime(seconds) {
+          const total = Math.max(0, Number(seconds) || 0);
+          const hours = Math.floor(total / 3600);
+          const minutes = Math.floor((total % 3600) / 60);
+          const rest = (total % 60).toFixed(1).padStart(4, "0");
+          return (hours ? hours + ":" + String(minutes).padStart(2, "0") : String(minutes)) + ":" + rest;
+        }
+
+        async function rpc(method, params) {
+          const url = new URL("/rpc", window.location.origin);
+          url.search = window.location.search;
+          const response = await fetch(url.pathname + url.search, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+          });
+          const payload = await response.json();
+          if (payload.error) throw new Error(payload.error.data?.message || payload.error.message || "Request failed");
+          return payload.result;
+        }
+
+        function applyState(state) {
+          durationSeconds = state.durationSeconds;
+          saved = state.chapters.map((chapter) => ({ title: chapter.title, startTime: chapter.startTime }));
+          chapters = saved.map((chapter) => ({ ...chapter }));
+          if (discardButton) discardButton.hidden = !state.override;
+          setStatus(state.override ? "Manual override applied (saved " + state.override.updatedAt + ")." : "Showing curated or file chapters.");
+          scrubIndex = null;
+          render();
+        }
+
+        function chapterEnd(index) {
+          const next = chapters[index + 1];
+          return next ? next.startTime : (durationSeconds ?? chapters[index].startTime);
+        }
+
+        function render() {
+          if (!rows) return;
+          if (!chapters.length) {
+            rows.innerHTML = '<tr><td colspan="3">No chapter data yet.</td></tr>';
+            return;
+          }
+          rows.innerHTML = chapters.map((chapter, index) => '<tr>' +
+            '<td><input type="number" step="0.1" min="0" value="' + escapeText(chapter.startTime) + '" data-chapter-start="' + index + '" ' + (index === 0 ? 'disabled' : '') + ' style="width: 7em;" />' +
+              ' <span class="muted">' + escapeText(formatTime(chapter.startTime)) + '</span></td>' +
+            '<td><input type="text" value="' + escapeText(chapter.title) + '" data-chapter-title="' + index + '" /></td>' +
+            '<td class="actions">' +
+              (index === 0 ? '' : '<button type="button" data-chapter-nudge="' + index + '" data-delta="-1">-1s</button><button type="button" data-chapter-nudge="' + index + '" data-delta="1">+1s</button><button type="button" data-chapter-scrub="' + index + '">Transcript</button>') +
+              '<button type="button" data-chapter-split="' + index + '">Split</button>' +
+              (index < chapters.length - 1 ? '<button type="button" data-chapter-merge="' + index + '">Merge next</button>' : '') +
+            '</td>' +
+          '</tr>').join('');
+        }
+
+        function setStart(index, value) {
+          const previous = chapters[index - 1];
+          const next = chapters[index + 1];
+          const min = previous ? previous.startTime + 0.1 : 0;
+          const max = next ? next.startTime - 0.1 : (durationSeconds ?? Number.POSITIVE_INFINITY) - 0.1;
+          chapters[index].startTime = Math.round(Math.min(Math.max(value, min), max) * 1000) / 1000;
+          render();
+          if (scrubIndex === index) void scrub(index);
+        }
+
+        async function scrub(index) {
+          if (!transcript) return;
+          scrubIndex = index;
+          transcript.hidden = false;
+          transcript.innerHTML = '<p class="muted">Loading transcript...</p>';
+          try {
+            const excerpt = await rpc("chapters.transcriptWindow", { manifestationId: ${manifestationId}, time: chapters[index].startTime, radiusSeconds: 30 });
+            const boundaryButtons = excerpt.nearestCleanBoundaryTimes.slice(0, 4).map((time) =>
+              '<button type="button" data-chapter-snap="' + escapeText(time) + '">Snap to ' + escapeText(formatTime(time)) + '</button>'
+            ).join('');
+            transcript.innerHTML = '<h3>Around "' + escapeText(chapters[index].title) + '" at ' + escapeText(formatTime(chapters[index].startTime)) + '</h3>' +
+              (boundaryButtons ? '<div class="actions">' + boundaryButtons + '</div>' : '') +
+              '<div class="section-list">' + excerpt.utterances.map((utterance) =>
+                '<div class="chapter-row"><button type="button" data-chapter-snap="' + escapeText(utterance.startTime) + '">' + escapeText(formatTime(utterance.startTime)) + '</button>' +
+                '<span' + (utterance.startTime <= chapters[index].startTime && utterance.endTime >= chapters[index].startTime ? ' class="chapter-editor-current"' : '') + '>' + escapeText(utterance.text) + '</span></div>'
+              ).join('') + '</div>';
+          } catch (error) {
+            transcript.innerHTML = '<p class="muted">' + escapeText(error.message || "Transcript unavailable.") + '</p>';
+          }
+        }
+
+        rows?.addEventListener("change", (event) => {
+          const target = event.target;
+          if (!(target instanceof HTMLInputElement)) return;
+          if (target.dataset.chapterTitle !== undefined) {
+            chapters[Number(target.dataset.chapterTitle)].title = target.value;
+          } else if (target.dataset.chapterStart !== undefined) {
+            setStart(Number(target.dataset.chapterStart), Number(target.value));
+          }
+        });
+
+        rows?.addEventListener("click", (event) => {
+          const target = event.target;
+          if (!(target instanceof HTMLButtonElement)) return;
+          if (target.dataset.chapterNudge !== undefined) {
+            const index = Number(target.dataset.chapterNudge);
+            setStart(index, chapters[index].startTime + Number(target.dataset.delta));
+          } else if (target.dataset.chapterScrub !== undefined) {
+            void scrub(Number(target.dataset.chapterScrub));
+          } else if (target.dataset.chapterSplit !== undefined) {
+            const index = Number(target.dataset.chapterSplit);
+            const start = chapters[index].startTime;
+            const middle = Math.round(((start + chapterEnd(index)) / 2) * 1000) / 1000;
+            if (middle <= start) return;
+            chapters.splice(index + 1, 0, { title: chapters[index].title + " (continued)", startTime: middle });
+            render();
+            void scrub(index + 1);
+          } else if (target.dataset.chapterMerge !== undefined) {
+            chapters.splice(Number(target.dataset.chapterMerge) + 1, 1);
+            scrubIndex = null;
+            if (transcript) transcript.hidden = true;
+            render();
+          }
+        });
+
+        transcript?.addEventListener("click", (event) => {
+          const target = event.target;
+          if (!(target instanceof HTMLButtonElement) || target.dataset.chapterSnap === undefined || scrubIndex === null || scrubIndex === 0) return;
+          setStart(scrubIndex, Number(target.dataset.chapterSnap));
+        });
+
+        saveButton?.addEventListener("click", async () => {
+          setStatus("Saving...");
+          try {
+            applyState(await rpc("chapters.saveOverride", { manifestationId: ${manifestationId}, chapters }));
+          } catch (error) {
+            setStatus(error.message || "Save failed.");
+          }
+        });
+
+        resetButton?.addEventListener("click", () => {
+          chapters = saved.map((chapter) => ({ ...chapter }));
+          render();
+        });
+
+        discardButton?.addEventListener("click", async () => {
+          if (!window.confirm("Discard the manual chapter override?")) return;
+          try {
+            applyState(await rpc("chapters.discardOverride", { manifestationId: ${manifestationId} }));
+          } catch (error) {
+            setStatus(error.message || "Discard failed.");
+          }
+        });
+
+        rpc("chapters.get", { manifestationId: ${manifestationId} }).then(applyState).catch((error) => {
+          setStatus(error.message || "Could not load chapters.");
+        });
+      })();
+    </script>
+  `;
+}
+
 function renderCoverRuntimeScript(bookId: number): string {
   return `
     <script>
@@ -790,15 +1071,20 @@ export async function renderBookPage(
   const chaptersUrl = audioChoice ? addApiKey(`/chapters/m/${audioChoice.manifestation.id}.json`, apiKey) : null;
   const ebookUrl = ebook ? addApiKey(`/ebook/${ebook.id}`, apiKey) : null;
   const audioDurationMs = audioChoice ? manifestationDurationMs(audioChoice.manifestation, audioContainers) : null;
-  const apiKeyConfigured = Boolean(settings.agents.apiKey.trim());
+  const transcriptionReady = transcriptionConfigured(settings);
   const transcriptStatus =
     audio && selectedManifestationId !== null
-      ? await getBookTranscriptStatus(repo, bookId, { apiKeyConfigured, manifestationId: selectedManifestationId })
+      ? await getBookTranscriptStatus(repo, bookId, { transcriptionConfigured: transcriptionReady, manifestationId: selectedManifestationId })
       : null;
   const allReleases = repo.listReleasesByBook(bookId);
   const releases = allReleases.slice(0, 8);
   const isAdmin = Boolean(apiKey) || (flash.currentUser?.is_admin ?? 0) === 1;
   const stateSummary = describeBookState(book);
+  const currentUserId = flash.currentUser?.user_id ?? null;
+  const consumption = currentUserId ? repo.getBookConsumption(currentUserId, bookId) : null;
+  const consumptionState: ConsumptionState = consumption?.state ?? "unstarted";
+  const resumePosition = currentUserId ? repo.getLatestPlaybackPositionForBook(currentUserId, bookId) : null;
+  const bookmarks = currentUserId ? await buildBookmarkViews(repo, repo.listBookmarks(currentUserId, { bookId })) : [];
   const addedByUser = displayAddedByUser(book);
   const body = `
     <section class="hero">
@@ -812,11 +1098,22 @@ export async function renderBookPage(
             <span class="pill">${escapeHtml(stateSummary)}</span>
             <span class="pill">${escapeHtml(formatMediaStatus("Audio", book.audioStatus))}</span>
             <span class="pill">${escapeHtml(formatMediaStatus("eBook", book.ebookStatus))}</span>
+            ${
+              consumptionState === "unstarted"
+                ? ""
+                : `<span class="pill consumption-pill consumption-${consumptionState}">${escapeHtml(formatConsumptionState(consumptionState))}</span>`
+            }
           </div>
+          ${
+            resumePosition && consumptionState !== "finished"
+              ? `<p class="muted" style="margin-top: 8px;">Resume at ${escapeHtml(formatPlaybackPosition(resumePosition.position_ms))}${resumePosition.device_name ? ` from ${escapeHtml(resumePosition.device_name)}` : ""}</p>`
+              : ""
+          }
           <div class="actions" style="margin-top: 12px;">
             ${streamUrl ? `<a class="button-link button-link-primary" href="${escapeHtml(streamUrl)}">Play audio</a>` : ""}
             ${ebookUrl ? `<a class="button-link" href="${escapeHtml(ebookUrl)}">Download EPUB/PDF</a>` : ""}
           </div>
+          ${currentUserId ? renderConsumptionForm(book.id, consumptionState, apiKey) : ""}
           ${renderEditionPicker(book.id, audioCandidates, selectedManifestationId, apiKey)}
           ${messageMarkup(flash.notice, flash.error)}
           <p style="margin-top: 12px;">${escapeHtml(book.description || `${book.title} by ${book.author}`)}</p>
@@ -861,7 +1158,7 @@ export async function renderBookPage(
           <a class="button-link" data-transcript-link ${transcriptUrl && transcriptStatus?.status === "current" ? `href="${escapeHtml(transcriptUrl)}"` : `href="#" hidden`}>Transcript JSON</a>
           <button type="button" data-transcript-request ${canRequestTranscription(transcriptStatus) ? "" : "hidden"} ${transcriptStatus?.status === "missing_config" ? "disabled" : ""}>${escapeHtml(transcriptRequestLabel(transcriptStatus))}</button>
         </div>
-        ${transcriptStatus?.status === "missing_config" ? `<p class="muted" style="margin-top:8px;">Transcription requires an OpenAI API key in Settings.</p>` : ""}
+        ${transcriptStatus?.status === "missing_config" ? `<p class="muted" style="margin-top:8px;">Transcription needs an OpenAI API key, a Whisper-compatible server, or a local command in Settings.</p>` : ""}
         ${transcriptStatus?.status === "failed" && transcriptStatus.error ? `<p class="muted" style="margin-top:8px;">Last error: ${escapeHtml(transcriptStatus.error)}</p>` : ""}
       </section>
       ${renderReportIssueSection(book.id, audioChoice, ebook)}
@@ -884,6 +1181,7 @@ export async function renderBookPage(
             : `<div class="empty">No chapter data yet.</div>`
         }
       </section>
+      ${currentUserId ? renderBookmarksSection(book.id, bookmarks, apiKey) : ""}
       <section class="card span-12">
         <h2>Release history</h2>
         ${
@@ -899,6 +1197,7 @@ export async function renderBookPage(
             : `<div class="empty">No release activity yet.</div>`
         }
       </section>
+      ${isAdmin && audioChoice ? renderChapterEditorSection(audioChoice.manifestation.id, repo.getChapterOverride(audioChoice.manifestation.id) !== null) : ""}
       ${isAdmin ? renderAdminManifestationSection(repo, manifestations, allReleases, selectedManifestationId) : ""}
       ${
         isAdmin
@@ -970,6 +1269,32 @@ export async function renderBookPage(
       .admin-curation-summary code {
         overflow-wrap: anywhere;
       }
+      .bookmark-row {
+        display: flex;
+        justify-content: space-between;
+        gap: 12px;
+        padding: 8px 0;
+        border-bottom: 1px solid var(--line-soft);
+      }
+      .bookmark-row blockquote {
+        margin: 6px 0 0;
+        padding-left: 10px;
+        border-left: 2px solid var(--line);
+      }
+      .consumption-form {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 10px;
+        align-items: center;
+        margin-top: 10px;
+        font-size: 14px;
+      }
+      .consumption-finished {
+        border-color: color-mix(in srgb, var(--accent) 55%, var(--line));
+        background: var(--accent-soft);
+        color: var(--accent);
+        font-weight: 650;
+      }
       .release-search-controls {
         display: flex;
         flex-wrap: wrap;
@@ -981,11 +1306,20 @@ export async function renderBookPage(
         min-width: min(100%, 260px);
         flex: 1 1 260px;
       }
+      .chapter-editor-transcript {
+        margin-top: 12px;
+        max-height: 320px;
+        overflow-y: auto;
+      }
+      .chapter-editor-current {
+        font-weight: 600;
+      }
     </style>
     ${audio ? renderTranscriptRuntimeScript(book.id, selectedManifestationId, transcriptUrl ?? "") : ""}
     ${renderReportIssueRuntimeScript(book.id)}
     ${isAdmin ? renderManualReleaseSearchRuntimeScript(book.id) : ""}
     ${isAdmin ? renderManualImportPageScript() : ""}
+    ${isAdmin && audioChoice ? renderChapterEditorRuntimeScript(audioChoice.manifestation.id) : ""}
     ${renderCoverRuntimeScript(book.id)}`;
   return renderAppPage(
     book.title,
@@ -1,23 +1,49 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 
-import { buildJsonFeed, buildRssFeed } from "../library/feed";
+import { buildJsonFeed, buildRssFeed, type RssFeedSelection } from "../library/feed";
 import { BooksRepo } from "../repo";
-import { requireAuthenticatedRequest, type HttpEnv } from "./middleware";
+import { getFeedAccess, requireFeedAccess, type HttpEnv } from "./middleware";
+
+function xmlFeedParam(value: string): string | null {
+  const match = /^(.+)\.xml$/i.exec(value);
+  return match?.[1]?.trim() || null;
+}
 
 export function createFeedRoutes(repo: BooksRepo): Hono<HttpEnv> {
   const app = new Hono<HttpEnv>();
 
-  app.use("/feed.xml", requireAuthenticatedRequest);
-  app.use("/feed.json", requireAuthenticatedRequest);
+  app.use("/feed.xml", requireFeedAccess(repo));
+  app.use("/feed.json", requireFeedAccess(repo));
+  app.use("/feed/*", requireFeedAccess(repo));
 
-  app.get("/feed.xml", (c) => {
+  const rssFeed = (c: Context<HttpEnv>, selection: RssFeedSelection) => {
     const settings = repo.getSettings();
-    return buildRssFeed(c.req.raw, repo, settings.feed.title, settings.feed.author);
-  });
+    return buildRssFeed(c.req.raw, repo, settings.feed.title, settings.feed.author, {
+      access: getFeedAccess(c),
+      selection,
+    });
+  };
+
+  app.get("/feed.xml", (c) => rssFeed(c, { kind: "library" }));
 
   app.get("/feed.json", (c) => {
     const settings = repo.getSettings();
-    return buildJsonFeed(c.req.raw, repo, settings.feed.title, settings.feed.author);
+    return buildJsonFeed(c.req.raw, repo, settings.feed.title, settings.feed.author, { access: getFeedAccess(c) });
+  });
+
+  app.get("/feed/series/:keyPart", (c) => {
+    const seriesKey = xmlFeedParam(c.req.param("keyPart"));
+    return seriesKey ? rssFeed(c, { kind: "series", seriesKey }) : c.notFound();
+  });
+
+  app.get("/feed/author/:namePart", (c) => {
+    const name = xmlFeedParam(c.req.param("namePart"));
+    return name ? rssFeed(c, { kind: "author", name }) : c.notFound();
+  });
+
+  app.get("/feed/book/:idPart", (c) => {
+    const bookId = Number(xmlFeedParam(c.req.param("idPart")));
+    return Number.isInteger(bookId) && bookId > 0 ? rssFeed(c, { kind: "book", bookId }) : c.notFound();
   });
 
   return app;
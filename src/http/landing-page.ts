@@ -1,9 +1,17 @@
 import { manifestationDurationMs, preferredAudioManifestationsForBooks, streamExtensionForManifestation } from "../library/media";
 import { BooksRepo } from "../repo";
+import { formatPlaybackPosition } from "../utils/time";
 import type { AppSettings, SessionWithUserRow } from "../app-types";
 
 import { addApiKey, escapeHtml, renderAppPage } from "./common";
-import { coverMarkup, formatBookStatusLine, formatMinutes, formatOverallStatus, truncateText } from "./page-helpers";
+import {
+  coverMarkup,
+  formatBookStatusLine,
+  formatConsumptionState,
+  formatMinutes,
+  formatOverallStatus,
+  truncateText,
+} from "./page-helpers";
 
 export function renderLandingPage(
   repo: BooksRepo,
@@ -15,6 +23,13 @@ export function renderLandingPage(
   const featured = preferredAudioManifestationsForBooks(repo).slice(0, 6);
   const inProgress = repo.listInProgressBooks().slice(0, 8);
   const needsAttention = repo.listAllBooks().filter((book) => book.status === "error").slice(0, 6);
+  const continueBooks = currentUser
+    ? repo.listContinueBooks(currentUser.user_id, 6).map((book) => ({
+        book,
+        consumption: repo.getBookConsumption(currentUser.user_id, book.id),
+        position: repo.getLatestPlaybackPositionForBook(currentUser.user_id, book.id),
+      }))
+    : [];
   const body = `
     <section class="hero">
       <h1>Podible</h1>
@@ -30,6 +45,33 @@ export function renderLandingPage(
       </div>
     </section>
     <div class="grid">
+      ${
+        currentUser
+          ? `<section class="card span-12">
+        <h2>Continue</h2>
+        ${
+          continueBooks.length > 0
+            ? `<div class="book-list">${continueBooks
+                .map(({ book, consumption, position }) => {
+                  const detailUrl = addApiKey(`/book/${book.id}`, apiKey);
+                  const resume = position
+                    ? `Resume at ${formatPlaybackPosition(position.position_ms)}${position.device_name ? ` from ${position.device_name}` : ""}`
+                    : null;
+                  return `<article class="book-row">
+                    ${coverMarkup(book.coverUrl ? addApiKey(book.coverUrl, apiKey) : null, book.title)}
+                    <div class="meta">
+                      <h3><a href="${escapeHtml(detailUrl)}">${escapeHtml(book.title)}</a></h3>
+                      <p class="muted">${escapeHtml(book.author)}</p>
+                      <p class="muted">${escapeHtml(formatConsumptionState(consumption?.state ?? "unstarted"))}${resume ? ` • ${escapeHtml(resume)}` : ""}</p>
+                    </div>
+                  </article>`;
+                })
+                .join("")}</div>`
+            : `<div class="empty">Nothing in progress. Start something from Ready now.</div>`
+        }
+      </section>`
+          : ""
+      }
       <section class="card span-6">
         <h2>Ready now</h2>
         ${
@@ -1,12 +1,20 @@
 import type { MiddlewareHandler } from "hono";
 
-import { browserSessionTokenFromRequest, buildSessionCookie, resolveSessionFromRequest } from "../auth";
+import {
+  browserSessionTokenFromRequest,
+  buildSessionCookie,
+  feedTokenFromRequest,
+  resolveFeedTokenFromRequest,
+  resolveSessionFromRequest,
+} from "../auth";
+import type { FeedAccess } from "../library/feed";
 import { BooksRepo } from "../repo";
-import type { SessionWithUserRow } from "../app-types";
+import type { FeedTokenWithUserRow, SessionWithUserRow } from "../app-types";
 
 export type HttpEnv = {
   Variables: {
     session: SessionWithUserRow | null;
+    feedToken: FeedTokenWithUserRow | null;
     logSuffix: string;
   };
 };
@@ -15,6 +23,15 @@ export function getCurrentSession(c: { get(key: "session"): SessionWithUserRow |
   return c.get("session");
 }
 
+export function getFeedAccess(c: {
+  get(key: "feedToken"): FeedTokenWithUserRow | null;
+  req: { raw: Request };
+}): FeedAccess | null {
+  const feedToken = c.get("feedToken");
+  if (!feedToken) return null;
+  return { token: feedTokenFromRequest(c.req.raw), userId: feedToken.user_id, scope: feedToken.scope };
+}
+
 export function setLogSuffix(c: { set(key: "logSuffix", value: string): void }, suffix: string): void {
   c.set("logSuffix", suffix);
 }
@@ -28,6 +45,7 @@ export function createRequestContextMiddleware(repo: BooksRepo): MiddlewareHandl
   return async (c, next) => {
     const startedAt = Date.now();
     c.set("logSuffix", "");
+    c.set("feedToken", null);
 
     let session = resolveSessionFromRequest(c.req.raw, (tokenHash) => repo.getSessionByTokenHash(tokenHash));
     if (session) {
@@ -65,6 +83,30 @@ export const requireAuthenticatedRequest: MiddlewareHandler<HttpEnv> = async (c,
   return c.text("Unauthorized", 401, { "WWW-Authenticate": 'Bearer realm="podible"' });
 };
 
+/**
+ * Like requireAuthenticatedRequest, but also admits a private feed token passed
+ * as `?token=` (or as the basic auth password) so podcast players and e-readers
+ * can fetch feeds and media without cookies. `basicChallenge` makes clients
+ * prompt for credentials instead of giving up on a bare 401.
+ */
+export function requireFeedAccess(repo: BooksRepo, options: { basicChallenge?: boolean } = {}): MiddlewareHandler<HttpEnv> {
+  return async (c, next) => {
+    if (getCurrentSession(c)) {
+      await next();
+      return;
+    }
+    const feedToken = resolveFeedTokenFromRequest(c.req.raw, (tokenHash) => repo.getActiveFeedTokenByHash(tokenHash));
+    if (!feedToken) {
+      return c.text("Unauthorized", 401, {
+        "WWW-Authenticate": options.basicChallenge ? 'Basic realm="podible", Bearer realm="podible"' : 'Bearer realm="podible"',
+      });
+    }
+    repo.touchFeedToken(feedToken.id);
+    c.set("feedToken", feedToken);
+    await next();
+  };
+}
+
 export const requireAdminSession: MiddlewareHandler<HttpEnv> = async (c, next) => {
   const session = getCurrentSession(c);
   if (!session) {
@@ -0,0 +1,29 @@
+import { Hono, type Context } from "hono";
+
+import { requestOrigin } from "../library/feed";
+import { buildOpdsResponse, buildOpenSearchDescription, type OpdsPage, type OpdsVersion } from "../library/opds";
+import { BooksRepo } from "../repo";
+import { getFeedAccess, requireFeedAccess, type HttpEnv } from "./middleware";
+
+export function createOpdsRoutes(repo: BooksRepo): Hono<HttpEnv> {
+  const app = new Hono<HttpEnv>();
+
+  app.use("*", requireFeedAccess(repo, { basicChallenge: true }));
+
+  const catalog = (c: Context<HttpEnv>, version: OpdsVersion, page: OpdsPage) =>
+    buildOpdsResponse(requestOrigin(c.req.raw), repo, version, page, repo.getSettings().feed.title, getFeedAccess(c));
+
+  for (const [prefix, version] of [["/v2", 2], ["", 1]] as const) {
+    app.get(prefix || "/", (c) => catalog(c, version, { kind: "root" }));
+    app.get(`${prefix}/recent`, (c) => catalog(c, version, { kind: "recent" }));
+    app.get(`${prefix}/authors`, (c) => catalog(c, version, { kind: "authors" }));
+    app.get(`${prefix}/authors/:name`, (c) => catalog(c, version, { kind: "author", name: c.req.param("name") }));
+    app.get(`${prefix}/series`, (c) => catalog(c, version, { kind: "series-list" }));
+    app.get(`${prefix}/series/:seriesKey`, (c) => catalog(c, version, { kind: "series", seriesKey: c.req.param("seriesKey") }));
+    app.get(`${prefix}/search`, (c) => catalog(c, version, { kind: "search", query: c.req.query("q") ?? c.req.query("query") ?? "" }));
+  }
+
+  app.get("/search.xml", (c) => buildOpenSearchDescription(requestOrigin(c.req.raw), repo.getSettings().feed.title, getFeedAccess(c)));
+
+  return app;
+}
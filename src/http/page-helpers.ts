@@ -1,3 +1,5 @@
+import type { ConsumptionState } from "../app-types";
+
 import { escapeHtml } from "./common";
 
 export function truncateText(value: string, max: number): string {
@@ -10,6 +12,21 @@ export function formatMinutes(durationMs: number | null): string {
   return `${Math.round(durationMs / 60000)} min`;
 }
 
+export function formatConsumptionState(state: string): string {
+  if (state === "listening") return "Listening";
+  if (state === "reading") return "Reading";
+  if (state === "finished") return "Finished";
+  if (state === "abandoned") return "Abandoned";
+  return "Not started";
+}
+
+export function parseConsumptionState(value: string | null): ConsumptionState | null {
+  if (value === "unstarted" || value === "listening" || value === "reading" || value === "finished" || value === "abandoned") {
+    return value;
+  }
+  return null;
+}
+
 export function parseMediaSelection(value: string | null): Array<"audio" | "ebook"> {
   if (value === "audio") return ["audio"];
   if (value === "ebook") return ["ebook"];
@@ -59,3 +59,12 @@ export function parseId(value: string): number {
   }
   return parsed;
 }
+
+export function contentDispositionAttachment(filename: string): string {
+  const fallback = filename
+    .normalize("NFKD")
+    .replace(/[^\x20-\x7E]+/g, "")
+    .replace(/[\\"]/g, "_")
+    .trim() || "download";
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
@@ -1,5 +1,6 @@
 import { Hono } from "hono";
 
+import { buildBookmarkViews, renderBookmarksMarkdown } from "../library/bookmarks";
 import { searchOpenLibrary } from "../library/openlibrary";
 import { BooksRepo } from "../repo";
 import { triggerAutoAcquire } from "../library/service";
@@ -9,8 +10,8 @@ import { renderLandingPage } from "./landing-page";
 import { renderLibraryPage } from "./library-page";
 import { renderLoginPage } from "./login-page";
 import { getCurrentSession, requireAdminSession, requireAuthenticatedPageSession, type HttpEnv } from "./middleware";
-import { parseMediaSelection } from "./page-helpers";
-import { formString, parseId } from "./route-helpers";
+import { formatConsumptionState, parseConsumptionState, parseMediaSelection } from "./page-helpers";
+import { contentDispositionAttachment, formString, parseId } from "./route-helpers";
 
 export function createHomeRoutes(repo: BooksRepo): Hono<HttpEnv> {
   const app = new Hono<HttpEnv>();
@@ -123,6 +124,49 @@ export function createBookRoutes(repo: BooksRepo): Hono<HttpEnv> {
     return c.redirect(`/book/${bookId}?notice=${encodeURIComponent(notice)}`, 303);
   });
 
+  app.get("/:bookId/bookmarks.md", async (c) => {
+    const bookId = parseId(c.req.param("bookId"));
+    const currentSession = getCurrentSession(c);
+    const book = repo.getBook(bookId);
+    if (!currentSession || !book) {
+      return c.notFound();
+    }
+    const bookmarks = await buildBookmarkViews(repo, repo.listBookmarks(currentSession.user_id, { bookId }));
+    return new Response(renderBookmarksMarkdown(book, bookmarks), {
+      headers: {
+        "Content-Type": "text/markdown; charset=utf-8",
+        "Content-Disposition": contentDispositionAttachment(`${book.title} bookmarks.md`),
+        "Cache-Control": "no-store",
+      },
+    });
+  });
+
+  app.post("/:bookId/bookmarks/:bookmarkId/delete", (c) => {
+    const bookId = parseId(c.req.param("bookId"));
+    const bookmarkId = parseId(c.req.param("bookmarkId"));
+    const currentSession = getCurrentSession(c);
+    if (!currentSession || !repo.deleteBookmark(currentSession.user_id, bookmarkId)) {
+      return c.notFound();
+    }
+    return c.redirect(`/book/${bookId}?notice=${encodeURIComponent("Bookmark deleted.")}`, 303);
+  });
+
+  app.post("/:bookId/consumption", async (c) => {
+    const bookId = parseId(c.req.param("bookId"));
+    const currentSession = getCurrentSession(c);
+    const body = await c.req.parseBody();
+    const state = parseConsumptionState(formString(body, "state"));
+    if (!currentSession || !repo.getBookRow(bookId)) {
+      return c.notFound();
+    }
+    if (!state) {
+      return c.redirect(`/book/${bookId}?error=${encodeURIComponent("Unknown progress state.")}`, 303);
+    }
+    repo.setBookConsumption(currentSession.user_id, bookId, state);
+    const notice = `Marked as ${formatConsumptionState(state).toLowerCase()}.`;
+    return c.redirect(`/book/${bookId}?notice=${encodeURIComponent(notice)}`, 303);
+  });
+
   return app;
 }
 
@@ -4,7 +4,8 @@ import { z } from "zod";
 
 import type { ImportInspectionFile } from "./importer";
 import type { BooksRepo } from "../repo";
-import { rankSearchResults } from "./service";
+import { filterBlocklisted } from "./blocklist";
+import { rankSearchResults, type RankQualityOptions } from "./service";
 import { inferLanguageFromReleaseTitles, normalizeManifestationLanguageCode } from "./language";
 import type { TorznabResult } from "./torznab";
 import { getOrFetchCachedTorrentBytes, inspectTorrentFiles } from "./torrent-cache";
@@ -62,6 +63,7 @@ type SearchSelectionInput = {
     id: number;
     title: string;
     author: string;
+    durationMs?: number | null;
   } | null;
 };
 
@@ -295,7 +297,11 @@ function parseSearchAgentSelections(output: SearchAgentOutput, ranked: ReturnTyp
   return selections;
 }
 
-function deterministicSearchSelection(input: SearchSelectionInput): SearchSelectionResult {
+function qualityOptions(settings: AppSettings, input: SearchSelectionInput): RankQualityOptions {
+  return { settings, target: { durationMs: input.book?.durationMs } };
+}
+
+function deterministicSearchSelection(settings: AppSettings, input: SearchSelectionInput): SearchSelectionResult {
   const rejectedUrls = new Set((input.rejectedUrls ?? []).map((item) => normalizeRejectedUrl(item)).filter(Boolean));
   const rejectedGuids = new Set((input.rejectedGuids ?? []).map((item) => item.trim()).filter(Boolean));
   const rejectedInfoHashes = new Set(
@@ -303,7 +309,7 @@ function deterministicSearchSelection(input: SearchSelectionInput): SearchSelect
       .map((item) => normalizeInfoHash(item))
       .filter((item): item is string => Boolean(item))
   );
-  const ranked = rankSearchResults(input.query, input.media, input.results).filter(
+  const ranked = rankSearchResults(input.query, input.media, input.results, qualityOptions(settings, input)).filter(
     (item) => !isRejectedCandidate(item.result, rejectedUrls, rejectedGuids, rejectedInfoHashes)
   );
   if (ranked.length === 0) {
@@ -561,6 +567,9 @@ function createSearchAgent(
       if (!repo) {
         return JSON.stringify({ ok: false, error: "Torrent inspection not available (no repo)" });
       }
+      if (candidate.protocol === "usenet") {
+        return JSON.stringify({ ok: false, error: "Usenet candidates have no torrent file list to inspect" });
+      }
       try {
         const { bytes, cacheHit } = await getOrFetchCachedTorrentBytes(repo, {
           provider: candidate.provider,
@@ -610,7 +619,10 @@ export async function selectSearchCandidates(
   input: SearchSelectionInput,
   runtime: SearchSelectionRuntime = {}
 ): Promise<SearchSelectionResult> {
-  const deterministic = deterministicSearchSelection(input);
+  if (runtime.repo) {
+    input = { ...input, results: filterBlocklisted(runtime.repo, input.book?.id ?? null, input.results) };
+  }
+  const deterministic = deterministicSearchSelection(settings, input);
   const trigger = determineTrigger(settings, "search", deterministic.confidence, {
     forceAgent: input.forceAgent,
     priorFailure: input.priorFailure,
@@ -632,7 +644,7 @@ export async function selectSearchCandidates(
         .map((item) => normalizeInfoHash(item))
         .filter((item): item is string => Boolean(item))
     );
-    const ranked = rankSearchResults(input.query, input.media, input.results)
+    const ranked = rankSearchResults(input.query, input.media, input.results, qualityOptions(settings, input))
       .filter((item) => !isRejectedCandidate(item.result, rejectedUrls, rejectedGuids, rejectedInfoHashes))
       .slice(0, 12);
     const userPrompt = buildSearchAgentPrompt(trigger, input, ranked);
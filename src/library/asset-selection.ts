@@ -48,6 +48,9 @@ export function selectPreferredAudioManifestation(
   const audio = manifestations.filter((entry) => entry.manifestation.kind === "audio" && entry.containers.length > 0);
   if (audio.length === 0) return null;
   return [...audio].sort((a, b) => {
+    // A manifestation replaced by an upgrade only plays while it is the last one left.
+    const superseded = Number(a.manifestation.superseded_at !== null) - Number(b.manifestation.superseded_at !== null);
+    if (superseded !== 0) return superseded;
     const aScore = scoreAudioManifestation(a.containers) + a.manifestation.preferred_score;
     const bScore = scoreAudioManifestation(b.containers) + b.manifestation.preferred_score;
     if (aScore !== bScore) return bScore - aScore;
@@ -0,0 +1,71 @@
+import type { BlocklistSource, ReleaseBlocklistRow, ReleaseRow } from "../app-types";
+import type { BooksRepo } from "../repo";
+
+import type { TorznabResult } from "./torznab";
+
+type BlocklistCandidate = Pick<TorznabResult, "title" | "guid" | "infoHash">;
+
+// `*` stands for any text and `\*` for a literal star; a leading `^` or trailing `$` anchors the pattern to the title's start or end.
+function titlePatternMatches(pattern: string, title: string): boolean {
+  const anchoredStart = pattern.startsWith("^");
+  const anchoredEnd = pattern.length > 1 && pattern.endsWith("$");
+  const source = pattern
+    .slice(anchoredStart ? 1 : 0, anchoredEnd ? -1 : undefined)
+    .split(/(?<!\\)\*/)
+    .map((part) => part.replaceAll("\\*", "*").replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`${anchoredStart ? "^" : ""}${source}${anchoredEnd ? "$" : ""}`, "i").test(title);
+}
+
+function exactTitlePattern(title: string): string {
+  return `^${title.replaceAll("*", "\\*")}$`;
+}
+
+/** Why a manual blocklist entry cannot be saved, or null when it can. */
+export function blocklistEntryProblem(input: { infoHash?: string | null; guid?: string | null; titlePattern?: string | null }): string | null {
+  const infoHash = input.infoHash?.trim();
+  if (!infoHash && !input.guid?.trim() && !input.titlePattern?.trim()) {
+    return "An info hash, guid or title pattern is required";
+  }
+  if (infoHash && !/^[0-9a-fA-F]{40}$/.test(infoHash)) {
+    return "Info hash must be 40 hex characters";
+  }
+  return null;
+}
+
+/** Returns the first entry that blocks the candidate, matching by info hash, guid or title pattern. */
+export function findBlocklistEntry(entries: ReleaseBlocklistRow[], candidate: BlocklistCandidate): ReleaseBlocklistRow | null {
+  const infoHash = candidate.infoHash?.trim().toLowerCase() || null;
+  const guid = candidate.guid?.trim() || null;
+  for (const entry of entries) {
+    if (entry.info_hash && infoHash === entry.info_hash) return entry;
+    if (entry.guid && guid === entry.guid) return entry;
+    if (entry.title_pattern && titlePatternMatches(entry.title_pattern, candidate.title)) return entry;
+  }
+  return null;
+}
+
+/** Drops results blocklisted globally or, when a book is given, for that book. */
+export function filterBlocklisted<T extends BlocklistCandidate>(repo: BooksRepo, bookId: number | null, results: T[]): T[] {
+  const entries = repo.listBlocklistForBook(bookId);
+  if (entries.length === 0) return results;
+  return results.filter((result) => !findBlocklistEntry(entries, result));
+}
+
+/**
+ * Blocklists a snatched release for its book so later searches skip it: by info
+ * hash for torrents, otherwise by indexer guid, otherwise by its exact title.
+ */
+export function blocklistRelease(
+  repo: BooksRepo,
+  release: ReleaseRow,
+  source: BlocklistSource,
+  reason: string | null
+): ReleaseBlocklistRow {
+  const match = release.info_hash
+    ? { infoHash: release.info_hash }
+    : release.provider_guid
+      ? { guid: release.provider_guid }
+      : { titlePattern: exactTitlePattern(release.title) };
+  return repo.createBlocklistEntry({ ...match, bookId: release.book_id, source, reason, releaseId: release.id });
+}
@@ -0,0 +1,66 @@
+/**
+ * Loose matching of a guessed title/author (from tags or folder names) to
+ * library books: the same title words and the book author's surname. Case,
+ * accents and punctuation are ignored; an ASIN or ISBN already recorded on a
+ * book wins over the words.
+ */
+
+import path from "node:path";
+
+import type { LibraryBook } from "../app-types";
+import type { BooksRepo } from "../repo";
+
+export type BookMatchHint = {
+  title: string;
+  author: string | null;
+  asin?: string | null;
+  isbn?: string | null;
+};
+
+export function matchTokens(value: string): string[] {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/u)
+    .filter(Boolean);
+}
+
+function sameWords(a: string, b: string): boolean {
+  const left = matchTokens(a).join(" ");
+  return left.length > 0 && left === matchTokens(b).join(" ");
+}
+
+// A guessed author agrees with a book's author when the book author's surname is one of its words.
+export function authorAgrees(guessAuthor: string | null, bookAuthor: string): boolean {
+  if (!guessAuthor) return true;
+  const surname = matchTokens(bookAuthor).at(-1);
+  return !surname || matchTokens(guessAuthor).includes(surname);
+}
+
+/** "Author - Title", "Title" or "Author - Series 01 - Title" from a file or folder name, ignoring bracketed tags and the extension. */
+export function guessFromName(name: string, isFile: boolean): BookMatchHint | null {
+  const stem = isFile ? name.slice(0, name.length - path.extname(name).length) : name;
+  const cleaned = stem
+    .replace(/[[({][^\])}]*[\])}]/g, " ")
+    .replace(/_/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  const parts = cleaned
+    .split(/\s+-\s+/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+  if (parts.length === 1) return { title: parts[0]!, author: null };
+  return { title: parts.at(-1)!, author: parts[0]! };
+}
+
+export function findMatchingBook(repo: BooksRepo, hint: BookMatchHint): LibraryBook | null {
+  const books = repo.listAllBooks();
+  const byIdentifier = books.find(
+    (book) =>
+      (hint.asin && book.identifiers.asin === hint.asin) || (hint.isbn && book.identifiers.isbn === hint.isbn)
+  );
+  if (byIdentifier) return byIdentifier;
+  return books.find((book) => sameWords(book.title, hint.title) && authorAgrees(hint.author, book.author)) ?? null;
+}
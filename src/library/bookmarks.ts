@@ -0,0 +1,102 @@
+import { loadStoredManifestationTranscriptPayload } from "./chapter-analysis";
+import type { StoredTranscriptPayload } from "./chapter-analysis";
+import { buildManifestationChapters } from "./media";
+
+import type { BooksRepo } from "../repo";
+import type { BookmarkRow, LibraryBook } from "../app-types";
+import { formatPlaybackPosition } from "../utils/time";
+
+// A point bookmark has no end, so its transcript excerpt covers the speech
+// that follows the marked moment.
+export const BOOKMARK_POINT_WINDOW_MS = 30_000;
+
+export type BookmarkView = {
+  id: number;
+  bookId: number;
+  manifestationId: number;
+  positionMs: number;
+  endMs: number | null;
+  note: string | null;
+  chapterTitle: string | null;
+  transcriptText: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function transcriptTextForWindow(payload: StoredTranscriptPayload, startMs: number, endMs: number): string | null {
+  const text = payload.words
+    .filter((word) => word.endMs > startMs && word.startMs < endMs)
+    .map((word) => word.text.trim())
+    .filter(Boolean)
+    .join(" ");
+  return text || null;
+}
+
+function chapterTitleAt(chapters: Array<{ startTime: number; title: string }>, positionMs: number): string | null {
+  let title: string | null = null;
+  for (const chapter of chapters) {
+    if (chapter.startTime * 1000 > positionMs) break;
+    title = chapter.title;
+  }
+  return title;
+}
+
+/**
+ * Decorates bookmark rows with the chapter they fall in and the transcript text
+ * for their window. Chapters and transcripts are loaded once per manifestation.
+ */
+export async function buildBookmarkViews(repo: BooksRepo, bookmarks: BookmarkRow[]): Promise<BookmarkView[]> {
+  const manifestationContext = new Map<
+    number,
+    { chapters: Array<{ startTime: number; title: string }>; transcript: StoredTranscriptPayload | null }
+  >();
+  for (const manifestationId of new Set(bookmarks.map((bookmark) => bookmark.manifestation_id))) {
+    const manifestation = repo.getManifestation(manifestationId);
+    const containers = repo
+      .listAssetsByManifestation(manifestationId)
+      .map((asset) => ({ asset, files: repo.getAssetFiles(asset.id) }));
+    const chapters =
+      manifestation && containers.length > 0 ? await buildManifestationChapters(repo, manifestation, containers).catch(() => null) : null;
+    const transcript = await loadStoredManifestationTranscriptPayload(repo, manifestationId).catch(() => null);
+    manifestationContext.set(manifestationId, { chapters: chapters?.chapters ?? [], transcript });
+  }
+
+  return bookmarks.map((bookmark) => {
+    const context = manifestationContext.get(bookmark.manifestation_id);
+    const windowEndMs = bookmark.end_ms ?? bookmark.position_ms + BOOKMARK_POINT_WINDOW_MS;
+    return {
+      id: bookmark.id,
+      bookId: bookmark.book_id,
+      manifestationId: bookmark.manifestation_id,
+      positionMs: bookmark.position_ms,
+      endMs: bookmark.end_ms,
+      note: bookmark.note,
+      chapterTitle: context ? chapterTitleAt(context.chapters, bookmark.position_ms) : null,
+      transcriptText: context?.transcript ? transcriptTextForWindow(context.transcript, bookmark.position_ms, windowEndMs) : null,
+      createdAt: bookmark.created_at,
+      updatedAt: bookmark.updated_at,
+    };
+  });
+}
+
+export function renderBookmarksMarkdown(book: Pick<LibraryBook, "title" | "author">, bookmarks: BookmarkView[]): string {
+  const lines = [`# ${book.title}`, "", `*${book.author}*`, ""];
+  if (bookmarks.length === 0) {
+    lines.push("No bookmarks yet.", "");
+    return lines.join("\n");
+  }
+  for (const bookmark of bookmarks) {
+    const range =
+      bookmark.endMs !== null
+        ? `${formatPlaybackPosition(bookmark.positionMs)}–${formatPlaybackPosition(bookmark.endMs)}`
+        : formatPlaybackPosition(bookmark.positionMs);
+    lines.push(`## ${range}${bookmark.chapterTitle ? ` · ${bookmark.chapterTitle}` : ""}`, "");
+    if (bookmark.note?.trim()) {
+      lines.push(bookmark.note.trim(), "");
+    }
+    if (bookmark.transcriptText) {
+      lines.push(`> ${bookmark.transcriptText}`, "");
+    }
+  }
+  return lines.join("\n");
+}
@@ -1,13 +1,11 @@
 import { createHash } from "node:crypto";
 import { spawn } from "node:child_process";
-import { createReadStream, readFileSync } from "node:fs";
+import { readFileSync } from "node:fs";
 import { mkdir, mkdtemp, rename, rm, writeFile } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 
 import { initEpubFile } from "@lingo-reader/epub-parser";
-import OpenAI from "openai";
-import type { TranscriptionVerbose } from "openai/resources/audio/transcriptions";
 
 import { promises as fsPromises } from "node:fs";
 
@@ -17,18 +15,25 @@ import { readFfprobeChapters } from "../media/probe-cache";
 import type { BooksRepo } from "../repo";
 import { slugify } from "../utils/strings";
 import { selectPreferredAudioManifestation } from "./asset-selection";
+import {
+  createTranscriptionProvider,
+  transcriptionConcurrency,
+  transcriptionConfigured,
+  transcriptionModel,
+  type VerboseTranscription,
+} from "./transcription";
 import { runAgenticChapterCurationDetailed } from "./chapter-curation";
 import type { ChapterCurationTiming } from "./chapter-curation";
 
 const CHAPTER_ANALYSIS_SOURCE = "whisper_transcript";
 const CHAPTER_ANALYSIS_ALGORITHM_VERSION = "2026-04-22-atempo-2x-v1";
 const CHAPTERS_API_VERSION = "1.5.0";
-const TIMESTAMP_TRANSCRIPTION_MODEL = "whisper-1";
 // We pre-process audio with ffmpeg `atempo` before sending to Whisper so OpenAI
 // charges us for half the duration (they bill by minutes of input audio).
 // Whisper tolerates this well — voice is still intelligible at 2x, and the
 // timestamps it returns are in the sped-up frame, so we multiply them back by
-// this factor to recover real-audio timestamps.
+// this factor to recover real-audio timestamps. Local providers get the same
+// clips, which also halves their compute time.
 const TRANSCRIPTION_SPEED_MULTIPLIER = 2;
 const CHAPTER_ANALYSIS_TRANSCRIPTION_CONCURRENCY = positiveIntegerEnv("PODIBLE_TRANSCRIPTION_OPENAI_CONCURRENCY", 64, {
   min: 1,
@@ -957,29 +962,20 @@ export async function transcribeChunk(
   book: BookRow,
   manifestation?: Pick<ManifestationRow, "language"> | null
 ): Promise<TranscribedChunk> {
-  const apiKey = settings.agents.apiKey.trim();
-  if (!apiKey) throw new Error("OpenAI API key not configured");
-  const requestTimeoutMs = Math.max(TRANSCRIPTION_TIMEOUT_MS, Math.trunc(settings.agents.timeoutMs || 30_000));
-  const client = new OpenAI({ apiKey, timeout: requestTimeoutMs });
-  const transcriptionLanguage = transcriptionLanguageForBook(book, manifestation);
-  const response = (await client.audio.transcriptions.create(
-    {
-      file: createReadStream(clipPath),
-      model: TIMESTAMP_TRANSCRIPTION_MODEL,
-      response_format: "verbose_json",
-      timestamp_granularities: ["word", "segment"],
-      ...(transcriptionLanguage ? { language: transcriptionLanguage } : {}),
-      prompt,
-    },
-    { timeout: requestTimeoutMs }
-  )) as TranscriptionVerbose;
+  const provider = createTranscriptionProvider(settings);
+  const response = await provider.transcribe({
+    clipPath,
+    prompt,
+    language: transcriptionLanguageForBook(book, manifestation),
+    timeoutMs: Math.max(TRANSCRIPTION_TIMEOUT_MS, Math.trunc(settings.agents.timeoutMs || 30_000)),
+  });
   return parseWhisperResponse(response, TRANSCRIPTION_SPEED_MULTIPLIER);
 }
 
 // Exported for testing. Whisper sees audio sped up by `speedMultiplier`, so its
 // timestamps are in the sped-up frame. We multiply by the same factor to
 // recover real-audio timestamps.
-export function parseWhisperResponse(response: TranscriptionVerbose, speedMultiplier: number): TranscribedChunk {
+export function parseWhisperResponse(response: VerboseTranscription, speedMultiplier: number): TranscribedChunk {
   const words = (Array.isArray(response.words) ? response.words : [])
     .map((word) => ({
       startMs: Math.max(0, Math.round(Number(word.start) * 1000 * speedMultiplier)),
@@ -1341,13 +1337,19 @@ async function fileFingerprintData(files: AssetFileRow[]): Promise<Array<{ path:
   );
 }
 
-async function computeTranscriptFingerprint(asset: AssetRow, files: AssetFileRow[]): Promise<string> {
+// Transcripts from hosted OpenAI keep the bare model name earlier fingerprints carry; other providers are named too.
+function transcriptFingerprintModel(settings: AppSettings): string {
+  const model = transcriptionModel(settings);
+  return settings.transcription.provider === "openai" ? model : `${settings.transcription.provider}:${model}`;
+}
+
+async function computeTranscriptFingerprint(asset: AssetRow, files: AssetFileRow[], settings: AppSettings): Promise<string> {
   const hash = createHash("sha256");
   hash.update(
     JSON.stringify({
       version: CHAPTER_ANALYSIS_ALGORITHM_VERSION,
       kind: "transcript",
-      model: TIMESTAMP_TRANSCRIPTION_MODEL,
+      model: transcriptFingerprintModel(settings),
       assetId: asset.id,
       durationMs: asset.duration_ms,
       files: await fileFingerprintData(files),
@@ -1356,13 +1358,30 @@ async function computeTranscriptFingerprint(asset: AssetRow, files: AssetFileRow
   return hash.digest("hex");
 }
 
-async function computeManifestationFingerprint(containers: Array<{ asset: AssetRow; files: AssetFileRow[] }>): Promise<string> {
-  const perAsset = await Promise.all(containers.map((c) => computeTranscriptFingerprint(c.asset, c.files)));
+async function computeManifestationFingerprint(
+  containers: Array<{ asset: AssetRow; files: AssetFileRow[] }>,
+  settings: AppSettings
+): Promise<string> {
+  const perAsset = await Promise.all(containers.map((c) => computeTranscriptFingerprint(c.asset, c.files, settings)));
   return createHash("sha1")
     .update(containers.map((c, i) => `${c.asset.id}:${perAsset[i]}`).join("|"))
     .digest("hex");
 }
 
+/**
+ * The fingerprint an audio manifestation's transcript and chapter analysis
+ * rows are checked against. It follows each file's size and mtime and the
+ * configured transcription provider and model, so it changes when a file is
+ * rewritten or the model is switched; null when a file cannot be read.
+ */
+export async function currentManifestationFingerprint(repo: BooksRepo, manifestationId: number): Promise<string | null> {
+  const containers = repo
+    .listAssetsByManifestation(manifestationId)
+    .map((asset) => ({ asset, files: repo.getAssetFiles(asset.id) }));
+  if (containers.length === 0) return null;
+  return computeManifestationFingerprint(containers, repo.getSettings()).catch(() => null);
+}
+
 async function loadGlossary(ctx: ChapterAnalysisContext, deps: ChapterAnalysisDeps, epubPath: string | null): Promise<string[]> {
   if (!epubPath) return [];
   try {
@@ -1396,15 +1415,16 @@ async function transcribeAssetWithDeps(
   if (plans.length === 0) throw new Error("No audio chunks available for transcription");
 
   const workDir = await mkdtemp(path.join(os.tmpdir(), "podible-transcript-"));
-  const assetFingerprint = await computeTranscriptFingerprint(asset, files);
+  const assetFingerprint = await computeTranscriptFingerprint(asset, files, settings);
   const chunkCacheDir = transcriptChunkCacheDir(assetFingerprint);
   const prompt = promptForChunk(book, glossary, manifestation);
   const limitExtract = createAsyncLimiter(CHAPTER_ANALYSIS_EXTRACT_CONCURRENCY);
-  const limitTranscribe = createAsyncLimiter(CHAPTER_ANALYSIS_TRANSCRIPTION_CONCURRENCY);
+  const transcribeConcurrency = transcriptionConcurrency(settings, CHAPTER_ANALYSIS_TRANSCRIPTION_CONCURRENCY);
+  const limitTranscribe = createAsyncLimiter(transcribeConcurrency);
   try {
     log(
       ctx,
-      `[chapter-analysis] job=${job.id} asset=${asset.id} chunks=${plans.length} extract_concurrency=${CHAPTER_ANALYSIS_EXTRACT_CONCURRENCY} transcribe_concurrency=${CHAPTER_ANALYSIS_TRANSCRIPTION_CONCURRENCY}`
+      `[chapter-analysis] job=${job.id} asset=${asset.id} chunks=${plans.length} extract_concurrency=${CHAPTER_ANALYSIS_EXTRACT_CONCURRENCY} transcribe_concurrency=${transcribeConcurrency}`
     );
     const persistedChunks = await Promise.all(
       plans.map(async (plan) => {
@@ -1529,7 +1549,7 @@ export type TranscriptRequestResult = {
 async function buildTranscriptStatus(
   repo: BooksRepo,
   bookId: number,
-  options: { apiKeyConfigured: boolean; manifestationId?: number | null }
+  options: { transcriptionConfigured: boolean; manifestationId?: number | null }
 ): Promise<{
   hasAudio: boolean;
   epubAsset: AssetRow | null;
@@ -1556,7 +1576,7 @@ async function buildTranscriptStatus(
   const containers = audioAssets.map((asset) => ({ asset, files: repo.getAssetFiles(asset.id) }));
   let currentFingerprint: string | null;
   try {
-    currentFingerprint = await computeManifestationFingerprint(containers);
+    currentFingerprint = await computeManifestationFingerprint(containers, repo.getSettings());
   } catch {
     currentFingerprint = null;
   }
@@ -1576,7 +1596,7 @@ async function buildTranscriptStatus(
     status = "failed";
   } else if (analysisRow?.status === "succeeded") {
     status = "stale";
-  } else if (!options.apiKeyConfigured) {
+  } else if (!options.transcriptionConfigured) {
     status = "missing_config";
   } else {
     status = analysisRow?.status === "failed" ? "failed" : "stale";
@@ -1604,7 +1624,7 @@ async function buildTranscriptStatus(
 export async function getBookTranscriptStatus(
   repo: BooksRepo,
   bookId: number,
-  options: { apiKeyConfigured: boolean; manifestationId?: number | null }
+  options: { transcriptionConfigured: boolean; manifestationId?: number | null }
 ): Promise<TranscriptRequestResult> {
   const { base } = await buildTranscriptStatus(repo, bookId, options);
   return base;
@@ -1613,7 +1633,7 @@ export async function getBookTranscriptStatus(
 export async function requestBookTranscription(
   repo: BooksRepo,
   bookId: number,
-  options: { apiKeyConfigured: boolean; manifestationId?: number | null; force?: boolean }
+  options: { transcriptionConfigured: boolean; manifestationId?: number | null; force?: boolean }
 ): Promise<TranscriptRequestResult> {
   const { hasAudio, base } = await buildTranscriptStatus(repo, bookId, options);
   if (!hasAudio) return base;
@@ -1820,7 +1840,8 @@ export async function processChapterAnalysisJob(
   }
 
   // Compute the combined manifestation fingerprint.
-  const combinedFingerprint = await computeManifestationFingerprint(audioContainers);
+  const settings = ctx.getSettings();
+  const combinedFingerprint = await computeManifestationFingerprint(audioContainers, settings);
 
   // Check if the manifestation-level transcript is already cached.
   const existingTranscriptRow = ctx.repo.getManifestationTranscript(manifestationId);
@@ -1831,8 +1852,7 @@ export async function processChapterAnalysisJob(
   const existingCachedPayload = isCached ? await loadStoredManifestationTranscriptPayload(ctx.repo, manifestationId) : null;
   const allCached = Boolean(existingCachedPayload);
 
-  const settings = ctx.getSettings();
-  if (!allCached && !settings.agents.apiKey.trim()) {
+  if (!allCached && !transcriptionConfigured(settings)) {
     ctx.repo.markJobSucceeded(job.id);
     return "done";
   }
@@ -1940,7 +1960,8 @@ export async function processChapterAnalysisJob(
         transcriptSource,
         chunkCount: totalChunkCount,
         transcriptWordCount: totalWordCount,
-        model: TIMESTAMP_TRANSCRIPTION_MODEL,
+        model: transcriptionModel(settings),
+        transcriptionProvider: settings.transcription.provider,
         ...(curationResult?.debugInfo ?? {}),
       }),
       resolvedBoundaryCount: curationResult?.resolvedBoundaryCount ?? 0,
@@ -0,0 +1,62 @@
+import { loadStoredManifestationTranscriptPayload } from "./chapter-analysis";
+import { wordsToTranscriptUtterances } from "./chapter-markers";
+import { getTranscriptWindowFromContext, type TranscriptWindow } from "./chapter-curation-tools";
+import { manifestationDurationMs } from "./media";
+
+import type { BooksRepo } from "../repo";
+import type { AssetFileRow, AssetRow, ManifestationRow } from "../app-types";
+
+export type ChapterEdit = {
+  title: string;
+  startTime: number;
+};
+
+/**
+ * Checks an edited chapter list before it is stored as an override: titles
+ * are required, start times must strictly increase from zero and stay inside
+ * the audio. Returns a message for the first problem, or null.
+ */
+export function validateChapterEdits(chapters: ChapterEdit[], durationMs: number | null): string | null {
+  if (chapters.length === 0) return "At least one chapter is required";
+  for (const [index, chapter] of chapters.entries()) {
+    if (!chapter.title.trim()) return `Chapter ${index + 1} needs a title`;
+    if (!Number.isFinite(chapter.startTime) || chapter.startTime < 0) return `Chapter ${index + 1} has an invalid start time`;
+    const previous = chapters[index - 1];
+    if (previous && chapter.startTime <= previous.startTime) return `Chapter ${index + 1} must start after chapter ${index}`;
+    if (durationMs !== null && chapter.startTime * 1000 >= durationMs) return `Chapter ${index + 1} starts after the end of the audio`;
+  }
+  if (chapters[0]!.startTime !== 0) return "The first chapter must start at 0";
+  return null;
+}
+
+export function serializeChapterEdits(chapters: ChapterEdit[]): string {
+  return JSON.stringify(
+    chapters.map((chapter) => ({
+      title: chapter.title.trim(),
+      startTime: Math.round(chapter.startTime * 1000) / 1000,
+      source: "manual",
+    }))
+  );
+}
+
+/** The stored transcript around `startMs`, as the curation agent sees it, for scrubbing a boundary by hand. */
+export async function loadChapterTranscriptWindow(
+  repo: BooksRepo,
+  manifestation: ManifestationRow,
+  containers: Array<{ asset: AssetRow; files: AssetFileRow[] }>,
+  startMs: number,
+  radiusMs: number
+): Promise<TranscriptWindow | null> {
+  const transcript = await loadStoredManifestationTranscriptPayload(repo, manifestation.id);
+  if (!transcript) return null;
+  const utterances = transcript.utterances && transcript.utterances.length > 0 ? transcript.utterances : wordsToTranscriptUtterances(transcript.words);
+  const lastWordEndMs = transcript.words.reduce((max, word) => Math.max(max, word.endMs), 0);
+  return getTranscriptWindowFromContext(
+    {
+      transcript: { ...transcript, utterances },
+      durationMs: manifestationDurationMs(manifestation, containers) ?? lastWordEndMs,
+    },
+    startMs,
+    radiusMs
+  );
+}
@@ -0,0 +1,167 @@
+import path from "node:path";
+
+import { escapeXml } from "../utils/strings";
+import type { ChapterExportFile, ChapterTiming } from "./media";
+
+export type ChapterFormat = "json" | "ffmetadata" | "cue" | "psc" | "chpl";
+
+export type ChapterExport = {
+  title: string;
+  author: string;
+  timings: ChapterTiming[];
+  files: ChapterExportFile[];
+};
+
+/**
+ * Renderings of a manifestation's chapters, keyed by the suffix they are
+ * served under in `/chapters/m/{manifestationId}.{suffix}`. `accepts` lists
+ * the media types matched when a client negotiates with `Accept` instead.
+ */
+export const CHAPTER_FORMATS: Record<ChapterFormat, { suffix: string; mime: string; accepts: string[] }> = {
+  json: { suffix: "json", mime: "application/json", accepts: ["application/json", "application/json+chapters"] },
+  ffmetadata: { suffix: "ffmetadata", mime: "text/plain", accepts: ["application/x-ffmetadata"] },
+  cue: { suffix: "cue", mime: "application/x-cue", accepts: ["application/x-cue"] },
+  psc: { suffix: "psc", mime: "application/xml", accepts: ["application/psc+xml"] },
+  chpl: { suffix: "chpl", mime: "text/plain", accepts: ["application/x-nero-chapters"] },
+};
+
+export function chapterFormatForSuffix(suffix: string): ChapterFormat | null {
+  const normalized = suffix.toLowerCase();
+  for (const [format, spec] of Object.entries(CHAPTER_FORMATS) as Array<[ChapterFormat, { suffix: string }]>) {
+    if (spec.suffix === normalized) return format;
+  }
+  return null;
+}
+
+// Picks the highest-q media type we can render; `*/*` or no header means JSON.
+export function chapterFormatForAccept(accept: string | null | undefined): ChapterFormat {
+  const ranges = (accept ?? "")
+    .split(",")
+    .map((part, index) => {
+      const [type = "", ...params] = part.split(";").map((piece) => piece.trim().toLowerCase());
+      const q = params.find((param) => param.startsWith("q="));
+      return { type, q: q ? Number.parseFloat(q.slice(2)) || 0 : 1, index };
+    })
+    .filter((range) => range.type && range.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+  for (const range of ranges) {
+    for (const [format, spec] of Object.entries(CHAPTER_FORMATS) as Array<[ChapterFormat, { accepts: string[] }]>) {
+      if (spec.accepts.includes(range.type)) return format;
+    }
+  }
+  return "json";
+}
+
+function clockParts(ms: number): { hours: number; minutes: number; seconds: number; millis: number } {
+  const rounded = Math.max(0, Math.round(ms));
+  return {
+    hours: Math.floor(rounded / 3_600_000),
+    minutes: Math.floor((rounded % 3_600_000) / 60_000),
+    seconds: Math.floor((rounded % 60_000) / 1000),
+    millis: rounded % 1000,
+  };
+}
+
+function formatClock(ms: number): string {
+  const { hours, minutes, seconds, millis } = clockParts(ms);
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}.${String(millis).padStart(3, "0")}`;
+}
+
+// CUE INDEX positions are mm:ss:ff with 75 frames per second; minutes are not capped at 59.
+function formatCueIndex(ms: number): string {
+  const rounded = Math.max(0, Math.round(ms));
+  const minutes = Math.floor(rounded / 60_000);
+  const seconds = Math.floor((rounded % 60_000) / 1000);
+  const frames = Math.floor(((rounded % 1000) * 75) / 1000);
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}:${String(frames).padStart(2, "0")}`;
+}
+
+function singleLine(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function escapeFfmetadata(value: string): string {
+  return singleLine(value).replace(/[\\=;#]/g, (char) => `\\${char}`);
+}
+
+function cueString(value: string): string {
+  return `"${singleLine(value).replace(/"/g, "'")}"`;
+}
+
+function cueFileType(mime: string): string {
+  if (mime === "audio/mpeg") return "MP3";
+  if (mime === "audio/mp4") return "MP4";
+  return "WAVE";
+}
+
+export function renderFfmetadata(chapters: ChapterExport): string {
+  const lines = [";FFMETADATA1", `title=${escapeFfmetadata(chapters.title)}`, `artist=${escapeFfmetadata(chapters.author)}`];
+  for (const timing of chapters.timings) {
+    lines.push(
+      "",
+      "[CHAPTER]",
+      "TIMEBASE=1/1000",
+      `START=${Math.round(timing.startMs)}`,
+      `END=${Math.round(Math.max(timing.startMs, timing.endMs))}`,
+      `title=${escapeFfmetadata(timing.title)}`
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * One TRACK per chapter, grouped under the asset file the chapter starts in,
+ * with INDEX positions relative to that file. FILE entries use basenames so
+ * the sheet works when saved next to the audio.
+ */
+export function renderCueSheet(chapters: ChapterExport): string {
+  const lines = [`PERFORMER ${cueString(chapters.author)}`, `TITLE ${cueString(chapters.title)}`];
+  let fileIndex = -1;
+  for (const [index, timing] of chapters.timings.entries()) {
+    let nextFileIndex = Math.max(fileIndex, 0);
+    while (nextFileIndex + 1 < chapters.files.length && chapters.files[nextFileIndex + 1]!.startMs <= timing.startMs) {
+      nextFileIndex += 1;
+    }
+    const file = chapters.files[nextFileIndex];
+    if (file && nextFileIndex !== fileIndex) {
+      lines.push(`FILE ${cueString(path.basename(file.path))} ${cueFileType(file.mime)}`);
+      fileIndex = nextFileIndex;
+    }
+    lines.push(
+      `  TRACK ${String(index + 1).padStart(2, "0")} AUDIO`,
+      `    TITLE ${cueString(timing.title)}`,
+      `    PERFORMER ${cueString(chapters.author)}`,
+      `    INDEX 01 ${formatCueIndex(timing.startMs - (file?.startMs ?? 0))}`
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderPodloveSimpleChapters(chapters: ChapterExport): string {
+  const entries = chapters.timings.map(
+    (timing) => `  <psc:chapter start="${formatClock(timing.startMs)}" title="${escapeXml(singleLine(timing.title))}" />`
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<psc:chapters version="1.2" xmlns:psc="http://podlove.org/simple-chapters">
+${entries.join("\n")}
+</psc:chapters>
+`;
+}
+
+// Nero/OGM chapter text (CHAPTERnn=/CHAPTERnnNAME=), the form mp4chaps and
+// MP4Box import into an MP4 `chpl` atom.
+export function renderNeroChapters(chapters: ChapterExport): string {
+  return chapters.timings
+    .map((timing, index) => {
+      const number = String(index + 1).padStart(2, "0");
+      return `CHAPTER${number}=${formatClock(timing.startMs)}\nCHAPTER${number}NAME=${singleLine(timing.title)}\n`;
+    })
+    .join("");
+}
+
+export function renderChapters(chapters: ChapterExport, format: Exclude<ChapterFormat, "json">): string {
+  if (format === "ffmetadata") return renderFfmetadata(chapters);
+  if (format === "cue") return renderCueSheet(chapters);
+  if (format === "psc") return renderPodloveSimpleChapters(chapters);
+  return renderNeroChapters(chapters);
+}
@@ -4,14 +4,7 @@ import path from "node:path";
 import type { BookRow, LibraryBook } from "../app-types";
 import type { BooksRepo } from "../repo";
 
-function sanitizePathSegment(value: string): string {
-  const trimmed = value.trim();
-  const sanitized = trimmed
-    .replace(/[<>:"/\\|?*\u0000-\u001F]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-  return sanitized || "Unknown";
-}
+import { libraryPathFor, namingContextFor } from "./naming";
 
 export async function downloadCover(repo: BooksRepo, book: LibraryBook, coverUrl: string): Promise<string | null> {
   try {
@@ -40,11 +33,9 @@ export async function downloadCover(repo: BooksRepo, book: LibraryBook, coverUrl
   }
 }
 
+/** The book's folder under the naming template; manifestation tokens render empty. */
 export function coverDirectoryForBook(repo: BooksRepo, book: Pick<BookRow | LibraryBook, "id" | "title" | "author">): string {
-  const settings = repo.getSettings();
-  return path.join(
-    settings.libraryRoot,
-    sanitizePathSegment(book.author || "Unknown"),
-    sanitizePathSegment(book.title || `book-${book.id}`)
-  );
+  const current = repo.getBook(book.id);
+  const context = namingContextFor(current ?? { ...book, series: [], publishedAt: null, language: null });
+  return libraryPathFor(repo.getSettings(), context).folder;
 }
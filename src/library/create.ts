@@ -1,20 +1,16 @@
 import { BooksRepo } from "../repo";
 
 import { hydrateBookFromOpenLibrary } from "./hydration";
-import { resolveOpenLibraryCandidate } from "./openlibrary";
+import { OpenLibraryCandidate, resolveOpenLibraryCandidate } from "./openlibrary";
 import { triggerAutoAcquire } from "./service";
 
-export async function createOrReuseBookFromOpenLibrary(
+// Finds the book for a resolved Open Library candidate (by key, then title/author) or creates it, then hydrates it.
+export async function createOrReuseBookFromCandidate(
   repo: BooksRepo,
-  openLibraryKey: string,
+  resolved: OpenLibraryCandidate,
   options: { addedByUserId?: number | null } = {}
-): Promise<{ bookId: number; acquisitionJobId: number }> {
-  const resolved = await resolveOpenLibraryCandidate({ openLibraryKey });
-  if (!resolved) {
-    throw new Error("Open Library match not found");
-  }
-
-  const canonicalKey = resolved.identifiers.openlibrary ?? openLibraryKey.trim();
+): Promise<number> {
+  const canonicalKey = resolved.identifiers.openlibrary ?? resolved.openLibraryKey;
   const bookId = repo.transaction(() => {
     const existing =
       repo.findBookByOpenLibraryKey(canonicalKey) ??
@@ -42,7 +38,20 @@ export async function createOrReuseBookFromOpenLibrary(
   if (hydrated) {
     await hydrateBookFromOpenLibrary(repo, hydrated);
   }
+  return bookId;
+}
+
+export async function createOrReuseBookFromOpenLibrary(
+  repo: BooksRepo,
+  openLibraryKey: string,
+  options: { addedByUserId?: number | null } = {}
+): Promise<{ bookId: number; acquisitionJobId: number }> {
+  const resolved = await resolveOpenLibraryCandidate({ openLibraryKey });
+  if (!resolved) {
+    throw new Error("Open Library match not found");
+  }
 
+  const bookId = await createOrReuseBookFromCandidate(repo, resolved, options);
   const acquisitionJobId = await triggerAutoAcquire(repo, bookId);
   return { bookId, acquisitionJobId };
 }
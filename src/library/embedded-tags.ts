@@ -0,0 +1,82 @@
+import { mkdir } from "node:fs/promises";
+import path from "node:path";
+
+import type { EmbeddedAudioTags } from "../app-types";
+import type { BooksRepo } from "../repo";
+
+import type { BookMatchHint } from "./book-match";
+import { coverDirectoryForBook } from "./covers";
+
+/**
+ * Embedded audio tags stored on assets (see `readEmbeddedAudioTags`): parsing
+ * and display, the title/author/identifier hint they give for matching, and
+ * what they add to a book that lacks it (ASIN/ISBN identifiers, a cover).
+ */
+export function parseEmbeddedTags(value: string | null): EmbeddedAudioTags | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value) as EmbeddedAudioTags;
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function formatEmbeddedTags(tags: EmbeddedAudioTags): string {
+  const series = tags.series ? `${tags.series}${tags.seriesPosition ? ` #${tags.seriesPosition}` : ""}` : null;
+  return [
+    tags.album ?? tags.title,
+    tags.albumArtist ?? tags.artist,
+    tags.narrator ? `narrated by ${tags.narrator}` : null,
+    series ? `series ${series}` : null,
+    tags.publisher,
+    tags.year,
+    tags.asin ? `ASIN ${tags.asin}` : null,
+    tags.isbn ? `ISBN ${tags.isbn}` : null,
+    tags.hasCover ? "embedded cover" : null,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+/** Book title from the album (else track title) tag, author from album artist (else artist). */
+export function embeddedTagsHint(tags: EmbeddedAudioTags | null): BookMatchHint | null {
+  const title = tags?.album ?? tags?.title;
+  if (!tags || !title) return null;
+  return { title, author: tags.albumArtist ?? tags.artist, asin: tags.asin, isbn: tags.isbn };
+}
+
+async function extractEmbeddedCover(audioPath: string, coverPath: string): Promise<boolean> {
+  try {
+    await mkdir(path.dirname(coverPath), { recursive: true });
+    const child = Bun.spawn(["ffmpeg", "-v", "error", "-n", "-i", audioPath, "-map", "0:v:0", "-frames:v", "1", coverPath], {
+      stdout: "ignore",
+      stderr: "ignore",
+    });
+    return (await child.exited) === 0;
+  } catch {
+    return false;
+  }
+}
+
+export async function applyEmbeddedTagsToBook(
+  repo: BooksRepo,
+  bookId: number,
+  tags: EmbeddedAudioTags,
+  audioPath: string
+): Promise<void> {
+  const book = repo.getBook(bookId);
+  if (!book) return;
+  const identifiers = { ...book.identifiers };
+  if (tags.asin && !identifiers.asin) identifiers.asin = tags.asin;
+  if (tags.isbn && !identifiers.isbn) identifiers.isbn = tags.isbn;
+  if (Object.keys(identifiers).length !== Object.keys(book.identifiers).length) {
+    repo.updateBookMetadata(bookId, { identifiers });
+  }
+  if (tags.hasCover && !repo.getBookRow(bookId)?.cover_path) {
+    const coverPath = path.join(coverDirectoryForBook(repo, book), "cover.jpg");
+    if (await extractEmbeddedCover(audioPath, coverPath)) {
+      repo.updateBookMetadata(bookId, { coverPath });
+    }
+  }
+}
@@ -1,16 +1,129 @@
+import { createSessionToken, hashSessionToken } from "../auth";
 import { escapeXml, firstLine, htmlToPlainText, truncate } from "../utils/strings";
 import { formatDuration } from "../utils/time";
 
-import { preferredAudioManifestationsForBooks, streamExtensionForManifestation } from "./media";
+import { hasStoredManifestationTranscriptPayload } from "./chapter-analysis";
+import {
+  buildManifestationEpisodes,
+  preferredAudioManifestationsForBooks,
+  streamExtensionForManifestation,
+  type PreferredManifestation,
+} from "./media";
+import { TRANSCRIPT_FORMATS, type TranscriptFormat } from "./transcript-formats";
 import type { BooksRepo } from "../repo";
+import type { BookSeriesMembership, FeedTokenRow, FeedTokenScope, LibraryBook } from "../app-types";
 
-function requestOrigin(request: Request): string {
+/**
+ * A feed fetched with a private feed token: items are limited to the token's
+ * scope, and when the token came in the URL every link in the feed carries it
+ * so players can fetch media without a browser session. Basic-auth clients
+ * resend their credentials, so their links stay bare.
+ */
+export type FeedAccess = {
+  token: string | null;
+  userId: number;
+  scope: FeedTokenScope;
+};
+
+export function requestOrigin(request: Request): string {
   const url = new URL(request.url);
   const forwardedProto = request.headers.get("x-forwarded-proto");
   const proto = forwardedProto ? forwardedProto.split(",")[0]?.trim() : url.protocol.replace(":", "");
   return `${proto}://${url.host}`;
 }
 
+/**
+ * Issues a private feed token. Only the hash is stored, so the returned secret
+ * is the caller's one chance to hand the feed URLs to the user.
+ */
+export function issueFeedToken(
+  repo: BooksRepo,
+  userId: number,
+  scope: FeedTokenScope,
+  label: string | null = null
+): { row: FeedTokenRow; token: string } {
+  const token = createSessionToken();
+  const row = repo.createFeedToken(userId, hashSessionToken(token), scope, label);
+  return { row, token };
+}
+
+export function feedUrlsForToken(origin: string, token: string): { rssUrl: string; jsonUrl: string } {
+  const encoded = encodeURIComponent(token);
+  return {
+    rssUrl: `${origin}/feed.xml?token=${encoded}`,
+    jsonUrl: `${origin}/feed.json?token=${encoded}`,
+  };
+}
+
+export function withFeedToken(url: string, access: FeedAccess | null): string {
+  if (!access?.token) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}token=${encodeURIComponent(access.token)}`;
+}
+
+/**
+ * "added" covers books the user requested, "shelf" covers books they are
+ * listening to, reading, or have finished, and "all" is the whole library.
+ */
+export function feedScopeIncludesBook(
+  repo: BooksRepo,
+  scope: Pick<FeedAccess, "userId" | "scope">,
+  book: Pick<LibraryBook, "id" | "addedByUserId">
+): boolean {
+  if (scope.scope === "all") return true;
+  if (scope.scope === "added") return book.addedByUserId === scope.userId;
+  return repo.listShelfBookIds(scope.userId).has(book.id);
+}
+
+/**
+ * Which slice of the library an RSS feed covers. Series feeds are ordered by
+ * series position and the book feed splits a single book into episodes.
+ */
+export type RssFeedSelection =
+  | { kind: "library" }
+  | { kind: "series"; seriesKey: string }
+  | { kind: "author"; name: string }
+  | { kind: "book"; bookId: number };
+
+type RssEpisode = {
+  guid: string;
+  title: string;
+  author: string;
+  description: ReturnType<typeof itemDescription>;
+  enclosureUrl: string;
+  enclosureLength: number;
+  mime: string;
+  pubDate: string;
+  durationMs: number;
+  chaptersUrl: string | null;
+  transcripts: Array<{ url: string; type: string }>;
+  imageUrl: string | null;
+  season?: number;
+  episode?: number;
+  episodeType?: "full" | "bonus";
+};
+
+export function filterBooksToFeedScope<T extends Pick<LibraryBook, "id" | "addedByUserId">>(
+  repo: BooksRepo,
+  books: T[],
+  access: Pick<FeedAccess, "userId" | "scope"> | null
+): T[] {
+  if (!access || access.scope === "all") return books;
+  if (access.scope === "added") {
+    return books.filter((book) => book.addedByUserId === access.userId);
+  }
+  const shelfBookIds = repo.listShelfBookIds(access.userId);
+  return books.filter((book) => shelfBookIds.has(book.id));
+}
+
+function scopeFeedItems(repo: BooksRepo, items: PreferredManifestation[], access: FeedAccess | null): PreferredManifestation[] {
+  const books = new Set(filterBooksToFeedScope(repo, items.map((item) => item.book), access));
+  return items.filter((item) => books.has(item.book));
+}
+
+function feedItems(repo: BooksRepo, access: FeedAccess | null): PreferredManifestation[] {
+  return scopeFeedItems(repo, preferredAudioManifestationsForBooks(repo), access);
+}
+
 function itemDescription(description: string | null, descriptionHtml: string | null, title: string, author: string): {
   plain: string;
   html?: string;
@@ -25,46 +138,171 @@ function itemDescription(description: string | null, descriptionHtml: string | n
   };
 }
 
-export function buildRssFeed(request: Request, repo: BooksRepo, feedTitle: string, feedAuthor: string): Response {
-  const origin = requestOrigin(request);
-  const items = preferredAudioManifestationsForBooks(repo);
-  const lastModified = items[0]?.book.addedAt ?? new Date().toISOString();
+const FEED_TRANSCRIPT_FORMATS: TranscriptFormat[] = ["vtt", "podcast-json", "srt"];
 
-  const body = `<?xml version="1.0" encoding="UTF-8"?>
-<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0">
-<channel>
-<title>${escapeXml(feedTitle)}</title>
-<link>${origin}/feed.xml</link>
-<description>${escapeXml(feedTitle)}</description>
-<itunes:author>${escapeXml(feedAuthor)}</itunes:author>
-<lastBuildDate>${new Date(lastModified).toUTCString()}</lastBuildDate>
-${items
-  .map(({ book, manifestation, containers }) => {
-    const primary = containers[0]!;
-    const description = itemDescription(book.description, book.descriptionHtml, book.title, book.author);
-    const ext = streamExtensionForManifestation(containers);
-    const enclosure = `${origin}/stream/m/${manifestation.id}.${ext}`;
-    const chapters = `${origin}/chapters/m/${manifestation.id}.json`;
-    const pubDate = new Date(book.addedAt).toUTCString();
-    const coverTag = book.coverUrl ? `<itunes:image href="${origin}${book.coverUrl}" />` : "";
-    const durationMs = manifestation.duration_ms ?? primary.asset.duration_ms ?? 0;
-    const totalSize = manifestation.total_size || primary.asset.total_size;
-    return `<item>
-<guid isPermaLink="false">book-${book.id}-manifestation-${manifestation.id}</guid>
-<title>${escapeXml(book.title)}</title>
-<itunes:author>${escapeXml(book.author)}</itunes:author>
+function transcriptLinks(
+  repo: BooksRepo,
+  origin: string,
+  manifestationId: number,
+  access: FeedAccess | null
+): Array<{ url: string; type: string }> {
+  if (!hasStoredManifestationTranscriptPayload(repo, manifestationId)) return [];
+  return FEED_TRANSCRIPT_FORMATS.map((format) => ({
+    url: withFeedToken(`${origin}/transcripts/m/${manifestationId}.${TRANSCRIPT_FORMATS[format].suffix}`, access),
+    type: TRANSCRIPT_FORMATS[format].mime,
+  }));
+}
+
+function bookEpisode(repo: BooksRepo, origin: string, item: PreferredManifestation, access: FeedAccess | null): RssEpisode {
+  const { book, manifestation, containers } = item;
+  const primary = containers[0]!;
+  const ext = streamExtensionForManifestation(containers);
+  return {
+    guid: `book-${book.id}-manifestation-${manifestation.id}`,
+    title: book.title,
+    author: book.author,
+    description: itemDescription(book.description, book.descriptionHtml, book.title, book.author),
+    enclosureUrl: withFeedToken(`${origin}/stream/m/${manifestation.id}.${ext}`, access),
+    enclosureLength: manifestation.total_size || primary.asset.total_size,
+    mime: primary.asset.mime,
+    pubDate: book.addedAt,
+    durationMs: manifestation.duration_ms ?? primary.asset.duration_ms ?? 0,
+    chaptersUrl: withFeedToken(`${origin}/chapters/m/${manifestation.id}.json`, access),
+    transcripts: transcriptLinks(repo, origin, manifestation.id, access),
+    imageUrl: book.coverUrl ? withFeedToken(`${origin}${book.coverUrl}`, access) : null,
+  };
+}
+
+function seriesMembership(book: LibraryBook, seriesKey: string): BookSeriesMembership | null {
+  return book.series.find((series) => series.key === seriesKey || series.name.toLowerCase() === seriesKey.toLowerCase()) ?? null;
+}
+
+function selectionFeedPath(selection: RssFeedSelection): string {
+  if (selection.kind === "series") return `/feed/series/${encodeURIComponent(selection.seriesKey)}.xml`;
+  if (selection.kind === "author") return `/feed/author/${encodeURIComponent(selection.name)}.xml`;
+  if (selection.kind === "book") return `/feed/book/${selection.bookId}.xml`;
+  return "/feed.xml";
+}
+
+function seriesBooks(repo: BooksRepo, seriesKey: string): LibraryBook[] {
+  const byKey = repo.listBooksBySeries({ seriesKey });
+  return byKey.length > 0 ? byKey : repo.listBooksBySeries({ seriesName: seriesKey });
+}
+
+async function selectionEpisodes(
+  repo: BooksRepo,
+  origin: string,
+  selection: RssFeedSelection,
+  access: FeedAccess | null
+): Promise<{ title: string | null; author: string | null; episodes: RssEpisode[] } | null> {
+  if (selection.kind === "library") {
+    return { title: null, author: null, episodes: feedItems(repo, access).map((item) => bookEpisode(repo, origin, item, access)) };
+  }
+
+  if (selection.kind === "series") {
+    const books = seriesBooks(repo, selection.seriesKey);
+    if (books.length === 0) return null;
+    const items = scopeFeedItems(repo, preferredAudioManifestationsForBooks(repo, books), access);
+    const order = new Map(books.map((book, index) => [book.id, index]));
+    items.sort((a, b) => (order.get(a.book.id) ?? 0) - (order.get(b.book.id) ?? 0));
+    return {
+      title: seriesMembership(books[0]!, selection.seriesKey)?.name ?? selection.seriesKey,
+      author: books[0]!.author,
+      episodes: items.map((item) => {
+        const position = Number(seriesMembership(item.book, selection.seriesKey)?.position ?? NaN);
+        // Whole-numbered entries are the main sequence; novellas at 2.5 and
+        // unnumbered extras are marked as bonus episodes between them.
+        return Number.isInteger(position) && position > 0
+          ? { ...bookEpisode(repo, origin, item, access), season: 1, episode: position, episodeType: "full" as const }
+          : { ...bookEpisode(repo, origin, item, access), season: 1, episodeType: "bonus" as const };
+      }),
+    };
+  }
+
+  if (selection.kind === "author") {
+    const books = repo.listBooksByAuthor(selection.name);
+    if (books.length === 0) return null;
+    const items = scopeFeedItems(repo, preferredAudioManifestationsForBooks(repo, books), access);
+    return { title: books[0]!.author, author: books[0]!.author, episodes: items.map((item) => bookEpisode(repo, origin, item, access)) };
+  }
+
+  const book = repo.getBook(selection.bookId);
+  if (!book || (access && !feedScopeIncludesBook(repo, access, book))) return null;
+  const item = preferredAudioManifestationsForBooks(repo, [book])[0];
+  if (!item) return { title: book.title, author: book.author, episodes: [] };
+  const whole = bookEpisode(repo, origin, item, access);
+  const parts = await buildManifestationEpisodes(repo, item.manifestation, item.containers);
+  if (!parts) return { title: book.title, author: book.author, episodes: [{ ...whole, episode: 1 }] };
+  const ext = streamExtensionForManifestation(item.containers);
+  const addedAtMs = Date.parse(book.addedAt);
+  return {
+    title: book.title,
+    author: book.author,
+    episodes: parts.map((part) => ({
+      ...whole,
+      guid: `${whole.guid}-episode-${part.index + 1}`,
+      title: part.title || `${book.title} (${part.index + 1})`,
+      enclosureUrl: withFeedToken(`${origin}/stream/m/${item.manifestation.id}/episodes/${part.index + 1}.${ext}`, access),
+      enclosureLength: part.endOffset - part.startOffset + 1,
+      // Stagger publish dates so date-sorted players keep chapters in order.
+      pubDate: new Date(addedAtMs + part.index * 1000).toISOString(),
+      durationMs: part.endMs - part.startMs,
+      chaptersUrl: null,
+      // Transcript timestamps are relative to the whole book, not the part.
+      transcripts: [],
+      episode: part.index + 1,
+    })),
+  };
+}
+
+function renderRssEpisode(episode: RssEpisode): string {
+  const enclosure = escapeXml(episode.enclosureUrl);
+  const { description } = episode;
+  return `<item>
+<guid isPermaLink="false">${escapeXml(episode.guid)}</guid>
+<title>${escapeXml(episode.title)}</title>
+<itunes:author>${escapeXml(episode.author)}</itunes:author>
 <itunes:subtitle>${escapeXml(description.subtitle)}</itunes:subtitle>
-<enclosure url="${enclosure}" length="${totalSize}" type="${primary.asset.mime}" />
+<enclosure url="${enclosure}" length="${episode.enclosureLength}" type="${episode.mime}" />
 <link>${enclosure}</link>
-<pubDate>${pubDate}</pubDate>
+<pubDate>${new Date(episode.pubDate).toUTCString()}</pubDate>
 <description>${description.html ? `<![CDATA[${description.html.replace(/]]>/g, "]]]]><![CDATA[>")}]]>` : escapeXml(description.plain)}</description>
 <itunes:summary>${escapeXml(description.plain)}</itunes:summary>
-<itunes:duration>${formatDuration(durationMs / 1000)}</itunes:duration>
-<podcast:chapters url="${chapters}" type="application/json+chapters" />
-${coverTag}
+<itunes:duration>${formatDuration(episode.durationMs / 1000)}</itunes:duration>
+${episode.season !== undefined ? `<itunes:season>${episode.season}</itunes:season>\n` : ""}${episode.episode !== undefined ? `<itunes:episode>${episode.episode}</itunes:episode>\n` : ""}${episode.episodeType ? `<itunes:episodeType>${episode.episodeType}</itunes:episodeType>\n` : ""}${episode.chaptersUrl ? `<podcast:chapters url="${escapeXml(episode.chaptersUrl)}" type="application/json+chapters" />\n` : ""}${episode.transcripts
+    .map((transcript) => `<podcast:transcript url="${escapeXml(transcript.url)}" type="${transcript.type}" />\n`)
+    .join("")}${episode.imageUrl ? `<itunes:image href="${escapeXml(episode.imageUrl)}" />` : ""}
 </item>`;
-  })
-  .join("\n")}
+}
+
+export async function buildRssFeed(
+  request: Request,
+  repo: BooksRepo,
+  feedTitle: string,
+  feedAuthor: string,
+  options: { access?: FeedAccess | null; selection?: RssFeedSelection } = {}
+): Promise<Response> {
+  const access = options.access ?? null;
+  const selection = options.selection ?? { kind: "library" };
+  const origin = requestOrigin(request);
+  const selected = await selectionEpisodes(repo, origin, selection, access);
+  if (!selected) {
+    return new Response("Not found", { status: 404 });
+  }
+  const { episodes } = selected;
+  const title = selected.title ? `${feedTitle}: ${selected.title}` : feedTitle;
+  const lastModified =
+    episodes.map((episode) => episode.pubDate).sort((a, b) => b.localeCompare(a))[0] ?? new Date().toISOString();
+
+  const body = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+<channel>
+<title>${escapeXml(title)}</title>
+<link>${escapeXml(withFeedToken(`${origin}${selectionFeedPath(selection)}`, access))}</link>
+<description>${escapeXml(title)}</description>
+<itunes:author>${escapeXml(selected.author ?? feedAuthor)}</itunes:author>
+${selection.kind === "series" || selection.kind === "book" ? "<itunes:type>serial</itunes:type>\n" : ""}<lastBuildDate>${new Date(lastModified).toUTCString()}</lastBuildDate>
+${episodes.map(renderRssEpisode).join("\n")}
 </channel>
 </rss>`;
 
@@ -77,15 +315,23 @@ ${coverTag}
   });
 }
 
-export function buildJsonFeed(request: Request, repo: BooksRepo, feedTitle: string, feedAuthor: string): Response {
+export function buildJsonFeed(
+  request: Request,
+  repo: BooksRepo,
+  feedTitle: string,
+  feedAuthor: string,
+  options: { access?: FeedAccess | null } = {}
+): Response {
+  const access = options.access ?? null;
   const origin = requestOrigin(request);
-  const items = preferredAudioManifestationsForBooks(repo).map(({ book, manifestation, containers }) => {
+  const items = feedItems(repo, access).map(({ book, manifestation, containers }) => {
     const primary = containers[0]!;
     const description = itemDescription(book.description, book.descriptionHtml, book.title, book.author);
     const ext = streamExtensionForManifestation(containers);
-    const streamUrl = `${origin}/stream/m/${manifestation.id}.${ext}`;
+    const streamUrl = withFeedToken(`${origin}/stream/m/${manifestation.id}.${ext}`, access);
     const durationMs = manifestation.duration_ms ?? primary.asset.duration_ms ?? 0;
     const totalSize = manifestation.total_size || primary.asset.total_size;
+    const transcripts = transcriptLinks(repo, origin, manifestation.id, access);
     return {
       id: `book-${book.id}-manifestation-${manifestation.id}`,
       title: book.title,
@@ -94,7 +340,7 @@ export function buildJsonFeed(request: Request, repo: BooksRepo, feedTitle: stri
       date_published: new Date(book.addedAt).toISOString(),
       date_modified: new Date(book.updatedAt).toISOString(),
       authors: [{ name: book.author }],
-      ...(book.coverUrl ? { image: `${origin}${book.coverUrl}` } : {}),
+      ...(book.coverUrl ? { image: withFeedToken(`${origin}${book.coverUrl}`, access) } : {}),
       attachments: [
         {
           url: streamUrl,
@@ -104,13 +350,14 @@ export function buildJsonFeed(request: Request, repo: BooksRepo, feedTitle: stri
           duration_in_seconds: Math.round(durationMs / 1000),
         },
       ],
+      ...(transcripts.length > 0 ? { _podcast: { transcripts } } : {}),
     };
   });
 
   const payload = {
     version: "https://jsonfeed.org/version/1.1",
     title: feedTitle,
-    feed_url: `${origin}/feed.json`,
+    feed_url: withFeedToken(`${origin}/feed.json`, access),
     home_page_url: origin,
     authors: [{ name: feedAuthor }],
     items,
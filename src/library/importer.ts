@@ -1,20 +1,29 @@
+import { createHash } from "node:crypto";
 import { constants, promises as fs } from "node:fs";
 import path from "node:path";
 
 import { getDurationSeconds } from "../media/probe-cache";
-import { normalizeAudioExt } from "../media/metadata";
+import { normalizeAudioExt, readEmbeddedAudioTags } from "../media/metadata";
 import { computeEpubWordCount } from "./chapter-analysis";
+import { applyEmbeddedTagsToBook } from "./embedded-tags";
 import { inferLanguageFromReleaseTitles } from "./language";
+import { libraryPathFor, namingContextFor } from "./naming";
+import { parseQualityBreakdown } from "./quality";
+import { queueTagWrite } from "./tag-writing";
+import { transferIntoLibrary } from "./transfer";
 
 import type { BooksRepo } from "../repo";
-import type { AssetKind, MediaType, ReleaseRow } from "../app-types";
+import type { AssetKind, ImportMode, MediaType, ReleaseRow } from "../app-types";
 
 /**
  * Release importer that materializes downloader output as library assets.
  *
- * Given an rTorrent base path, it discovers files, selects media candidates by
- * release type, hardlinks into `libraryRoot/Author/Title`, and writes
- * immutable asset + asset_file rows.
+ * Given a download client's base path (torrent content or a Usenet completed
+ * folder), it discovers files, selects media candidates by release type,
+ * transfers them into the book's folder under `libraryRoot` (see `naming`)
+ * using the protocol's import mode (see `transfer`), and writes immutable
+ * asset + asset_file rows. Audio keeps the first file's embedded tags on the
+ * asset; they fill `{narrator}` and the book's missing identifiers and cover.
  */
 type ImportResult = {
   assetId: number;
@@ -43,10 +52,25 @@ type ImportReleaseOptions = {
   manifestationId?: number | null;
   sequenceInManifestation?: number | null;
   importNote?: string | null;
+  /** Overrides the protocol's configured import mode, e.g. for inbox drops. */
+  importMode?: ImportMode;
 };
 
-function sanitizePathSegment(value: string): string {
-  return value.replace(/[\\/:*?"<>|]/g, " ").replace(/\s+/g, " ").trim();
+type ManualImportInput = {
+  bookId: number;
+  mediaType: MediaType;
+  sourcePath: string;
+  title?: string | null;
+  /** Release provider recorded for the import, `manual` unless the inbox created it. */
+  provider?: string;
+  selectedPaths?: string[];
+  importMode?: ImportMode;
+};
+
+// Scratch folders SABnzbd/NZBGet leave next to finished output while unpacking
+// or after a failed repair; their contents are never the final release.
+function isPostProcessingDir(name: string): boolean {
+  return /^_(UNPACK|FAILED)_/i.test(name) || name === "__ADMIN__" || name === "_unpack";
 }
 
 async function walkFiles(root: string): Promise<string[]> {
@@ -61,7 +85,7 @@ async function walkFiles(root: string): Promise<string[]> {
     const full = path.join(root, entry.name);
     if (entry.isFile()) {
       out.push(full);
-    } else if (entry.isDirectory()) {
+    } else if (entry.isDirectory() && !isPostProcessingDir(entry.name)) {
       out.push(...(await walkFiles(full)));
     }
   }
@@ -118,47 +142,6 @@ function selectDiscoveredFiles(files: FileInfo[], selectedPaths: string[] | unde
   return chosen;
 }
 
-async function isSameFile(sourcePath: string, destinationPath: string): Promise<boolean> {
-  try {
-    const [sourceStat, destStat] = await Promise.all([fs.stat(sourcePath), fs.stat(destinationPath)]);
-    return sourceStat.dev === destStat.dev && sourceStat.ino === destStat.ino;
-  } catch {
-    return false;
-  }
-}
-
-function withCollisionSuffix(filePath: string, suffix: string): string {
-  const ext = path.extname(filePath);
-  const stem = ext ? filePath.slice(0, -ext.length) : filePath;
-  return `${stem} ${suffix}${ext}`;
-}
-
-async function ensureHardlink(sourcePath: string, destinationPath: string): Promise<string> {
-  await fs.mkdir(path.dirname(destinationPath), { recursive: true });
-  let attempt = 0;
-  while (attempt < 100) {
-    const candidate = attempt === 0 ? destinationPath : withCollisionSuffix(destinationPath, `(${attempt + 1})`);
-    try {
-      await fs.link(sourcePath, candidate);
-      return candidate;
-    } catch (error) {
-      const err = error as NodeJS.ErrnoException;
-      if (err.code === "EEXIST") {
-        if (await isSameFile(sourcePath, candidate)) {
-          return candidate;
-        }
-        attempt += 1;
-        continue;
-      }
-      if (err.code === "EXDEV") {
-        throw new Error(`Hardlink failed with EXDEV: ${sourcePath} -> ${candidate}`);
-      }
-      throw err;
-    }
-  }
-  throw new Error(`Could not allocate unique import path for ${destinationPath}`);
-}
-
 function pickAudioCandidates(files: FileInfo[]): { kind: AssetKind; files: FileInfo[]; mime: string } | null {
   const m4 = files.filter((file) => [".m4b", ".m4a", ".mp4"].includes(file.ext));
   if (m4.length > 0) {
@@ -223,7 +206,9 @@ function chooseFilesForMedia(mediaType: MediaType, files: FileInfo[]): { kind: A
 
 /**
  * Build one asset from downloader output and attach it to the release's book.
- * Existing files are never moved; imported files are hardlinked into library.
+ * Files go into the library with `transferIntoLibrary` under the protocol's
+ * import mode (`imports.torrentMode` / `imports.usenetMode`) unless
+ * `options.importMode` overrides it.
  */
 export async function importReleaseFromPath(
   repo: BooksRepo,
@@ -243,9 +228,20 @@ export async function importReleaseFromPath(
   const candidateFiles = selectDiscoveredFiles(discovered, options.selectedPaths, selectionRoot);
   const selected = chooseFilesForMedia(release.media_type, candidateFiles);
 
-  const authorDir = sanitizePathSegment(book.author || "Unknown");
-  const titleDir = sanitizePathSegment(book.title || `book-${book.id}`);
-  const root = path.join(libraryRoot, authorDir, titleDir);
+  const settings = repo.getSettings();
+  const importMode =
+    options.importMode ?? (release.protocol === "usenet" ? settings.imports.usenetMode : settings.imports.torrentMode);
+  const manifestationLanguage = inferLanguageFromReleaseTitles([release.title]);
+  const firstFile = selected.files[0];
+  const embeddedTags = release.media_type === "audio" && firstFile ? readEmbeddedAudioTags(firstFile.sourcePath, firstFile.mtimeMs) : null;
+  const { folder: root, fileStem } = libraryPathFor(
+    { ...settings, libraryRoot },
+    namingContextFor(
+      repo.getBook(book.id)!,
+      options.manifestationId ? repo.getManifestation(options.manifestationId) : { label: null, language: manifestationLanguage },
+      embeddedTags?.narrator ?? null
+    )
+  );
   const linkedFiles: string[] = [];
 
   let cursor = 0;
@@ -259,19 +255,20 @@ export async function importReleaseFromPath(
     end: number;
     durationMs: number;
     title?: string | null;
+    importMode: ImportMode;
   }> = [];
 
   for (const [index, file] of selected.files.entries()) {
     const targetPath = (() => {
       if (selected.kind === "multi") {
-        const multiDir = path.join(root, titleDir);
+        const multiDir = path.join(root, fileStem);
         return path.join(multiDir, path.basename(file.sourcePath));
       }
       const ext = file.ext;
-      return path.join(root, `${titleDir}${ext}`);
+      return path.join(root, `${fileStem}${ext}`);
     })();
 
-    const linkedPath = await ensureHardlink(file.sourcePath, targetPath);
+    const { path: linkedPath, mode } = await transferIntoLibrary(file.sourcePath, targetPath, importMode);
     linkedFiles.push(linkedPath);
 
     const durationSeconds =
@@ -292,6 +289,7 @@ export async function importReleaseFromPath(
       end,
       durationMs,
       title: selected.kind === "multi" ? `Part ${index + 1}` : null,
+      importMode: mode,
     });
   }
 
@@ -301,7 +299,8 @@ export async function importReleaseFromPath(
     repo.addManifestation({
       bookId: book.id,
       kind: release.media_type === "ebook" ? "ebook" : "audio",
-      language: inferLanguageFromReleaseTitles([release.title]),
+      language: manifestationLanguage,
+      preferredScore: parseQualityBreakdown(release.quality_json)?.score ?? 0,
     }).id;
   const asset = repo.addAsset({
     bookId: book.id,
@@ -313,6 +312,7 @@ export async function importReleaseFromPath(
     manifestationId,
     sequenceInManifestation: options.sequenceInManifestation ?? undefined,
     importNote: options.importNote ?? null,
+    embeddedTags,
     files: assetFiles,
   });
 
@@ -331,6 +331,13 @@ export async function importReleaseFromPath(
     });
   }
 
+  if (embeddedTags && linkedFiles[0]) {
+    await applyEmbeddedTagsToBook(repo, book.id, embeddedTags, linkedFiles[0]);
+  }
+  if (release.media_type === "audio") {
+    queueTagWrite(repo, book.id);
+  }
+
   if (selected.mime === "application/epub+zip" && linkedFiles[0]) {
     const wordCount = await computeEpubWordCount(linkedFiles[0]).catch(() => null);
     if (wordCount !== null) {
@@ -344,6 +351,41 @@ export async function importReleaseFromPath(
   };
 }
 
+export function uniqueManualInfoHash(bookId: number, mediaType: MediaType, sourcePath: string): string {
+  return createHash("sha1")
+    .update(`manual:${bookId}:${mediaType}:${sourcePath}:${Date.now()}:${Math.random()}`)
+    .digest("hex");
+}
+
+// Records a local path as an already-downloaded release and imports it; the release is marked failed when the import throws.
+export async function importManualRelease(
+  repo: BooksRepo,
+  input: ManualImportInput
+): Promise<ImportResult & { release: ReleaseRow }> {
+  const release = repo.createRelease({
+    bookId: input.bookId,
+    provider: input.provider ?? "manual",
+    providerGuid: null,
+    title: input.title?.trim() || path.basename(input.sourcePath),
+    mediaType: input.mediaType,
+    infoHash: uniqueManualInfoHash(input.bookId, input.mediaType, input.sourcePath),
+    sizeBytes: null,
+    url: input.sourcePath,
+    status: "downloaded",
+  });
+
+  try {
+    const imported = await importReleaseFromPath(repo, release, input.sourcePath, repo.getSettings().libraryRoot, {
+      selectedPaths: input.selectedPaths,
+      importMode: input.importMode,
+    });
+    return { ...imported, release: repo.setReleaseStatus(release.id, "imported", null) };
+  } catch (error) {
+    repo.setReleaseStatus(release.id, "failed", (error as Error).message || "Manual import failed");
+    throw error;
+  }
+}
+
 export async function ensurePathReadable(value: string): Promise<void> {
   await fs.access(value, constants.R_OK);
 }
@@ -0,0 +1,220 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { initEpubFile } from "@lingo-reader/epub-parser";
+
+import type { AppSettings, InboxItemRow, MediaType } from "../app-types";
+import { readEmbeddedAudioTags } from "../media/metadata";
+import type { BooksRepo } from "../repo";
+
+import { authorAgrees, findMatchingBook, guessFromName, matchTokens, type BookMatchHint } from "./book-match";
+import { createOrReuseBookFromCandidate } from "./create";
+import { embeddedTagsHint } from "./embedded-tags";
+import { importManualRelease, inspectImportPath, type ImportInspectionFile } from "./importer";
+import { resolveOpenLibraryCandidate } from "./openlibrary";
+
+/**
+ * Drop-folder imports. Every file or folder placed directly inside
+ * `inbox.path` is one drop: once nothing in it has changed for
+ * `INBOX_SETTLE_MS`, its title and author are guessed from embedded tags and
+ * then from its name, matched to a library book (see `book-match`, so an
+ * embedded ASIN or ISBN wins) or an Open Library work, which becomes a new
+ * book, and imported like `import.manual` with `inbox.importMode`. Drops that
+ * match nothing stay `unmatched` until an admin assigns them to a book.
+ */
+export const INBOX_SETTLE_MS = 60_000;
+
+export type InboxGuess = BookMatchHint;
+
+export type InboxScanSummary = {
+  imported: number;
+  unmatched: number;
+  failed: number;
+  pending: number;
+};
+
+async function readEpubGuess(epubPath: string): Promise<InboxGuess | null> {
+  const resourceDir = await fs.mkdtemp(path.join(os.tmpdir(), "podible-inbox-"));
+  try {
+    const epub = await initEpubFile(epubPath, resourceDir);
+    try {
+      const metadata = epub.getMetadata();
+      const title = metadata.title?.trim();
+      if (!title) return null;
+      return { title, author: metadata.creator?.[0]?.contributor?.trim() || null };
+    } finally {
+      try {
+        epub.destroy();
+      } catch {
+        // Ignore cleanup failures from the EPUB parser.
+      }
+    }
+  } catch {
+    return null;
+  } finally {
+    await fs.rm(resourceDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
+
+/** Title, author and identifiers from the first audio file's embedded tags, else the first EPUB's metadata. */
+export async function guessFromTags(files: ImportInspectionFile[]): Promise<InboxGuess | null> {
+  const audio = files.find((file) => file.supportedAudio);
+  const hint = audio ? embeddedTagsHint(readEmbeddedAudioTags(audio.sourcePath, audio.mtimeMs)) : null;
+  if (hint) return hint;
+  const epub = files.find((file) => file.ext === ".epub");
+  return epub ? readEpubGuess(epub.sourcePath) : null;
+}
+
+async function findOpenLibraryBook(repo: BooksRepo, guess: InboxGuess): Promise<number | null> {
+  const candidate = await resolveOpenLibraryCandidate({ title: guess.title, author: guess.author ?? undefined }).catch(() => null);
+  if (!candidate) return null;
+  // Search returns its best hit for any query, so only trust one whose title and author match the guess.
+  const titleWords = new Set(matchTokens(guess.title));
+  const candidateWords = matchTokens(candidate.title.split(":")[0] ?? candidate.title);
+  if (candidateWords.length === 0 || !candidateWords.every((word) => titleWords.has(word))) return null;
+  if (!authorAgrees(guess.author, candidate.author)) return null;
+  return createOrReuseBookFromCandidate(repo, candidate);
+}
+
+function dropMediaTypes(files: ImportInspectionFile[]): MediaType[] {
+  const media: MediaType[] = [];
+  if (files.some((file) => file.supportedAudio)) media.push("audio");
+  if (files.some((file) => file.supportedEbook)) media.push("ebook");
+  return media;
+}
+
+async function pruneEmptyDirs(dir: string): Promise<void> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => null);
+  if (!entries) return;
+  for (const entry of entries) {
+    if (entry.isDirectory()) await pruneEmptyDirs(path.join(dir, entry.name));
+  }
+  await fs.rmdir(dir).catch(() => undefined);
+}
+
+async function importDrop(
+  repo: BooksRepo,
+  settings: AppSettings,
+  dropPath: string,
+  bookId: number,
+  files: ImportInspectionFile[],
+  guess: InboxGuess | null
+): Promise<InboxItemRow> {
+  const errors: string[] = [];
+  let imported = 0;
+  for (const mediaType of dropMediaTypes(files)) {
+    try {
+      await importManualRelease(repo, {
+        bookId,
+        mediaType,
+        sourcePath: dropPath,
+        provider: "inbox",
+        importMode: settings.inbox.importMode,
+      });
+      imported += 1;
+    } catch (error) {
+      errors.push(`${mediaType}: ${(error as Error).message}`);
+    }
+  }
+  if (imported > 0 && settings.inbox.importMode === "move") {
+    await pruneEmptyDirs(dropPath);
+  }
+  return repo.upsertInboxItem({
+    path: dropPath,
+    status: imported > 0 ? "imported" : "failed",
+    bookId,
+    guessTitle: guess?.title ?? null,
+    guessAuthor: guess?.author ?? null,
+    detail: errors.length > 0 ? errors.join("; ") : null,
+  });
+}
+
+/** Matches one drop to a book and imports it, or records it as unmatched or failed. */
+export async function processInboxDrop(repo: BooksRepo, settings: AppSettings, dropPath: string): Promise<InboxItemRow> {
+  const stat = await fs.stat(dropPath);
+  const files = await inspectImportPath(dropPath);
+  const nameGuess = guessFromName(path.basename(dropPath), stat.isFile());
+  if (dropMediaTypes(files).length === 0) {
+    return repo.upsertInboxItem({
+      path: dropPath,
+      status: "failed",
+      guessTitle: nameGuess?.title ?? null,
+      guessAuthor: nameGuess?.author ?? null,
+      detail: "No supported audio or ebook files",
+    });
+  }
+
+  const guesses = [await guessFromTags(files), nameGuess].filter((guess): guess is InboxGuess => guess !== null);
+  for (const guess of guesses) {
+    const book = findMatchingBook(repo, guess);
+    if (book) return importDrop(repo, settings, dropPath, book.id, files, guess);
+  }
+  for (const guess of guesses) {
+    const bookId = await findOpenLibraryBook(repo, guess);
+    if (bookId) return importDrop(repo, settings, dropPath, bookId, files, guess);
+  }
+  return repo.upsertInboxItem({
+    path: dropPath,
+    status: "unmatched",
+    guessTitle: guesses[0]?.title ?? null,
+    guessAuthor: guesses[0]?.author ?? null,
+    detail: "No matching book",
+  });
+}
+
+/** Imports a reviewed drop into the given book. */
+export async function assignInboxItem(repo: BooksRepo, itemId: number, bookId: number): Promise<InboxItemRow> {
+  const item = repo.getInboxItem(itemId);
+  if (!item) throw new Error("Inbox item not found");
+  if (item.status === "imported") throw new Error("Inbox item is already imported");
+  if (!repo.getBookRow(bookId)) throw new Error("Book not found");
+  const files = await inspectImportPath(item.path);
+  const guess = item.guess_title ? { title: item.guess_title, author: item.guess_author } : null;
+  return importDrop(repo, repo.getSettings(), item.path, bookId, files, guess);
+}
+
+async function lastModifiedMs(dropPath: string): Promise<number> {
+  const stat = await fs.stat(dropPath);
+  if (!stat.isDirectory()) return stat.mtimeMs;
+  const files = await inspectImportPath(dropPath);
+  return Math.max(stat.mtimeMs, ...files.map((file) => file.mtimeMs));
+}
+
+/**
+ * One pass over the inbox folder. Drops already recorded are skipped unless an
+ * imported drop was replaced since; unmatched or failed rows whose drop was
+ * removed are forgotten.
+ */
+export async function scanInbox(repo: BooksRepo, settings: AppSettings, now = Date.now()): Promise<InboxScanSummary> {
+  const summary: InboxScanSummary = { imported: 0, unmatched: 0, failed: 0, pending: 0 };
+  const root = path.resolve(settings.inbox.path);
+  const entries = await fs.readdir(root, { withFileTypes: true });
+  const present = new Set<string>();
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    if (!entry.isFile() && !entry.isDirectory()) continue;
+    const dropPath = path.join(root, entry.name);
+    present.add(dropPath);
+    const modifiedMs = await lastModifiedMs(dropPath).catch(() => null);
+    if (modifiedMs === null) continue;
+    const known = repo.getInboxItemByPath(dropPath);
+    if (known && (known.status !== "imported" || modifiedMs <= Date.parse(known.updated_at))) continue;
+    if (now - modifiedMs < INBOX_SETTLE_MS) {
+      summary.pending += 1;
+      continue;
+    }
+    const item = await processInboxDrop(repo, settings, dropPath).catch((error) =>
+      repo.upsertInboxItem({ path: dropPath, status: "failed", detail: (error as Error).message })
+    );
+    summary[item.status] += 1;
+  }
+
+  for (const item of repo.listInboxItems(["unmatched", "failed"])) {
+    if (path.dirname(item.path) === root && !present.has(item.path)) {
+      repo.deleteInboxItem(item.id);
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,78 @@
+import type { AppSettings, IndexerStatusRow, ReleaseProtocol } from "../app-types";
+import type { BooksRepo } from "../repo";
+
+// One failed search is often a timeout, so an indexer is only benched once it
+// has failed this many times in a row. Each further failure doubles the pause.
+export const INDEXER_FAILURES_BEFORE_BACKOFF = 3;
+const INDEXER_BACKOFF_BASE_MS = 5 * 60_000;
+const INDEXER_BACKOFF_MAX_MS = 6 * 60 * 60_000;
+
+export type IndexerHealth = {
+  name: string;
+  protocol: ReleaseProtocol;
+  healthy: boolean;
+  successCount: number;
+  failureCount: number;
+  consecutiveFailures: number;
+  lastLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  disabledUntil: string | null;
+};
+
+export function indexerBackoffMs(consecutiveFailures: number): number {
+  if (consecutiveFailures < INDEXER_FAILURES_BEFORE_BACKOFF) return 0;
+  const doublings = consecutiveFailures - INDEXER_FAILURES_BEFORE_BACKOFF;
+  return Math.min(INDEXER_BACKOFF_MAX_MS, INDEXER_BACKOFF_BASE_MS * 2 ** doublings);
+}
+
+/** The time the indexer is benched until, or null when it may be searched now. */
+export function indexerDisabledUntil(row: IndexerStatusRow | null, now = Date.now()): string | null {
+  if (!row?.disabled_until) return null;
+  return Date.parse(row.disabled_until) > now ? row.disabled_until : null;
+}
+
+export function recordIndexerFailure(
+  repo: BooksRepo,
+  protocol: ReleaseProtocol,
+  name: string,
+  error: Error,
+  latencyMs: number
+): IndexerStatusRow {
+  const previous = repo.getIndexerStatus(protocol, name);
+  const backoffMs = indexerBackoffMs((previous?.consecutive_failures ?? 0) + 1);
+  return repo.recordIndexerFailure(protocol, name, {
+    latencyMs,
+    error: error.message,
+    disabledUntil: backoffMs > 0 ? new Date(Date.now() + backoffMs).toISOString() : null,
+  });
+}
+
+/**
+ * Health of every configured indexer; ones never searched report as healthy
+ * with zero counts. An indexer turns unhealthy once its failures in a row
+ * reach the backoff threshold.
+ */
+export function listIndexerHealth(repo: BooksRepo, settings: AppSettings): IndexerHealth[] {
+  const configured: Array<{ protocol: ReleaseProtocol; name: string }> = [
+    ...settings.torznab.map((source) => ({ protocol: "torrent" as const, name: source.name })),
+    ...settings.newznab.map((source) => ({ protocol: "usenet" as const, name: source.name })),
+  ];
+  return configured.map(({ protocol, name }) => {
+    const row = repo.getIndexerStatus(protocol, name);
+    return {
+      name,
+      protocol,
+      healthy: (row?.consecutive_failures ?? 0) < INDEXER_FAILURES_BEFORE_BACKOFF,
+      successCount: row?.success_count ?? 0,
+      failureCount: row?.failure_count ?? 0,
+      consecutiveFailures: row?.consecutive_failures ?? 0,
+      lastLatencyMs: row?.last_latency_ms ?? null,
+      lastSuccessAt: row?.last_success_at ?? null,
+      lastFailureAt: row?.last_failure_at ?? null,
+      lastError: row?.last_error ?? null,
+      disabledUntil: indexerDisabledUntil(row),
+    };
+  });
+}
@@ -3,7 +3,7 @@ import { createHash } from "node:crypto";
 import { promises as fs } from "node:fs";
 import path from "node:path";
 
-import { parseRange, segmentsForRange, streamSegmentsWithXingPatch } from "../streaming/range";
+import { parseRange, segmentsForRange, streamSegments, streamSegmentsWithXingPatch } from "../streaming/range";
 import { buildId3ChaptersTag } from "../streaming/id3";
 import { loadStoredManifestationTranscriptPayload } from "./chapter-analysis";
 import type { StoredTranscriptUtterance } from "./chapter-analysis";
@@ -36,26 +36,28 @@ export type PreferredManifestation = {
   containers: Array<{ asset: AssetRow; files: AssetFileRow[] }>;
 };
 
-type ChapterTiming = {
+export type ChapterTiming = {
   id: string;
   title: string;
   startMs: number;
   endMs: number;
   startOffset?: number;
   endOffset?: number;
-  source?: "curated" | "epub_position_estimate";
+  source?: ChapterSource;
 };
 
+export type ChapterSource = "curated" | "epub_position_estimate" | "manual";
+
 type ServedChapter = {
   startTime: number;
   title: string;
-  source?: "curated" | "epub_position_estimate";
+  source?: ChapterSource;
 };
 
 type StoredCuratedChapter = {
   title: string;
   startTime: number;
-  source?: "curated" | "epub_position_estimate";
+  source?: ChapterSource;
 };
 
 function extensionForMime(mime: string): string {
@@ -280,14 +282,18 @@ async function buildTranscriptProposedChapterTimings(
 
   const analysis = repo.getChapterAnalysis(manifestation.id);
   if (!analysis?.chapters_json) return null;
-  const allChapters = JSON.parse(analysis.chapters_json) as StoredCuratedChapter[];
+  return storedChaptersToTimings(analysis.chapters_json, totalDurationMs, "curated");
+}
+
+function storedChaptersToTimings(chaptersJson: string, totalDurationMs: number, idPrefix: string): ChapterTiming[] | null {
+  const allChapters = JSON.parse(chaptersJson) as StoredCuratedChapter[];
   if (!Array.isArray(allChapters) || allChapters.length === 0) return null;
 
   return allChapters.map((chapter, index) => {
     const startMs = Math.round(chapter.startTime * 1000);
     const next = allChapters[index + 1];
     return {
-      id: `curated-${index}`,
+      id: `${idPrefix}-${index}`,
       title: chapter.title,
       startMs,
       endMs: next ? Math.max(startMs, Math.round(next.startTime * 1000)) : Math.max(startMs, totalDurationMs),
@@ -296,6 +302,18 @@ async function buildTranscriptProposedChapterTimings(
   });
 }
 
+// A saved manual edit wins over everything else; discarding it falls back to
+// whatever curation or the files currently produce.
+function buildManualChapterTimings(
+  repo: BooksRepo,
+  manifestation: ManifestationRow,
+  containers: Array<{ asset: AssetRow; files: AssetFileRow[] }>
+): ChapterTiming[] | null {
+  const override = repo.getChapterOverride(manifestation.id);
+  if (!override) return null;
+  return storedChaptersToTimings(override.chapters_json, manifestationDurationMs(manifestation, containers) ?? 0, "manual");
+}
+
 export async function buildChapters(
   repo: BooksRepo,
   asset: AssetRow,
@@ -320,6 +338,8 @@ async function buildManifestationChapterTimings(
 ): Promise<ChapterTiming[] | null> {
   const audioContainers = containers;
   if (audioContainers.length === 0) return null;
+  const manual = buildManualChapterTimings(repo, manifestation, audioContainers);
+  if (manual) return manual;
   const proposed = await buildTranscriptProposedChapterTimings(repo, manifestation, audioContainers);
   if (proposed) return proposed;
   if (audioContainers.length === 1) {
@@ -330,6 +350,38 @@ async function buildManifestationChapterTimings(
   return buildManifestationFallbackChapterTimings(audioContainers);
 }
 
+export type ChapterExportFile = {
+  path: string;
+  mime: string;
+  startMs: number;
+  durationMs: number;
+};
+
+/**
+ * The raw timings behind `buildManifestationChapters`, plus where each
+ * underlying asset file sits on the manifestation timeline, for renderers
+ * that need more than start times (ffmetadata, CUE sheets, ...).
+ */
+export async function buildManifestationChapterExport(
+  repo: BooksRepo,
+  manifestation: ManifestationRow,
+  containers: Array<{ asset: AssetRow; files: AssetFileRow[] }>
+): Promise<{ timings: ChapterTiming[]; files: ChapterExportFile[]; durationMs: number | null } | null> {
+  const timings = await buildManifestationChapterTimings(repo, manifestation, containers);
+  if (!timings || timings.length === 0) return null;
+  const files: ChapterExportFile[] = [];
+  let containerStartMs = 0;
+  for (const container of containers) {
+    let fileStartMs = containerStartMs;
+    for (const file of container.files) {
+      files.push({ path: file.path, mime: container.asset.mime, startMs: fileStartMs, durationMs: file.duration_ms });
+      fileStartMs += file.duration_ms;
+    }
+    containerStartMs += containerDurationMs(container.asset, container.files);
+  }
+  return { timings, files, durationMs: manifestationDurationMs(manifestation, containers) };
+}
+
 export async function buildManifestationChapters(
   repo: BooksRepo,
   manifestation: ManifestationRow,
@@ -631,6 +683,96 @@ export async function streamAudioManifestation(
   );
 }
 
+export type ManifestationEpisode = {
+  index: number;
+  title: string;
+  startMs: number;
+  endMs: number;
+  // Inclusive byte range within the manifestation's concatenated audio files.
+  startOffset: number;
+  endOffset: number;
+};
+
+/**
+ * Splits a manifestation into standalone episodes for players that ignore
+ * chapters: one per file when the audio spans several files, otherwise one per
+ * chapter for MP3s, which can be cut at arbitrary byte offsets. Returns null
+ * when the audio can't be split (e.g. a single M4B).
+ */
+export async function buildManifestationEpisodes(
+  repo: BooksRepo,
+  manifestation: ManifestationRow,
+  containers: Array<{ asset: AssetRow; files: AssetFileRow[] }>
+): Promise<ManifestationEpisode[] | null> {
+  if (manifestation.kind !== "audio" || containers.length === 0) return null;
+  const segments = flattenAudioFiles(containers);
+  if (segments.length > 1) {
+    const files = containers.flatMap((container) => container.files);
+    let cursorMs = 0;
+    return segments.map((segment, index) => {
+      const startMs = cursorMs;
+      cursorMs += segment.durationMs;
+      return {
+        index,
+        title: files[index] ? fallbackFileChapterTitle(files[index]) : segment.name,
+        startMs,
+        endMs: cursorMs,
+        startOffset: segment.start,
+        endOffset: segment.end,
+      };
+    });
+  }
+
+  const segment = segments[0];
+  if (!segment || containers[0]!.asset.mime !== "audio/mpeg") return null;
+  const timings = await buildManifestationChapterTimings(repo, manifestation, containers);
+  if (!timings || timings.length < 2) return null;
+  const durationMs = manifestationDurationMs(manifestation, containers) ?? segment.durationMs;
+  const offsetAt = (ms: number) => (durationMs > 0 ? Math.floor((segment.size * Math.min(ms, durationMs)) / durationMs) : 0);
+  return timings.map((timing, index) => {
+    const startOffset = timing.startOffset ?? offsetAt(timing.startMs);
+    const next = timings[index + 1];
+    const endOffset = next ? (next.startOffset ?? offsetAt(next.startMs)) - 1 : segment.size - 1;
+    return {
+      index,
+      title: timing.title,
+      startMs: timing.startMs,
+      endMs: timing.endMs,
+      startOffset,
+      endOffset: Math.max(startOffset, endOffset),
+    };
+  });
+}
+
+export async function streamManifestationEpisode(
+  request: Request,
+  repo: BooksRepo,
+  manifestation: ManifestationRow,
+  containers: Array<{ asset: AssetRow; files: AssetFileRow[] }>,
+  episodeIndex: number
+): Promise<Response> {
+  const episode = (await buildManifestationEpisodes(repo, manifestation, containers))?.[episodeIndex];
+  if (!episode) return new Response("Not found", { status: 404 });
+  const headers: Record<string, string> = {
+    "Accept-Ranges": "bytes",
+    "Content-Type": containers[0]!.asset.mime,
+  };
+  const size = episode.endOffset - episode.startOffset + 1;
+  const range = parseRange(request.headers.get("range"), size);
+  const start = range?.start ?? 0;
+  const end = range?.end ?? size - 1;
+  if (start >= size) {
+    headers["Content-Range"] = `bytes */${size}`;
+    return new Response("Range Not Satisfiable", { status: 416, headers });
+  }
+  headers["Content-Length"] = String(end - start + 1);
+  if (range) {
+    headers["Content-Range"] = `bytes ${start}-${end}/${size}`;
+  }
+  const slices = segmentsForRange(flattenAudioFiles(containers), episode.startOffset + start, episode.startOffset + end);
+  return new Response(streamSegments(slices), { status: range ? 206 : 200, headers });
+}
+
 export function preferredAudioForBooks(repo: BooksRepo): PreferredAudio[] {
   const books = repo.listAllBooks();
   const out: PreferredAudio[] = [];
@@ -658,8 +800,10 @@ export function preferredAudioForBooks(repo: BooksRepo): PreferredAudio[] {
 // files. Today this is functionally identical to preferredAudioForBooks since
 // each manifestation has exactly one container; the difference becomes
 // visible once multi-container manifestations exist.
-export function preferredAudioManifestationsForBooks(repo: BooksRepo): PreferredManifestation[] {
-  const books = repo.listAllBooks();
+export function preferredAudioManifestationsForBooks(
+  repo: BooksRepo,
+  books: LibraryBook[] = repo.listAllBooks()
+): PreferredManifestation[] {
   const out: PreferredManifestation[] = [];
 
   for (const book of books) {
@@ -0,0 +1,104 @@
+import path from "node:path";
+
+import type { AppSettings, LibraryBook, ManifestationRow } from "../app-types";
+
+/**
+ * Library naming templates. `naming.folderTemplate` places a book under
+ * `libraryRoot` and `naming.fileTemplate` names its files; both take `{token}`
+ * placeholders filled from the book and, for media, its manifestation. Empty
+ * tokens collapse along with the brackets and separators around them, and
+ * folders that end up empty are dropped.
+ */
+export type NamingContext = {
+  author: string;
+  title: string;
+  series: string | null;
+  seriesPosition: string | null;
+  year: string | null;
+  narrator: string | null;
+  language: string | null;
+  manifestationLabel: string | null;
+};
+
+export const NAMING_TOKENS = [
+  "author",
+  "series",
+  "seriesPosition",
+  "title",
+  "year",
+  "narrator",
+  "language",
+  "manifestationLabel",
+] as const satisfies ReadonlyArray<keyof NamingContext>;
+
+export function sanitizePathSegment(value: string): string {
+  return value
+    .replace(/[<>:"/\\|?*\u0000-\u001F]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+$/, "");
+}
+
+export function namingContextFor(
+  book: Pick<LibraryBook, "id" | "title" | "author" | "series" | "publishedAt" | "language">,
+  manifestation: Pick<ManifestationRow, "label" | "language"> | null = null,
+  narrator: string | null = null
+): NamingContext {
+  const series = book.series[0] ?? null;
+  return {
+    author: book.author.trim() || "Unknown",
+    title: book.title.trim() || `book-${book.id}`,
+    series: series?.name ?? null,
+    seriesPosition: series?.position ?? null,
+    year: book.publishedAt?.match(/\d{4}/)?.[0] ?? null,
+    narrator,
+    language: manifestation?.language ?? book.language,
+    manifestationLabel: manifestation?.label ?? null,
+  };
+}
+
+function padNumber(value: string, width: number): string {
+  const match = value.match(/^(\d+)(.*)$/);
+  return match ? `${match[1]!.padStart(width, "0")}${match[2]}` : value;
+}
+
+function renderSegment(segment: string, context: NamingContext): string {
+  const rendered = segment.replace(/\{(\w+)(?::(0+))?\}/g, (whole, token: string, pad: string | undefined) => {
+    if (!(NAMING_TOKENS as readonly string[]).includes(token)) return whole;
+    const value = context[token as keyof NamingContext]?.trim() ?? "";
+    return value && pad ? padNumber(value, pad.length) : value;
+  });
+  return sanitizePathSegment(
+    rendered
+      .replace(/\(\s*\)|\[\s*\]/g, " ")
+      .replace(/\s+/g, " ")
+      .replace(/( [-_,])( [-_,])+(?= )/g, "$1")
+      .replace(/^[\s\-_.,]+|[\s\-_,]+$/g, "")
+  );
+}
+
+/** Renders a template into path segments, dropping segments that render empty. */
+export function renderNamingTemplate(template: string, context: NamingContext): string[] {
+  return template
+    .split("/")
+    .map((segment) => renderSegment(segment, context))
+    .filter(Boolean);
+}
+
+/** Names a template refers to that are not known tokens, for settings validation. */
+export function unknownNamingTokens(template: string): string[] {
+  return [...template.matchAll(/\{(\w+)(?::0+)?\}/g)]
+    .map((match) => match[1]!)
+    .filter((token) => !(NAMING_TOKENS as readonly string[]).includes(token));
+}
+
+/** The book's folder and the file stem its media is stored under. */
+export function libraryPathFor(settings: AppSettings, context: NamingContext): { folder: string; fileStem: string } {
+  const folders = renderNamingTemplate(settings.naming.folderTemplate, context);
+  const fileStem = renderNamingTemplate(settings.naming.fileTemplate, context).join(" - ");
+  const fallback = [sanitizePathSegment(context.author) || "Unknown", sanitizePathSegment(context.title) || "book"];
+  return {
+    folder: path.join(settings.libraryRoot, ...(folders.length > 0 ? folders : fallback)),
+    fileStem: fileStem || fallback[1]!,
+  };
+}
@@ -0,0 +1,340 @@
+import { escapeXml } from "../utils/strings";
+
+import { selectPreferredDownloadableEbookAsset } from "./chapter-analysis";
+import { filterBooksToFeedScope, withFeedToken, type FeedAccess } from "./feed";
+import type { BooksRepo } from "../repo";
+import type { AssetRow, LibraryBook } from "../app-types";
+
+const OPDS_RECENT_LIMIT = 50;
+const OPDS_SEARCH_LIMIT = 100;
+
+const OPDS_NAVIGATION_TYPE = "application/atom+xml;profile=opds-catalog;kind=navigation";
+const OPDS_ACQUISITION_TYPE = "application/atom+xml;profile=opds-catalog;kind=acquisition";
+const OPDS2_TYPE = "application/opds+json";
+
+export type OpdsVersion = 1 | 2;
+
+/**
+ * Catalog pages under /opds (Atom, OPDS 1.2) and /opds/v2 (JSON, OPDS 2.0).
+ * Both versions share the same tree; only the rendering differs.
+ */
+export type OpdsPage =
+  | { kind: "root" }
+  | { kind: "recent" }
+  | { kind: "authors" }
+  | { kind: "author"; name: string }
+  | { kind: "series-list" }
+  | { kind: "series"; seriesKey: string }
+  | { kind: "search"; query: string };
+
+type OpdsNavigationEntry = {
+  id: string;
+  title: string;
+  path: string;
+  summary: string | null;
+  acquisition: boolean;
+};
+
+type OpdsPublication = {
+  book: LibraryBook;
+  ebook: AssetRow;
+};
+
+type OpdsFeed = {
+  id: string;
+  title: string;
+  path: string;
+  navigation: OpdsNavigationEntry[] | null;
+  publications: OpdsPublication[] | null;
+};
+
+function catalogBase(version: OpdsVersion): string {
+  return version === 2 ? "/opds/v2" : "/opds";
+}
+
+function pagePath(page: OpdsPage): string {
+  switch (page.kind) {
+    case "root":
+      return "";
+    case "recent":
+      return "/recent";
+    case "authors":
+      return "/authors";
+    case "author":
+      return `/authors/${encodeURIComponent(page.name)}`;
+    case "series-list":
+      return "/series";
+    case "series":
+      return `/series/${encodeURIComponent(page.seriesKey)}`;
+    case "search":
+      return `/search?q=${encodeURIComponent(page.query)}`;
+  }
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function ebookPublications(repo: BooksRepo, books: LibraryBook[], access: FeedAccess | null): OpdsPublication[] {
+  const out: OpdsPublication[] = [];
+  for (const book of filterBooksToFeedScope(repo, books, access)) {
+    const ebook = selectPreferredDownloadableEbookAsset(repo.listAssetsByBook(book.id));
+    if (ebook) out.push({ book, ebook });
+  }
+  return out;
+}
+
+function libraryPublications(repo: BooksRepo, access: FeedAccess | null): OpdsPublication[] {
+  return ebookPublications(repo, repo.listAllBooks(), access).sort((a, b) => b.book.addedAt.localeCompare(a.book.addedAt));
+}
+
+function buildOpdsFeed(repo: BooksRepo, page: OpdsPage, catalogTitle: string, access: FeedAccess | null): OpdsFeed | null {
+  const base = { id: `urn:podible:opds${pagePath(page).replace(/[?=&]/g, ":")}`, path: pagePath(page) };
+
+  if (page.kind === "root") {
+    return {
+      ...base,
+      title: catalogTitle,
+      navigation: [
+        { id: "urn:podible:opds:recent", title: "Recently added", path: pagePath({ kind: "recent" }), summary: null, acquisition: true },
+        { id: "urn:podible:opds:authors", title: "Authors", path: pagePath({ kind: "authors" }), summary: null, acquisition: false },
+        { id: "urn:podible:opds:series", title: "Series", path: pagePath({ kind: "series-list" }), summary: null, acquisition: false },
+      ],
+      publications: null,
+    };
+  }
+
+  if (page.kind === "recent") {
+    return {
+      ...base,
+      title: "Recently added",
+      navigation: null,
+      publications: libraryPublications(repo, access).slice(0, OPDS_RECENT_LIMIT),
+    };
+  }
+
+  if (page.kind === "authors") {
+    const counts = new Map<string, number>();
+    for (const { book } of libraryPublications(repo, access)) {
+      counts.set(book.author, (counts.get(book.author) ?? 0) + 1);
+    }
+    return {
+      ...base,
+      title: "Authors",
+      navigation: [...counts.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, count]) => ({
+          id: `urn:podible:opds:author:${encodeURIComponent(name)}`,
+          title: name,
+          path: pagePath({ kind: "author", name }),
+          summary: plural(count, "book"),
+          acquisition: true,
+        })),
+      publications: null,
+    };
+  }
+
+  if (page.kind === "author") {
+    const publications = ebookPublications(repo, repo.listBooksByAuthor(page.name), access);
+    if (publications.length === 0) return null;
+    return { ...base, title: publications[0]!.book.author, navigation: null, publications };
+  }
+
+  if (page.kind === "series-list") {
+    const series = new Map<string, { name: string; count: number }>();
+    for (const { book } of libraryPublications(repo, access)) {
+      for (const membership of book.series) {
+        const key = membership.key ?? membership.name;
+        const existing = series.get(key);
+        series.set(key, { name: existing?.name ?? membership.name, count: (existing?.count ?? 0) + 1 });
+      }
+    }
+    return {
+      ...base,
+      title: "Series",
+      navigation: [...series.entries()]
+        .sort(([, a], [, b]) => a.name.localeCompare(b.name))
+        .map(([seriesKey, { name, count }]) => ({
+          id: `urn:podible:opds:series:${encodeURIComponent(seriesKey)}`,
+          title: name,
+          path: pagePath({ kind: "series", seriesKey }),
+          summary: plural(count, "book"),
+          acquisition: true,
+        })),
+      publications: null,
+    };
+  }
+
+  if (page.kind === "series") {
+    const byKey = repo.listBooksBySeries({ seriesKey: page.seriesKey });
+    const books = byKey.length > 0 ? byKey : repo.listBooksBySeries({ seriesName: page.seriesKey });
+    const publications = ebookPublications(repo, books, access);
+    if (publications.length === 0) return null;
+    const membership = publications[0]!.book.series.find(
+      (series) => series.key === page.seriesKey || series.name.toLowerCase() === page.seriesKey.toLowerCase()
+    );
+    return { ...base, title: membership?.name ?? page.seriesKey, navigation: null, publications };
+  }
+
+  const query = page.query.trim();
+  return {
+    ...base,
+    title: query ? `Search: ${query}` : "Search",
+    navigation: null,
+    publications: query ? ebookPublications(repo, repo.listBooks(OPDS_SEARCH_LIMIT, undefined, query).items, access) : [],
+  };
+}
+
+function atomEntryForPublication(origin: string, publication: OpdsPublication, access: FeedAccess | null): string {
+  const { book, ebook } = publication;
+  const cover = book.coverUrl ? escapeXml(withFeedToken(`${origin}${book.coverUrl}`, access)) : null;
+  const summary = book.description?.trim();
+  return `<entry>
+<id>urn:podible:book:${book.id}</id>
+<title>${escapeXml(book.title)}</title>
+<author><name>${escapeXml(book.author)}</name></author>
+<updated>${new Date(book.updatedAt).toISOString()}</updated>
+${book.language ? `<dc:language>${escapeXml(book.language)}</dc:language>\n` : ""}${summary ? `<summary>${escapeXml(summary)}</summary>\n` : ""}${book.series
+    .map((series) => `<category term="${escapeXml(series.name)}" label="${escapeXml(series.position ? `${series.name} #${series.position}` : series.name)}" />\n`)
+    .join("")}${
+    cover
+      ? `<link rel="http://opds-spec.org/image" href="${cover}" type="image/jpeg" />
+<link rel="http://opds-spec.org/image/thumbnail" href="${cover}" type="image/jpeg" />
+`
+      : ""
+  }<link rel="http://opds-spec.org/acquisition" href="${escapeXml(withFeedToken(`${origin}/ebook/${ebook.id}`, access))}" type="${ebook.mime}" />
+</entry>`;
+}
+
+function renderAtomFeed(origin: string, feed: OpdsFeed, access: FeedAccess | null): Response {
+  const base = `${origin}${catalogBase(1)}`;
+  const selfType = feed.publications ? OPDS_ACQUISITION_TYPE : OPDS_NAVIGATION_TYPE;
+  const updated =
+    feed.publications?.map((publication) => publication.book.updatedAt).sort((a, b) => b.localeCompare(a))[0] ?? new Date().toISOString();
+  const navigation = (feed.navigation ?? [])
+    .map(
+      (entry) => `<entry>
+<id>${escapeXml(entry.id)}</id>
+<title>${escapeXml(entry.title)}</title>
+<updated>${new Date(updated).toISOString()}</updated>
+${entry.summary ? `<content type="text">${escapeXml(entry.summary)}</content>\n` : ""}<link rel="subsection" href="${escapeXml(withFeedToken(`${base}${entry.path}`, access))}" type="${entry.acquisition ? OPDS_ACQUISITION_TYPE : OPDS_NAVIGATION_TYPE}" />
+</entry>`
+    )
+    .join("\n");
+  const publications = (feed.publications ?? []).map((publication) => atomEntryForPublication(origin, publication, access)).join("\n");
+
+  const body = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/terms/" xmlns:opds="http://opds-spec.org/2010/catalog">
+<id>${escapeXml(feed.id)}</id>
+<title>${escapeXml(feed.title)}</title>
+<updated>${new Date(updated).toISOString()}</updated>
+<link rel="self" href="${escapeXml(withFeedToken(`${base}${feed.path}`, access))}" type="${selfType}" />
+<link rel="start" href="${escapeXml(withFeedToken(base, access))}" type="${OPDS_NAVIGATION_TYPE}" />
+<link rel="search" href="${escapeXml(withFeedToken(`${base}/search.xml`, access))}" type="application/opensearchdescription+xml" />
+${[navigation, publications].filter(Boolean).join("\n")}
+</feed>`;
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": `${selfType}; charset=utf-8`,
+    },
+  });
+}
+
+function renderJsonFeed(origin: string, feed: OpdsFeed, access: FeedAccess | null): Response {
+  const base = `${origin}${catalogBase(2)}`;
+  const payload = {
+    metadata: {
+      title: feed.title,
+      ...(feed.publications ? { numberOfItems: feed.publications.length } : {}),
+    },
+    links: [
+      { rel: "self", href: withFeedToken(`${base}${feed.path}`, access), type: OPDS2_TYPE },
+      { rel: "start", href: withFeedToken(base, access), type: OPDS2_TYPE },
+      // Templated links can't carry a query token without breaking the template.
+      { rel: "search", href: `${base}/search{?query}`, type: OPDS2_TYPE, templated: true },
+    ],
+    ...(feed.navigation
+      ? {
+          navigation: feed.navigation.map((entry) => ({
+            title: entry.title,
+            href: withFeedToken(`${base}${entry.path}`, access),
+            type: OPDS2_TYPE,
+            rel: "subsection",
+            ...(entry.summary ? { properties: { description: entry.summary } } : {}),
+          })),
+        }
+      : {}),
+    ...(feed.publications
+      ? {
+          publications: feed.publications.map(({ book, ebook }) => ({
+            metadata: {
+              "@type": "http://schema.org/Book",
+              identifier: `urn:podible:book:${book.id}`,
+              title: book.title,
+              author: book.author,
+              modified: new Date(book.updatedAt).toISOString(),
+              ...(book.language ? { language: book.language } : {}),
+              ...(book.description?.trim() ? { description: book.description.trim() } : {}),
+              ...(book.series.length > 0
+                ? {
+                    belongsTo: {
+                      series: book.series.map((series) => ({
+                        name: series.name,
+                        ...(series.position && Number.isFinite(Number(series.position)) ? { position: Number(series.position) } : {}),
+                      })),
+                    },
+                  }
+                : {}),
+            },
+            links: [
+              {
+                rel: "http://opds-spec.org/acquisition",
+                href: withFeedToken(`${origin}/ebook/${ebook.id}`, access),
+                type: ebook.mime,
+              },
+            ],
+            images: book.coverUrl ? [{ href: withFeedToken(`${origin}${book.coverUrl}`, access), type: "image/jpeg" }] : [],
+          })),
+        }
+      : {}),
+  };
+
+  return new Response(JSON.stringify(payload), {
+    headers: {
+      "Content-Type": `${OPDS2_TYPE}; charset=utf-8`,
+    },
+  });
+}
+
+export function buildOpdsResponse(
+  origin: string,
+  repo: BooksRepo,
+  version: OpdsVersion,
+  page: OpdsPage,
+  catalogTitle: string,
+  access: FeedAccess | null
+): Response {
+  const feed = buildOpdsFeed(repo, page, catalogTitle, access);
+  if (!feed) {
+    return new Response("Not found", { status: 404 });
+  }
+  return version === 2 ? renderJsonFeed(origin, feed, access) : renderAtomFeed(origin, feed, access);
+}
+
+export function buildOpenSearchDescription(origin: string, catalogTitle: string, access: FeedAccess | null): Response {
+  const template = `${origin}${catalogBase(1)}/search?q={searchTerms}${access?.token ? `&token=${encodeURIComponent(access.token)}` : ""}`;
+  const body = `<?xml version="1.0" encoding="UTF-8"?>
+<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/">
+<ShortName>${escapeXml(catalogTitle)}</ShortName>
+<Description>Search ${escapeXml(catalogTitle)} ebooks by title or author</Description>
+<InputEncoding>UTF-8</InputEncoding>
+<OutputEncoding>UTF-8</OutputEncoding>
+<Url type="${OPDS_ACQUISITION_TYPE}" template="${escapeXml(template)}" />
+</OpenSearchDescription>`;
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/opensearchdescription+xml; charset=utf-8",
+    },
+  });
+}
@@ -0,0 +1,175 @@
+import type { AppSettings, AudioQualityProfile, MediaType, QualityBreakdown, QualityProfileBase } from "../app-types";
+
+import { inferLanguageFromReleaseTitles, normalizeManifestationLanguageCode } from "./language";
+
+const AUDIO_FORMATS = ["m4b", "m4a", "mp3", "flac", "opus", "aac", "ogg"];
+const EBOOK_FORMATS = ["epub", "azw3", "azw", "mobi", "pdf", "djvu", "cbz", "cbr"];
+
+const FORMAT_POINTS = 20;
+const LANGUAGE_POINTS = 15;
+const UNLISTED_LANGUAGE_POINTS = -50;
+const NARRATOR_POINTS = 40;
+
+/** What the release is for, when known: drives size-per-hour and derived bitrate checks. */
+export type QualityTarget = {
+  durationMs?: number | null;
+};
+
+type ReleaseCandidate = {
+  title: string;
+  sizeBytes: number | null;
+};
+
+function titleTokens(title: string): Set<string> {
+  return new Set(title.toLowerCase().split(/[^a-z0-9]+/u).filter(Boolean));
+}
+
+function preferencePoints(list: string[], value: string, step: number): number | null {
+  const index = list.findIndex((entry) => entry.trim().toLowerCase() === value);
+  return index < 0 ? null : (list.length - index) * step;
+}
+
+// A bare "64k" only counts as a bitrate next to an audio format, so "100k Words" is not one.
+const BARE_K_BITRATE = new RegExp(
+  `\\b(?:(?:${AUDIO_FORMATS.join("|")})[\\s._()[\\]-]*(\\d{2,3})k|(\\d{2,3})k[\\s._()[\\]-]*(?:${AUDIO_FORMATS.join("|")}))\\b`,
+  "iu"
+);
+
+function titleBitrateKbps(title: string): number | null {
+  const match = title.match(/\b(\d{2,3})\s?(?:kbps|kb\/s|kbit)\b/iu) ?? title.match(BARE_K_BITRATE);
+  const value = match?.slice(1).find(Boolean);
+  return value ? Number(value) : null;
+}
+
+function outsideLimits(value: number, min: number, max: number): boolean {
+  return (min > 0 && value < min) || (max > 0 && value > max);
+}
+
+function scoreCommonRules(profile: QualityProfileBase, formats: string[], candidate: ReleaseCandidate, breakdown: QualityBreakdown): void {
+  const lower = candidate.title.toLowerCase();
+  const tokens = titleTokens(candidate.title);
+
+  const missing = profile.requiredWords.filter((word) => word.trim() && !lower.includes(word.trim().toLowerCase()));
+  if (missing.length > 0) {
+    breakdown.rejected ??= `missing required word ${JSON.stringify(missing[0])}`;
+  }
+  const forbidden = profile.forbiddenWords.find((word) => word.trim() && lower.includes(word.trim().toLowerCase()));
+  if (forbidden) {
+    breakdown.rejected ??= `contains forbidden word ${JSON.stringify(forbidden)}`;
+  }
+
+  const format =
+    profile.preferredFormats.map((entry) => entry.trim().toLowerCase()).find((entry) => tokens.has(entry)) ??
+    formats.find((entry) => tokens.has(entry));
+  if (format) scoreFormat(profile, format, breakdown);
+  scoreLanguage(profile, inferLanguageFromReleaseTitles([candidate.title]), breakdown);
+}
+
+function scoreFormat(profile: QualityProfileBase, format: string, breakdown: QualityBreakdown): void {
+  const points = preferencePoints(profile.preferredFormats, format, FORMAT_POINTS);
+  breakdown.reasons.push({
+    rule: "format",
+    points: points ?? 0,
+    detail: points === null ? `${format} is not a preferred format` : `${format} is a preferred format`,
+  });
+}
+
+function scoreLanguage(profile: QualityProfileBase, language: string | null, breakdown: QualityBreakdown): void {
+  const preferredLanguages = profile.preferredLanguages
+    .map((entry) => normalizeManifestationLanguageCode(entry))
+    .filter((entry): entry is string => Boolean(entry));
+  if (!language || preferredLanguages.length === 0) return;
+  const points = preferencePoints(preferredLanguages, language, LANGUAGE_POINTS);
+  breakdown.reasons.push({
+    rule: "language",
+    points: points ?? UNLISTED_LANGUAGE_POINTS,
+    detail: points === null ? `${language} is not a preferred language` : `${language} is a preferred language`,
+  });
+}
+
+function scoreAudioRules(profile: AudioQualityProfile, candidate: ReleaseCandidate, target: QualityTarget, breakdown: QualityBreakdown): void {
+  const lower = candidate.title.toLowerCase();
+  if (profile.unabridgedOnly && /\babridged\b/u.test(lower) && !/\bunabridged\b/u.test(lower)) {
+    breakdown.rejected ??= "abridged";
+  }
+
+  const hours = target.durationMs && target.durationMs > 0 ? target.durationMs / 3_600_000 : null;
+  const mbPerHour = hours && candidate.sizeBytes ? candidate.sizeBytes / (1024 * 1024) / hours : null;
+  if (mbPerHour !== null && outsideLimits(mbPerHour, profile.minMbPerHour, profile.maxMbPerHour)) {
+    breakdown.rejected ??= `${Math.round(mbPerHour)} MB/hour is outside ${profile.minMbPerHour}-${profile.maxMbPerHour || "any"}`;
+  }
+
+  const bitrate =
+    titleBitrateKbps(candidate.title) ??
+    (hours && candidate.sizeBytes ? Math.round((candidate.sizeBytes * 8) / 1000 / (hours * 3600)) : null);
+  if (bitrate !== null && outsideLimits(bitrate, profile.minBitrateKbps, profile.maxBitrateKbps)) {
+    breakdown.rejected ??= `${bitrate} kbps is outside ${profile.minBitrateKbps}-${profile.maxBitrateKbps || "any"}`;
+  }
+
+  const narrator = profile.preferredNarrators.find((name) => name.trim() && lower.includes(name.trim().toLowerCase()));
+  if (narrator) {
+    breakdown.reasons.push({ rule: "narrator", points: NARRATOR_POINTS, detail: `narrated by ${narrator}` });
+  }
+}
+
+/**
+ * Scores a release title against the quality profile for its media. Hard
+ * limits (required/forbidden words, abridged, bitrate, size per hour) reject
+ * the release; preferences (format, language, narrator) add points. Limits
+ * that cannot be read from the title or derived from the book's duration are
+ * not applied.
+ */
+export function scoreReleaseQuality(
+  settings: AppSettings,
+  media: MediaType,
+  candidate: ReleaseCandidate,
+  target: QualityTarget = {}
+): QualityBreakdown {
+  const breakdown: QualityBreakdown = { score: 0, rejected: null, reasons: [] };
+  if (media === "audio") {
+    scoreCommonRules(settings.quality.audio, AUDIO_FORMATS, candidate, breakdown);
+    scoreAudioRules(settings.quality.audio, candidate, target, breakdown);
+  } else {
+    scoreCommonRules(settings.quality.ebook, EBOOK_FORMATS, candidate, breakdown);
+  }
+  breakdown.score = breakdown.reasons.reduce((sum, reason) => sum + reason.points, 0);
+  return breakdown;
+}
+
+/**
+ * Scores a copy already in the library by its file format and language, for
+ * manifestations that carry no release score (imported before scoring, by the
+ * scanner, or by hand). Title-only rules do not apply.
+ */
+export function scoreLibraryCopy(
+  settings: AppSettings,
+  media: MediaType,
+  copy: { format: string | null; language: string | null }
+): QualityBreakdown {
+  const profile = media === "audio" ? settings.quality.audio : settings.quality.ebook;
+  const breakdown: QualityBreakdown = { score: 0, rejected: null, reasons: [] };
+  if (copy.format) scoreFormat(profile, copy.format.toLowerCase(), breakdown);
+  scoreLanguage(profile, normalizeManifestationLanguageCode(copy.language), breakdown);
+  breakdown.score = breakdown.reasons.reduce((sum, reason) => sum + reason.points, 0);
+  return breakdown;
+}
+
+export function formatQualityBreakdown(breakdown: QualityBreakdown): string {
+  const reasons = breakdown.reasons.map((reason) => `${reason.detail} (${reason.points >= 0 ? "+" : ""}${reason.points})`);
+  return [
+    `score ${breakdown.score}`,
+    breakdown.rejected ? `rejected: ${breakdown.rejected}` : null,
+    ...reasons,
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+export function parseQualityBreakdown(value: string | null): QualityBreakdown | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as QualityBreakdown;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Moves library files to where the current naming templates would place them.
+ * A plan lists every asset file and cover whose path differs; files outside
+ * `libraryRoot` are left alone. Applying a plan works one book at a time: its
+ * files are renamed, then asset and cover paths update in one transaction. A
+ * book whose renames or update fail has its files moved back, so disk and
+ * database never disagree.
+ */
+
+import { existsSync } from "node:fs";
+import { mkdir, rename, rmdir } from "node:fs/promises";
+import path from "node:path";
+
+import type { AppSettings, JobRow, LibraryMove, LibraryReorganizeReport } from "../app-types";
+import type { BooksRepo } from "../repo";
+
+import { coverDirectoryForBook } from "./covers";
+import { parseEmbeddedTags } from "./embedded-tags";
+import { libraryPathFor, namingContextFor } from "./naming";
+
+export type PlannedLibraryMove = LibraryMove & {
+  /** Every asset file row pointing at `from`; covers have none. */
+  assetFileIds: number[];
+};
+
+export type LibraryReorganizePlan = {
+  moves: PlannedLibraryMove[];
+  unchanged: number;
+  errors: Array<{ bookId: number; message: string }>;
+};
+
+export const LIBRARY_REORGANIZE_STATE_KEY = "library_reorganize";
+
+export function queueLibraryReorganize(repo: BooksRepo, dryRun: boolean): JobRow {
+  return repo.createJob({ type: "library_reorganize", payload: { dryRun } });
+}
+
+export function latestLibraryReorganize(repo: BooksRepo): LibraryReorganizeReport | null {
+  return repo.getJsonState<LibraryReorganizeReport>(LIBRARY_REORGANIZE_STATE_KEY);
+}
+
+function isInside(root: string, filePath: string): boolean {
+  const relative = path.relative(root, filePath);
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+function withCollisionSuffix(filePath: string, suffix: string): string {
+  const ext = path.extname(filePath);
+  const stem = ext ? filePath.slice(0, -ext.length) : filePath;
+  return `${stem} ${suffix}${ext}`;
+}
+
+// A file the importer gave a "(2)" suffix to is already where it belongs.
+function isAlreadyPlaced(current: string, desired: string): boolean {
+  if (current === desired) return true;
+  if (path.dirname(current) !== path.dirname(desired)) return false;
+  const ext = path.extname(desired);
+  const stem = path.basename(desired, ext);
+  const name = path.basename(current);
+  if (!name.startsWith(`${stem} (`) || !name.endsWith(`)${ext}`)) return false;
+  return /^\d+$/.test(name.slice(stem.length + 2, name.length - ext.length - 1));
+}
+
+export function planLibraryReorganize(repo: BooksRepo, settings: AppSettings = repo.getSettings()): LibraryReorganizePlan {
+  const root = settings.libraryRoot;
+  const candidates = new Map<string, PlannedLibraryMove>();
+  const errors: LibraryReorganizePlan["errors"] = [];
+
+  for (const book of repo.listAllBooks()) {
+    for (const asset of repo.listAssetsByBook(book.id)) {
+      const manifestation = asset.manifestation_id ? repo.getManifestation(asset.manifestation_id) : null;
+      const narrator = parseEmbeddedTags(asset.embedded_tags_json)?.narrator ?? null;
+      const { folder, fileStem } = libraryPathFor(settings, namingContextFor(book, manifestation, narrator));
+      for (const file of repo.getAssetFiles(asset.id)) {
+        if (!isInside(root, file.path)) continue;
+        const existing = candidates.get(file.path);
+        if (existing) {
+          existing.assetFileIds.push(file.id);
+          continue;
+        }
+        if (!existsSync(file.path)) {
+          errors.push({ bookId: book.id, message: `Missing file: ${file.path}` });
+          continue;
+        }
+        const to =
+          asset.kind === "multi"
+            ? path.join(folder, fileStem, path.basename(file.path))
+            : path.join(folder, `${fileStem}${path.extname(file.path)}`);
+        candidates.set(file.path, { kind: "file", bookId: book.id, from: file.path, to, assetFileIds: [file.id] });
+      }
+    }
+
+    const coverPath = repo.getBookRow(book.id)?.cover_path ?? null;
+    if (coverPath && isInside(root, coverPath) && !candidates.has(coverPath) && existsSync(coverPath)) {
+      const to = path.join(coverDirectoryForBook(repo, book), path.basename(coverPath));
+      candidates.set(coverPath, { kind: "cover", bookId: book.id, from: coverPath, to, assetFileIds: [] });
+    }
+  }
+
+  // Files already in place keep their paths; the rest take the next free name.
+  const claimed = new Set<string>();
+  const pending: PlannedLibraryMove[] = [];
+  let unchanged = 0;
+  for (const candidate of candidates.values()) {
+    if (isAlreadyPlaced(candidate.from, candidate.to)) {
+      claimed.add(candidate.from);
+      unchanged += 1;
+    } else {
+      pending.push(candidate);
+    }
+  }
+
+  const moves: PlannedLibraryMove[] = [];
+  for (const move of pending) {
+    let target: string | null = null;
+    for (let attempt = 0; attempt < 100; attempt += 1) {
+      const candidate = attempt === 0 ? move.to : withCollisionSuffix(move.to, `(${attempt + 1})`);
+      if (!claimed.has(candidate) && !existsSync(candidate)) {
+        target = candidate;
+        break;
+      }
+    }
+    if (!target) {
+      errors.push({ bookId: move.bookId, message: `Could not allocate a free path for ${move.to}` });
+      continue;
+    }
+    claimed.add(target);
+    moves.push({ ...move, to: target });
+  }
+
+  return { moves, unchanged, errors };
+}
+
+async function pruneEmptyDirectories(root: string, directories: string[]): Promise<void> {
+  const deepestFirst = [...new Set(directories)].sort((a, b) => b.length - a.length);
+  for (const directory of deepestFirst) {
+    let current = directory;
+    while (isInside(root, current)) {
+      try {
+        await rmdir(current);
+      } catch {
+        break;
+      }
+      current = path.dirname(current);
+    }
+  }
+}
+
+export async function applyLibraryReorganize(
+  repo: BooksRepo,
+  plan: LibraryReorganizePlan,
+  settings: AppSettings = repo.getSettings()
+): Promise<{ moved: LibraryMove[]; errors: LibraryReorganizePlan["errors"] }> {
+  const byBook = new Map<number, PlannedLibraryMove[]>();
+  for (const move of plan.moves) {
+    byBook.set(move.bookId, [...(byBook.get(move.bookId) ?? []), move]);
+  }
+
+  const moved: LibraryMove[] = [];
+  const errors = [...plan.errors];
+  for (const [bookId, moves] of byBook) {
+    const done: PlannedLibraryMove[] = [];
+    try {
+      for (const move of moves) {
+        // rename() silently replaces an existing file, so re-check what planning saw.
+        if (existsSync(move.to)) {
+          throw new Error(`Destination already exists: ${move.to}`);
+        }
+        await mkdir(path.dirname(move.to), { recursive: true });
+        await rename(move.from, move.to);
+        done.push(move);
+      }
+      repo.relocateLibraryFiles({
+        assetFiles: done.flatMap((move) => move.assetFileIds.map((id) => ({ id, path: move.to }))),
+        covers: done.filter((move) => move.kind === "cover").map((move) => ({ bookId, path: move.to })),
+      });
+    } catch (error) {
+      for (const move of [...done].reverse()) {
+        await rename(move.to, move.from).catch(() => undefined);
+      }
+      await pruneEmptyDirectories(settings.libraryRoot, done.map((move) => path.dirname(move.to)));
+      errors.push({ bookId, message: (error as Error).message });
+      continue;
+    }
+    moved.push(...done.map(({ kind, from, to }) => ({ kind, bookId, from, to })));
+    await pruneEmptyDirectories(settings.libraryRoot, done.map((move) => path.dirname(move.from)));
+  }
+  return { moved, errors };
+}
@@ -0,0 +1,39 @@
+import type { MediaType } from "../app-types";
+
+import { inferLanguageFromReleaseTitles, normalizeManifestationLanguageCode } from "./language";
+import { rankSearchResults } from "./service";
+import type { TorznabResult } from "./torznab";
+
+function tokens(value: string): string[] {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Feed items that look like a release of the book: every word of the title
+ * and the author's surname appear as whole words, the usual search ranking
+ * accepts it for `media`, and the language read from the release title (when
+ * there is one) agrees with the book's. Best match first.
+ */
+export function matchFeedResults(
+  book: { title: string; author: string; language: string | null },
+  media: MediaType,
+  items: TorznabResult[]
+): TorznabResult[] {
+  const titleWords = tokens(book.title);
+  const surname = tokens(book.author).at(-1);
+  if (titleWords.length === 0) return [];
+  const bookLanguage = normalizeManifestationLanguageCode(book.language);
+  const candidates = items.filter((item) => {
+    const words = new Set(tokens(item.title));
+    if (!titleWords.every((word) => words.has(word))) return false;
+    if (surname && !words.has(surname)) return false;
+    const language = inferLanguageFromReleaseTitles([item.title]);
+    return !bookLanguage || !language || language === bookLanguage;
+  });
+  return rankSearchResults(`${book.title} ${book.author}`, media, candidates).map((entry) => entry.result);
+}
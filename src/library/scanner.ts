@@ -1,8 +1,12 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
 
+import { readEmbeddedAudioTags } from "../media/metadata";
 import { getDurationSeconds } from "../media/probe-cache";
+import type { EmbeddedAudioTags } from "../app-types";
+import { findMatchingBook, guessFromName, type BookMatchHint } from "./book-match";
 import { computeEpubWordCount } from "./chapter-analysis";
+import { applyEmbeddedTagsToBook, embeddedTagsHint } from "./embedded-tags";
 
 import { hydrateBookFromOpenLibrary } from "./hydration";
 import type { BooksRepo } from "../repo";
@@ -10,15 +14,24 @@ import type { BooksRepo } from "../repo";
 /**
  * Filesystem-first scanner for existing libraries.
  *
- * It walks `libraryRoot/Author/Title`, creates missing book rows, and creates
- * assets for detected audio/ebook files when those file paths are not already
- * tracked in `asset_files`.
+ * It walks `libraryRoot` for folders holding audio/ebook files, creates
+ * missing book rows, and creates assets for detected files when those file
+ * paths are not already tracked in `asset_files`. A folder's book comes from
+ * its tracked files, else its embedded audio tags, else its path
+ * (`Author/Title`, `Author/.../Title`, or an `Author - Title` folder name).
  */
 type ScanResult = {
   booksCreated: number;
   assetsCreated: number;
 };
 
+type BookFolder = {
+  path: string;
+  /** Folder names from `libraryRoot` down to this folder. */
+  segments: string[];
+  files: FileInfo[];
+};
+
 type FileInfo = {
   path: string;
   name: string;
@@ -27,6 +40,11 @@ type FileInfo = {
   mtimeMs: number;
 };
 
+const AUDIO_EXTS = [".m4b", ".m4a", ".mp4", ".mp3"];
+const MAX_SCAN_DEPTH = 4;
+// Per-disc subfolders, and the importer's multi-file audio folder named after its book, belong to the parent folder's book.
+const DISC_FOLDER_PATTERN = /^(cd|dis[ck]|part)\s*\d+$/i;
+
 function isHiddenOrBundleDir(name: string): boolean {
   const lower = name.toLowerCase();
   if (lower.startsWith(".")) return true;
@@ -62,6 +80,46 @@ async function listFiles(dir: string): Promise<FileInfo[]> {
   return out;
 }
 
+function byName(a: { name: string }, b: { name: string }): number {
+  return a.name.localeCompare(b.name, undefined, { numeric: true });
+}
+
+function isPartOfParent(name: string, segments: string[]): boolean {
+  return segments.length > 0 && (DISC_FOLDER_PATTERN.test(name) || name === segments.at(-1));
+}
+
+// A folder's files are its own, by name, followed by each disc subfolder's, by disc and then by name.
+async function findBookFolders(dir: string, segments: string[]): Promise<BookFolder[]> {
+  const found: BookFolder[] = [];
+  const subdirs = (await safeReadDir(dir))
+    .filter((entry) => entry.isDirectory() && !isHiddenOrBundleDir(entry.name))
+    .sort(byName);
+  if (segments.length > 0) {
+    const files = (await listFiles(dir)).sort(byName);
+    for (const disc of subdirs.filter((subdir) => isPartOfParent(subdir.name, segments))) {
+      files.push(...(await listFiles(path.join(dir, disc.name))).sort(byName));
+    }
+    if (files.some((file) => AUDIO_EXTS.includes(file.ext) || file.ext === ".epub" || file.ext === ".pdf")) {
+      found.push({ path: dir, segments, files });
+    }
+  }
+  if (segments.length >= MAX_SCAN_DEPTH) return found;
+  for (const subdir of subdirs) {
+    if (isPartOfParent(subdir.name, segments)) continue;
+    found.push(...(await findBookFolders(path.join(dir, subdir.name), [...segments, subdir.name])));
+  }
+  return found;
+}
+
+function folderIdentity(segments: string[], tags: EmbeddedAudioTags | null): BookMatchHint | null {
+  const tagged = embeddedTagsHint(tags);
+  if (tagged?.author) return tagged;
+  const identifiers = { asin: tags?.asin ?? null, isbn: tags?.isbn ?? null };
+  if (segments.length >= 2) return { title: segments.at(-1)!, author: segments[0]!, ...identifiers };
+  const guessed = guessFromName(segments[0] ?? "", false);
+  return guessed?.author ? { ...guessed, ...identifiers } : null;
+}
+
 /**
  * Import loose files that already exist under the library root into the
  * database model. This does not call rTorrent or perform search/snatch.
@@ -70,146 +128,147 @@ export async function scanLibraryRoot(repo: BooksRepo, libraryRoot: string): Pro
   let booksCreated = 0;
   let assetsCreated = 0;
 
-  const authorDirs = (await safeReadDir(libraryRoot)).filter(
-    (entry) => entry.isDirectory() && !isHiddenOrBundleDir(entry.name)
-  );
-  for (const authorDir of authorDirs) {
-    const author = authorDir.name;
-    const authorPath = path.join(libraryRoot, author);
-    const bookDirs = (await safeReadDir(authorPath)).filter(
-      (entry) => entry.isDirectory() && !isHiddenOrBundleDir(entry.name)
-    );
-
-    for (const bookDir of bookDirs) {
-      const title = bookDir.name;
-      const bookPath = path.join(authorPath, title);
-      const files = await listFiles(bookPath);
-      const hasAudio = files.some((file) => [".m4b", ".m4a", ".mp4", ".mp3"].includes(file.ext));
-      const hasEbook = files.some((file) => file.ext === ".epub" || file.ext === ".pdf");
-      if (!hasAudio && !hasEbook) {
-        continue;
-      }
-      let book = repo.findBookByTitleAuthor(title, author);
+  for (const folder of await findBookFolders(libraryRoot, [])) {
+    const files = folder.files;
+    const m4 = files.filter((file) => [".m4b", ".m4a", ".mp4"].includes(file.ext));
+    const mp3 = files.filter((file) => file.ext === ".mp3");
+    // The file the audio asset is built from (the largest m4 file, else the first MP3) also supplies the folder's tags.
+    const tagSource = m4.length > 0 ? [...m4].sort((a, b) => b.size - a.size)[0] : mp3[0];
+    const tags = tagSource ? readEmbeddedAudioTags(tagSource.path, tagSource.mtimeMs) : null;
+    const trackedAsset = files.map((file) => repo.findAssetByFilePath(file.path)).find((asset) => asset !== null) ?? null;
+    const audioAsset = tagSource ? repo.findAssetByFilePath(tagSource.path) : null;
+    let book = trackedAsset ? repo.getBookRow(trackedAsset.book_id) : null;
+    if (!book) {
+      const identity = folderIdentity(folder.segments, tags);
+      if (!identity) continue;
+      const matched = findMatchingBook(repo, identity);
+      book = matched ? repo.getBookRow(matched.id) : null;
       if (!book) {
-        book = repo.createBook({ title, author });
+        book = repo.createBook({ title: identity.title, author: identity.author ?? "Unknown" });
         booksCreated += 1;
       }
-      const hydrated = repo.getBook(book.id);
-      if (hydrated) {
-        await hydrateBookFromOpenLibrary(repo, hydrated);
-      }
-
-      const hasCover = files.find((file) => [".jpg", ".jpeg", ".png"].includes(file.ext));
-      if (hasCover) {
-        repo.updateBookMetadata(book.id, { coverPath: hasCover.path });
-      }
+    }
+    if (tags && audioAsset && !audioAsset.embedded_tags_json) {
+      repo.setAssetEmbeddedTags(audioAsset.id, tags);
+    }
+    const hydrated = repo.getBook(book.id);
+    if (hydrated) {
+      await hydrateBookFromOpenLibrary(repo, hydrated);
+    }
 
-      const m4 = files.filter((file) => [".m4b", ".m4a", ".mp4"].includes(file.ext));
-      if (m4.length > 0) {
-        const chosen = [...m4].sort((a, b) => b.size - a.size)[0];
-        if (chosen && !repo.hasAssetFilePath(chosen.path)) {
-          const durationMs = Math.round((getDurationSeconds(chosen.path, chosen.mtimeMs) ?? 0) * 1000);
-          const manifestation = repo.addManifestation({
-            bookId: book.id,
-            kind: "audio",
-          });
-          repo.addAsset({
-            bookId: book.id,
-            kind: "single",
-            mime: chosen.ext === ".m4b" || chosen.ext === ".m4a" || chosen.ext === ".mp4" ? "audio/mp4" : "audio/mpeg",
-            totalSize: chosen.size,
-            durationMs,
-            sourceReleaseId: null,
-            manifestationId: manifestation.id,
-            importNote: "Filesystem scanner selected largest m4 audio file.",
-            files: [
-              {
-                path: chosen.path,
-                size: chosen.size,
-                start: 0,
-                end: Math.max(0, chosen.size - 1),
-                durationMs,
-                title: null,
-              },
-            ],
-          });
-          assetsCreated += 1;
-        }
-      } else {
-        const mp3 = files.filter((file) => file.ext === ".mp3").sort((a, b) => a.name.localeCompare(b.name));
-        if (mp3.length > 0 && mp3.every((file) => !repo.hasAssetFilePath(file.path))) {
-          let cursor = 0;
-          let durationMsTotal = 0;
-          const assetFiles = mp3.map((file, index) => {
-            const durationMs = Math.round((getDurationSeconds(file.path, file.mtimeMs) ?? 0) * 1000);
-            const row = {
-              path: file.path,
-              size: file.size,
-              start: cursor,
-              end: cursor + file.size - 1,
-              durationMs,
-              title: `Part ${index + 1}`,
-            };
-            cursor += file.size;
-            durationMsTotal += durationMs;
-            return row;
-          });
-
-          const manifestation = repo.addManifestation({
-            bookId: book.id,
-            kind: "audio",
-          });
-          repo.addAsset({
-            bookId: book.id,
-            kind: mp3.length > 1 ? "multi" : "single",
-            mime: "audio/mpeg",
-            totalSize: mp3.reduce((sum, file) => sum + file.size, 0),
-            durationMs: durationMsTotal,
-            sourceReleaseId: null,
-            manifestationId: manifestation.id,
-            importNote: `Filesystem scanner selected ${mp3.length} MP3 file${mp3.length === 1 ? "" : "s"}.`,
-            files: assetFiles,
-          });
-          assetsCreated += 1;
-        }
-      }
+    const hasCover = files.find((file) => [".jpg", ".jpeg", ".png"].includes(file.ext));
+    if (hasCover) {
+      repo.updateBookMetadata(book.id, { coverPath: hasCover.path });
+    }
+    if (tags && tagSource) {
+      await applyEmbeddedTagsToBook(repo, book.id, tags, tagSource.path);
+    }
 
-      const epub = files.find((file) => file.ext === ".epub");
-      const pdf = files.find((file) => file.ext === ".pdf");
-      const ebook = epub ?? pdf;
-      if (epub && book.word_count == null) {
-        const wordCount = await computeEpubWordCount(epub.path).catch(() => null);
-        if (wordCount !== null) {
-          book = repo.updateBookMetadata(book.id, { wordCount });
-        }
-      }
-      if (ebook && !repo.hasAssetFilePath(ebook.path)) {
+    if (m4.length > 0) {
+      const chosen = tagSource;
+      if (chosen && !repo.hasAssetFilePath(chosen.path)) {
+        const durationMs = Math.round((getDurationSeconds(chosen.path, chosen.mtimeMs) ?? 0) * 1000);
         const manifestation = repo.addManifestation({
           bookId: book.id,
-          kind: "ebook",
+          kind: "audio",
         });
         repo.addAsset({
           bookId: book.id,
           kind: "single",
-          mime: ebook.ext === ".pdf" ? "application/pdf" : "application/epub+zip",
-          totalSize: ebook.size,
-          durationMs: null,
+          mime: chosen.ext === ".m4b" || chosen.ext === ".m4a" || chosen.ext === ".mp4" ? "audio/mp4" : "audio/mpeg",
+          totalSize: chosen.size,
+          durationMs,
           sourceReleaseId: null,
           manifestationId: manifestation.id,
-          importNote: "Filesystem scanner selected ebook file.",
+          importNote: "Filesystem scanner selected largest m4 audio file.",
+          embeddedTags: tags,
           files: [
             {
-              path: ebook.path,
-              size: ebook.size,
+              path: chosen.path,
+              size: chosen.size,
               start: 0,
-              end: Math.max(0, ebook.size - 1),
-              durationMs: 0,
+              end: Math.max(0, chosen.size - 1),
+              durationMs,
               title: null,
             },
           ],
         });
         assetsCreated += 1;
       }
+    } else {
+      if (mp3.length > 0 && mp3.every((file) => !repo.hasAssetFilePath(file.path))) {
+        let cursor = 0;
+        let durationMsTotal = 0;
+        const assetFiles = mp3.map((file, index) => {
+          const durationMs = Math.round((getDurationSeconds(file.path, file.mtimeMs) ?? 0) * 1000);
+          const row = {
+            path: file.path,
+            size: file.size,
+            start: cursor,
+            end: cursor + file.size - 1,
+            durationMs,
+            title: `Part ${index + 1}`,
+          };
+          cursor += file.size;
+          durationMsTotal += durationMs;
+          return row;
+        });
+
+        const manifestation = repo.addManifestation({
+          bookId: book.id,
+          kind: "audio",
+        });
+        repo.addAsset({
+          bookId: book.id,
+          kind: mp3.length > 1 ? "multi" : "single",
+          mime: "audio/mpeg",
+          totalSize: mp3.reduce((sum, file) => sum + file.size, 0),
+          durationMs: durationMsTotal,
+          sourceReleaseId: null,
+          manifestationId: manifestation.id,
+          importNote: `Filesystem scanner selected ${mp3.length} MP3 file${mp3.length === 1 ? "" : "s"}.`,
+          embeddedTags: tags,
+          files: assetFiles,
+        });
+        assetsCreated += 1;
+      }
+    }
+
+    const epub = files.find((file) => file.ext === ".epub");
+    const pdf = files.find((file) => file.ext === ".pdf");
+    const ebook = epub ?? pdf;
+    if (epub && book.word_count == null) {
+      const wordCount = await computeEpubWordCount(epub.path).catch(() => null);
+      if (wordCount !== null) {
+        book = repo.updateBookMetadata(book.id, { wordCount });
+      }
+    }
+    if (ebook && !repo.hasAssetFilePath(ebook.path)) {
+      const manifestation = repo.addManifestation({
+        bookId: book.id,
+        kind: "ebook",
+      });
+      repo.addAsset({
+        bookId: book.id,
+        kind: "single",
+        mime: ebook.ext === ".pdf" ? "application/pdf" : "application/epub+zip",
+        totalSize: ebook.size,
+        durationMs: null,
+        sourceReleaseId: null,
+        manifestationId: manifestation.id,
+        importNote: "Filesystem scanner selected ebook file.",
+        files: [
+          {
+            path: ebook.path,
+            size: ebook.size,
+            start: 0,
+            end: Math.max(0, ebook.size - 1),
+            durationMs: 0,
+            title: null,
+          },
+        ],
+      });
+      assetsCreated += 1;
     }
   }
 
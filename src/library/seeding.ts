@@ -0,0 +1,40 @@
+import type { AppSettings, SeedingRule } from "../app-types";
+import type { SeedingState } from "../download-client";
+
+function positive(value: number | undefined): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * The seeding goal for releases grabbed from a Torznab source, or null when
+ * the source has none and its torrents are left in the client indefinitely.
+ */
+export function seedingRuleFor(settings: AppSettings, provider: string): SeedingRule | null {
+  const rule = settings.torznab.find((source) => source.name === provider)?.seeding;
+  if (!rule) return null;
+  const minRatio = positive(rule.minRatio);
+  const minSeedMinutes = positive(rule.minSeedMinutes);
+  if (minRatio === null && minSeedMinutes === null) return null;
+  return {
+    ...(minRatio !== null ? { minRatio } : {}),
+    ...(minSeedMinutes !== null ? { minSeedMinutes } : {}),
+  };
+}
+
+// A limit the client does not report can never be confirmed, so it counts as unmet.
+export function seedingGoalMet(rule: SeedingRule, state: SeedingState): boolean {
+  if (rule.minRatio !== undefined && (state.ratio === null || state.ratio < rule.minRatio)) return false;
+  if (rule.minSeedMinutes !== undefined && (state.seedingSeconds === null || state.seedingSeconds < rule.minSeedMinutes * 60)) {
+    return false;
+  }
+  return true;
+}
+
+export function formatSeedingRule(rule: SeedingRule): string {
+  return [
+    rule.minRatio !== undefined ? `ratio ${rule.minRatio}` : null,
+    rule.minSeedMinutes !== undefined ? `${rule.minSeedMinutes} min seeded` : null,
+  ]
+    .filter(Boolean)
+    .join(" and ");
+}
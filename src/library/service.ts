@@ -1,15 +1,26 @@
 import { BooksRepo } from "../repo";
-import { RtorrentClient } from "../rtorrent";
+import { createDownloadClient, createUsenetClient } from "../download-client";
+import { filterBlocklisted } from "./blocklist";
 import { getOrFetchCachedTorrentBytes, torrentCacheKeyFor } from "./torrent-cache";
 import { infoHashFromTorrentBytes, normalizeInfoHash } from "./torrent";
-import { searchTorznab } from "./torznab";
+import { searchNewznab, searchTorznab } from "./torznab";
 import { inferLanguageFromReleaseTitles, normalizeManifestationLanguageCode } from "./language";
+import { scoreReleaseQuality, type QualityTarget } from "./quality";
 import type { TorznabResult } from "./torznab";
-import type { AppSettings, MediaType, ReleaseRow } from "../app-types";
+import type { AppSettings, MediaType, QualityBreakdown, ReleaseProtocol, ReleaseRow } from "../app-types";
 
 type SearchRequest = {
   query: string;
   media: MediaType;
+  /** Set when searching for a known book, so indexers with `t=book` support can match on title and author. */
+  book?: { title: string; author: string; durationMs?: number | null };
+};
+
+type SearchRuntimeOptions = {
+  /** Enables the indexer caps cache and health tracking, and drops blocklisted releases. */
+  repo?: BooksRepo;
+  /** Also applies the blocklist entries scoped to this book. */
+  bookId?: number | null;
 };
 
 export type SnatchRequest = {
@@ -19,18 +30,22 @@ export type SnatchRequest = {
   title: string;
   mediaType: MediaType;
   url: string;
+  protocol?: ReleaseProtocol;
   infoHash?: string | null;
   sizeBytes?: number | null;
   manifestationId?: number | null;
   sequenceInManifestation?: number | null;
   selectionNote?: string | null;
   manifestationLanguage?: string | null;
+  /** Grabbed as an upgrade: the new manifestation replaces this one once imported. */
+  replacesManifestationId?: number | null;
 };
 
 export type SnatchGroupRequest = {
   bookId: number;
   mediaType: MediaType;
   forceManifestation?: boolean;
+  replacesManifestationId?: number | null;
   manifestation: {
     label: string | null;
     editionNote: string | null;
@@ -42,6 +57,7 @@ export type SnatchGroupRequest = {
     providerGuid?: string | null;
     title: string;
     url: string;
+    protocol?: ReleaseProtocol;
     infoHash?: string | null;
     sizeBytes?: number | null;
   }>;
@@ -63,6 +79,8 @@ type AutoAcquireOptions = {
   rejectedUrls?: string[];
   rejectedGuids?: string[];
   rejectedInfoHashes?: string[];
+  feedResults?: TorznabResult[];
+  upgrade?: boolean;
 };
 
 type SnatchRuntimeOptions = {
@@ -73,12 +91,27 @@ type SnatchRuntimeOptions = {
 type RankedSearchResult = {
   result: TorznabResult;
   score: number;
+  quality: QualityBreakdown | null;
+};
+
+/** Applies the configured quality profile on top of the built-in relevance ranking. */
+export type RankQualityOptions = {
+  settings: AppSettings;
+  target?: QualityTarget;
 };
 
 function isMagnet(url: string): boolean {
   return url.trim().toLowerCase().startsWith("magnet:?");
 }
 
+async function fetchNzbBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url, { method: "GET" });
+  if (!response.ok) {
+    throw new Error(`Failed to download NZB: ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
 function resolveInfoHash(explicitHash?: string | null): string | null {
   if (!explicitHash) return null;
   return normalizeInfoHash(explicitHash);
@@ -95,10 +128,6 @@ function idempotentResult(repo: BooksRepo, existing: ReleaseRow): SnatchResult {
   };
 }
 
-function rtorrentStringLiteral(value: string): string {
-  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-}
-
 const setMarkers = ["box set", "collection", "complete", "omnibus", "books 1-7", "1-3", "series"];
 const audioMarkers = ["m4b", "m4a", "mp3", "aac", "flac", "opus", "ogg", "wav", "audiobook", "audio book", "audio"];
 const ebookMarkers = ["epub", "pdf", "mobi", "azw", "ebook", "e-book", "djvu", "cbz", "cbr"];
@@ -135,7 +164,12 @@ function scoreSearchResult(media: MediaType, query: string, row: TorznabResult):
   return value;
 }
 
-export function rankSearchResults(query: string, media: MediaType, results: TorznabResult[]): RankedSearchResult[] {
+export function rankSearchResults(
+  query: string,
+  media: MediaType,
+  results: TorznabResult[],
+  quality?: RankQualityOptions
+): RankedSearchResult[] {
   const filtered = results.filter((row) => {
     const lower = row.title.toLowerCase();
     const audio = hasAudioMarker(lower);
@@ -147,10 +181,15 @@ export function rankSearchResults(query: string, media: MediaType, results: Torz
   });
 
   return filtered
-    .map((result) => ({
-      result,
-      score: scoreSearchResult(media, query, result),
-    }))
+    .map((result) => {
+      const breakdown = quality ? scoreReleaseQuality(quality.settings, media, result, quality.target) : null;
+      return {
+        result,
+        score: scoreSearchResult(media, query, result) + (breakdown?.score ?? 0),
+        quality: breakdown,
+      };
+    })
+    .filter((entry) => !entry.quality?.rejected)
     .sort((a, b) => {
       const scoreDiff = b.score - a.score;
       if (scoreDiff !== 0) return scoreDiff;
@@ -160,9 +199,17 @@ export function rankSearchResults(query: string, media: MediaType, results: Torz
     });
 }
 
-export async function runSearch(settings: AppSettings, request: SearchRequest) {
-  const results = await searchTorznab(settings.torznab, request.query, request.media);
-  return rankSearchResults(request.query, request.media, results).map((entry) => entry.result);
+export async function runSearch(settings: AppSettings, request: SearchRequest, runtime: SearchRuntimeOptions = {}) {
+  const options = { repo: runtime.repo, book: request.book };
+  const results = await searchTorznab(settings.torznab, request.query, request.media, options);
+  if (settings.usenetClient !== "none" && settings.newznab.length > 0) {
+    results.push(...(await searchNewznab(settings.newznab, request.query, request.media, options)));
+  }
+  const allowed = runtime.repo ? filterBlocklisted(runtime.repo, runtime.bookId ?? null, results) : results;
+  return rankSearchResults(request.query, request.media, allowed, {
+    settings,
+    target: { durationMs: request.book?.durationMs },
+  }).map((entry) => entry.result);
 }
 
 export async function runSnatch(
@@ -180,12 +227,20 @@ export async function runSnatch(
   if (!book) {
     throw new Error(`Book ${request.bookId} not found`);
   }
-  if (isMagnet(request.url)) {
+  const protocol = request.protocol ?? "torrent";
+  if (protocol === "torrent" && isMagnet(request.url)) {
     throw new Error("Magnet URLs are not supported for snatch; provide a .torrent URL");
   }
 
   const providerGuid = request.providerGuid?.trim() || null;
-  const explicitHash = resolveInfoHash(request.infoHash);
+  const explicitHash = protocol === "torrent" ? resolveInfoHash(request.infoHash) : null;
+  // Manual snatches are not filtered by the profile; the breakdown is recorded so the choice can be explained later.
+  const quality = scoreReleaseQuality(
+    settings,
+    request.mediaType,
+    { title: request.title, sizeBytes: request.sizeBytes ?? null },
+    { durationMs: book.duration_ms }
+  );
   let manifestationId = request.manifestationId ?? null;
   let sequenceInManifestation = request.sequenceInManifestation ?? null;
   if (sequenceInManifestation !== null && (!Number.isInteger(sequenceInManifestation) || sequenceInManifestation < 0)) {
@@ -206,10 +261,12 @@ export async function runSnatch(
       kind: request.mediaType === "ebook" ? "ebook" : "audio",
       selectionNote: request.selectionNote ?? null,
       language: normalizeManifestationLanguageCode(request.manifestationLanguage) ?? inferLanguageFromReleaseTitles([request.title]),
+      preferredScore: quality.score,
+      replacesManifestationId: request.replacesManifestationId ?? null,
     }).id;
   }
   snatchLog(
-    `[snatch] start book=${request.bookId} media=${request.mediaType} provider=${JSON.stringify(request.provider)} title=${JSON.stringify(request.title)} guid=${JSON.stringify(providerGuid)} explicit_hash=${JSON.stringify(explicitHash)} manifestation=${manifestationId ?? "auto"} sequence=${sequenceInManifestation ?? "auto"}`
+    `[snatch] start book=${request.bookId} media=${request.mediaType} protocol=${protocol} provider=${JSON.stringify(request.provider)} title=${JSON.stringify(request.title)} guid=${JSON.stringify(providerGuid)} explicit_hash=${JSON.stringify(explicitHash)} manifestation=${manifestationId ?? "auto"} sequence=${sequenceInManifestation ?? "auto"}`
   );
 
   if (explicitHash) {
@@ -238,58 +295,73 @@ export async function runSnatch(
     }
   }
 
-  snatchLog(`[snatch] fetch_torrent start`);
-  const { bytes: torrentBytes, cacheHit } = await getOrFetchCachedTorrentBytes(
-    repo,
-    {
-      provider: request.provider,
-      providerGuid,
-      url: request.url,
-      infoHash: explicitHash,
-    },
-    { onLog: (line) => snatchLog(line) }
-  );
-  snatchLog(`[snatch] fetch_torrent ok bytes=${torrentBytes.byteLength} cache_hit=${cacheHit}`);
-  const derivedHash = infoHashFromTorrentBytes(torrentBytes);
-  snatchLog(`[snatch] derived_hash=${derivedHash}`);
-  repo.putTorrentCache({
-    key: torrentCacheKeyFor({
+  let infoHash: string | null = null;
+  let downloadId: string | null = null;
+  if (protocol === "usenet") {
+    const client = createUsenetClient(settings);
+    if (!client) {
+      throw new Error("No Usenet download client configured; set usenetClient to sabnzbd or nzbget");
+    }
+    snatchLog(`[snatch] fetch_nzb start`);
+    const nzbBytes = await fetchNzbBytes(request.url);
+    snatchLog(`[snatch] fetch_nzb ok bytes=${nzbBytes.byteLength}`);
+    snatchLog(`[snatch] add_nzb begin client=${client.label}`);
+    try {
+      downloadId = await client.addNzb(nzbBytes, request.title);
+      snatchLog(`[snatch] add_nzb ok download_id=${downloadId}`);
+    } catch (error) {
+      snatchLog(`[snatch] add_nzb error=${JSON.stringify((error as Error).message)}`);
+      throw error;
+    }
+  } else {
+    snatchLog(`[snatch] fetch_torrent start`);
+    const { bytes: torrentBytes, cacheHit } = await getOrFetchCachedTorrentBytes(
+      repo,
+      {
+        provider: request.provider,
+        providerGuid,
+        url: request.url,
+        infoHash: explicitHash,
+      },
+      { onLog: (line) => snatchLog(line) }
+    );
+    snatchLog(`[snatch] fetch_torrent ok bytes=${torrentBytes.byteLength} cache_hit=${cacheHit}`);
+    const derivedHash = infoHashFromTorrentBytes(torrentBytes);
+    snatchLog(`[snatch] derived_hash=${derivedHash}`);
+    repo.putTorrentCache({
+      key: torrentCacheKeyFor({
+        provider: request.provider,
+        providerGuid,
+        url: request.url,
+      }),
       provider: request.provider,
       providerGuid,
       url: request.url,
-    }),
-    provider: request.provider,
-    providerGuid,
-    url: request.url,
-    infoHash: derivedHash,
-    torrentBytes,
-  });
+      infoHash: derivedHash,
+      torrentBytes,
+    });
 
-  const existingByDerived = repo.findReleaseByInfoHash(derivedHash);
-  if (existingByDerived) {
-    if (existingByDerived.book_id !== request.bookId) {
-      throw new Error(`Infohash already linked to book ${existingByDerived.book_id}`);
+    const existingByDerived = repo.findReleaseByInfoHash(derivedHash);
+    if (existingByDerived) {
+      if (existingByDerived.book_id !== request.bookId) {
+        throw new Error(`Infohash already linked to book ${existingByDerived.book_id}`);
+      }
+      snatchLog(
+        `[snatch] dedupe reason=derived_hash release=${existingByDerived.id} info_hash=${existingByDerived.info_hash} provider_guid=${JSON.stringify(existingByDerived.provider_guid)}`
+      );
+      return idempotentResult(repo, existingByDerived);
     }
-    snatchLog(
-      `[snatch] dedupe reason=derived_hash release=${existingByDerived.id} info_hash=${existingByDerived.info_hash} provider_guid=${JSON.stringify(existingByDerived.provider_guid)}`
-    );
-    return idempotentResult(repo, existingByDerived);
-  }
 
-  const client = new RtorrentClient(settings.rtorrent);
-  const downloadPath = settings.rtorrent.downloadPath?.trim() ?? "";
-  const commands = [
-    ...(downloadPath ? [`d.directory.set="${rtorrentStringLiteral(downloadPath)}"`] : []),
-    'd.custom1.set="Podible"',
-    `d.custom.set=addtime,${Math.round(Date.now() / 1000)}`,
-  ];
-  snatchLog(`[snatch] rtorrent load.raw_start begin`);
-  try {
-    await client.loadRawStart(torrentBytes, commands);
-    snatchLog(`[snatch] rtorrent load.raw_start ok`);
-  } catch (error) {
-    snatchLog(`[snatch] rtorrent load.raw_start error=${JSON.stringify((error as Error).message)}`);
-    throw error;
+    const client = createDownloadClient(settings);
+    snatchLog(`[snatch] add_torrent begin client=${client.label}`);
+    try {
+      await client.addTorrent(torrentBytes);
+      snatchLog(`[snatch] add_torrent ok`);
+    } catch (error) {
+      snatchLog(`[snatch] add_torrent error=${JSON.stringify((error as Error).message)}`);
+      throw error;
+    }
+    infoHash = derivedHash;
   }
 
   if (manifestationId === null) {
@@ -298,6 +370,8 @@ export async function runSnatch(
       kind: request.mediaType === "ebook" ? "ebook" : "audio",
       selectionNote: request.selectionNote ?? null,
       language: normalizeManifestationLanguageCode(request.manifestationLanguage) ?? inferLanguageFromReleaseTitles([request.title]),
+      preferredScore: quality.score,
+      replacesManifestationId: request.replacesManifestationId ?? null,
     }).id;
     sequenceInManifestation = 0;
   }
@@ -308,10 +382,13 @@ export async function runSnatch(
     providerGuid,
     title: request.title,
     mediaType: request.mediaType,
-    infoHash: derivedHash,
+    protocol,
+    infoHash,
+    downloadId,
     sizeBytes: request.sizeBytes ?? null,
     url: request.url,
     status: "snatched",
+    qualityJson: JSON.stringify(quality),
   });
 
   const job = repo.createJob({
@@ -319,13 +396,13 @@ export async function runSnatch(
     releaseId: release.id,
     bookId: release.book_id,
     payload: {
-      infoHash: release.info_hash,
+      ...(release.info_hash ? { infoHash: release.info_hash } : { downloadId: release.download_id }),
       preferAgentImport: runtime.preferAgentImport === true,
       manifestationId,
       sequenceInManifestation,
     },
   });
-  snatchLog(`[snatch] created release=${release.id} download_job=${job.id} info_hash=${release.info_hash}`);
+  snatchLog(`[snatch] created release=${release.id} download_job=${job.id} info_hash=${release.info_hash} download_id=${release.download_id}`);
 
   return {
     release,
@@ -352,6 +429,16 @@ export async function runSnatchGroup(
   const language =
     normalizeManifestationLanguageCode(request.manifestation.language) ??
     inferLanguageFromReleaseTitles(request.parts.map((part) => part.title));
+  const book = repo.getBookRow(request.bookId);
+  const partScores = request.parts.map(
+    (part) =>
+      scoreReleaseQuality(
+        settings,
+        request.mediaType,
+        { title: part.title, sizeBytes: part.sizeBytes ?? null },
+        { durationMs: book?.duration_ms }
+      ).score
+  );
   const manifestationId = needsExplicitManifestation
     ? repo.addManifestation({
         bookId: request.bookId,
@@ -360,6 +447,8 @@ export async function runSnatchGroup(
         editionNote: request.manifestation.editionNote,
         selectionNote: request.manifestation.selectionNote ?? null,
         language,
+        preferredScore: Math.round(partScores.reduce((sum, score) => sum + score, 0) / partScores.length),
+        replacesManifestationId: request.replacesManifestationId ?? null,
       }).id
     : null;
   const results: SnatchResult[] = [];
@@ -375,11 +464,13 @@ export async function runSnatchGroup(
           title: part.title,
           mediaType: request.mediaType,
           url: part.url,
+          protocol: part.protocol,
           sizeBytes: part.sizeBytes ?? null,
           infoHash: part.infoHash ?? null,
           manifestationId,
           sequenceInManifestation: needsExplicitManifestation ? index : null,
           manifestationLanguage: language,
+          replacesManifestationId: request.replacesManifestationId ?? null,
         },
         runtime
       )
@@ -409,6 +500,8 @@ export async function triggerAutoAcquire(
       rejectedUrls: options.rejectedUrls ?? [],
       rejectedGuids: options.rejectedGuids ?? [],
       rejectedInfoHashes: options.rejectedInfoHashes ?? [],
+      ...(options.feedResults ? { feedResults: options.feedResults } : {}),
+      ...(options.upgrade ? { upgrade: true } : {}),
     },
   });
   return acquireJob.id;
@@ -0,0 +1,191 @@
+/**
+ * Writes a book's canonical metadata back into its library audio files with
+ * ffmpeg: title, author, narrator, series, description and year tags, the
+ * book cover, and the served chapters for single-file MP4 audio. Streams are
+ * copied, not re-encoded. ffmpeg writes a new file next to each original that
+ * is then renamed over it, so a hardlink or symlink into a download folder is
+ * broken and the seeding copy never changes. Only files under `libraryRoot`
+ * are touched.
+ */
+
+import { spawn } from "node:child_process";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { AssetRow, JobRow, LibraryBook } from "../app-types";
+import { readEmbeddedAudioTags } from "../media/metadata";
+import type { BooksRepo } from "../repo";
+
+import { renderFfmetadata } from "./chapter-formats";
+import { parseEmbeddedTags } from "./embedded-tags";
+import { buildManifestationChapterExport } from "./media";
+
+export type TagWriteResult = {
+  written: number;
+  skipped: number;
+  errors: string[];
+};
+
+const COVER_EXTS = new Set([".jpg", ".jpeg", ".png"]);
+
+/** Queues a tag write for one book, or the whole library when `bookId` is null. Returns null while `tagWriting` is disabled. */
+export function queueTagWrite(repo: BooksRepo, bookId: number | null): JobRow | null {
+  if (!repo.getSettings().tagWriting.enabled) return null;
+  const existing = repo
+    .listJobsByType("tag_write")
+    .find((job) => job.status === "queued" && job.book_id === bookId);
+  if (existing) return existing;
+  return repo.createJob({ type: "tag_write", bookId, maxAttempts: 1 });
+}
+
+/** The tags every library audio file of a book carries; empty values are left as the file has them. */
+export function bookTagValues(
+  book: Pick<LibraryBook, "title" | "author" | "publishedAt" | "description" | "series">,
+  narrator: string | null
+): Record<string, string> {
+  const series = book.series[0] ?? null;
+  const values: Record<string, string | null> = {
+    title: book.title,
+    album: book.title,
+    artist: book.author,
+    album_artist: book.author,
+    composer: narrator,
+    genre: "Audiobook",
+    date: book.publishedAt?.slice(0, 4) ?? null,
+    description: book.description,
+    comment: book.description,
+    series: series?.name ?? null,
+    "series-part": series?.position ?? null,
+    grouping: series ? `${series.name}${series.position ? ` #${series.position}` : ""}` : null,
+  };
+  return Object.fromEntries(
+    Object.entries(values).filter((entry): entry is [string, string] => Boolean(entry[1]?.trim()))
+  );
+}
+
+export function tagWriteArgs(input: {
+  source: string;
+  output: string;
+  tags: Record<string, string>;
+  coverPath: string | null;
+  chaptersPath: string | null;
+}): string[] {
+  const args = ["-v", "error", "-y", "-i", input.source];
+  let nextInput = 1;
+  const coverInput = input.coverPath ? nextInput++ : null;
+  if (input.coverPath) args.push("-i", input.coverPath);
+  const chaptersInput = input.chaptersPath ? nextInput++ : null;
+  if (input.chaptersPath) args.push("-f", "ffmetadata", "-i", input.chaptersPath);
+
+  // A new cover replaces any embedded picture; otherwise the file's own picture is kept.
+  args.push("-map", "0:a", "-map", coverInput === null ? "0:v?" : `${coverInput}:v`);
+  args.push("-map_metadata", "0", "-map_chapters", String(chaptersInput ?? 0), "-c", "copy");
+  if (coverInput !== null) args.push("-disposition:v:0", "attached_pic");
+  for (const [key, value] of Object.entries(input.tags)) {
+    args.push("-metadata", `${key}=${value}`);
+  }
+  if (path.extname(input.output).toLowerCase() === ".mp3") args.push("-id3v2_version", "3");
+  args.push(input.output);
+  return args;
+}
+
+async function runFfmpeg(args: string[]): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn("ffmpeg", args, { stdio: ["ignore", "ignore", "pipe"] });
+    const stderr: Buffer[] = [];
+    child.stderr.on("data", (chunk) => stderr.push(Buffer.from(chunk)));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      const detail = Buffer.concat(stderr).toString("utf8").trim();
+      reject(new Error(`ffmpeg exited with code ${code}${detail ? `: ${detail}` : ""}`));
+    });
+  });
+}
+
+function isInside(root: string, filePath: string): boolean {
+  const relative = path.relative(path.resolve(root), path.resolve(filePath));
+  return relative.length > 0 && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+async function usableCover(coverPath: string | null | undefined): Promise<string | null> {
+  if (!coverPath || !COVER_EXTS.has(path.extname(coverPath).toLowerCase())) return null;
+  const stat = await fs.stat(coverPath).catch(() => null);
+  return stat?.isFile() && stat.size > 0 ? coverPath : null;
+}
+
+// Chapters are only written into a single-file MP4 that is its manifestation's only container, where file and manifestation timelines agree.
+async function chapterMetadata(repo: BooksRepo, book: LibraryBook, asset: AssetRow): Promise<string | null> {
+  if (asset.mime !== "audio/mp4" || asset.manifestation_id === null) return null;
+  const target = repo.getManifestationWithContainers(asset.manifestation_id);
+  if (!target || target.containers.length !== 1 || target.containers[0]!.files.length !== 1) return null;
+  const exported = await buildManifestationChapterExport(repo, target.manifestation, target.containers).catch(() => null);
+  if (!exported) return null;
+  return renderFfmetadata({ title: book.title, author: book.author, timings: exported.timings, files: exported.files });
+}
+
+async function writeAssetTags(
+  repo: BooksRepo,
+  book: LibraryBook,
+  asset: AssetRow,
+  libraryRoot: string,
+  result: TagWriteResult
+): Promise<void> {
+  const files = repo.getAssetFiles(asset.id);
+  if (files.length === 0 || files.some((file) => !isInside(libraryRoot, file.path))) {
+    result.skipped += files.length;
+    return;
+  }
+  const baseTags = bookTagValues(book, parseEmbeddedTags(asset.embedded_tags_json)?.narrator ?? null);
+  const coverPath = await usableCover(repo.getBookRow(book.id)?.cover_path);
+  const chapters = await chapterMetadata(repo, book, asset);
+  const workDir = chapters ? await fs.mkdtemp(path.join(os.tmpdir(), "podible-tags-")) : null;
+  const chaptersPath = workDir ? path.join(workDir, "chapters.ffmetadata") : null;
+  const sizes: Array<{ id: number; size: number }> = [];
+
+  try {
+    if (chaptersPath && chapters) await fs.writeFile(chaptersPath, chapters);
+    for (const [index, file] of files.entries()) {
+      const ext = path.extname(file.path);
+      const output = path.join(path.dirname(file.path), `.${path.basename(file.path, ext)}.tagging${ext}`);
+      const tags =
+        files.length > 1 ? { ...baseTags, title: file.title ?? book.title, track: `${index + 1}/${files.length}` } : baseTags;
+      try {
+        await runFfmpeg(tagWriteArgs({ source: file.path, output, tags, coverPath, chaptersPath }));
+        await fs.rename(output, file.path);
+        sizes.push({ id: file.id, size: (await fs.stat(file.path)).size });
+        result.written += 1;
+      } catch (error) {
+        await fs.rm(output, { force: true }).catch(() => undefined);
+        result.errors.push(`${file.path}: ${(error as Error).message}`);
+      }
+    }
+  } finally {
+    if (workDir) await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+
+  if (sizes.length === 0) return;
+  repo.updateAssetFileSizes(asset.id, sizes);
+  const first = files[0]!;
+  const stat = await fs.stat(first.path).catch(() => null);
+  const written = stat ? readEmbeddedAudioTags(first.path, stat.mtimeMs) : null;
+  if (written) repo.setAssetEmbeddedTags(asset.id, written);
+}
+
+/** Rewrites the tags of every audio asset of a book that is not in a superseded manifestation. */
+export async function writeBookTags(repo: BooksRepo, bookId: number, libraryRoot: string): Promise<TagWriteResult> {
+  const result: TagWriteResult = { written: 0, skipped: 0, errors: [] };
+  const book = repo.getBook(bookId);
+  if (!book) return result;
+  for (const asset of repo.listAssetsByBook(bookId)) {
+    if (!asset.mime.startsWith("audio/")) continue;
+    const manifestation = asset.manifestation_id ? repo.getManifestation(asset.manifestation_id) : null;
+    if (manifestation?.superseded_at) continue;
+    await writeAssetTags(repo, book, asset, libraryRoot, result);
+  }
+  return result;
+}
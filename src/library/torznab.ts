@@ -1,6 +1,8 @@
 import { XMLParser } from "fast-xml-parser";
 
-import type { MediaType, TorznabSource } from "../app-types";
+import type { IndexerSource, MediaType, NewznabSource, ReleaseProtocol, TorznabSource } from "../app-types";
+import type { BooksRepo } from "../repo";
+import { indexerDisabledUntil, recordIndexerFailure } from "./indexers";
 import { normalizeInfoHash } from "./torrent";
 
 type TorznabResult = {
@@ -11,11 +13,38 @@ type TorznabResult = {
   url: string;
   guid: string | null;
   infoHash: string | null;
+  /** Absent on results cached before Usenet support; those are torrents. */
+  protocol?: ReleaseProtocol;
   seeders: number | null;
   leechers: number | null;
   raw: Record<string, unknown>;
 };
 
+type TorznabCategory = {
+  id: string;
+  name: string;
+  subcategories: Array<{ id: string; name: string }>;
+};
+
+/** What an indexer's `t=caps` response advertises. */
+type TorznabCaps = {
+  search: { available: boolean; params: string[] };
+  bookSearch: { available: boolean; params: string[] };
+  categories: TorznabCategory[];
+};
+
+type IndexerSearchOptions = {
+  /** Enables the caps cache and health tracking; without it every source is searched with `t=search`. */
+  repo?: BooksRepo;
+  /** Lets sources that support `t=book` search by title and author instead of free text. */
+  book?: { title: string; author: string };
+};
+
+// Caps rarely change; a failed lookup is retried sooner so a brief outage
+// does not pin the indexer to plain `t=search` for a whole day.
+const CAPS_TTL_MS = 24 * 60 * 60_000;
+const CAPS_RETRY_MS = 60 * 60_000;
+
 const parser = new XMLParser({
   ignoreAttributes: false,
   attributeNamePrefix: "",
@@ -61,7 +90,7 @@ function parseGuid(item: Record<string, unknown>): string | null {
   return value.trim() ? value.trim() : null;
 }
 
-function isSupportedTorrentUrl(url: string): boolean {
+function isSupportedDownloadUrl(url: string): boolean {
   try {
     const parsed = new URL(url);
     return parsed.protocol === "http:" || parsed.protocol === "https:";
@@ -95,7 +124,16 @@ function inferInfoHash(attrMap: Record<string, string>): string | null {
   return null;
 }
 
-export function parseTorznabSearch(xml: string, provider: string, mediaType: MediaType): TorznabResult[] {
+/**
+ * Parses a Torznab or Newznab RSS response. Newznab items link to an NZB
+ * rather than a torrent, so they never carry an info hash.
+ */
+export function parseTorznabSearch(
+  xml: string,
+  provider: string,
+  mediaType: MediaType,
+  protocol: ReleaseProtocol = "torrent"
+): TorznabResult[] {
   const doc = parser.parse(xml) as Record<string, unknown>;
   const channel = (doc.rss as Record<string, unknown> | undefined)?.channel as Record<string, unknown> | undefined;
   const items = toArray((channel?.item as Record<string, unknown> | Record<string, unknown>[] | undefined) ?? []);
@@ -105,7 +143,7 @@ export function parseTorznabSearch(xml: string, provider: string, mediaType: Med
     const title = textValue(item.title);
     const attrMap = parseAttrMap(item);
     const url = chooseDownloadUrl(item);
-    if (!title || !url || !isSupportedTorrentUrl(url)) {
+    if (!title || !url || !isSupportedDownloadUrl(url)) {
       continue;
     }
     out.push({
@@ -115,7 +153,8 @@ export function parseTorznabSearch(xml: string, provider: string, mediaType: Med
       sizeBytes: parseIntOrNull(attrMap.size ?? item.size ?? (item.enclosure as Record<string, unknown> | undefined)?.length),
       url,
       guid: parseGuid(item),
-      infoHash: inferInfoHash(attrMap),
+      infoHash: protocol === "torrent" ? inferInfoHash(attrMap) : null,
+      protocol,
       seeders: parseIntOrNull(attrMap.seeders),
       leechers: parseIntOrNull(attrMap.leechers ?? attrMap.peers),
       raw: {
@@ -127,37 +166,232 @@ export function parseTorznabSearch(xml: string, provider: string, mediaType: Med
   return out;
 }
 
-function buildSearchUrl(source: TorznabSource, query: string, mediaType: MediaType): URL {
+function buildApiUrl(source: IndexerSource): URL {
   const url = new URL(source.baseUrl);
   if (url.pathname.endsWith("/")) {
     url.pathname = `${url.pathname}api`;
   } else if (!url.pathname.endsWith("/api")) {
     url.pathname = `${url.pathname}/api`;
   }
-  url.searchParams.set("t", "search");
-  url.searchParams.set("q", query);
+  if (source.apiKey) {
+    url.searchParams.set("apikey", source.apiKey);
+  }
+  return url;
+}
+
+function buildSearchUrl(
+  source: IndexerSource,
+  query: string,
+  mediaType: MediaType,
+  caps: TorznabCaps | null,
+  book?: { title: string; author: string }
+): URL {
+  const url = buildApiUrl(source);
+  const bookParams = book && caps?.bookSearch.available ? caps.bookSearch.params : [];
+  // `t=book` without a title would list everything by the author, so title support is required.
+  if (book && bookParams.includes("title")) {
+    url.searchParams.set("t", "book");
+    url.searchParams.set("title", book.title);
+    if (bookParams.includes("author") && book.author.trim()) {
+      url.searchParams.set("author", book.author);
+    }
+  } else {
+    url.searchParams.set("t", "search");
+    // Without `q`, `t=search` is the indexer's RSS view: its most recent releases.
+    if (query) {
+      url.searchParams.set("q", query);
+    }
+  }
   const category = mediaType === "audio" ? source.categories?.audio : source.categories?.ebook;
   if (category) {
     url.searchParams.set("cat", category);
   }
-  if (source.apiKey) {
-    url.searchParams.set("apikey", source.apiKey);
-  }
   return url;
 }
 
-export async function searchTorznab(sources: TorznabSource[], query: string, mediaType: MediaType): Promise<TorznabResult[]> {
+// Indexers report bad API keys, rate limits and the like as an `<error>`
+// document with a 200 status.
+function indexerErrorMessage(doc: Record<string, unknown>): string | null {
+  const error = doc.error as Record<string, unknown> | undefined;
+  if (!error || typeof error !== "object") return null;
+  const description = typeof error.description === "string" ? error.description : "";
+  const code = typeof error.code === "string" ? error.code : "";
+  return description || (code ? `error code ${code}` : "unknown error");
+}
+
+function parseParamList(value: unknown): string[] {
+  return typeof value === "string"
+    ? value
+        .split(",")
+        .map((param) => param.trim().toLowerCase())
+        .filter(Boolean)
+    : [];
+}
+
+function parseSearchCaps(value: unknown): { available: boolean; params: string[] } {
+  const record = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  return { available: record.available === "yes", params: parseParamList(record.supportedParams) };
+}
+
+export function parseTorznabCaps(xml: string): TorznabCaps {
+  const doc = parser.parse(xml) as Record<string, unknown>;
+  const error = indexerErrorMessage(doc);
+  if (error) {
+    throw new Error(error);
+  }
+  const caps = doc.caps as Record<string, unknown> | undefined;
+  if (!caps || typeof caps !== "object") {
+    throw new Error("Response is not a caps document");
+  }
+  const searching = (caps.searching ?? {}) as Record<string, unknown>;
+  const categories = toArray((caps.categories as Record<string, unknown> | undefined)?.category as
+    | Record<string, unknown>
+    | Record<string, unknown>[]
+    | undefined);
+  return {
+    search: parseSearchCaps(searching.search),
+    bookSearch: parseSearchCaps(searching["book-search"]),
+    categories: categories
+      .filter((category) => typeof category.id === "string")
+      .map((category) => ({
+        id: category.id as string,
+        name: typeof category.name === "string" ? category.name : "",
+        subcategories: toArray(category.subcat as Record<string, unknown> | Record<string, unknown>[] | undefined)
+          .filter((subcat) => typeof subcat.id === "string")
+          .map((subcat) => ({ id: subcat.id as string, name: typeof subcat.name === "string" ? subcat.name : "" })),
+      })),
+  };
+}
+
+/**
+ * Picks audio and ebook categories from an indexer's caps: the standard
+ * Newznab ids (3030 Audio/Audiobook, 7020 Books/EBook) when present,
+ * otherwise the first category whose name looks right.
+ */
+export function suggestTorznabCategories(caps: TorznabCaps): { audio: string | null; ebook: string | null } {
+  const all = caps.categories.flatMap((category) => [
+    { id: category.id, name: category.name },
+    ...category.subcategories,
+  ]);
+  const pick = (standardId: string, pattern: RegExp): string | null =>
+    all.find((category) => category.id === standardId)?.id ?? all.find((category) => pattern.test(category.name))?.id ?? null;
+  return {
+    audio: pick("3030", /audio\s*books?/i),
+    ebook: pick("7020", /e-?books?/i),
+  };
+}
+
+export async function fetchTorznabCaps(source: IndexerSource): Promise<TorznabCaps> {
+  const url = buildApiUrl(source);
+  url.searchParams.set("t", "caps");
+  const response = await fetch(url, { method: "GET" });
+  if (!response.ok) {
+    throw new Error(`Caps request returned ${response.status}`);
+  }
+  return parseTorznabCaps(await response.text());
+}
+
+/** Fetches caps and caches the outcome; a failure is cached as "no caps" and rethrown. */
+export async function refreshIndexerCaps(repo: BooksRepo, source: IndexerSource, protocol: ReleaseProtocol): Promise<TorznabCaps> {
+  try {
+    const caps = await fetchTorznabCaps(source);
+    repo.saveIndexerCaps(protocol, source.name, source.baseUrl, JSON.stringify(caps));
+    return caps;
+  } catch (error) {
+    repo.saveIndexerCaps(protocol, source.name, source.baseUrl, null);
+    throw error;
+  }
+}
+
+/** Cached caps for a source, refreshed when stale or when its base URL changed. Null when the indexer has none. */
+export async function loadIndexerCaps(repo: BooksRepo, source: IndexerSource, protocol: ReleaseProtocol): Promise<TorznabCaps | null> {
+  const row = repo.getIndexerStatus(protocol, source.name);
+  if (row?.caps_fetched_at && row.caps_base_url === source.baseUrl) {
+    const age = Date.now() - Date.parse(row.caps_fetched_at);
+    if (row.caps_json && age < CAPS_TTL_MS) return JSON.parse(row.caps_json) as TorznabCaps;
+    if (!row.caps_json && age < CAPS_RETRY_MS) return null;
+  }
+  try {
+    return await refreshIndexerCaps(repo, source, protocol);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Searches each source in turn. With a repo, benched indexers are skipped,
+ * each outcome feeds the indexer's health, and one failing source no longer
+ * sinks the others; the search only throws when no source answered.
+ */
+async function searchSources(
+  sources: IndexerSource[],
+  query: string,
+  mediaType: MediaType,
+  protocol: ReleaseProtocol,
+  options: IndexerSearchOptions
+): Promise<TorznabResult[]> {
+  const kind = protocol === "usenet" ? "Newznab" : "Torznab";
+  const { repo } = options;
   const results: TorznabResult[] = [];
+  const errors: Error[] = [];
+  let skipped = 0;
   for (const source of sources) {
-    const url = buildSearchUrl(source, query, mediaType);
-    const response = await fetch(url, { method: "GET" });
-    if (!response.ok) {
-      throw new Error(`Torznab source ${source.name} returned ${response.status}`);
+    if (repo && indexerDisabledUntil(repo.getIndexerStatus(protocol, source.name))) {
+      skipped += 1;
+      continue;
     }
-    const xml = await response.text();
-    results.push(...parseTorznabSearch(xml, source.name, mediaType));
+    const caps = repo ? await loadIndexerCaps(repo, source, protocol) : null;
+    const startedAt = Date.now();
+    try {
+      const response = await fetch(buildSearchUrl(source, query, mediaType, caps, options.book), { method: "GET" });
+      if (!response.ok) {
+        throw new Error(`${kind} source ${source.name} returned ${response.status}`);
+      }
+      const xml = await response.text();
+      const error = indexerErrorMessage(parser.parse(xml) as Record<string, unknown>);
+      if (error) {
+        throw new Error(`${kind} source ${source.name} reported: ${error}`);
+      }
+      results.push(...parseTorznabSearch(xml, source.name, mediaType, protocol));
+      repo?.recordIndexerSuccess(protocol, source.name, Date.now() - startedAt);
+    } catch (error) {
+      if (!repo) throw error;
+      recordIndexerFailure(repo, protocol, source.name, error as Error, Date.now() - startedAt);
+      errors.push(error as Error);
+    }
+  }
+  if (sources.length > 0 && errors.length + skipped === sources.length) {
+    throw errors[0] ?? new Error(`Every ${kind} source is backing off after repeated failures`);
   }
   return results;
 }
 
-export type { TorznabResult };
+export async function searchTorznab(
+  sources: TorznabSource[],
+  query: string,
+  mediaType: MediaType,
+  options: IndexerSearchOptions = {}
+): Promise<TorznabResult[]> {
+  return searchSources(sources, query, mediaType, "torrent", options);
+}
+
+/** The most recent releases in each source's category for `mediaType`, as used by RSS sync. */
+export async function fetchTorznabFeed(
+  sources: TorznabSource[],
+  mediaType: MediaType,
+  options: IndexerSearchOptions = {}
+): Promise<TorznabResult[]> {
+  return searchSources(sources, "", mediaType, "torrent", { repo: options.repo });
+}
+
+// Newznab shares the Torznab query API; only the linked payload differs.
+export async function searchNewznab(
+  sources: NewznabSource[],
+  query: string,
+  mediaType: MediaType,
+  options: IndexerSearchOptions = {}
+): Promise<TorznabResult[]> {
+  return searchSources(sources, query, mediaType, "usenet", options);
+}
+
+export type { IndexerSearchOptions, TorznabCaps, TorznabCategory, TorznabResult };
@@ -0,0 +1,77 @@
+import { wordsToTranscriptUtterances, type TranscriptUtterance } from "./chapter-markers";
+import type { StoredTranscriptPayload } from "./chapter-analysis";
+
+export type TranscriptFormat = "vtt" | "srt" | "podcast-json";
+
+/**
+ * Public renderings of a stored transcript, keyed by the suffix they are
+ * served under in `/transcripts/m/{manifestationId}.{suffix}`. The internal
+ * payload stays at `.json`, so the Podcasting 2.0 shape uses `.podcast.json`.
+ */
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, { suffix: string; mime: string }> = {
+  vtt: { suffix: "vtt", mime: "text/vtt" },
+  srt: { suffix: "srt", mime: "application/x-subrip" },
+  "podcast-json": { suffix: "podcast.json", mime: "application/json" },
+};
+
+export function transcriptFormatForSuffix(suffix: string): TranscriptFormat | null {
+  const normalized = suffix.toLowerCase();
+  for (const [format, spec] of Object.entries(TRANSCRIPT_FORMATS) as Array<[TranscriptFormat, { suffix: string }]>) {
+    if (spec.suffix === normalized) return format;
+  }
+  return null;
+}
+
+function transcriptCues(payload: StoredTranscriptPayload): TranscriptUtterance[] {
+  const utterances = payload.utterances && payload.utterances.length > 0 ? payload.utterances : wordsToTranscriptUtterances(payload.words);
+  return utterances
+    .map((utterance) => ({
+      startMs: Math.max(0, Math.round(utterance.startMs)),
+      endMs: Math.max(0, Math.round(utterance.endMs)),
+      text: utterance.text.replace(/\s+/g, " ").trim(),
+    }))
+    .filter((cue) => cue.text && cue.endMs > cue.startMs);
+}
+
+function formatCueTimestamp(ms: number, fractionSeparator: "." | ","): string {
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  const millis = ms % 1000;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}${fractionSeparator}${String(millis).padStart(3, "0")}`;
+}
+
+// WebVTT cue text is markup: `<` and `&` start tags and entities, and `-->` ends the cue.
+function escapeVttCueText(text: string): string {
+  return text.replace(/-->/g, "->").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function renderWebVtt(payload: StoredTranscriptPayload): string {
+  const cues = transcriptCues(payload).map(
+    (cue) => `${formatCueTimestamp(cue.startMs, ".")} --> ${formatCueTimestamp(cue.endMs, ".")}\n${escapeVttCueText(cue.text)}`
+  );
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+}
+
+export function renderSrt(payload: StoredTranscriptPayload): string {
+  return transcriptCues(payload)
+    .map((cue, index) => `${index + 1}\n${formatCueTimestamp(cue.startMs, ",")} --> ${formatCueTimestamp(cue.endMs, ",")}\n${cue.text}\n`)
+    .join("\n");
+}
+
+export function renderPodcastTranscriptJson(payload: StoredTranscriptPayload): string {
+  return JSON.stringify({
+    version: "1.0.0",
+    segments: transcriptCues(payload).map((cue) => ({
+      startTime: cue.startMs / 1000,
+      endTime: cue.endMs / 1000,
+      body: cue.text,
+    })),
+  });
+}
+
+export function renderTranscript(payload: StoredTranscriptPayload, format: TranscriptFormat): string {
+  if (format === "vtt") return renderWebVtt(payload);
+  if (format === "srt") return renderSrt(payload);
+  return renderPodcastTranscriptJson(payload);
+}
@@ -0,0 +1,153 @@
+import { spawn } from "node:child_process";
+import { createReadStream } from "node:fs";
+import { readFile, rm } from "node:fs/promises";
+
+import OpenAI from "openai";
+import type { TranscriptionVerbose } from "openai/resources/audio/transcriptions";
+
+import type { AppSettings } from "../app-types";
+
+export type TranscriptionRequest = {
+  clipPath: string;
+  prompt: string;
+  language: string | null;
+  timeoutMs: number;
+};
+
+// The Whisper `verbose_json` shape every provider is normalised to before
+// `parseWhisperResponse` turns it into words and segments.
+export type VerboseTranscription = Pick<TranscriptionVerbose, "words" | "segments"> & { text?: string };
+
+export type TranscriptionProvider = {
+  /** Stable label recorded in analysis debug output, e.g. `openai:whisper-1`. */
+  label: string;
+  transcribe(request: TranscriptionRequest): Promise<VerboseTranscription>;
+};
+
+function openAiApiKey(settings: AppSettings): string {
+  return settings.transcription.apiKey.trim() || settings.agents.apiKey.trim();
+}
+
+export function transcriptionConfigured(settings: AppSettings): boolean {
+  const config = settings.transcription;
+  if (config.provider === "openai-compatible") return Boolean(config.baseUrl.trim());
+  if (config.provider === "command") return config.command.length > 0 && Boolean(config.command[0]?.trim());
+  return Boolean(openAiApiKey(settings));
+}
+
+/** The model the configured provider transcribes with; a command provider reports its program instead. */
+export function transcriptionModel(settings: AppSettings): string {
+  const config = settings.transcription;
+  if (config.provider === "command") return config.command[0]?.trim() ?? "";
+  return config.model.trim() || "whisper-1";
+}
+
+/**
+ * How many clips to transcribe at once. An explicit setting wins; otherwise
+ * the hosted API gets `hostedDefault` while local backends run one at a time.
+ */
+export function transcriptionConcurrency(settings: AppSettings, hostedDefault: number): number {
+  if (settings.transcription.concurrency > 0) return settings.transcription.concurrency;
+  return settings.transcription.provider === "openai" ? hostedDefault : 1;
+}
+
+function createOpenAiProvider(client: OpenAI, label: string, model: string): TranscriptionProvider {
+  return {
+    label,
+    async transcribe(request) {
+      return (await client.audio.transcriptions.create(
+        {
+          file: createReadStream(request.clipPath),
+          model,
+          response_format: "verbose_json",
+          timestamp_granularities: ["word", "segment"],
+          ...(request.language ? { language: request.language } : {}),
+          prompt: request.prompt,
+        },
+        { timeout: request.timeoutMs }
+      )) as TranscriptionVerbose;
+    },
+  };
+}
+
+function substituteCommandArg(arg: string, request: TranscriptionRequest, outputPath: string): string {
+  return arg
+    .replaceAll("{input}", request.clipPath)
+    .replaceAll("{output}", outputPath)
+    .replaceAll("{prompt}", request.prompt)
+    .replaceAll("{language}", request.language ?? "");
+}
+
+async function runTranscriptionCommand(argv: string[], timeoutMs: number): Promise<string> {
+  const [command, ...args] = argv;
+  if (!command) throw new Error("Transcription command not configured");
+  return await new Promise<string>((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      reject(new Error(`${command} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    child.stdout.on("data", (chunk) => stdout.push(Buffer.from(chunk)));
+    child.stderr.on("data", (chunk) => stderr.push(Buffer.from(chunk)));
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString("utf8"));
+        return;
+      }
+      reject(new Error(`${command} exited with code ${code}: ${Buffer.concat(stderr).toString("utf8").trim()}`));
+    });
+  });
+}
+
+/**
+ * Shells out to a local transcriber. `command` is an argv list whose entries
+ * may contain `{input}`, `{output}`, `{prompt}` and `{language}`; the program
+ * must produce Whisper `verbose_json`, either on stdout or, when `{output}` is
+ * used, in that file.
+ */
+function createCommandProvider(command: string[]): TranscriptionProvider {
+  return {
+    label: `command:${command[0] ?? ""}`,
+    async transcribe(request) {
+      const outputPath = `${request.clipPath}.transcript.json`;
+      const argv = command.map((arg) => substituteCommandArg(arg, request, outputPath));
+      try {
+        const stdout = await runTranscriptionCommand(argv, request.timeoutMs);
+        const raw = command.some((arg) => arg.includes("{output}")) ? await readFile(outputPath, "utf8") : stdout;
+        try {
+          return JSON.parse(raw) as VerboseTranscription;
+        } catch {
+          throw new Error(`${command[0]} did not produce verbose_json output`);
+        }
+      } finally {
+        await rm(outputPath, { force: true });
+      }
+    },
+  };
+}
+
+export function createTranscriptionProvider(settings: AppSettings): TranscriptionProvider {
+  const config = settings.transcription;
+  const model = transcriptionModel(settings);
+  if (config.provider === "openai-compatible") {
+    const baseURL = config.baseUrl.trim().replace(/\/+$/, "");
+    if (!baseURL) throw new Error("Transcription server base URL not configured");
+    // Local whisper servers usually ignore auth, but the SDK insists on a key.
+    const client = new OpenAI({ apiKey: config.apiKey.trim() || "not-needed", baseURL });
+    return createOpenAiProvider(client, `openai-compatible:${model}`, model);
+  }
+  if (config.provider === "command") {
+    if (!transcriptionConfigured(settings)) throw new Error("Transcription command not configured");
+    return createCommandProvider(config.command);
+  }
+  const apiKey = openAiApiKey(settings);
+  if (!apiKey) throw new Error("OpenAI API key not configured");
+  return createOpenAiProvider(new OpenAI({ apiKey }), `openai:${model}`, model);
+}
@@ -0,0 +1,111 @@
+import { createHash } from "node:crypto";
+import { constants, createReadStream, promises as fs } from "node:fs";
+import path from "node:path";
+
+import type { ImportMode } from "../app-types";
+
+export type TransferResult = {
+  path: string;
+  /** What actually happened, e.g. `copy` when a hardlink fell back. */
+  mode: ImportMode;
+};
+
+function withCollisionSuffix(filePath: string, suffix: string): string {
+  const ext = path.extname(filePath);
+  const stem = ext ? filePath.slice(0, -ext.length) : filePath;
+  return `${stem} ${suffix}${ext}`;
+}
+
+async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+async function copyVerified(sourcePath: string, destinationPath: string): Promise<void> {
+  await fs.copyFile(sourcePath, destinationPath, constants.COPYFILE_EXCL);
+  try {
+    const [sourceStat, destStat] = await Promise.all([fs.stat(sourcePath), fs.stat(destinationPath)]);
+    if (sourceStat.size !== destStat.size) {
+      throw new Error(`Copy size mismatch: ${sourcePath} (${sourceStat.size}) -> ${destinationPath} (${destStat.size})`);
+    }
+    const [sourceHash, destHash] = await Promise.all([sha256File(sourcePath), sha256File(destinationPath)]);
+    if (sourceHash !== destHash) {
+      throw new Error(`Copy checksum mismatch: ${sourcePath} -> ${destinationPath}`);
+    }
+  } catch (error) {
+    await fs.rm(destinationPath, { force: true });
+    throw error;
+  }
+}
+
+function isCrossDevice(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "EXDEV";
+}
+
+async function placeFile(sourcePath: string, destinationPath: string, mode: ImportMode): Promise<ImportMode> {
+  if (mode === "symlink") {
+    await fs.symlink(path.resolve(sourcePath), destinationPath);
+    return "symlink";
+  }
+  if (mode === "copy") {
+    await copyVerified(sourcePath, destinationPath);
+    return "copy";
+  }
+  try {
+    await fs.link(sourcePath, destinationPath);
+  } catch (error) {
+    if (!isCrossDevice(error)) throw error;
+    await copyVerified(sourcePath, destinationPath);
+    if (mode === "hardlink") return "copy";
+  }
+  // A move links (or copies) first and unlinks the source after, so it never replaces an existing file.
+  if (mode === "move") {
+    await fs.rm(sourcePath, { force: true });
+  }
+  return mode;
+}
+
+// The mode an existing destination was imported with when it already holds the source file, else null.
+async function existingImportMode(sourcePath: string, destinationPath: string, mode: ImportMode): Promise<ImportMode | null> {
+  const destStat = await fs.lstat(destinationPath);
+  if (destStat.isSymbolicLink()) {
+    const target = await fs.readlink(destinationPath);
+    return mode === "symlink" && path.resolve(path.dirname(destinationPath), target) === path.resolve(sourcePath) ? "symlink" : null;
+  }
+  if (mode === "symlink") return null;
+
+  const sourceStat = await fs.stat(sourcePath);
+  if (sourceStat.size !== destStat.size) return null;
+  const sameInode = sourceStat.dev === destStat.dev && sourceStat.ino === destStat.ino;
+  if (!sameInode && (await sha256File(sourcePath)) !== (await sha256File(destinationPath))) return null;
+  if (mode === "move") {
+    await fs.rm(sourcePath, { force: true });
+    return "move";
+  }
+  return sameInode ? "hardlink" : "copy";
+}
+
+/**
+ * Puts one downloaded file into the library under an import mode. A hardlink
+ * or move that crosses filesystems (`EXDEV`) falls back to a copy; copies only
+ * count once their size and SHA-256 match the source. A destination that
+ * already holds the same file is reused, any other takes the next free
+ * "(2)", "(3)"... name.
+ */
+export async function transferIntoLibrary(sourcePath: string, destinationPath: string, mode: ImportMode): Promise<TransferResult> {
+  await fs.mkdir(path.dirname(destinationPath), { recursive: true });
+  for (let attempt = 0; attempt < 100; attempt += 1) {
+    const candidate = attempt === 0 ? destinationPath : withCollisionSuffix(destinationPath, `(${attempt + 1})`);
+    try {
+      return { path: candidate, mode: await placeFile(sourcePath, candidate, mode) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      const reused = await existingImportMode(sourcePath, candidate, mode);
+      if (reused) return { path: candidate, mode: reused };
+    }
+  }
+  throw new Error(`Could not allocate unique import path for ${destinationPath}`);
+}
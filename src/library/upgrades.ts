@@ -0,0 +1,111 @@
+import type { AppSettings, ManifestationRow } from "../app-types";
+import type { BooksRepo } from "../repo";
+
+import { buildManifestationChapterExport, manifestationDurationMs, type ChapterTiming } from "./media";
+
+export type PlaybackTimeline = {
+  chapters: Array<Pick<ChapterTiming, "startMs" | "endMs">>;
+  durationMs: number | null;
+};
+
+export type UpgradeCompletion = {
+  replacedManifestationId: number;
+  positionsMapped: number;
+  bookmarksMoved: number;
+  cleanupJobId: number | null;
+};
+
+/**
+ * Maps a position in one recording of a book onto another. When both have the
+ * same number of chapters the position keeps its chapter and its offset into
+ * it (clamped to the new chapter's length), which survives differing intros
+ * and credits; otherwise it moves by its share of the total duration.
+ */
+export function mapPlaybackPosition(
+  positionMs: number,
+  from: PlaybackTimeline,
+  to: PlaybackTimeline
+): { positionMs: number; chapterIndex: number | null } {
+  if (from.chapters.length > 1 && from.chapters.length === to.chapters.length) {
+    let index = 0;
+    while (index + 1 < from.chapters.length && from.chapters[index + 1]!.startMs <= positionMs) index += 1;
+    const source = from.chapters[index]!;
+    const target = to.chapters[index]!;
+    const offset = Math.max(0, positionMs - source.startMs);
+    return { positionMs: Math.min(target.startMs + offset, Math.max(target.startMs, target.endMs - 1)), chapterIndex: index };
+  }
+  if (from.durationMs && to.durationMs) {
+    return { positionMs: Math.round((Math.min(positionMs, from.durationMs) / from.durationMs) * to.durationMs), chapterIndex: null };
+  }
+  return { positionMs: to.durationMs ? Math.min(positionMs, to.durationMs) : positionMs, chapterIndex: null };
+}
+
+async function loadTimeline(repo: BooksRepo, manifestation: ManifestationRow): Promise<PlaybackTimeline> {
+  const containers = repo
+    .listAssetsByManifestation(manifestation.id)
+    .map((asset) => ({ asset, files: repo.getAssetFiles(asset.id) }));
+  // Chapter reading may probe the files; a timeline without chapters still maps by duration.
+  const exported = await buildManifestationChapterExport(repo, manifestation, containers).catch(() => null);
+  return {
+    chapters: exported?.timings ?? [],
+    durationMs: exported?.durationMs ?? manifestationDurationMs(manifestation, containers),
+  };
+}
+
+/**
+ * Finishes an upgrade once every part of the replacement manifestation is
+ * imported: carries playback positions and bookmarks over to it, marks the old
+ * manifestation superseded so playback switches, and schedules deletion of
+ * the old files after `upgrades.deleteOldAfterDays`. Returns null when the
+ * manifestation is not an upgrade or is still waiting on parts.
+ */
+export async function completeManifestationUpgrade(
+  repo: BooksRepo,
+  settings: AppSettings,
+  manifestationId: number
+): Promise<UpgradeCompletion | null> {
+  const replacement = repo.getManifestation(manifestationId);
+  if (!replacement?.replaces_manifestation_id) return null;
+  const replaced = repo.getManifestation(replacement.replaces_manifestation_id);
+  if (!replaced || replaced.superseded_at !== null) return null;
+  if (repo.hasActiveManifestationImports(replacement.id)) return null;
+
+  let positionsMapped = 0;
+  let bookmarksMoved = 0;
+  if (replacement.kind === "audio" && replaced.kind === "audio") {
+    const from = await loadTimeline(repo, replaced);
+    const to = await loadTimeline(repo, replacement);
+    for (const position of repo.listPlaybackPositionsForManifestation(replaced.id)) {
+      const mapped = mapPlaybackPosition(position.position_ms, from, to);
+      // Keeps the old timestamp, so a position already saved on the new copy stays if it is newer.
+      const { applied } = repo.upsertPlaybackPosition({
+        userId: position.user_id,
+        manifestationId: replacement.id,
+        positionMs: mapped.positionMs,
+        chapterIndex: mapped.chapterIndex,
+        deviceName: position.device_name,
+        updatedAt: position.updated_at,
+      });
+      if (applied) positionsMapped += 1;
+    }
+    for (const bookmark of repo.listBookmarksForManifestation(replaced.id)) {
+      const start = mapPlaybackPosition(bookmark.position_ms, from, to).positionMs;
+      const end = bookmark.end_ms === null ? null : mapPlaybackPosition(bookmark.end_ms, from, to).positionMs;
+      repo.moveBookmark(bookmark.id, replacement.id, start, end === null ? null : Math.max(start, end));
+      bookmarksMoved += 1;
+    }
+  }
+
+  repo.markManifestationSuperseded(replaced.id);
+  const days = settings.upgrades.deleteOldAfterDays;
+  const cleanupJob =
+    days > 0
+      ? repo.createJob({
+          type: "upgrade_cleanup",
+          bookId: replaced.book_id,
+          payload: { supersededManifestationId: replaced.id },
+          nextRunAt: new Date(Date.now() + days * 24 * 60 * 60_000).toISOString(),
+        })
+      : null;
+  return { replacedManifestationId: replaced.id, positionsMapped, bookmarksMoved, cleanupJobId: cleanupJob?.id ?? null };
+}
@@ -0,0 +1,70 @@
+import path from "node:path";
+
+import type { AppSettings, ManifestationRow, MediaType, WantedMediaRow, WantedMediaView, WantedOutcome } from "../app-types";
+import type { BooksRepo } from "../repo";
+
+import { scoreLibraryCopy } from "./quality";
+
+/** Delay before the next search after `misses` fruitless searches in a row: `retryMinutes`, doubling up to `maxRetryMinutes`. */
+export function wantedRetryMs(settings: AppSettings, misses: number): number {
+  const minutes = settings.wanted.retryMinutes * 2 ** Math.max(0, misses - 1);
+  return Math.min(settings.wanted.maxRetryMinutes, minutes) * 60_000;
+}
+
+/** Cutoffs for `listWantedMedia`, or null when upgrades are off and only missing media is wanted. */
+export function wantedUpgradeCutoffs(settings: AppSettings): Record<MediaType, number> | null {
+  return settings.upgrades.enabled ? { audio: settings.upgrades.audioCutoff, ebook: settings.upgrades.ebookCutoff } : null;
+}
+
+/**
+ * The quality score upgrades compare against: the manifestation's release
+ * score, or, when it has none, its files scored with the active profile.
+ */
+export function manifestationQualityScore(repo: BooksRepo, settings: AppSettings, manifestation: ManifestationRow): number {
+  if (manifestation.preferred_score !== 0) return manifestation.preferred_score;
+  const asset = repo.listAssetsByManifestation(manifestation.id)[0];
+  const file = asset ? repo.getAssetFiles(asset.id)[0] : undefined;
+  const format = file ? path.extname(file.path).slice(1) || null : null;
+  return scoreLibraryCopy(settings, manifestation.kind, { format, language: manifestation.language }).score;
+}
+
+/**
+ * Missing media plus, while upgrades are on, media whose best copy scores
+ * below the cutoff. Copies without a release score are scored from their
+ * files before they count as upgradeable.
+ */
+export function listWantedMediaForSettings(repo: BooksRepo, settings: AppSettings): WantedMediaView[] {
+  const cutoffs = wantedUpgradeCutoffs(settings);
+  const wanted = repo.listWantedMedia(cutoffs);
+  if (!cutoffs) return wanted;
+  return wanted.flatMap((entry) => {
+    if (entry.reason !== "upgrade" || entry.current_score !== 0) return [entry];
+    const best = repo.getBestManifestation(entry.book_id, entry.media_type);
+    const score = best ? manifestationQualityScore(repo, settings, best) : 0;
+    return score < cutoffs[entry.media_type] ? [{ ...entry, current_score: score }] : [];
+  });
+}
+
+export function nextWantedSearchAt(settings: AppSettings, misses: number, now = Date.now()): string {
+  return new Date(now + wantedRetryMs(settings, misses)).toISOString();
+}
+
+/**
+ * Records how a search for a book's missing (or upgradeable) media went. A snatch clears the
+ * schedule; anything else backs the next search off by the miss count.
+ */
+export function recordWantedOutcome(
+  repo: BooksRepo,
+  settings: AppSettings,
+  bookId: number,
+  media: MediaType,
+  outcome: WantedOutcome,
+  detail: string | null
+): WantedMediaRow {
+  const misses = (repo.getWantedMedia(bookId, media)?.consecutive_misses ?? 0) + 1;
+  return repo.recordWantedSearch(bookId, media, {
+    outcome,
+    detail,
+    nextSearchAt: outcome === "snatched" ? null : nextWantedSearchAt(settings, misses),
+  });
+}
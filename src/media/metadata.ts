@@ -4,7 +4,8 @@ import path from "node:path";
 import { XMLParser } from "fast-xml-parser";
 
 import { cleanMetaValue, htmlToPlainText, nodeText, normalizeDescriptionHtml, slugify, toArray } from "../utils/strings";
-import { AudioTagMetadata, OpfMetadata } from "../types";
+import type { EmbeddedAudioTags } from "../app-types";
+import { AudioTagMetadata, OpfMetadata, ProbeData } from "../types";
 import { probeData } from "./probe-cache";
 
 const xmlParser = new XMLParser({
@@ -92,6 +93,7 @@ function readAudioMetadata(filePath: string, mtimeMs: number): AudioTagMetadata
   const description = htmlToPlainText(descriptionRaw);
   return {
     title: cleanMetaValue(tags.title || tags.TITLE),
+    album: cleanMetaValue(tags.album || tags.ALBUM),
     artist: cleanMetaValue(tags.artist || tags.ARTIST),
     albumArtist: cleanMetaValue(tags.album_artist || tags.ALBUM_ARTIST),
     description,
@@ -101,6 +103,52 @@ function readAudioMetadata(filePath: string, mtimeMs: number): AudioTagMetadata
   };
 }
 
+// ffprobe key names (lowercased) per field, most specific first. MP4 `©mvn`/`©mvi` atoms surface as
+// `movementname`/`movement`, ID3 `MVNM`/`MVIN` frames keep their names.
+const EMBEDDED_TAG_KEYS = {
+  title: ["title"],
+  album: ["album"],
+  artist: ["artist"],
+  albumArtist: ["album_artist", "album artist", "albumartist"],
+  narrator: ["narrator", "narratedby", "narrated by", "composer"],
+  series: ["series", "mvnm", "movementname"],
+  seriesPosition: ["series-part", "series_part", "seriesposition", "mvin", "movement"],
+  asin: ["asin", "audible_asin", "cdek"],
+  isbn: ["isbn"],
+  publisher: ["publisher", "label"],
+  year: ["year", "date", "originaldate", "tdrc", "tyer"],
+} as const;
+
+function embeddedTagsFromProbe(probed: ProbeData): EmbeddedAudioTags {
+  const tags = new Map(Object.entries(probed.tags ?? {}).map(([key, value]) => [key.toLowerCase(), value]));
+  const pick = (keys: readonly string[]): string | null => {
+    for (const key of keys) {
+      const value = cleanMetaValue(tags.get(key));
+      if (value) return value;
+    }
+    return null;
+  };
+  return {
+    title: pick(EMBEDDED_TAG_KEYS.title),
+    album: pick(EMBEDDED_TAG_KEYS.album),
+    artist: pick(EMBEDDED_TAG_KEYS.artist),
+    albumArtist: pick(EMBEDDED_TAG_KEYS.albumArtist),
+    narrator: pick(EMBEDDED_TAG_KEYS.narrator),
+    series: pick(EMBEDDED_TAG_KEYS.series),
+    seriesPosition: pick(EMBEDDED_TAG_KEYS.seriesPosition),
+    asin: pick(EMBEDDED_TAG_KEYS.asin)?.toUpperCase() ?? null,
+    isbn: pick(EMBEDDED_TAG_KEYS.isbn)?.replace(/[^0-9Xx]/g, "").toUpperCase() || null,
+    publisher: pick(EMBEDDED_TAG_KEYS.publisher),
+    year: pick(EMBEDDED_TAG_KEYS.year)?.match(/\d{4}/)?.[0] ?? null,
+    hasCover: probed.hasCoverArt === true,
+  };
+}
+
+function readEmbeddedAudioTags(filePath: string, mtimeMs: number): EmbeddedAudioTags | null {
+  const probed = probeData(filePath, mtimeMs);
+  return probed ? embeddedTagsFromProbe(probed) : null;
+}
+
 async function readOpfMetadata(bookDir: string, files: string[]): Promise<OpfMetadata | null> {
   const opfFile = files.find((f) => f.toLowerCase().endsWith(".opf"));
   if (!opfFile) return null;
@@ -132,11 +180,13 @@ function bookId(author: string, title: string): string {
 
 export {
   bookId,
+  embeddedTagsFromProbe,
   mimeFromExt,
   normalizeAudioExt,
   parseAudioTagDate,
   parseOpfContent,
   preferLonger,
   readAudioMetadata,
+  readEmbeddedAudioTags,
   readOpfMetadata,
 };
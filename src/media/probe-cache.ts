@@ -23,7 +23,8 @@ const probeCache = new Map<
 >();
 
 let probeCacheLoaded = false;
-const PROBE_CACHE_STATE_KEY = "probe_cache_v1";
+// v2 added stream info (embedded cover art); v1 entries are probed again.
+const PROBE_CACHE_STATE_KEY = "probe_cache_v2";
 
 function ensureProbeCacheLoaded() {
   if (probeCacheLoaded) return;
@@ -69,7 +70,7 @@ function probeData(filePath: string, mtimeMs: number): ProbeData | null {
   if (cached && cached.mtimeMs === mtimeMs) return cached.data;
   const result = spawnSync(
     "ffprobe",
-    ["-v", "error", "-print_format", "json", "-show_format", "-show_chapters", filePath],
+    ["-v", "error", "-print_format", "json", "-show_format", "-show_chapters", "-show_streams", filePath],
     { encoding: "utf8" }
   );
   if (result.error || result.status !== 0) {
@@ -86,10 +87,12 @@ function probeData(filePath: string, mtimeMs: number): ProbeData | null {
     const duration = durationStr ? Number.parseFloat(durationStr) : undefined;
     const tags = format.tags as Record<string, string> | undefined;
     const chapters = (parsed?.chapters ?? []) as FfprobeChapter[];
+    const streams = (parsed?.streams ?? []) as Array<{ disposition?: { attached_pic?: number } }>;
     const data: ProbeData = {
       duration: Number.isFinite(duration) ? duration : undefined,
       tags,
       chapters,
+      hasCoverArt: streams.some((stream) => stream.disposition?.attached_pic === 1),
     };
     probeCache.set(filePath, { mtimeMs, data, error: undefined });
     persistProbeCache();
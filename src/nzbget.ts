@@ -0,0 +1,166 @@
+import { Buffer } from "node:buffer";
+
+import type { AppSettings } from "./app-types";
+import type { DownloadImportSource, DownloadState, UsenetClient } from "./download-client";
+
+type NzbgetGroup = {
+  NZBID?: number;
+  NZBName?: string;
+  Status?: string;
+  FileSizeLo?: number;
+  FileSizeHi?: number;
+  RemainingSizeLo?: number;
+  RemainingSizeHi?: number;
+};
+
+type NzbgetHistoryItem = {
+  NZBID?: number;
+  Name?: string;
+  Status?: string;
+  FileSizeLo?: number;
+  FileSizeHi?: number;
+  DestDir?: string;
+  FinalDir?: string;
+};
+
+type NzbgetResponse = {
+  result?: unknown;
+  error?: { name?: string; message?: string } | null;
+};
+
+type NzbgetJob = { kind: "queue"; group: NzbgetGroup } | { kind: "history"; item: NzbgetHistoryItem };
+
+function toNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? Math.trunc(value) : null;
+}
+
+// NZBGet splits 64-bit sizes into two 32-bit halves for JSON-RPC clients without big integers.
+function joinSize(lo: unknown, hi: unknown): number | null {
+  const low = toNumber(lo);
+  if (low === null) return null;
+  return (toNumber(hi) ?? 0) * 2 ** 32 + low;
+}
+
+function historyPath(item: NzbgetHistoryItem): string | null {
+  return item.FinalDir || item.DestDir || null;
+}
+
+/**
+ * NZBGet JSON-RPC client. Queue groups are still downloading or
+ * post-processing; history items report SUCCESS or a failure status.
+ */
+export class NzbgetClient implements UsenetClient {
+  readonly label = "NZBGet";
+  private nextId = 1;
+
+  constructor(private readonly settings: AppSettings["nzbget"]) {}
+
+  private async call(method: string, params: unknown[]): Promise<unknown> {
+    const url = new URL(this.settings.url);
+    url.pathname = `${url.pathname.replace(/\/+$/, "")}/jsonrpc`;
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.settings.username || this.settings.password) {
+      headers.Authorization = `Basic ${Buffer.from(`${this.settings.username ?? ""}:${this.settings.password ?? ""}`).toString("base64")}`;
+    }
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ method, params, id: this.nextId++ }),
+    });
+    if (!response.ok) {
+      throw new Error(`NZBGet returned ${response.status}`);
+    }
+    const payload = (await response.json()) as NzbgetResponse;
+    if (payload.error) {
+      throw new Error(`NZBGet ${method} failed: ${payload.error.message ?? payload.error.name ?? "unknown error"}`);
+    }
+    return payload.result;
+  }
+
+  private async findJob(downloadId: string): Promise<NzbgetJob> {
+    const id = Number.parseInt(downloadId, 10);
+    const groups = (await this.call("listgroups", [0])) as NzbgetGroup[] | null;
+    const group = (groups ?? []).find((item) => item.NZBID === id);
+    if (group) {
+      return { kind: "queue", group };
+    }
+    const history = (await this.call("history", [false])) as NzbgetHistoryItem[] | null;
+    const item = (history ?? []).find((entry) => entry.NZBID === id);
+    if (item) {
+      return { kind: "history", item };
+    }
+    throw new Error(`NZBGet has no download ${downloadId}`);
+  }
+
+  async addNzb(nzbBytes: Uint8Array, name: string): Promise<string> {
+    const nzbId = await this.call("append", [
+      `${name}.nzb`,
+      Buffer.from(nzbBytes).toString("base64"),
+      this.settings.category?.trim() ?? "",
+      0,
+      false,
+      false,
+      "",
+      0,
+      "SCORE",
+      [],
+    ]);
+    if (typeof nzbId !== "number" || nzbId <= 0) {
+      throw new Error("NZBGet rejected the NZB");
+    }
+    return String(nzbId);
+  }
+
+  async getDownloadState(downloadId: string): Promise<DownloadState> {
+    const job = await this.findJob(downloadId);
+    if (job.kind === "queue") {
+      const sizeBytes = joinSize(job.group.FileSizeLo, job.group.FileSizeHi);
+      const leftBytes = joinSize(job.group.RemainingSizeLo, job.group.RemainingSizeHi);
+      const status = (await this.call("status", [])) as { DownloadRate?: number } | null;
+      return {
+        name: job.group.NZBName ?? null,
+        hash: null,
+        complete: false,
+        isActive: job.group.Status !== "PAUSED",
+        basePath: null,
+        bytesDone: sizeBytes !== null && leftBytes !== null ? Math.max(0, sizeBytes - leftBytes) : null,
+        sizeBytes,
+        leftBytes,
+        downRate: toNumber(status?.DownloadRate),
+        message: null,
+      };
+    }
+
+    const sizeBytes = joinSize(job.item.FileSizeLo, job.item.FileSizeHi);
+    const status = job.item.Status ?? "";
+    const succeeded = status.startsWith("SUCCESS");
+    return {
+      name: job.item.Name ?? null,
+      hash: null,
+      complete: succeeded,
+      isActive: succeeded,
+      basePath: succeeded ? historyPath(job.item) : null,
+      bytesDone: sizeBytes,
+      sizeBytes,
+      leftBytes: 0,
+      downRate: 0,
+      message: succeeded ? null : `NZBGet finished with status ${status || "unknown"}`,
+    };
+  }
+
+  async getImportSource(downloadId: string): Promise<DownloadImportSource> {
+    const job = await this.findJob(downloadId);
+    const basePath = job.kind === "history" && job.item.Status?.startsWith("SUCCESS") ? historyPath(job.item) : null;
+    // The final directory only holds this job's unpacked output, so the importer scans all of it.
+    return { basePath, selectedPaths: [] };
+  }
+
+  async remove(downloadId: string): Promise<void> {
+    const job = await this.findJob(downloadId);
+    const command = job.kind === "queue" ? "GroupDelete" : "HistoryDelete";
+    const ok = await this.call("editqueue", [command, "", [Number.parseInt(downloadId, 10)]]);
+    if (ok !== true) {
+      throw new Error(`NZBGet ${command} failed for ${downloadId}`);
+    }
+  }
+}
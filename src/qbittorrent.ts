@@ -0,0 +1,191 @@
+import path from "node:path";
+
+import type { AppSettings } from "./app-types";
+import type { DownloadClient, DownloadImportSource, DownloadState, SeedingState } from "./download-client";
+
+type QbittorrentTorrentInfo = {
+  hash?: string;
+  name?: string;
+  state?: string;
+  progress?: number;
+  size?: number;
+  completed?: number;
+  amount_left?: number;
+  dlspeed?: number;
+  content_path?: string;
+  save_path?: string;
+  ratio?: number;
+  seeding_time?: number;
+};
+
+type QbittorrentTorrentFile = {
+  name?: string;
+  priority?: number;
+};
+
+// Torrent states in which qBittorrent has every wanted piece; `checkingUP` is
+// left out because the data is being re-verified.
+const SEEDING_STATES = new Set(["uploading", "stalledUP", "pausedUP", "stoppedUP", "queuedUP", "forcedUP"]);
+const INACTIVE_STATES = new Set(["pausedDL", "pausedUP", "stoppedDL", "stoppedUP", "error", "missingFiles"]);
+
+function toNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? Math.trunc(value) : null;
+}
+
+function stateMessage(state: string | undefined): string | null {
+  if (state === "error") return "qBittorrent reported an error for this torrent";
+  if (state === "missingFiles") return "qBittorrent cannot find this torrent's files";
+  return null;
+}
+
+function readSessionCookie(response: Response): string | null {
+  const setCookie = response.headers.get("set-cookie") ?? "";
+  const match = /(?:^|[,\s])SID=([^;,\s]+)/.exec(setCookie);
+  return match?.[1] ? `SID=${match[1]}` : null;
+}
+
+/**
+ * qBittorrent Web API v2 client. Logs in lazily with the configured
+ * credentials and logs in again once when the session cookie expires.
+ */
+export class QbittorrentClient implements DownloadClient {
+  readonly label = "qBittorrent";
+  private cookie: string | null = null;
+  private categoryEnsured = false;
+
+  constructor(private readonly settings: AppSettings["qbittorrent"]) {}
+
+  private get baseUrl(): string {
+    return this.settings.url.trim().replace(/\/+$/, "");
+  }
+
+  private async login(): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/v2/auth/login`, {
+      method: "POST",
+      // qBittorrent rejects logins whose Referer/Origin does not match its own host.
+      headers: { "Content-Type": "application/x-www-form-urlencoded", Referer: this.baseUrl },
+      body: new URLSearchParams({ username: this.settings.username ?? "", password: this.settings.password ?? "" }),
+    });
+    const text = (await response.text()).trim();
+    if (!response.ok || text !== "Ok.") {
+      throw new Error(`qBittorrent login failed (${response.status}${text ? ` ${text}` : ""})`);
+    }
+    this.cookie = readSessionCookie(response) ?? "";
+    return this.cookie;
+  }
+
+  private async request(apiPath: string, init: { method?: "GET" | "POST"; body?: URLSearchParams | FormData } = {}): Promise<Response> {
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      const cookie = this.cookie ?? (await this.login());
+      const response = await fetch(`${this.baseUrl}/api/v2/${apiPath}`, {
+        method: init.method ?? "GET",
+        headers: { Referer: this.baseUrl, ...(cookie ? { Cookie: cookie } : {}) },
+        body: init.body,
+      });
+      if (response.status === 403 && attempt === 0) {
+        this.cookie = null;
+        continue;
+      }
+      return response;
+    }
+    throw new Error("qBittorrent rejected the session");
+  }
+
+  private async requestOk(apiPath: string, init: { method?: "GET" | "POST"; body?: URLSearchParams | FormData } = {}): Promise<Response> {
+    const response = await this.request(apiPath, init);
+    if (!response.ok) {
+      throw new Error(`qBittorrent returned ${response.status} for ${apiPath}`);
+    }
+    return response;
+  }
+
+  private async ensureCategory(): Promise<void> {
+    const category = this.settings.category?.trim() ?? "";
+    if (!category || this.categoryEnsured) return;
+    const body = new URLSearchParams({ category, savePath: this.settings.savePath?.trim() ?? "" });
+    const response = await this.request("torrents/createCategory", { method: "POST", body });
+    // 409 means the category already exists.
+    if (!response.ok && response.status !== 409) {
+      throw new Error(`qBittorrent returned ${response.status} for torrents/createCategory`);
+    }
+    this.categoryEnsured = true;
+  }
+
+  private async findTorrentInfo(infoHash: string): Promise<QbittorrentTorrentInfo | null> {
+    const hash = infoHash.toLowerCase();
+    const response = await this.requestOk(`torrents/info?hashes=${encodeURIComponent(hash)}`);
+    const torrents = (await response.json()) as QbittorrentTorrentInfo[];
+    return (Array.isArray(torrents) ? torrents.find((item) => item.hash?.toLowerCase() === hash) : undefined) ?? null;
+  }
+
+  private async getTorrentInfo(infoHash: string): Promise<QbittorrentTorrentInfo> {
+    const torrent = await this.findTorrentInfo(infoHash);
+    if (!torrent) {
+      throw new Error(`qBittorrent has no torrent ${infoHash.toLowerCase()}`);
+    }
+    return torrent;
+  }
+
+  async addTorrent(torrentBytes: Uint8Array): Promise<void> {
+    await this.ensureCategory();
+    const form = new FormData();
+    form.append("torrents", new Blob([torrentBytes], { type: "application/x-bittorrent" }), "podible.torrent");
+    const category = this.settings.category?.trim() ?? "";
+    const savePath = this.settings.savePath?.trim() ?? "";
+    if (category) form.append("category", category);
+    if (savePath) form.append("savepath", savePath);
+    const response = await this.requestOk("torrents/add", { method: "POST", body: form });
+    const text = (await response.text()).trim();
+    if (text === "Fails.") {
+      throw new Error("qBittorrent refused the torrent");
+    }
+  }
+
+  async getDownloadState(infoHash: string): Promise<DownloadState> {
+    const torrent = await this.getTorrentInfo(infoHash);
+    const state = torrent.state ?? "";
+    return {
+      name: torrent.name ?? null,
+      hash: torrent.hash ?? null,
+      complete: SEEDING_STATES.has(state),
+      isActive: !INACTIVE_STATES.has(state),
+      basePath: torrent.content_path || null,
+      bytesDone: toNumber(torrent.completed),
+      sizeBytes: toNumber(torrent.size),
+      leftBytes: toNumber(torrent.amount_left),
+      downRate: toNumber(torrent.dlspeed),
+      message: stateMessage(state),
+    };
+  }
+
+  async getSeedingState(infoHash: string): Promise<SeedingState | null> {
+    const torrent = await this.findTorrentInfo(infoHash);
+    if (!torrent) return null;
+    return {
+      ratio: typeof torrent.ratio === "number" && Number.isFinite(torrent.ratio) ? torrent.ratio : null,
+      seedingSeconds: toNumber(torrent.seeding_time),
+    };
+  }
+
+  async getImportSource(infoHash: string): Promise<DownloadImportSource> {
+    const torrent = await this.getTorrentInfo(infoHash);
+    const response = await this.requestOk(`torrents/files?hash=${encodeURIComponent(infoHash.toLowerCase())}`);
+    const files = (await response.json()) as QbittorrentTorrentFile[];
+    const savePath = torrent.save_path ?? "";
+    // Priority 0 means the file was deselected and never downloaded.
+    const selectedPaths = (Array.isArray(files) ? files : [])
+      .filter((file) => typeof file.name === "string" && file.name.length > 0 && file.priority !== 0)
+      .map((file) => (savePath ? path.join(savePath, file.name!) : file.name!));
+    return {
+      basePath: torrent.content_path || null,
+      selectedPaths,
+    };
+  }
+
+  async remove(infoHash: string): Promise<void> {
+    await this.requestOk("torrents/delete", {
+      method: "POST",
+      body: new URLSearchParams({ hashes: infoHash.toLowerCase(), deleteFiles: "false" }),
+    });
+  }
+}
@@ -14,24 +14,44 @@ import type {
   AssetTranscriptStatus,
   AssetRow,
   BookRow,
+  BookConsumptionRow,
+  BookmarkRow,
+  BlocklistSource,
+  FeedTokenRow,
+  FeedTokenScope,
+  FeedTokenWithUserRow,
+  IndexerStatusRow,
   BookSeriesMembership,
+  ConsumptionState,
   ManifestationKind,
   ManifestationRow,
   ChapterAnalysisRow,
+  ChapterOverrideRow,
   ChapterAnalysisStatus,
   DownloadView,
+  EmbeddedAudioTags,
+  ImportMode,
+  InboxItemRow,
+  InboxItemStatus,
   JobRow,
   JobStatus,
   JobType,
   LibraryBook,
   MediaType,
+  ReleaseProtocol,
+  ReleaseBlocklistRow,
   ReleaseSearchRow,
   ReleaseRow,
+  SeedStatus,
   SessionWithUserRow,
   SessionKind,
   UserRow,
   TorrentCacheRow,
   PlexLoginAttemptRow,
+  PlaybackPositionRow,
+  WantedMediaRow,
+  WantedMediaView,
+  WantedOutcome,
 } from "./app-types";
 
 type CreateBookInput = {
@@ -40,16 +60,51 @@ type CreateBookInput = {
   addedByUserId?: number | null;
 };
 
+type ReleaseSeedingUpdate = {
+  status: SeedStatus;
+  ratio?: number | null;
+  seconds?: number | null;
+  error?: string | null;
+};
+
+type WantedSearchUpdate = {
+  outcome: WantedOutcome;
+  detail: string | null;
+  nextSearchAt: string | null;
+};
+
+type CreateBlocklistEntryInput = {
+  bookId?: number | null;
+  infoHash?: string | null;
+  guid?: string | null;
+  titlePattern?: string | null;
+  source: BlocklistSource;
+  reason?: string | null;
+  releaseId?: number | null;
+};
+
+type UpsertInboxItemInput = {
+  path: string;
+  status: InboxItemStatus;
+  bookId?: number | null;
+  guessTitle?: string | null;
+  guessAuthor?: string | null;
+  detail?: string | null;
+};
+
 type CreateReleaseInput = {
   bookId: number;
   provider: string;
   providerGuid?: string | null;
   title: string;
   mediaType: MediaType;
-  infoHash: string;
+  protocol?: ReleaseProtocol;
+  infoHash?: string | null;
+  downloadId?: string | null;
   sizeBytes?: number | null;
   url: string;
   status?: ReleaseStatus;
+  qualityJson?: string | null;
 };
 
 type CreateReleaseSearchInput = {
@@ -108,6 +163,7 @@ type AddAssetInput = {
   manifestationId: number;
   sequenceInManifestation?: number;
   importNote?: string | null;
+  embeddedTags?: EmbeddedAudioTags | null;
   files: Array<{
     path: string;
     sourcePath?: string | null;
@@ -116,6 +172,7 @@ type AddAssetInput = {
     end: number;
     durationMs: number;
     title?: string | null;
+    importMode?: ImportMode | null;
   }>;
 };
 
@@ -129,6 +186,24 @@ type AddManifestationInput = {
   durationMs?: number | null;
   totalSize?: number;
   preferredScore?: number;
+  replacesManifestationId?: number | null;
+};
+
+type UpsertPlaybackPositionInput = {
+  userId: number;
+  manifestationId: number;
+  positionMs: number;
+  chapterIndex?: number | null;
+  deviceName?: string | null;
+  updatedAt?: string;
+};
+
+type CreateBookmarkInput = {
+  userId: number;
+  manifestationId: number;
+  positionMs: number;
+  endMs?: number | null;
+  note?: string | null;
 };
 
 type UpsertUserInput = {
@@ -475,6 +550,73 @@ export class BooksRepo {
     return (this.db.query("SELECT * FROM torrent_cache WHERE key = ?").get(key) as TorrentCacheRow | null) ?? null;
   }
 
+  getIndexerStatus(protocol: ReleaseProtocol, name: string): IndexerStatusRow | null {
+    return (this.db
+      .query("SELECT * FROM indexer_status WHERE protocol = ? AND name = ?")
+      .get(protocol, name) as IndexerStatusRow | null) ?? null;
+  }
+
+  listIndexerStatuses(): IndexerStatusRow[] {
+    return this.db.query("SELECT * FROM indexer_status ORDER BY protocol ASC, name ASC").all() as IndexerStatusRow[];
+  }
+
+  saveIndexerCaps(protocol: ReleaseProtocol, name: string, baseUrl: string, capsJson: string | null): IndexerStatusRow {
+    const now = nowIso();
+    return this.db
+      .query(
+        `INSERT INTO indexer_status (protocol, name, caps_json, caps_base_url, caps_fetched_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(protocol, name) DO UPDATE SET
+           caps_json = excluded.caps_json,
+           caps_base_url = excluded.caps_base_url,
+           caps_fetched_at = excluded.caps_fetched_at,
+           updated_at = excluded.updated_at
+         RETURNING *`
+      )
+      .get(protocol, name, capsJson, baseUrl, now, now) as IndexerStatusRow;
+  }
+
+  recordIndexerSuccess(protocol: ReleaseProtocol, name: string, latencyMs: number): IndexerStatusRow {
+    const now = nowIso();
+    return this.db
+      .query(
+        `INSERT INTO indexer_status (protocol, name, success_count, last_latency_ms, last_success_at, updated_at)
+         VALUES (?, ?, 1, ?, ?, ?)
+         ON CONFLICT(protocol, name) DO UPDATE SET
+           success_count = success_count + 1,
+           consecutive_failures = 0,
+           last_latency_ms = excluded.last_latency_ms,
+           last_success_at = excluded.last_success_at,
+           disabled_until = NULL,
+           updated_at = excluded.updated_at
+         RETURNING *`
+      )
+      .get(protocol, name, Math.round(latencyMs), now, now) as IndexerStatusRow;
+  }
+
+  recordIndexerFailure(
+    protocol: ReleaseProtocol,
+    name: string,
+    input: { latencyMs: number; error: string; disabledUntil: string | null }
+  ): IndexerStatusRow {
+    const now = nowIso();
+    return this.db
+      .query(
+        `INSERT INTO indexer_status (protocol, name, failure_count, consecutive_failures, last_latency_ms, last_failure_at, last_error, disabled_until, updated_at)
+         VALUES (?, ?, 1, 1, ?, ?, ?, ?, ?)
+         ON CONFLICT(protocol, name) DO UPDATE SET
+           failure_count = failure_count + 1,
+           consecutive_failures = consecutive_failures + 1,
+           last_latency_ms = excluded.last_latency_ms,
+           last_failure_at = excluded.last_failure_at,
+           last_error = excluded.last_error,
+           disabled_until = excluded.disabled_until,
+           updated_at = excluded.updated_at
+         RETURNING *`
+      )
+      .get(protocol, name, Math.round(input.latencyMs), now, input.error, input.disabledUntil, now) as IndexerStatusRow;
+  }
+
   putTorrentCache(input: {
     key: string;
     provider?: string | null;
@@ -633,7 +775,12 @@ export class BooksRepo {
     return this.toLibraryBook(row);
   }
 
-  listBooks(limit: number, cursor?: number, q?: string): { items: LibraryBook[]; nextCursor?: number } {
+  listBooks(
+    limit: number,
+    cursor?: number,
+    q?: string,
+    consumption?: { userId: number; states: ConsumptionState[] }
+  ): { items: LibraryBook[]; nextCursor?: number } {
     const safeLimit = Math.max(1, Math.min(200, Math.trunc(limit || 50)));
     const where: string[] = [];
     const args: Array<number | string> = [];
@@ -649,6 +796,16 @@ export class BooksRepo {
       args.push(like, like);
     }
 
+    if (consumption && consumption.states.length > 0) {
+      assertPositiveInt(consumption.userId);
+      where.push(
+        `COALESCE((SELECT state FROM book_consumption WHERE user_id = ? AND book_id = books.id), 'unstarted') IN (${consumption.states
+          .map(() => "?")
+          .join(", ")})`
+      );
+      args.push(consumption.userId, ...consumption.states);
+    }
+
     const clause = where.length > 0 ? `WHERE ${where.join(" AND ")}` : "";
     const rows = this.db
       .query(`SELECT * FROM books ${clause} ORDER BY id DESC LIMIT ?`)
@@ -859,12 +1016,21 @@ export class BooksRepo {
       this.db.query("DELETE FROM app_login_attempts").run();
       this.db.query("DELETE FROM plex_login_attempts").run();
       this.db.query("DELETE FROM release_searches").run();
+      this.db.query("DELETE FROM playback_positions").run();
+      this.db.query("DELETE FROM book_consumption").run();
+      this.db.query("DELETE FROM bookmarks").run();
+      this.db.query("DELETE FROM feed_tokens").run();
       this.db.query("DELETE FROM sessions").run();
       this.db.query("DELETE FROM users").run();
       this.db.query("DELETE FROM app_state").run();
       this.db.query("DELETE FROM manifestation_transcripts").run();
+      this.db.query("DELETE FROM chapter_overrides").run();
       this.db.query("DELETE FROM chapter_analysis").run();
       this.db.query("DELETE FROM torrent_cache").run();
+      this.db.query("DELETE FROM indexer_status").run();
+      this.db.query("DELETE FROM wanted_media").run();
+      this.db.query("DELETE FROM release_blocklist").run();
+      this.db.query("DELETE FROM inbox_items").run();
       this.db.query("DELETE FROM jobs").run();
       this.db.query("DELETE FROM asset_files").run();
       this.db.query("DELETE FROM assets").run();
@@ -884,11 +1050,15 @@ export class BooksRepo {
 
   createRelease(input: CreateReleaseInput): ReleaseRow {
     const now = nowIso();
-    const hash = normalizeHash(input.infoHash);
+    const hash = input.infoHash ? normalizeHash(input.infoHash) : null;
+    const protocol = input.protocol ?? "torrent";
+    if (protocol === "torrent" && !hash) {
+      throw new Error("Torrent releases require an info hash");
+    }
     const row = this.db
       .query(
-        `INSERT INTO releases (book_id, provider, provider_guid, title, media_type, info_hash, size_bytes, url, snatched_at, status, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `INSERT INTO releases (book_id, provider, provider_guid, title, media_type, protocol, info_hash, download_id, size_bytes, url, snatched_at, status, quality_json, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
          RETURNING *`
       )
       .get(
@@ -897,11 +1067,14 @@ export class BooksRepo {
         input.providerGuid ?? null,
         input.title,
         input.mediaType,
+        protocol,
         hash,
+        input.downloadId ?? null,
         input.sizeBytes ?? null,
         input.url,
         now,
         input.status ?? "snatched",
+        input.qualityJson ?? null,
         now
       ) as ReleaseRow;
     return row;
@@ -955,6 +1128,272 @@ export class BooksRepo {
       .all() as ReleaseRow[];
   }
 
+  // Imported torrents that are still in (or not yet checked against) the download client.
+  listSeedingCandidates(): ReleaseRow[] {
+    return this.db
+      .query(
+        `SELECT *
+         FROM releases
+         WHERE status = 'imported'
+           AND protocol = 'torrent'
+           AND info_hash IS NOT NULL
+           AND (seed_status IS NULL OR seed_status = 'seeding')
+         ORDER BY id ASC`
+      )
+      .all() as ReleaseRow[];
+  }
+
+  listSeedingReleases(limit = 40): Array<ReleaseRow & { book_title: string }> {
+    return this.db
+      .query(
+        `SELECT r.*, b.title AS book_title
+         FROM releases r
+         JOIN books b ON b.id = r.book_id
+         WHERE r.status = 'imported' AND r.protocol = 'torrent' AND r.info_hash IS NOT NULL
+         ORDER BY COALESCE(r.seed_checked_at, r.updated_at) DESC, r.id DESC
+         LIMIT ?`
+      )
+      .all(limit) as Array<ReleaseRow & { book_title: string }>;
+  }
+
+  // Leaves ratio and seed time alone when the update does not carry them, so
+  // a failed check keeps the last figures the client reported.
+  updateReleaseSeeding(releaseId: number, update: ReleaseSeedingUpdate): ReleaseRow {
+    assertPositiveInt(releaseId);
+    const now = nowIso();
+    return this.db
+      .query(
+        `UPDATE releases
+         SET seed_status = ?,
+             seed_ratio = CASE WHEN ? THEN ? ELSE seed_ratio END,
+             seed_seconds = CASE WHEN ? THEN ? ELSE seed_seconds END,
+             seed_checked_at = ?,
+             seed_removed_at = CASE WHEN ? = 'removed' THEN COALESCE(seed_removed_at, ?) ELSE seed_removed_at END,
+             seed_error = ?
+         WHERE id = ?
+         RETURNING *`
+      )
+      .get(
+        update.status,
+        update.ratio !== undefined ? 1 : 0,
+        update.ratio ?? null,
+        update.seconds !== undefined ? 1 : 0,
+        update.seconds ?? null,
+        now,
+        update.status,
+        now,
+        update.error ?? null,
+        releaseId
+      ) as ReleaseRow;
+  }
+
+  /**
+   * Every book/media pair still missing: no manifestation of that kind and no
+   * release in flight. Mirrors `deriveMediaStatus` returning wanted or error.
+   * With upgrade cutoffs, pairs whose best imported manifestation scores below
+   * the cutoff are listed too, as `upgrade`. Pairs that were never searched
+   * sort first.
+   */
+  listWantedMedia(upgradeCutoffs: Record<MediaType, number> | null = null): WantedMediaView[] {
+    const upgrades = upgradeCutoffs
+      ? `UNION ALL
+         SELECT b.id AS book_id, m.media_type, 'upgrade' AS reason, best.score AS current_score
+         FROM books b
+         CROSS JOIN (SELECT 'audio' AS media_type UNION ALL SELECT 'ebook' AS media_type) m
+         JOIN (
+           SELECT mf.book_id, mf.kind, MAX(mf.preferred_score) AS score
+           FROM manifestations mf
+           WHERE mf.superseded_at IS NULL AND EXISTS (SELECT 1 FROM assets a WHERE a.manifestation_id = mf.id)
+           GROUP BY mf.book_id, mf.kind
+         ) best ON best.book_id = b.id AND best.kind = m.media_type
+         WHERE best.score < CASE m.media_type WHEN 'audio' THEN $audioCutoff ELSE $ebookCutoff END`
+      : "";
+    const query = this.db.query(
+      `WITH candidates AS (
+         SELECT b.id AS book_id, m.media_type, 'missing' AS reason, NULL AS current_score
+         FROM books b
+         CROSS JOIN (SELECT 'audio' AS media_type UNION ALL SELECT 'ebook' AS media_type) m
+         WHERE NOT EXISTS (SELECT 1 FROM manifestations mf WHERE mf.book_id = b.id AND mf.kind = m.media_type)
+         ${upgrades}
+       )
+       SELECT c.book_id,
+              c.media_type,
+              c.reason,
+              c.current_score,
+              b.title,
+              b.author,
+              COALESCE(w.search_count, 0) AS search_count,
+              COALESCE(w.consecutive_misses, 0) AS consecutive_misses,
+              w.last_searched_at,
+              w.last_outcome,
+              w.last_detail,
+              w.next_search_at
+       FROM candidates c
+       JOIN books b ON b.id = c.book_id
+       LEFT JOIN wanted_media w ON w.book_id = c.book_id AND w.media_type = c.media_type
+       WHERE NOT EXISTS (
+         SELECT 1 FROM releases r
+         WHERE r.book_id = c.book_id
+           AND r.media_type = c.media_type
+           AND r.status IN ('snatched', 'downloading', 'downloaded')
+       )
+       ORDER BY w.next_search_at IS NOT NULL, w.next_search_at ASC, c.book_id ASC, c.media_type ASC`
+    );
+    return (
+      upgradeCutoffs ? query.all({ $audioCutoff: upgradeCutoffs.audio, $ebookCutoff: upgradeCutoffs.ebook }) : query.all()
+    ) as WantedMediaView[];
+  }
+
+  getWantedMedia(bookId: number, mediaType: MediaType): WantedMediaRow | null {
+    assertPositiveInt(bookId);
+    return this.db
+      .query("SELECT * FROM wanted_media WHERE book_id = ? AND media_type = ?")
+      .get(bookId, mediaType) as WantedMediaRow | null;
+  }
+
+  recordWantedSearch(bookId: number, mediaType: MediaType, update: WantedSearchUpdate): WantedMediaRow {
+    assertPositiveInt(bookId);
+    const now = nowIso();
+    const missed = update.outcome === "snatched" ? 0 : 1;
+    return this.db
+      .query(
+        `INSERT INTO wanted_media (
+           book_id, media_type, search_count, consecutive_misses, last_searched_at,
+           last_outcome, last_detail, next_search_at, created_at, updated_at
+         )
+         VALUES (?, ?, 1, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(book_id, media_type) DO UPDATE SET
+           search_count = search_count + 1,
+           consecutive_misses = CASE WHEN excluded.consecutive_misses = 0 THEN 0 ELSE consecutive_misses + 1 END,
+           last_searched_at = excluded.last_searched_at,
+           last_outcome = excluded.last_outcome,
+           last_detail = excluded.last_detail,
+           next_search_at = excluded.next_search_at,
+           updated_at = excluded.updated_at
+         RETURNING *`
+      )
+      .get(bookId, mediaType, missed, now, update.outcome, update.detail, update.nextSearchAt, now, now) as WantedMediaRow;
+  }
+
+  // Pushes the next search out without recording an outcome, so a queued
+  // search is not queued again before it has run.
+  scheduleWantedSearch(bookId: number, mediaType: MediaType, nextSearchAt: string): WantedMediaRow {
+    assertPositiveInt(bookId);
+    const now = nowIso();
+    return this.db
+      .query(
+        `INSERT INTO wanted_media (book_id, media_type, next_search_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(book_id, media_type) DO UPDATE SET
+           next_search_at = excluded.next_search_at,
+           updated_at = excluded.updated_at
+         RETURNING *`
+      )
+      .get(bookId, mediaType, nextSearchAt, now, now) as WantedMediaRow;
+  }
+
+  // Returns the existing entry when the same match is already blocklisted for the same scope.
+  createBlocklistEntry(input: CreateBlocklistEntryInput): ReleaseBlocklistRow {
+    const bookId = input.bookId ?? null;
+    if (bookId !== null) assertPositiveInt(bookId);
+    const infoHash = input.infoHash?.trim() ? normalizeHash(input.infoHash) : null;
+    const guid = input.guid?.trim() || null;
+    const titlePattern = input.titlePattern?.trim() || null;
+    if (!infoHash && !guid && !titlePattern) {
+      throw new Error("Blocklist entry requires an info hash, guid or title pattern");
+    }
+    return this.db.transaction(() => {
+      const existing = this.db
+        .query(
+          `SELECT * FROM release_blocklist
+           WHERE book_id IS ? AND info_hash IS ? AND guid IS ? AND title_pattern IS ?`
+        )
+        .get(bookId, infoHash, guid, titlePattern) as ReleaseBlocklistRow | null;
+      if (existing) return existing;
+      return this.db
+        .query(
+          `INSERT INTO release_blocklist (book_id, info_hash, guid, title_pattern, source, reason, release_id, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+           RETURNING *`
+        )
+        .get(
+          bookId,
+          infoHash,
+          guid,
+          titlePattern,
+          input.source,
+          input.reason ?? null,
+          input.releaseId ?? null,
+          nowIso()
+        ) as ReleaseBlocklistRow;
+    })();
+  }
+
+  listBlocklist(): ReleaseBlocklistRow[] {
+    return this.db.query("SELECT * FROM release_blocklist ORDER BY created_at DESC, id DESC").all() as ReleaseBlocklistRow[];
+  }
+
+  // Global entries plus, when a book is given, the entries scoped to it.
+  listBlocklistForBook(bookId: number | null): ReleaseBlocklistRow[] {
+    if (bookId !== null) assertPositiveInt(bookId);
+    return this.db
+      .query("SELECT * FROM release_blocklist WHERE book_id IS NULL OR book_id = ? ORDER BY id ASC")
+      .all(bookId) as ReleaseBlocklistRow[];
+  }
+
+  deleteBlocklistEntry(id: number): boolean {
+    assertPositiveInt(id);
+    const result = this.db.query("DELETE FROM release_blocklist WHERE id = ?").run(id);
+    return Number(result.changes) > 0;
+  }
+
+  upsertInboxItem(input: UpsertInboxItemInput): InboxItemRow {
+    const now = nowIso();
+    return this.db
+      .query(
+        `INSERT INTO inbox_items (path, status, book_id, guess_title, guess_author, detail, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(path) DO UPDATE SET
+           status = excluded.status,
+           book_id = excluded.book_id,
+           guess_title = excluded.guess_title,
+           guess_author = excluded.guess_author,
+           detail = excluded.detail,
+           updated_at = excluded.updated_at
+         RETURNING *`
+      )
+      .get(
+        input.path,
+        input.status,
+        input.bookId ?? null,
+        input.guessTitle ?? null,
+        input.guessAuthor ?? null,
+        input.detail ?? null,
+        now,
+        now
+      ) as InboxItemRow;
+  }
+
+  getInboxItem(id: number): InboxItemRow | null {
+    assertPositiveInt(id);
+    return (this.db.query("SELECT * FROM inbox_items WHERE id = ?").get(id) as InboxItemRow | null) ?? null;
+  }
+
+  getInboxItemByPath(itemPath: string): InboxItemRow | null {
+    return (this.db.query("SELECT * FROM inbox_items WHERE path = ?").get(itemPath) as InboxItemRow | null) ?? null;
+  }
+
+  listInboxItems(statuses?: InboxItemStatus[]): InboxItemRow[] {
+    const rows = this.db.query("SELECT * FROM inbox_items ORDER BY updated_at DESC, id DESC").all() as InboxItemRow[];
+    return statuses ? rows.filter((row) => statuses.includes(row.status)) : rows;
+  }
+
+  deleteInboxItem(id: number): boolean {
+    assertPositiveInt(id);
+    const result = this.db.query("DELETE FROM inbox_items WHERE id = ?").run(id);
+    return Number(result.changes) > 0;
+  }
+
   addAsset(input: AddAssetInput): AssetRow {
     assertPositiveInt(input.bookId);
     if (input.files.length === 0) {
@@ -976,8 +1415,8 @@ export class BooksRepo {
 
       const asset = this.db
         .query(
-          `INSERT INTO assets (book_id, kind, mime, total_size, duration_ms, source_release_id, manifestation_id, sequence_in_manifestation, import_note, created_at, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `INSERT INTO assets (book_id, kind, mime, total_size, duration_ms, source_release_id, manifestation_id, sequence_in_manifestation, import_note, embedded_tags_json, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
            RETURNING *`
         )
         .get(
@@ -990,13 +1429,14 @@ export class BooksRepo {
           manifestationId,
           sequence,
           input.importNote?.trim() || null,
+          input.embeddedTags ? JSON.stringify(input.embeddedTags) : null,
           now,
           now
         ) as AssetRow;
 
       const insertFile = this.db.query(
-        `INSERT INTO asset_files (asset_id, path, source_path, size, start, end, duration_ms, title, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        `INSERT INTO asset_files (asset_id, path, source_path, size, start, end, duration_ms, title, import_mode, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       );
       for (const file of input.files) {
         insertFile.run(
@@ -1008,6 +1448,7 @@ export class BooksRepo {
           file.end,
           file.durationMs,
           file.title ?? null,
+          file.importMode ?? null,
           now
         );
       }
@@ -1032,8 +1473,11 @@ export class BooksRepo {
     const language = input.language?.trim().toLowerCase() || null;
     return this.db
       .query(
-        `INSERT INTO manifestations (book_id, kind, label, edition_note, selection_note, language, duration_ms, total_size, preferred_score, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `INSERT INTO manifestations (
+           book_id, kind, label, edition_note, selection_note, language, duration_ms, total_size, preferred_score,
+           replaces_manifestation_id, created_at, updated_at
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
          RETURNING *`
       )
       .get(
@@ -1046,11 +1490,57 @@ export class BooksRepo {
         input.durationMs ?? null,
         input.totalSize ?? 0,
         input.preferredScore ?? 0,
+        input.replacesManifestationId ?? null,
         now,
         now
       ) as ManifestationRow;
   }
 
+  /** The highest-scoring imported manifestation of a kind that has not been replaced by an upgrade. */
+  getBestManifestation(bookId: number, kind: ManifestationKind): ManifestationRow | null {
+    assertPositiveInt(bookId);
+    return (
+      (this.db
+        .query(
+          `SELECT mf.*
+           FROM manifestations mf
+           WHERE mf.book_id = ?
+             AND mf.kind = ?
+             AND mf.superseded_at IS NULL
+             AND EXISTS (SELECT 1 FROM assets a WHERE a.manifestation_id = mf.id)
+           ORDER BY mf.preferred_score DESC, mf.created_at DESC, mf.id DESC
+           LIMIT 1`
+        )
+        .get(bookId, kind) as ManifestationRow | null) ?? null
+    );
+  }
+
+  markManifestationSuperseded(manifestationId: number): ManifestationRow | null {
+    assertPositiveInt(manifestationId);
+    const now = nowIso();
+    return (
+      (this.db
+        .query("UPDATE manifestations SET superseded_at = ?, updated_at = ? WHERE id = ? RETURNING *")
+        .get(now, now, manifestationId) as ManifestationRow | null) ?? null
+    );
+  }
+
+  /** Download or import work still queued for a manifestation, e.g. later parts of a multi-part release. */
+  hasActiveManifestationImports(manifestationId: number): boolean {
+    assertPositiveInt(manifestationId);
+    const row = this.db
+      .query(
+        `SELECT id FROM jobs
+         WHERE status IN ('queued', 'running')
+           AND type IN ('download', 'import')
+           AND json_valid(payload_json)
+           AND CAST(json_extract(payload_json, '$.manifestationId') AS INTEGER) = ?
+         LIMIT 1`
+      )
+      .get(manifestationId) as { id: number } | null;
+    return Boolean(row);
+  }
+
   getManifestation(manifestationId: number): ManifestationRow | null {
     assertPositiveInt(manifestationId);
     return (this.db.query("SELECT * FROM manifestations WHERE id = ?").get(manifestationId) as ManifestationRow | null) ?? null;
@@ -1059,7 +1549,9 @@ export class BooksRepo {
   listManifestationsByBook(bookId: number): ManifestationRow[] {
     assertPositiveInt(bookId);
     return this.db
-      .query("SELECT * FROM manifestations WHERE book_id = ? ORDER BY preferred_score DESC, created_at DESC, id DESC")
+      .query(
+        "SELECT * FROM manifestations WHERE book_id = ? ORDER BY superseded_at IS NOT NULL, preferred_score DESC, created_at DESC, id DESC"
+      )
       .all(bookId) as ManifestationRow[];
   }
 
@@ -1167,6 +1659,65 @@ export class BooksRepo {
     return Boolean(row);
   }
 
+  findAssetByFilePath(filePath: string): AssetRow | null {
+    return (this.db
+      .query("SELECT assets.* FROM assets JOIN asset_files ON asset_files.asset_id = assets.id WHERE asset_files.path = ? LIMIT 1")
+      .get(filePath) as AssetRow | null) ?? null;
+  }
+
+  setAssetEmbeddedTags(assetId: number, tags: EmbeddedAudioTags): AssetRow | null {
+    assertPositiveInt(assetId);
+    return (this.db
+      .query("UPDATE assets SET embedded_tags_json = ?, updated_at = ? WHERE id = ? RETURNING *")
+      .get(JSON.stringify(tags), nowIso(), assetId) as AssetRow | null) ?? null;
+  }
+
+  /**
+   * Records new sizes for rewritten asset files: byte ranges shift to follow
+   * them, then the asset and manifestation totals. A rewritten file is the
+   * library's own copy, so its import mode becomes `copy`.
+   */
+  updateAssetFileSizes(assetId: number, sizes: Array<{ id: number; size: number }>): AssetRow | null {
+    assertPositiveInt(assetId);
+    const bySize = new Map(sizes.map((entry) => [entry.id, entry.size]));
+    const now = nowIso();
+    return this.db.transaction(() => {
+      let cursor = 0;
+      for (const file of this.getAssetFiles(assetId)) {
+        const size = bySize.get(file.id) ?? file.size;
+        this.db
+          .query(
+            "UPDATE asset_files SET size = ?, start = ?, end = ?, import_mode = CASE WHEN ? THEN 'copy' ELSE import_mode END, updated_at = ? WHERE id = ?"
+          )
+          .run(size, cursor, cursor + size - 1, bySize.has(file.id), now, file.id);
+        cursor += size;
+      }
+      const asset = this.db
+        .query("UPDATE assets SET total_size = ?, updated_at = ? WHERE id = ? RETURNING *")
+        .get(cursor, now, assetId) as AssetRow | null;
+      if (asset?.manifestation_id) {
+        this.recomputeManifestationAggregates(asset.manifestation_id);
+      }
+      return asset;
+    })();
+  }
+
+  /** Records files moved on disk: asset file paths and book cover paths update together. */
+  relocateLibraryFiles(input: {
+    assetFiles: Array<{ id: number; path: string }>;
+    covers: Array<{ bookId: number; path: string }>;
+  }): void {
+    const now = nowIso();
+    this.db.transaction(() => {
+      for (const file of input.assetFiles) {
+        this.db.query("UPDATE asset_files SET path = ?, updated_at = ? WHERE id = ?").run(file.path, now, file.id);
+      }
+      for (const cover of input.covers) {
+        this.db.query("UPDATE books SET cover_path = ?, updated_at = ? WHERE id = ?").run(cover.path, now, cover.bookId);
+      }
+    })();
+  }
+
   createJob(input: CreateJobInput): JobRow {
     const now = nowIso();
     const row = this.db
@@ -1334,7 +1885,9 @@ export class BooksRepo {
           r.status AS release_status,
           r.error AS release_error,
           r.media_type AS media_type,
+          r.protocol AS protocol,
           r.info_hash AS info_hash,
+          r.download_id AS download_id,
           r.book_id AS book_id
          FROM jobs j
          LEFT JOIN releases r ON r.id = j.release_id
@@ -1357,7 +1910,9 @@ export class BooksRepo {
           r.status AS release_status,
           r.error AS release_error,
           r.media_type AS media_type,
+          r.protocol AS protocol,
           r.info_hash AS info_hash,
+          r.download_id AS download_id,
           r.book_id AS book_id
          FROM jobs j
          LEFT JOIN releases r ON r.id = j.release_id
@@ -1503,6 +2058,20 @@ export class BooksRepo {
     return rows.map((r) => r.book_id);
   }
 
+  /** Moves a manifestation's transcript and chapter analysis onto a new file fingerprint when they were current for `from`. */
+  replaceManifestationFingerprint(manifestationId: number, from: string, to: string): void {
+    assertPositiveInt(manifestationId);
+    const now = nowIso();
+    this.db.transaction(() => {
+      this.db
+        .query("UPDATE chapter_analysis SET fingerprint = ?, updated_at = ? WHERE manifestation_id = ? AND fingerprint = ?")
+        .run(to, now, manifestationId, from);
+      this.db
+        .query("UPDATE manifestation_transcripts SET fingerprint = ?, updated_at = ? WHERE manifestation_id = ? AND fingerprint = ?")
+        .run(to, now, manifestationId, from);
+    })();
+  }
+
   getManifestationTranscript(manifestationId: number): ManifestationTranscriptRow | null {
     assertPositiveInt(manifestationId);
     return (
@@ -1582,6 +2151,324 @@ export class BooksRepo {
       ) as ChapterAnalysisRow;
   }
 
+  getChapterOverride(manifestationId: number): ChapterOverrideRow | null {
+    assertPositiveInt(manifestationId);
+    return (this.db.query("SELECT * FROM chapter_overrides WHERE manifestation_id = ?").get(manifestationId) as ChapterOverrideRow | null) ?? null;
+  }
+
+  /** Manual chapter edits live apart from chapter_analysis so re-analysis never overwrites them. */
+  upsertChapterOverride(manifestationId: number, chaptersJson: string, updatedByUserId: number | null): ChapterOverrideRow {
+    assertPositiveInt(manifestationId);
+    return this.db
+      .query(
+        `INSERT INTO chapter_overrides (manifestation_id, chapters_json, updated_by_user_id, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(manifestation_id) DO UPDATE SET
+           chapters_json = excluded.chapters_json,
+           updated_by_user_id = excluded.updated_by_user_id,
+           updated_at = excluded.updated_at
+         RETURNING *`
+      )
+      .get(manifestationId, chaptersJson, updatedByUserId, nowIso()) as ChapterOverrideRow;
+  }
+
+  deleteChapterOverride(manifestationId: number): boolean {
+    assertPositiveInt(manifestationId);
+    return this.db.query("DELETE FROM chapter_overrides WHERE manifestation_id = ?").run(manifestationId).changes > 0;
+  }
+
+  getBookConsumption(userId: number, bookId: number): BookConsumptionRow | null {
+    assertPositiveInt(userId);
+    assertPositiveInt(bookId);
+    return (
+      (this.db
+        .query("SELECT * FROM book_consumption WHERE user_id = ? AND book_id = ?")
+        .get(userId, bookId) as BookConsumptionRow | null) ?? null
+    );
+  }
+
+  /**
+   * Moves a user's book into a consumption state. "unstarted" clears the row;
+   * started_at is kept from the first transition, and finished_at/abandoned_at
+   * record the latest time the book entered those states.
+   */
+  setBookConsumption(userId: number, bookId: number, state: ConsumptionState): BookConsumptionRow | null {
+    assertPositiveInt(userId);
+    assertPositiveInt(bookId);
+    if (state === "unstarted") {
+      this.db.query("DELETE FROM book_consumption WHERE user_id = ? AND book_id = ?").run(userId, bookId);
+      return null;
+    }
+    const existing = this.getBookConsumption(userId, bookId);
+    const now = nowIso();
+    const unchanged = existing?.state === state;
+    return this.db
+      .query(
+        `INSERT INTO book_consumption (user_id, book_id, state, started_at, finished_at, abandoned_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(user_id, book_id) DO UPDATE SET
+           state = excluded.state,
+           started_at = excluded.started_at,
+           finished_at = excluded.finished_at,
+           abandoned_at = excluded.abandoned_at,
+           updated_at = excluded.updated_at
+         RETURNING *`
+      )
+      .get(
+        userId,
+        bookId,
+        state,
+        existing?.started_at ?? now,
+        state === "finished" && !unchanged ? now : (existing?.finished_at ?? null),
+        state === "abandoned" && !unchanged ? now : (existing?.abandoned_at ?? null),
+        now
+      ) as BookConsumptionRow;
+  }
+
+  /**
+   * Playback activity starts an unstarted book and keeps an in-progress one at
+   * the front of the Continue shelf. Finished or abandoned books are left alone.
+   */
+  recordListeningActivity(userId: number, bookId: number): BookConsumptionRow | null {
+    const existing = this.getBookConsumption(userId, bookId);
+    if (!existing) {
+      return this.setBookConsumption(userId, bookId, "listening");
+    }
+    if (existing.state === "finished" || existing.state === "abandoned") {
+      return existing;
+    }
+    return this.db
+      .query("UPDATE book_consumption SET updated_at = ? WHERE user_id = ? AND book_id = ? RETURNING *")
+      .get(nowIso(), userId, bookId) as BookConsumptionRow;
+  }
+
+  listContinueBooks(userId: number, limit = 8): LibraryBook[] {
+    assertPositiveInt(userId);
+    const rows = this.db
+      .query(
+        `SELECT books.*
+         FROM books
+         JOIN book_consumption ON book_consumption.book_id = books.id
+         WHERE book_consumption.user_id = ?
+           AND book_consumption.state IN ('listening', 'reading')
+         ORDER BY book_consumption.updated_at DESC, books.id DESC
+         LIMIT ?`
+      )
+      .all(userId, limit) as BookRow[];
+    return rows.map((row) => this.toLibraryBook(row));
+  }
+
+  createBookmark(input: CreateBookmarkInput): BookmarkRow {
+    assertPositiveInt(input.userId);
+    assertPositiveInt(input.manifestationId);
+    const manifestation = this.getManifestation(input.manifestationId);
+    if (!manifestation) {
+      throw new Error("Manifestation not found");
+    }
+    const positionMs = Math.max(0, Math.round(input.positionMs));
+    const endMs = input.endMs === undefined || input.endMs === null ? null : Math.round(input.endMs);
+    if (endMs !== null && endMs <= positionMs) {
+      throw new Error("Bookmark end must be after its position");
+    }
+    const now = nowIso();
+    return this.db
+      .query(
+        `INSERT INTO bookmarks (user_id, manifestation_id, book_id, position_ms, end_ms, note, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(input.userId, manifestation.id, manifestation.book_id, positionMs, endMs, input.note ?? null, now, now) as BookmarkRow;
+  }
+
+  getBookmark(bookmarkId: number): BookmarkRow | null {
+    assertPositiveInt(bookmarkId);
+    return (this.db.query("SELECT * FROM bookmarks WHERE id = ?").get(bookmarkId) as BookmarkRow | null) ?? null;
+  }
+
+  listBookmarks(userId: number, target: { bookId?: number; manifestationId?: number }): BookmarkRow[] {
+    assertPositiveInt(userId);
+    if (target.manifestationId) {
+      assertPositiveInt(target.manifestationId);
+      return this.db
+        .query("SELECT * FROM bookmarks WHERE user_id = ? AND manifestation_id = ? ORDER BY position_ms ASC, id ASC")
+        .all(userId, target.manifestationId) as BookmarkRow[];
+    }
+    if (target.bookId) {
+      assertPositiveInt(target.bookId);
+      return this.db
+        .query("SELECT * FROM bookmarks WHERE user_id = ? AND book_id = ? ORDER BY manifestation_id ASC, position_ms ASC, id ASC")
+        .all(userId, target.bookId) as BookmarkRow[];
+    }
+    return [];
+  }
+
+  listBookmarksForManifestation(manifestationId: number): BookmarkRow[] {
+    assertPositiveInt(manifestationId);
+    return this.db
+      .query("SELECT * FROM bookmarks WHERE manifestation_id = ? ORDER BY user_id ASC, position_ms ASC, id ASC")
+      .all(manifestationId) as BookmarkRow[];
+  }
+
+  moveBookmark(bookmarkId: number, manifestationId: number, positionMs: number, endMs: number | null): BookmarkRow | null {
+    assertPositiveInt(bookmarkId);
+    assertPositiveInt(manifestationId);
+    return (
+      (this.db
+        .query("UPDATE bookmarks SET manifestation_id = ?, position_ms = ?, end_ms = ?, updated_at = ? WHERE id = ? RETURNING *")
+        .get(manifestationId, Math.max(0, Math.round(positionMs)), endMs === null ? null : Math.round(endMs), nowIso(), bookmarkId) as
+        | BookmarkRow
+        | null) ?? null
+    );
+  }
+
+  deleteBookmark(userId: number, bookmarkId: number): boolean {
+    assertPositiveInt(userId);
+    assertPositiveInt(bookmarkId);
+    return this.db.query("DELETE FROM bookmarks WHERE id = ? AND user_id = ?").run(bookmarkId, userId).changes > 0;
+  }
+
+  createFeedToken(userId: number, tokenHash: string, scope: FeedTokenScope, label: string | null = null): FeedTokenRow {
+    assertPositiveInt(userId);
+    return this.db
+      .query(
+        `INSERT INTO feed_tokens (user_id, token_hash, scope, label, created_at)
+         VALUES (?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(userId, tokenHash, scope, label, nowIso()) as FeedTokenRow;
+  }
+
+  getFeedToken(tokenId: number): FeedTokenRow | null {
+    assertPositiveInt(tokenId);
+    return (this.db.query("SELECT * FROM feed_tokens WHERE id = ?").get(tokenId) as FeedTokenRow | null) ?? null;
+  }
+
+  getActiveFeedTokenByHash(tokenHash: string): FeedTokenWithUserRow | null {
+    return (
+      (this.db
+        .query(
+          `SELECT t.*, u.username, u.display_name
+           FROM feed_tokens t
+           JOIN users u ON u.id = t.user_id
+           WHERE t.token_hash = ? AND t.revoked_at IS NULL`
+        )
+        .get(tokenHash) as FeedTokenWithUserRow | null) ?? null
+    );
+  }
+
+  touchFeedToken(tokenId: number): void {
+    assertPositiveInt(tokenId);
+    this.db.query("UPDATE feed_tokens SET last_used_at = ? WHERE id = ?").run(nowIso(), tokenId);
+  }
+
+  listFeedTokens(userId?: number): FeedTokenWithUserRow[] {
+    if (userId !== undefined) {
+      assertPositiveInt(userId);
+    }
+    return this.db
+      .query(
+        `SELECT t.*, u.username, u.display_name
+         FROM feed_tokens t
+         JOIN users u ON u.id = t.user_id
+         WHERE (?1 IS NULL OR t.user_id = ?1)
+         ORDER BY t.revoked_at IS NOT NULL, t.created_at DESC, t.id DESC`
+      )
+      .all(userId ?? null) as FeedTokenWithUserRow[];
+  }
+
+  revokeFeedToken(tokenId: number): FeedTokenRow | null {
+    assertPositiveInt(tokenId);
+    return (
+      (this.db
+        .query("UPDATE feed_tokens SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ? RETURNING *")
+        .get(nowIso(), tokenId) as FeedTokenRow | null) ?? null
+    );
+  }
+
+  listShelfBookIds(userId: number): Set<number> {
+    assertPositiveInt(userId);
+    const rows = this.db
+      .query("SELECT book_id FROM book_consumption WHERE user_id = ? AND state IN ('listening', 'reading', 'finished')")
+      .all(userId) as Array<{ book_id: number }>;
+    return new Set(rows.map((row) => row.book_id));
+  }
+
+  getPlaybackPosition(userId: number, manifestationId: number): PlaybackPositionRow | null {
+    assertPositiveInt(userId);
+    assertPositiveInt(manifestationId);
+    return (
+      (this.db
+        .query("SELECT * FROM playback_positions WHERE user_id = ? AND manifestation_id = ?")
+        .get(userId, manifestationId) as PlaybackPositionRow | null) ?? null
+    );
+  }
+
+  getLatestPlaybackPositionForBook(userId: number, bookId: number): PlaybackPositionRow | null {
+    assertPositiveInt(userId);
+    assertPositiveInt(bookId);
+    return (
+      (this.db
+        .query("SELECT * FROM playback_positions WHERE user_id = ? AND book_id = ? ORDER BY updated_at DESC LIMIT 1")
+        .get(userId, bookId) as PlaybackPositionRow | null) ?? null
+    );
+  }
+
+  listPlaybackPositionsForManifestation(manifestationId: number): PlaybackPositionRow[] {
+    assertPositiveInt(manifestationId);
+    return this.db
+      .query("SELECT * FROM playback_positions WHERE manifestation_id = ? ORDER BY user_id ASC")
+      .all(manifestationId) as PlaybackPositionRow[];
+  }
+
+  listRecentPlaybackPositions(userId: number, limit = 25): PlaybackPositionRow[] {
+    assertPositiveInt(userId);
+    return this.db
+      .query("SELECT * FROM playback_positions WHERE user_id = ? ORDER BY updated_at DESC, manifestation_id DESC LIMIT ?")
+      .all(userId, limit) as PlaybackPositionRow[];
+  }
+
+  /**
+   * Last-writer-wins: a write only replaces the stored position when its
+   * updatedAt is not older than the stored one. Returns the surviving row and
+   * whether this write was applied.
+   */
+  upsertPlaybackPosition(input: UpsertPlaybackPositionInput): { position: PlaybackPositionRow; applied: boolean } {
+    assertPositiveInt(input.userId);
+    assertPositiveInt(input.manifestationId);
+    const manifestation = this.getManifestation(input.manifestationId);
+    if (!manifestation) {
+      throw new Error("Manifestation not found");
+    }
+    const updatedAt = input.updatedAt ?? nowIso();
+    const applied = this.db
+      .query(
+        `INSERT INTO playback_positions (
+           user_id, manifestation_id, book_id, position_ms, chapter_index, device_name, updated_at
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(user_id, manifestation_id) DO UPDATE SET
+           position_ms = excluded.position_ms,
+           chapter_index = excluded.chapter_index,
+           device_name = excluded.device_name,
+           updated_at = excluded.updated_at
+         WHERE excluded.updated_at >= playback_positions.updated_at
+         RETURNING *`
+      )
+      .get(
+        input.userId,
+        input.manifestationId,
+        manifestation.book_id,
+        Math.max(0, Math.round(input.positionMs)),
+        input.chapterIndex ?? null,
+        input.deviceName ?? null,
+        updatedAt
+      ) as PlaybackPositionRow | null;
+    if (applied) {
+      return { position: applied, applied: true };
+    }
+    return { position: this.getPlaybackPosition(input.userId, input.manifestationId) as PlaybackPositionRow, applied: false };
+  }
+
   private toLibraryBook(row: BookRow): LibraryBook {
     const releases = this.listReleasesByBook(row.id);
     const manifestations = this.listManifestationsByBook(row.id);
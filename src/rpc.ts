@@ -1,12 +1,16 @@
 import { adminRouter } from "./rpc/admin-router";
 import { agentRouter } from "./rpc/agent-router";
 import { authRouter, createHelpMethod } from "./rpc/auth-router";
+import { bookmarksRouter } from "./rpc/bookmarks-router";
+import { chaptersRouter } from "./rpc/chapters-router";
 import { downloadsRouter } from "./rpc/downloads-router";
+import { feedsRouter } from "./rpc/feeds-router";
 import { defineRouter, flattenRouter, parseMethodParams, parseMethodResult, type RpcMethodDefinition } from "./rpc/framework";
 import { importRouter } from "./rpc/import-router";
 import { jobsRouter } from "./rpc/jobs-router";
 import { libraryRouter, releasesRouter } from "./rpc/library-router";
 import { openLibraryRouter } from "./rpc/openlibrary-router";
+import { playbackRouter } from "./rpc/playback-router";
 import { settingsRouter } from "./rpc/settings-router";
 import {
   RpcError,
@@ -54,6 +58,10 @@ const rootRouter = defineRouter({
   system: systemRouter,
   openlibrary: openLibraryRouter,
   library: libraryRouter,
+  playback: playbackRouter,
+  bookmarks: bookmarksRouter,
+  chapters: chaptersRouter,
+  feeds: feedsRouter,
   releases: releasesRouter,
   settings: settingsRouter,
   search: searchRouter,
@@ -46,7 +46,11 @@ export const agentRouter = defineRouter({
                 }
                 return { id: row.id, title: row.title, author: row.author };
               })();
-        const results = await runSearch(ctx.repo.getSettings(), { query: params.query, media: params.media });
+        const results = await runSearch(
+          ctx.repo.getSettings(),
+          { query: params.query, media: params.media },
+          { repo: ctx.repo, bookId: book?.id ?? null }
+        );
         const settings = ctx.repo.getSettings();
         const decision = await selectSearchCandidates(
           settings,
@@ -0,0 +1,113 @@
+import { z } from "zod";
+
+import { buildBookmarkViews, renderBookmarksMarkdown } from "../library/bookmarks";
+
+import { defineMethod, defineRouter } from "./framework";
+import {
+  bookmarkSchema,
+  emptyParamsSchema,
+  okResultSchema,
+  optionalPositiveIntSchema,
+  optionalStringSchema,
+  positiveIntSchema,
+} from "./schemas";
+import { requireSessionUserId, RpcError } from "./shared";
+
+export const bookmarksRouter = defineRouter({
+  create: defineMethod({
+    auth: "user",
+    summary: "Bookmark a moment (or clip, with endMs) in a manifestation with an optional note.",
+    paramsSchema: emptyParamsSchema.extend({
+      manifestationId: positiveIntSchema,
+      positionMs: z.coerce.number().int().nonnegative(),
+      endMs: optionalPositiveIntSchema,
+      note: optionalStringSchema,
+    }),
+    resultSchema: z.object({
+      bookmark: bookmarkSchema,
+    }),
+    async handler(ctx, params) {
+      const userId = requireSessionUserId(ctx);
+      if (!ctx.repo.getManifestation(params.manifestationId)) {
+        throw new RpcError(-32000, "Manifestation not found", {
+          error: "not_found",
+          manifestationId: params.manifestationId,
+        });
+      }
+      if (params.endMs !== undefined && params.endMs <= params.positionMs) {
+        throw new RpcError(-32602, "Invalid params", { error: "invalid_range", message: "endMs must be after positionMs" });
+      }
+      const row = ctx.repo.createBookmark({
+        userId,
+        manifestationId: params.manifestationId,
+        positionMs: params.positionMs,
+        endMs: params.endMs ?? null,
+        note: params.note?.trim() || null,
+      });
+      const [bookmark] = await buildBookmarkViews(ctx.repo, [row]);
+      return { bookmark: bookmark! };
+    },
+  }),
+
+  list: defineMethod({
+    auth: "user",
+    readOnly: true,
+    summary: "List the caller's bookmarks for a book or manifestation, with transcript excerpts.",
+    paramsSchema: emptyParamsSchema.extend({
+      bookId: optionalPositiveIntSchema,
+      manifestationId: optionalPositiveIntSchema,
+    }),
+    resultSchema: z.object({
+      items: z.array(bookmarkSchema),
+    }),
+    async handler(ctx, params) {
+      const userId = requireSessionUserId(ctx);
+      if (!params.bookId && !params.manifestationId) {
+        throw new RpcError(-32602, "Invalid params", { error: "missing_target", message: "bookId or manifestationId is required" });
+      }
+      const rows = ctx.repo.listBookmarks(userId, { bookId: params.bookId, manifestationId: params.manifestationId });
+      return { items: await buildBookmarkViews(ctx.repo, rows) };
+    },
+  }),
+
+  delete: defineMethod({
+    auth: "user",
+    summary: "Delete one of the caller's bookmarks.",
+    paramsSchema: emptyParamsSchema.extend({
+      bookmarkId: positiveIntSchema,
+    }),
+    resultSchema: okResultSchema,
+    async handler(ctx, params) {
+      const userId = requireSessionUserId(ctx);
+      if (!ctx.repo.deleteBookmark(userId, params.bookmarkId)) {
+        throw new RpcError(-32000, "Bookmark not found", { error: "not_found", bookmarkId: params.bookmarkId });
+      }
+      return { ok: true };
+    },
+  }),
+
+  exportMarkdown: defineMethod({
+    auth: "user",
+    readOnly: true,
+    summary: "Export the caller's bookmarks for a book as Markdown.",
+    paramsSchema: emptyParamsSchema.extend({
+      bookId: positiveIntSchema,
+    }),
+    resultSchema: z.object({
+      filename: z.string(),
+      markdown: z.string(),
+    }),
+    async handler(ctx, params) {
+      const userId = requireSessionUserId(ctx);
+      const book = ctx.repo.getBook(params.bookId);
+      if (!book) {
+        throw new RpcError(-32000, "Book not found", { error: "not_found", bookId: params.bookId });
+      }
+      const bookmarks = await buildBookmarkViews(ctx.repo, ctx.repo.listBookmarks(userId, { bookId: book.id }));
+      return {
+        filename: `${book.title} bookmarks.md`,
+        markdown: renderBookmarksMarkdown(book, bookmarks),
+      };
+    },
+  }),
+});
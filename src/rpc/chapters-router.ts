@@ -0,0 +1,153 @@
+import { z } from "zod";
+
+import { loadChapterTranscriptWindow, serializeChapterEdits, validateChapterEdits } from "../library/chapter-editor";
+import { buildManifestationChapterExport, manifestationDurationMs } from "../library/media";
+import { queueTagWrite } from "../library/tag-writing";
+
+import { defineMethod, defineRouter } from "./framework";
+import { emptyParamsSchema, nonEmptyStringSchema, positiveIntSchema } from "./schemas";
+import { RpcError, type RpcContext } from "./shared";
+
+const chapterEditorSchema = z.object({
+  manifestationId: positiveIntSchema,
+  durationSeconds: z.number().nonnegative().nullable(),
+  chapters: z.array(
+    z.object({
+      title: z.string(),
+      startTime: z.number().nonnegative(),
+      endTime: z.number().nonnegative(),
+      source: z.string().nullable(),
+    })
+  ),
+  override: z
+    .object({
+      updatedAt: z.string(),
+      updatedByUserId: positiveIntSchema.nullable(),
+    })
+    .nullable(),
+  curatedChaptersStored: z.boolean(),
+});
+
+function requireAudioManifestation(ctx: RpcContext, manifestationId: number) {
+  const target = ctx.repo.getManifestationWithContainers(manifestationId);
+  if (!target || target.manifestation.kind !== "audio") {
+    throw new RpcError(-32000, "Audio manifestation not found", { error: "not_found", manifestationId });
+  }
+  return target;
+}
+
+async function chapterEditorState(ctx: RpcContext, manifestationId: number): Promise<z.infer<typeof chapterEditorSchema>> {
+  const { manifestation, containers } = requireAudioManifestation(ctx, manifestationId);
+  const exported = await buildManifestationChapterExport(ctx.repo, manifestation, containers);
+  const durationMs = manifestationDurationMs(manifestation, containers);
+  const override = ctx.repo.getChapterOverride(manifestation.id);
+  return {
+    manifestationId: manifestation.id,
+    durationSeconds: durationMs === null ? null : durationMs / 1000,
+    chapters: (exported?.timings ?? []).map((timing) => ({
+      title: timing.title,
+      startTime: timing.startMs / 1000,
+      endTime: timing.endMs / 1000,
+      source: timing.source ?? null,
+    })),
+    override: override ? { updatedAt: override.updated_at, updatedByUserId: override.updated_by_user_id } : null,
+    curatedChaptersStored: Boolean(ctx.repo.getChapterAnalysis(manifestation.id)?.chapters_json),
+  };
+}
+
+export const chaptersRouter = defineRouter({
+  get: defineMethod({
+    auth: "admin",
+    readOnly: true,
+    summary: "Get the chapters served for an audio manifestation and whether a manual override is applied.",
+    paramsSchema: emptyParamsSchema.extend({
+      manifestationId: positiveIntSchema,
+    }),
+    resultSchema: chapterEditorSchema,
+    async handler(ctx, params) {
+      return chapterEditorState(ctx, params.manifestationId);
+    },
+  }),
+
+  transcriptWindow: defineMethod({
+    auth: "admin",
+    readOnly: true,
+    summary: "Read the stored transcript around a moment, with the nearest clean word boundaries, for nudging a chapter start.",
+    paramsSchema: emptyParamsSchema.extend({
+      manifestationId: positiveIntSchema,
+      time: z.coerce.number().nonnegative(),
+      radiusSeconds: z.coerce.number().positive().max(300).default(30),
+    }),
+    resultSchema: z.object({
+      startTime: z.number(),
+      endTime: z.number(),
+      text: z.string(),
+      utterances: z.array(z.object({ startTime: z.number(), endTime: z.number(), text: z.string() })),
+      nearestCleanBoundaryTimes: z.array(z.number()),
+    }),
+    async handler(ctx, params) {
+      const { manifestation, containers } = requireAudioManifestation(ctx, params.manifestationId);
+      const window = await loadChapterTranscriptWindow(
+        ctx.repo,
+        manifestation,
+        containers,
+        Math.round(params.time * 1000),
+        Math.round(params.radiusSeconds * 1000)
+      );
+      if (!window) {
+        throw new RpcError(-32000, "Transcript not found", { error: "not_found", manifestationId: params.manifestationId });
+      }
+      return {
+        startTime: window.startMs / 1000,
+        endTime: window.endMs / 1000,
+        text: window.text,
+        utterances: window.utterances.map((utterance) => ({
+          startTime: utterance.startMs / 1000,
+          endTime: utterance.endMs / 1000,
+          text: utterance.text,
+        })),
+        nearestCleanBoundaryTimes: window.boundaryWords?.nearestCleanBoundaryTimes ?? [],
+      };
+    },
+  }),
+
+  saveOverride: defineMethod({
+    auth: "admin",
+    summary: "Replace the served chapters for an audio manifestation with a manual edit that survives re-analysis.",
+    paramsSchema: emptyParamsSchema.extend({
+      manifestationId: positiveIntSchema,
+      chapters: z.array(
+        z.object({
+          title: nonEmptyStringSchema,
+          startTime: z.coerce.number().nonnegative(),
+        })
+      ),
+    }),
+    resultSchema: chapterEditorSchema,
+    async handler(ctx, params) {
+      const { manifestation, containers } = requireAudioManifestation(ctx, params.manifestationId);
+      const problem = validateChapterEdits(params.chapters, manifestationDurationMs(manifestation, containers));
+      if (problem) {
+        throw new RpcError(-32602, "Invalid params", { error: "invalid_chapters", message: problem });
+      }
+      ctx.repo.upsertChapterOverride(manifestation.id, serializeChapterEdits(params.chapters), ctx.session?.user_id ?? null);
+      queueTagWrite(ctx.repo, manifestation.book_id);
+      return chapterEditorState(ctx, manifestation.id);
+    },
+  }),
+
+  discardOverride: defineMethod({
+    auth: "admin",
+    summary: "Drop the manual chapter override so curated or file chapters are served again.",
+    paramsSchema: emptyParamsSchema.extend({
+      manifestationId: positiveIntSchema,
+    }),
+    resultSchema: chapterEditorSchema,
+    async handler(ctx, params) {
+      const { manifestation } = requireAudioManifestation(ctx, params.manifestationId);
+      ctx.repo.deleteChapterOverride(manifestation.id);
+      queueTagWrite(ctx.repo, manifestation.book_id);
+      return chapterEditorState(ctx, params.manifestationId);
+    },
+  }),
+});
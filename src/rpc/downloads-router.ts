@@ -1,4 +1,4 @@
-import { RtorrentClient } from "../rtorrent";
+import { createDownloadClients } from "../download-client";
 
 import { defineMethod, defineRouter } from "./framework";
 import { downloadRpcViewSchema, emptyParamsSchema, jobRowSchema, positiveIntSchema } from "./schemas";
@@ -16,9 +16,9 @@ export const downloadsRouter = defineRouter({
     }),
     async handler(ctx) {
       const downloads = ctx.repo.listDownloads();
-      const hasDownloading = downloads.some((download) => download.release_status === "downloading" && download.info_hash);
-      const client = hasDownloading ? new RtorrentClient(ctx.repo.getSettings().rtorrent) : null;
-      const enriched = await Promise.all(downloads.map((download) => enrichDownload(download, client)));
+      const hasDownloading = downloads.some((download) => download.release_status === "downloading");
+      const clients = hasDownloading ? createDownloadClients(ctx.repo.getSettings()) : null;
+      const enriched = await Promise.all(downloads.map((download) => enrichDownload(download, clients)));
       return { downloads: enriched };
     },
   }),
@@ -36,11 +36,8 @@ export const downloadsRouter = defineRouter({
       if (!download) {
         throw new RpcError(-32000, "Download not found", { error: "not_found", jobId: params.jobId });
       }
-      const client =
-        download.release_status === "downloading" && download.info_hash
-          ? new RtorrentClient(ctx.repo.getSettings().rtorrent)
-          : null;
-      return enrichDownload(download, client);
+      const clients = download.release_status === "downloading" ? createDownloadClients(ctx.repo.getSettings()) : null;
+      return enrichDownload(download, clients);
     },
   }),
 
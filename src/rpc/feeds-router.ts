@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+import { feedUrlsForToken, issueFeedToken } from "../library/feed";
+
+import { defineMethod, defineRouter } from "./framework";
+import { emptyParamsSchema, feedTokenSchema, feedTokenScopeSchema, optionalStringSchema, positiveIntSchema } from "./schemas";
+import { requestOrigin, requireSessionUserId, RpcError, toFeedToken } from "./shared";
+
+export const feedsRouter = defineRouter({
+  createToken: defineMethod({
+    auth: "user",
+    summary: "Create a private podcast feed token for the caller. The token is only returned once.",
+    paramsSchema: emptyParamsSchema.extend({
+      scope: feedTokenScopeSchema.default("all"),
+      label: optionalStringSchema,
+    }),
+    resultSchema: z.object({
+      feedToken: feedTokenSchema,
+      token: z.string(),
+      rssUrl: z.string(),
+      jsonUrl: z.string(),
+    }),
+    async handler(ctx, params) {
+      const userId = requireSessionUserId(ctx);
+      const { row, token } = issueFeedToken(ctx.repo, userId, params.scope, params.label?.trim() || null);
+      return {
+        feedToken: toFeedToken(row),
+        token,
+        ...feedUrlsForToken(requestOrigin(ctx.request), token),
+      };
+    },
+  }),
+
+  listTokens: defineMethod({
+    auth: "user",
+    readOnly: true,
+    summary: "List the caller's private feed tokens, including revoked ones.",
+    paramsSchema: emptyParamsSchema,
+    resultSchema: z.object({
+      items: z.array(feedTokenSchema),
+    }),
+    async handler(ctx) {
+      const userId = requireSessionUserId(ctx);
+      return { items: ctx.repo.listFeedTokens(userId).map(toFeedToken) };
+    },
+  }),
+
+  revokeToken: defineMethod({
+    auth: "user",
+    summary: "Revoke a private feed token. Admins may revoke any user's token.",
+    paramsSchema: emptyParamsSchema.extend({
+      tokenId: positiveIntSchema,
+    }),
+    resultSchema: z.object({
+      feedToken: feedTokenSchema,
+    }),
+    async handler(ctx, params) {
+      const userId = requireSessionUserId(ctx);
+      const existing = ctx.repo.getFeedToken(params.tokenId);
+      if (!existing || (existing.user_id !== userId && ctx.session?.is_admin !== 1)) {
+        throw new RpcError(-32000, "Feed token not found", { error: "not_found", tokenId: params.tokenId });
+      }
+      return { feedToken: toFeedToken(ctx.repo.revokeFeedToken(existing.id)!) };
+    },
+  }),
+});
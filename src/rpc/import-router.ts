@@ -1,12 +1,13 @@
-import path from "node:path";
 import { z } from "zod";
 
-import { importReleaseFromPath, inspectImportPath } from "../library/importer";
+import { assignInboxItem } from "../library/inbox";
+import { importManualRelease, inspectImportPath } from "../library/importer";
 
 import { defineMethod, defineRouter } from "./framework";
 import {
   emptyParamsSchema,
   importInspectionFileSchema,
+  inboxItemRowSchema,
   mediaSchema,
   nonEmptyStringSchema,
   optionalStringArraySchema,
@@ -15,7 +16,7 @@ import {
   releaseRowSchema,
   jobIdResultSchema,
 } from "./schemas";
-import { RpcError, uniqueManualInfoHash } from "./shared";
+import { RpcError } from "./shared";
 
 export const importRouter = defineRouter({
   reconcile: defineMethod({
@@ -65,39 +66,75 @@ export const importRouter = defineRouter({
     }),
     async handler(ctx, params) {
       const sourcePath = params.path.trim();
-      const title = params.title?.trim() || path.basename(sourcePath);
       const book = ctx.repo.getBookRow(params.bookId);
       if (!book) {
         throw new RpcError(-32000, "Book not found", { error: "not_found", bookId: params.bookId });
       }
 
-      const release = ctx.repo.createRelease({
-        bookId: params.bookId,
-        provider: "manual",
-        providerGuid: null,
-        title,
-        mediaType: params.mediaType,
-        infoHash: uniqueManualInfoHash(params.bookId, params.mediaType, sourcePath),
-        sizeBytes: null,
-        url: sourcePath,
-        status: "downloaded",
-      });
-
       try {
-        const imported = await importReleaseFromPath(ctx.repo, release, sourcePath, ctx.repo.getSettings().libraryRoot, {
+        const imported = await importManualRelease(ctx.repo, {
+          bookId: params.bookId,
+          mediaType: params.mediaType,
+          sourcePath,
+          title: params.title,
           selectedPaths: params.selectedPaths,
         });
-        const finalRelease = ctx.repo.setReleaseStatus(release.id, "imported", null);
         return {
-          release: finalRelease,
+          release: imported.release,
           assetId: imported.assetId,
           linkedFiles: imported.linkedFiles,
         };
       } catch (error) {
         const message = (error as Error).message || "Manual import failed";
-        ctx.repo.setReleaseStatus(release.id, "failed", message);
         throw new RpcError(-32000, "Manual import failed", { message, sourcePath, mediaType: params.mediaType });
       }
     },
   }),
+
+  inbox: defineRouter({
+    list: defineMethod({
+      auth: "admin",
+      readOnly: true,
+      summary: "List inbox drops, unmatched and failed first.",
+      paramsSchema: emptyParamsSchema,
+      resultSchema: z.object({
+        items: z.array(inboxItemRowSchema),
+      }),
+      async handler(ctx) {
+        const items = ctx.repo.listInboxItems();
+        return {
+          items: [...items.filter((item) => item.status !== "imported"), ...items.filter((item) => item.status === "imported")],
+        };
+      },
+    }),
+
+    assign: defineMethod({
+      auth: "admin",
+      summary: "Import an unmatched or failed inbox drop into a book.",
+      paramsSchema: emptyParamsSchema.extend({
+        id: positiveIntSchema,
+        bookId: positiveIntSchema,
+      }),
+      resultSchema: z.object({
+        item: inboxItemRowSchema,
+      }),
+      async handler(ctx, params) {
+        const item = ctx.repo.getInboxItem(params.id);
+        if (!item) {
+          throw new RpcError(-32000, "Inbox item not found", { error: "not_found", id: params.id });
+        }
+        if (item.status === "imported") {
+          throw new RpcError(-32000, "Inbox item is already imported", { error: "already_imported", id: params.id });
+        }
+        if (!ctx.repo.getBookRow(params.bookId)) {
+          throw new RpcError(-32000, "Book not found", { error: "not_found", bookId: params.bookId });
+        }
+        try {
+          return { item: await assignInboxItem(ctx.repo, params.id, params.bookId) };
+        } catch (error) {
+          throw new RpcError(-32000, "Inbox import failed", { message: (error as Error).message, path: item.path });
+        }
+      },
+    }),
+  }),
 });
@@ -13,6 +13,13 @@ const allJobTypes = [
   "chapter_analysis",
   "cover_generation",
   "metadata_hydration",
+  "seeding_check",
+  "wanted_search",
+  "rss_sync",
+  "upgrade_cleanup",
+  "library_reorganize",
+  "inbox_scan",
+  "tag_write",
 ] as const;
 
 export const jobsRouter = defineRouter({
@@ -2,24 +2,33 @@ import { randomUUID } from "node:crypto";
 
 import { z } from "zod";
 
+import { blocklistEntryProblem, blocklistRelease } from "../library/blocklist";
 import { createOrReuseBookFromOpenLibrary } from "../library/create";
 import { getBookTranscriptStatus, requestBookTranscription } from "../library/chapter-analysis";
 import { hydrateBookFromOpenLibrary } from "../library/hydration";
 import { searchOpenLibraryAuthor, searchOpenLibrarySeries } from "../library/openlibrary";
-import { RtorrentClient } from "../rtorrent";
+import { latestLibraryReorganize, queueLibraryReorganize } from "../library/reorganize";
+import { createDownloadClients } from "../download-client";
 import { runSearch, runSnatchGroup, triggerAutoAcquire } from "../library/service";
+import { queueTagWrite } from "../library/tag-writing";
+import { transcriptionConfigured } from "../library/transcription";
+import { listWantedMediaForSettings } from "../library/wanted";
 
 import { defineMethod, defineRouter } from "./framework";
 import {
   assetRowSchema,
+  bookConsumptionSchema,
   bookSeriesMembershipSchema,
+  consumptionStateSchema,
   emptyParamsSchema,
   jobIdResultSchema,
   libraryBookWithPlaybackSchema,
+  libraryReorganizeReportSchema,
   limitSchema,
   mediaSchema,
   mediaSelectionSchema,
   optionalBooleanSchema,
+  optionalConsumptionStateArraySchema,
   optionalPositiveIntArraySchema,
   optionalPositiveIntSchema,
   optionalStringArraySchema,
@@ -27,10 +36,21 @@ import {
   openLibraryCandidateSchema,
   positiveIntSchema,
   nonEmptyStringSchema,
+  okResultSchema,
+  releaseBlocklistRowSchema,
+  releaseProtocolSchema,
   releaseRowSchema,
   torznabResultSchema,
+  wantedMediaSchema,
 } from "./schemas";
-import { enrichLibraryBookPlayback, enrichLibraryBookProgress, removeFileIfPresent, RpcError } from "./shared";
+import {
+  enrichLibraryBookPlayback,
+  enrichLibraryBookProgress,
+  removeFileIfPresent,
+  requireSessionUserId,
+  RpcError,
+  toBookConsumption,
+} from "./shared";
 import type { BookRow } from "../app-types";
 
 const RELEASE_SEARCH_TTL_MS = 30 * 60 * 1000;
@@ -43,6 +63,7 @@ const releaseSearchResultSchema = z.object({
   sizeBytes: z.number().int().nullable(),
   guid: z.string().nullable(),
   infoHash: z.string().nullable(),
+  protocol: releaseProtocolSchema,
   seeders: z.number().int().nullable(),
   leechers: z.number().int().nullable(),
 });
@@ -61,6 +82,7 @@ function publicSearchResult(result: z.infer<typeof torznabResultSchema>, index:
     sizeBytes: result.sizeBytes,
     guid: result.guid,
     infoHash: result.infoHash,
+    protocol: result.protocol ?? "torrent",
     seeders: result.seeders,
     leechers: result.leechers,
   };
@@ -90,16 +112,19 @@ export const libraryRouter = defineRouter({
       limit: limitSchema.optional(),
       cursor: optionalPositiveIntSchema,
       q: optionalStringSchema,
+      consumption: optionalConsumptionStateArraySchema,
     }),
     resultSchema: z.object({
       items: z.array(libraryBookWithPlaybackSchema),
       nextCursor: positiveIntSchema.optional(),
     }),
     async handler(ctx, params) {
-      const result = ctx.repo.listBooks(params.limit ?? 50, params.cursor, params.q);
+      const userId = ctx.session?.user_id ?? null;
+      const consumption = userId && params.consumption?.length ? { userId, states: params.consumption } : undefined;
+      const result = ctx.repo.listBooks(params.limit ?? 50, params.cursor, params.q, consumption);
       return {
         ...result,
-        items: result.items.map((book) => enrichLibraryBookPlayback(ctx.repo, ctx.request, book)),
+        items: result.items.map((book) => enrichLibraryBookPlayback(ctx.repo, ctx.request, book, ctx.session?.user_id ?? null)),
       };
     },
   }),
@@ -121,19 +146,38 @@ export const libraryRouter = defineRouter({
       if (!book) {
         throw new RpcError(-32000, "Book not found", { error: "not_found", bookId: params.bookId });
       }
-      const bookClient =
+      const bookClients =
         book.audioStatus === "downloading" || book.ebookStatus === "downloading"
-          ? new RtorrentClient(ctx.repo.getSettings().rtorrent)
+          ? createDownloadClients(ctx.repo.getSettings())
           : null;
-      const enrichedBook = await enrichLibraryBookProgress(ctx.repo, book, bookClient);
+      const enrichedBook = await enrichLibraryBookProgress(ctx.repo, book, bookClients);
       return {
-        book: enrichLibraryBookPlayback(ctx.repo, ctx.request, enrichedBook),
+        book: enrichLibraryBookPlayback(ctx.repo, ctx.request, enrichedBook, ctx.session?.user_id ?? null),
         releases: ctx.repo.listReleasesByBook(params.bookId),
         assets: ctx.repo.listAssetsByBook(params.bookId),
       };
     },
   }),
 
+  setConsumption: defineMethod({
+    auth: "user",
+    summary: "Set the caller's consumption state for a book (unstarted, listening, reading, finished, abandoned).",
+    paramsSchema: emptyParamsSchema.extend({
+      bookId: positiveIntSchema,
+      state: consumptionStateSchema,
+    }),
+    resultSchema: z.object({
+      consumption: bookConsumptionSchema,
+    }),
+    async handler(ctx, params) {
+      const userId = requireSessionUserId(ctx);
+      if (!ctx.repo.getBookRow(params.bookId)) {
+        throw new RpcError(-32000, "Book not found", { error: "not_found", bookId: params.bookId });
+      }
+      return { consumption: toBookConsumption(ctx.repo.setBookConsumption(userId, params.bookId, params.state)) };
+    },
+  }),
+
   series: defineMethod({
     auth: "user",
     readOnly: true,
@@ -173,7 +217,7 @@ export const libraryRouter = defineRouter({
 
       return {
         series: { key: matchedSeries.key, name: matchedSeries.name, position: null },
-        libraryBooks: localBooks.map((book) => enrichLibraryBookPlayback(ctx.repo, ctx.request, book)),
+        libraryBooks: localBooks.map((book) => enrichLibraryBookPlayback(ctx.repo, ctx.request, book, ctx.session?.user_id ?? null)),
         openLibraryBooks: openLibraryBooks.sort((a, b) => {
           const aSeries = a.series.find((candidate) => (seriesKey ? candidate.key === seriesKey : candidate.name === matchedSeries.name));
           const bSeries = b.series.find((candidate) => (seriesKey ? candidate.key === seriesKey : candidate.name === matchedSeries.name));
@@ -204,7 +248,7 @@ export const libraryRouter = defineRouter({
       const openLibraryBooks = await searchOpenLibraryAuthor(authorName, params.limit ?? 50);
       return {
         author: localBooks[0]?.author ?? authorName,
-        libraryBooks: localBooks.map((book) => enrichLibraryBookPlayback(ctx.repo, ctx.request, book)),
+        libraryBooks: localBooks.map((book) => enrichLibraryBookPlayback(ctx.repo, ctx.request, book, ctx.session?.user_id ?? null)),
         openLibraryBooks: openLibraryBooks.sort((a, b) => a.title.localeCompare(b.title)),
       };
     },
@@ -223,10 +267,10 @@ export const libraryRouter = defineRouter({
     async handler(ctx, params) {
       const items = ctx.repo.listInProgressBooks(params.bookIds);
       const hasDownloading = items.some((book) => book.audioStatus === "downloading" || book.ebookStatus === "downloading");
-      const client = hasDownloading ? new RtorrentClient(ctx.repo.getSettings().rtorrent) : null;
+      const clients = hasDownloading ? createDownloadClients(ctx.repo.getSettings()) : null;
       return {
-        items: (await Promise.all(items.map((book) => enrichLibraryBookProgress(ctx.repo, book, client)))).map((book) =>
-          enrichLibraryBookPlayback(ctx.repo, ctx.request, book)
+        items: (await Promise.all(items.map((book) => enrichLibraryBookProgress(ctx.repo, book, clients)))).map((book) =>
+          enrichLibraryBookPlayback(ctx.repo, ctx.request, book, ctx.session?.user_id ?? null)
         ),
       };
     },
@@ -257,7 +301,7 @@ export const libraryRouter = defineRouter({
       return {
         book: (() => {
           const book = ctx.repo.getBook(result.bookId);
-          return book ? enrichLibraryBookPlayback(ctx.repo, ctx.request, book) : null;
+          return book ? enrichLibraryBookPlayback(ctx.repo, ctx.request, book, ctx.session?.user_id ?? null) : null;
         })(),
         acquisition_job_id: result.acquisitionJobId,
       };
@@ -335,7 +379,18 @@ export const libraryRouter = defineRouter({
       }
 
       const limit = params.limit ?? 50;
-      const results = (await runSearch(ctx.repo.getSettings(), { query, media: params.mediaType })).slice(0, limit);
+      const results = (
+        await runSearch(
+          ctx.repo.getSettings(),
+          {
+            query,
+            media: params.mediaType,
+            // A custom query is the user's own wording, so only the default search goes by title and author.
+            ...(params.query?.trim() ? {} : { book: { title: book.title, author: book.author } }),
+          },
+          { repo: ctx.repo, bookId: book.id }
+        )
+      ).slice(0, limit);
       const expiresAt = new Date(Date.now() + RELEASE_SEARCH_TTL_MS).toISOString();
       ctx.repo.deleteExpiredReleaseSearches(new Date().toISOString());
       const search = ctx.repo.createReleaseSearch({
@@ -443,6 +498,7 @@ export const libraryRouter = defineRouter({
           providerGuid: release.guid ?? null,
           title: release.title,
           url: release.url,
+          protocol: release.protocol,
           infoHash: release.infoHash ?? null,
           sizeBytes: release.sizeBytes,
         })),
@@ -463,6 +519,64 @@ export const libraryRouter = defineRouter({
     },
   }),
 
+  reorganize: defineMethod({
+    auth: "admin",
+    summary: "Queue moving library files to the naming templates; a dry run (the default) only previews the moves.",
+    paramsSchema: emptyParamsSchema.extend({
+      dryRun: optionalBooleanSchema,
+    }),
+    resultSchema: jobIdResultSchema,
+    async handler(ctx, params) {
+      const job = queueLibraryReorganize(ctx.repo, params.dryRun ?? true);
+      return { jobId: job.id };
+    },
+  }),
+
+  reorganizePlan: defineMethod({
+    auth: "admin",
+    readOnly: true,
+    summary: "Show the moves from the latest library reorganize preview or run.",
+    paramsSchema: emptyParamsSchema,
+    resultSchema: z.object({
+      report: libraryReorganizeReportSchema.nullable(),
+    }),
+    async handler(ctx) {
+      return { report: latestLibraryReorganize(ctx.repo) };
+    },
+  }),
+
+  writeTags: defineMethod({
+    auth: "admin",
+    summary: "Queue writing canonical tags, cover and chapters into one book's (or every book's) library audio files.",
+    paramsSchema: emptyParamsSchema.extend({
+      bookId: optionalPositiveIntSchema,
+    }),
+    resultSchema: jobIdResultSchema,
+    async handler(ctx, params) {
+      if (params.bookId !== undefined && !ctx.repo.getBookRow(params.bookId)) {
+        throw new RpcError(-32000, "Book not found", { error: "not_found", bookId: params.bookId });
+      }
+      const job = queueTagWrite(ctx.repo, params.bookId ?? null);
+      if (!job) {
+        throw new RpcError(-32000, "Tag writing is disabled", { error: "disabled" });
+      }
+      return { jobId: job.id };
+    },
+  }),
+
+  wanted: defineMethod({
+    auth: "admin",
+    readOnly: true,
+    summary: "List missing (or upgradeable) audio/ebook media with their last re-search outcome and next scheduled search.",
+    paramsSchema: emptyParamsSchema,
+    resultSchema: z.object({
+      wanted: z.array(wantedMediaSchema),
+    }),
+    async handler(ctx) {
+      return { wanted: listWantedMediaForSettings(ctx.repo, ctx.repo.getSettings()) };
+    },
+  }),
+
   reportImportIssue: defineMethod({
     auth: "user",
     summary: "Report wrong imported file(s), preserve the current edition, and queue async review/reacquire.",
@@ -481,6 +595,7 @@ export const libraryRouter = defineRouter({
       deletedAssetCount: z.number().int().nonnegative(),
       deletedAssetFileCount: z.number().int().nonnegative(),
       deletedAssetPaths: z.array(z.string()),
+      blocklistEntryId: positiveIntSchema,
     }),
     async handler(ctx, params) {
       const book = ctx.repo.getBookRow(params.bookId);
@@ -536,6 +651,7 @@ export const libraryRouter = defineRouter({
       ).filter((asset) => params.manifestationId === undefined || asset.manifestation_id === params.manifestationId);
       const wrongAssetFiles = wrongAssets.flatMap((asset) => ctx.repo.getAssetFiles(asset.id));
       const rejectedSourcePaths = wrongAssetFiles.map((file) => file.source_path ?? file.path);
+      const blocklistEntry = blocklistRelease(ctx.repo, release, "user_report", "Reported as the wrong file");
 
       const importJob = ctx.repo.createJob({
         type: "import",
@@ -557,6 +673,7 @@ export const libraryRouter = defineRouter({
         deletedAssetCount: 0,
         deletedAssetFileCount: 0,
         deletedAssetPaths: [],
+        blocklistEntryId: blocklistEntry.id,
       };
     },
   }),
@@ -582,6 +699,7 @@ export const libraryRouter = defineRouter({
       for (const book of resolved) {
         if (await hydrateBookFromOpenLibrary(ctx.repo, book)) {
           updatedBookIds.push(book.id);
+          queueTagWrite(ctx.repo, book.id);
         }
       }
 
@@ -622,8 +740,8 @@ export const libraryRouter = defineRouter({
           });
         }
       }
-      const apiKeyConfigured = Boolean(ctx.repo.getSettings().agents.apiKey.trim());
-      return await getBookTranscriptStatus(ctx.repo, params.bookId, { apiKeyConfigured, manifestationId: params.manifestationId });
+      const configured = transcriptionConfigured(ctx.repo.getSettings());
+      return await getBookTranscriptStatus(ctx.repo, params.bookId, { transcriptionConfigured: configured, manifestationId: params.manifestationId });
     },
   }),
 
@@ -657,9 +775,9 @@ export const libraryRouter = defineRouter({
           });
         }
       }
-      const apiKeyConfigured = Boolean(ctx.repo.getSettings().agents.apiKey.trim());
+      const configured = transcriptionConfigured(ctx.repo.getSettings());
       return await requestBookTranscription(ctx.repo, params.bookId, {
-        apiKeyConfigured,
+        transcriptionConfigured: configured,
         manifestationId: params.manifestationId,
         force: params.force ?? false,
       });
@@ -732,4 +850,71 @@ export const releasesRouter = defineRouter({
       return { releases: ctx.repo.listReleasesByBook(params.bookId) };
     },
   }),
+
+  blocklist: defineRouter({
+    list: defineMethod({
+      auth: "admin",
+      readOnly: true,
+      summary: "List blocklisted releases, or only the global and book-scoped entries that apply to one book.",
+      paramsSchema: emptyParamsSchema.extend({
+        bookId: optionalPositiveIntSchema,
+      }),
+      resultSchema: z.object({
+        entries: z.array(releaseBlocklistRowSchema),
+      }),
+      async handler(ctx, params) {
+        return {
+          entries: params.bookId === undefined ? ctx.repo.listBlocklist() : ctx.repo.listBlocklistForBook(params.bookId),
+        };
+      },
+    }),
+
+    add: defineMethod({
+      auth: "admin",
+      summary: "Blocklist releases by info hash, indexer guid or title pattern (`*` wildcards), globally or for one book.",
+      paramsSchema: emptyParamsSchema.extend({
+        bookId: optionalPositiveIntSchema,
+        infoHash: optionalStringSchema,
+        guid: optionalStringSchema,
+        titlePattern: optionalStringSchema,
+        reason: optionalStringSchema,
+      }),
+      resultSchema: z.object({
+        entry: releaseBlocklistRowSchema,
+      }),
+      async handler(ctx, params) {
+        const problem = blocklistEntryProblem(params);
+        if (problem) {
+          throw new RpcError(-32602, "Invalid params", { error: "invalid_blocklist_entry", message: problem });
+        }
+        if (params.bookId !== undefined && !ctx.repo.getBookRow(params.bookId)) {
+          throw new RpcError(-32000, "Book not found", { error: "not_found", bookId: params.bookId });
+        }
+        const entry = ctx.repo.createBlocklistEntry({
+          bookId: params.bookId ?? null,
+          infoHash: params.infoHash,
+          guid: params.guid,
+          titlePattern: params.titlePattern,
+          source: "manual",
+          reason: params.reason?.trim() || null,
+        });
+        return { entry };
+      },
+    }),
+
+    remove: defineMethod({
+      auth: "admin",
+      summary: "Remove a blocklist entry so its releases can be found again.",
+      paramsSchema: emptyParamsSchema.extend({
+        id: positiveIntSchema,
+      }),
+      resultSchema: okResultSchema,
+      async handler(ctx, params) {
+        if (!ctx.repo.deleteBlocklistEntry(params.id)) {
+          throw new RpcError(-32000, "Blocklist entry not found", { error: "not_found", id: params.id });
+        }
+        return { ok: true };
+      },
+    }),
+  }),
 });
@@ -0,0 +1,109 @@
+import { z } from "zod";
+
+import { defineMethod, defineRouter } from "./framework";
+import {
+  emptyParamsSchema,
+  limitSchema,
+  optionalPositiveIntSchema,
+  optionalStringSchema,
+  playbackPositionSchema,
+  positiveIntSchema,
+} from "./schemas";
+import { requireSessionUserId, RpcError, toPlaybackPosition } from "./shared";
+
+function parseClientTimestamp(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Date.parse(value);
+  if (!Number.isFinite(parsed)) {
+    throw new RpcError(-32602, "Invalid params", { error: "invalid_updated_at", updatedAt: value });
+  }
+  // Clamp future timestamps so a device with a fast clock cannot pin its
+  // position against every later write from other devices.
+  return new Date(Math.min(parsed, Date.now())).toISOString();
+}
+
+export const playbackRouter = defineRouter({
+  get: defineMethod({
+    auth: "user",
+    readOnly: true,
+    summary: "Get the caller's saved position for a manifestation, or the latest one for a book.",
+    paramsSchema: emptyParamsSchema.extend({
+      manifestationId: optionalPositiveIntSchema,
+      bookId: optionalPositiveIntSchema,
+    }),
+    resultSchema: z.object({
+      position: playbackPositionSchema.nullable(),
+    }),
+    async handler(ctx, params) {
+      const userId = requireSessionUserId(ctx);
+      if (params.manifestationId) {
+        const row = ctx.repo.getPlaybackPosition(userId, params.manifestationId);
+        return { position: row ? toPlaybackPosition(row) : null };
+      }
+      if (params.bookId) {
+        const row = ctx.repo.getLatestPlaybackPositionForBook(userId, params.bookId);
+        return { position: row ? toPlaybackPosition(row) : null };
+      }
+      throw new RpcError(-32602, "Invalid params", { error: "missing_target", message: "manifestationId or bookId is required" });
+    },
+  }),
+
+  update: defineMethod({
+    auth: "user",
+    summary: "Save the caller's position in a manifestation (last writer wins by updatedAt).",
+    paramsSchema: emptyParamsSchema.extend({
+      manifestationId: positiveIntSchema,
+      positionMs: z.coerce.number().int().nonnegative(),
+      chapterIndex: z.preprocess(
+        (value) => (value === undefined || value === null || value === "" ? undefined : value),
+        z.coerce.number().int().nonnegative().optional()
+      ),
+      deviceName: optionalStringSchema,
+      updatedAt: optionalStringSchema,
+    }),
+    resultSchema: z.object({
+      position: playbackPositionSchema,
+      applied: z.boolean(),
+    }),
+    async handler(ctx, params) {
+      const userId = requireSessionUserId(ctx);
+      const manifestation = ctx.repo.getManifestation(params.manifestationId);
+      if (!manifestation) {
+        throw new RpcError(-32000, "Manifestation not found", {
+          error: "not_found",
+          manifestationId: params.manifestationId,
+        });
+      }
+      const result = ctx.repo.upsertPlaybackPosition({
+        userId,
+        manifestationId: manifestation.id,
+        positionMs: params.positionMs,
+        chapterIndex: params.chapterIndex ?? null,
+        deviceName: params.deviceName?.trim() || null,
+        updatedAt: parseClientTimestamp(params.updatedAt),
+      });
+      if (result.applied) {
+        ctx.repo.recordListeningActivity(userId, manifestation.book_id);
+      }
+      return { position: toPlaybackPosition(result.position), applied: result.applied };
+    },
+  }),
+
+  listRecent: defineMethod({
+    auth: "user",
+    readOnly: true,
+    summary: "List the caller's most recently updated positions across books.",
+    paramsSchema: emptyParamsSchema.extend({
+      limit: limitSchema.optional(),
+    }),
+    resultSchema: z.object({
+      items: z.array(playbackPositionSchema),
+    }),
+    async handler(ctx, params) {
+      const userId = requireSessionUserId(ctx);
+      return {
+        items: ctx.repo.listRecentPlaybackPositions(userId, params.limit ?? 50).map(toPlaybackPosition),
+      };
+    },
+  }),
+});
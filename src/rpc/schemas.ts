@@ -1,6 +1,7 @@
 import { z } from "zod";
 
 import type { AppSettings } from "../app-types";
+import { unknownNamingTokens } from "../library/naming";
 
 const emptyToUndefined = (value: unknown) => {
   if (value === undefined || value === null || value === "") return undefined;
@@ -44,6 +45,13 @@ export const mediaSelectionSchema = z
   }, z.array(mediaSchema).min(1))
   .transform((value) => Array.from(new Set(value)));
 
+export const consumptionStateSchema = z.enum(["unstarted", "listening", "reading", "finished", "abandoned"]);
+export const optionalConsumptionStateArraySchema = z.preprocess((value) => {
+  const normalized = emptyToUndefined(value);
+  if (normalized === undefined) return undefined;
+  return Array.isArray(normalized) ? normalized : String(normalized).split(",");
+}, z.array(consumptionStateSchema).optional());
+
 export const jobTypeSchema = z.enum([
   "full_library_refresh",
   "acquire",
@@ -53,22 +61,54 @@ export const jobTypeSchema = z.enum([
   "chapter_analysis",
   "cover_generation",
   "metadata_hydration",
+  "seeding_check",
+  "wanted_search",
+  "rss_sync",
+  "upgrade_cleanup",
+  "library_reorganize",
+  "inbox_scan",
+  "tag_write",
 ]);
 
-export const appSettingsSchema: z.ZodType<AppSettings> = z.object({
-  torznab: z.array(
-    z.object({
-      name: z.string(),
-      baseUrl: z.string(),
-      apiKey: z.string().optional(),
-      categories: z
-        .object({
-          audio: z.string().optional(),
-          ebook: z.string().optional(),
-        })
-        .optional(),
+const qualityProfileBaseSchema = z.object({
+  preferredFormats: z.array(z.string()),
+  requiredWords: z.array(z.string()),
+  forbiddenWords: z.array(z.string()),
+  preferredLanguages: z.array(z.string()),
+});
+
+const indexerSourceSchema = z.object({
+  name: z.string(),
+  baseUrl: z.string(),
+  apiKey: z.string().optional(),
+  categories: z
+    .object({
+      audio: z.string().optional(),
+      ebook: z.string().optional(),
     })
-  ),
+    .optional(),
+});
+
+const torznabSourceSchema = indexerSourceSchema.extend({
+  seeding: z
+    .object({
+      minRatio: z.number().nonnegative().optional(),
+      minSeedMinutes: z.number().int().nonnegative().optional(),
+    })
+    .optional(),
+});
+
+export const releaseProtocolSchema = z.enum(["torrent", "usenet"]);
+
+const namingTemplateSchema = nonEmptyStringSchema.refine((template) => unknownNamingTokens(template).length === 0, {
+  message: "Unknown naming template token",
+});
+
+export const appSettingsSchema: z.ZodType<AppSettings> = z.object({
+  torznab: z.array(torznabSourceSchema),
+  newznab: z.array(indexerSourceSchema),
+  downloadClient: z.enum(["rtorrent", "qbittorrent", "transmission", "deluge"]),
+  usenetClient: z.enum(["none", "sabnzbd", "nzbget"]),
   rtorrent: z.object({
     transport: z.literal("http-xmlrpc"),
     url: z.string(),
@@ -76,6 +116,36 @@ export const appSettingsSchema: z.ZodType<AppSettings> = z.object({
     password: z.string().optional(),
     downloadPath: z.string().optional(),
   }),
+  qbittorrent: z.object({
+    url: z.string(),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    category: z.string().optional(),
+    savePath: z.string().optional(),
+  }),
+  transmission: z.object({
+    url: z.string(),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    downloadPath: z.string().optional(),
+  }),
+  deluge: z.object({
+    url: z.string(),
+    password: z.string().optional(),
+    downloadPath: z.string().optional(),
+    label: z.string().optional(),
+  }),
+  sabnzbd: z.object({
+    url: z.string(),
+    apiKey: z.string(),
+    category: z.string().optional(),
+  }),
+  nzbget: z.object({
+    url: z.string(),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    category: z.string().optional(),
+  }),
   libraryRoot: z.string(),
   polling: z.object({
     rtorrentMs: z.number(),
@@ -83,6 +153,54 @@ export const appSettingsSchema: z.ZodType<AppSettings> = z.object({
   recovery: z.object({
     stalledTorrentMinutes: z.number(),
   }),
+  seeding: z.object({
+    checkMinutes: z.number().int().positive(),
+  }),
+  wanted: z.object({
+    enabled: z.boolean(),
+    checkMinutes: z.number().int().positive(),
+    retryMinutes: z.number().int().positive(),
+    maxRetryMinutes: z.number().int().positive(),
+    dailySearchLimit: z.number().int().nonnegative(),
+  }),
+  rss: z.object({
+    enabled: z.boolean(),
+    intervalMinutes: z.number().int().positive(),
+  }),
+  quality: z.object({
+    audio: qualityProfileBaseSchema.extend({
+      minBitrateKbps: z.number().nonnegative(),
+      maxBitrateKbps: z.number().nonnegative(),
+      minMbPerHour: z.number().nonnegative(),
+      maxMbPerHour: z.number().nonnegative(),
+      preferredNarrators: z.array(z.string()),
+      unabridgedOnly: z.boolean(),
+    }),
+    ebook: qualityProfileBaseSchema,
+  }),
+  upgrades: z.object({
+    enabled: z.boolean(),
+    audioCutoff: z.number(),
+    ebookCutoff: z.number(),
+    deleteOldAfterDays: z.number().nonnegative(),
+  }),
+  naming: z.object({
+    folderTemplate: namingTemplateSchema,
+    fileTemplate: namingTemplateSchema,
+  }),
+  imports: z.object({
+    torrentMode: z.enum(["hardlink", "copy", "symlink"]),
+    usenetMode: z.enum(["hardlink", "copy", "move", "symlink"]),
+  }),
+  inbox: z.object({
+    enabled: z.boolean(),
+    path: z.string(),
+    intervalMinutes: z.number().int().positive(),
+    importMode: z.enum(["hardlink", "copy", "move", "symlink"]),
+  }),
+  tagWriting: z.object({
+    enabled: z.boolean(),
+  }),
   feed: z.object({
     title: z.string(),
     author: z.string(),
@@ -105,6 +223,14 @@ export const appSettingsSchema: z.ZodType<AppSettings> = z.object({
     lowConfidenceThreshold: z.number(),
     timeoutMs: z.number(),
   }),
+  transcription: z.object({
+    provider: z.enum(["openai", "openai-compatible", "command"]),
+    baseUrl: z.string(),
+    apiKey: z.string(),
+    model: z.string(),
+    command: z.array(z.string()),
+    concurrency: z.number().int().nonnegative(),
+  }),
   notifications: z.object({
     pushover: z.object({
       enabled: z.boolean(),
@@ -116,6 +242,48 @@ export const appSettingsSchema: z.ZodType<AppSettings> = z.object({
 
 export const stringRecordSchema = z.record(z.string(), z.string());
 export const countMapSchema = z.record(z.string(), z.number().int().nonnegative());
+
+export const indexerHealthSchema = z.object({
+  name: z.string(),
+  protocol: releaseProtocolSchema,
+  healthy: z.boolean(),
+  successCount: z.number().int().nonnegative(),
+  failureCount: z.number().int().nonnegative(),
+  consecutiveFailures: z.number().int().nonnegative(),
+  lastLatencyMs: z.number().int().nonnegative().nullable(),
+  lastSuccessAt: z.string().nullable(),
+  lastFailureAt: z.string().nullable(),
+  lastError: z.string().nullable(),
+  disabledUntil: z.string().nullable(),
+});
+
+const capsSearchSchema = z.object({
+  available: z.boolean(),
+  params: z.array(z.string()),
+});
+
+export const indexerCapsSchema = z.object({
+  name: z.string(),
+  protocol: releaseProtocolSchema,
+  caps: z
+    .object({
+      search: capsSearchSchema,
+      bookSearch: capsSearchSchema,
+      categories: z.array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          subcategories: z.array(z.object({ id: z.string(), name: z.string() })),
+        })
+      ),
+    })
+    .nullable(),
+  suggestedCategories: z.object({
+    audio: z.string().nullable(),
+    ebook: z.string().nullable(),
+  }),
+  error: z.string().nullable(),
+});
 export const anyObjectSchema = z.object({}).passthrough();
 export const okResultSchema = z.object({ ok: z.literal(true) });
 export const jobIdResultSchema = z.object({ jobId: positiveIntSchema });
@@ -170,6 +338,15 @@ const libraryPlaybackAudioSchema = z.object({
   sizeBytes: z.number().int().nonnegative(),
 });
 
+export const playbackPositionSchema = z.object({
+  bookId: positiveIntSchema,
+  manifestationId: positiveIntSchema,
+  positionMs: z.number().int().nonnegative(),
+  chapterIndex: z.number().int().nonnegative().nullable(),
+  deviceName: z.string().nullable(),
+  updatedAt: z.string(),
+});
+
 export const libraryPlaybackSchema = z.object({
   audio: libraryPlaybackAudioSchema.nullable(),
   audioOptions: z.array(libraryPlaybackAudioSchema),
@@ -181,10 +358,76 @@ export const libraryPlaybackSchema = z.object({
       sizeBytes: z.number().int().nonnegative(),
     })
     .nullable(),
+  resume: playbackPositionSchema.nullable(),
+});
+
+export const bookmarkSchema = z.object({
+  id: positiveIntSchema,
+  bookId: positiveIntSchema,
+  manifestationId: positiveIntSchema,
+  positionMs: z.number().int().nonnegative(),
+  endMs: z.number().int().positive().nullable(),
+  note: z.string().nullable(),
+  chapterTitle: z.string().nullable(),
+  transcriptText: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const feedTokenScopeSchema = z.enum(["added", "shelf", "all"]);
+
+export const feedTokenSchema = z.object({
+  id: positiveIntSchema,
+  userId: positiveIntSchema,
+  scope: feedTokenScopeSchema,
+  label: z.string().nullable(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().nullable(),
+  revokedAt: z.string().nullable(),
+});
+
+export const bookConsumptionSchema = z.object({
+  state: consumptionStateSchema,
+  startedAt: z.string().nullable(),
+  finishedAt: z.string().nullable(),
+  abandonedAt: z.string().nullable(),
+  updatedAt: z.string().nullable(),
 });
 
 export const libraryBookWithPlaybackSchema = libraryBookSchema.extend({
   playback: libraryPlaybackSchema,
+  consumption: bookConsumptionSchema,
+});
+
+export const wantedMediaSchema = z.object({
+  book_id: positiveIntSchema,
+  media_type: mediaSchema,
+  reason: z.enum(["missing", "upgrade"]),
+  current_score: z.number().nullable(),
+  title: z.string(),
+  author: z.string(),
+  search_count: z.number().int().nonnegative(),
+  consecutive_misses: z.number().int().nonnegative(),
+  last_searched_at: z.string().nullable(),
+  last_outcome: z.enum(["snatched", "no_result", "error"]).nullable(),
+  last_detail: z.string().nullable(),
+  next_search_at: z.string().nullable(),
+});
+
+export const libraryReorganizeReportSchema = z.object({
+  jobId: positiveIntSchema,
+  dryRun: z.boolean(),
+  generatedAt: z.string(),
+  moves: z.array(
+    z.object({
+      kind: z.enum(["file", "cover"]),
+      bookId: positiveIntSchema,
+      from: z.string(),
+      to: z.string(),
+    })
+  ),
+  unchanged: z.number().int().nonnegative(),
+  errors: z.array(z.object({ bookId: positiveIntSchema, message: z.string() })),
 });
 
 export const releaseRowSchema = z.object({
@@ -194,12 +437,45 @@ export const releaseRowSchema = z.object({
   provider_guid: z.string().nullable(),
   title: z.string(),
   media_type: mediaSchema,
-  info_hash: z.string(),
+  protocol: releaseProtocolSchema,
+  info_hash: z.string().nullable(),
+  download_id: z.string().nullable(),
   size_bytes: z.number().int().nullable(),
   url: z.string(),
   snatched_at: z.string(),
   status: z.enum(["snatched", "downloading", "downloaded", "imported", "failed"]),
   error: z.string().nullable(),
+  seed_status: z.enum(["seeding", "removed", "missing"]).nullable(),
+  seed_ratio: z.number().nullable(),
+  seed_seconds: z.number().int().nullable(),
+  seed_checked_at: z.string().nullable(),
+  seed_removed_at: z.string().nullable(),
+  seed_error: z.string().nullable(),
+  quality_json: z.string().nullable(),
+  updated_at: z.string(),
+});
+
+export const releaseBlocklistRowSchema = z.object({
+  id: positiveIntSchema,
+  book_id: positiveIntSchema.nullable(),
+  info_hash: z.string().nullable(),
+  guid: z.string().nullable(),
+  title_pattern: z.string().nullable(),
+  source: z.enum(["manual", "import_failed", "user_report"]),
+  reason: z.string().nullable(),
+  release_id: positiveIntSchema.nullable(),
+  created_at: z.string(),
+});
+
+export const inboxItemRowSchema = z.object({
+  id: positiveIntSchema,
+  path: z.string(),
+  status: z.enum(["unmatched", "failed", "imported"]),
+  book_id: positiveIntSchema.nullable(),
+  guess_title: z.string().nullable(),
+  guess_author: z.string().nullable(),
+  detail: z.string().nullable(),
+  created_at: z.string(),
   updated_at: z.string(),
 });
 
@@ -249,6 +525,7 @@ export const torznabResultSchema = z.object({
   url: z.string(),
   guid: z.string().nullable(),
   infoHash: z.string().nullable(),
+  protocol: releaseProtocolSchema.optional(),
   seeders: z.number().int().nullable(),
   leechers: z.number().int().nullable(),
   raw: anyObjectSchema,
@@ -337,7 +614,9 @@ export const downloadRpcViewSchema = z.object({
   release_status: z.enum(["snatched", "downloading", "downloaded", "imported", "failed"]).nullable(),
   release_error: z.string().nullable(),
   media_type: mediaSchema.nullable(),
+  protocol: releaseProtocolSchema.nullable(),
   info_hash: z.string().nullable(),
+  download_id: z.string().nullable(),
   book_id: z.number().int().positive().nullable(),
   fullPseudoProgress: z.number(),
   downloadProgress: downloadProgressSchema.optional(),
@@ -8,6 +8,7 @@ import {
   nonEmptyStringSchema,
   optionalStringSchema,
   positiveIntSchema,
+  releaseProtocolSchema,
   torznabResultSchema,
   releaseRowSchema,
 } from "./schemas";
@@ -16,7 +17,7 @@ export const searchRouter = defineRouter({
   run: defineMethod({
     auth: "admin",
     readOnly: true,
-    summary: "Run Torznab search and return normalized results.",
+    summary: "Run Torznab (and Newznab, when a Usenet client is set) search and return normalized results.",
     paramsSchema: emptyParamsSchema.extend({
       query: nonEmptyStringSchema,
       media: mediaSchema,
@@ -25,10 +26,14 @@ export const searchRouter = defineRouter({
       results: z.array(torznabResultSchema),
     }),
     async handler(ctx, params) {
-      const results = await runSearch(ctx.repo.getSettings(), {
-        query: params.query.trim(),
-        media: params.media,
-      });
+      const results = await runSearch(
+        ctx.repo.getSettings(),
+        {
+          query: params.query.trim(),
+          media: params.media,
+        },
+        { repo: ctx.repo }
+      );
       return { results };
     },
   }),
@@ -44,6 +49,7 @@ export const snatchRouter = defineRouter({
       title: nonEmptyStringSchema,
       mediaType: mediaSchema,
       url: nonEmptyStringSchema,
+      protocol: releaseProtocolSchema.optional(),
       infoHash: optionalStringSchema,
       guid: optionalStringSchema,
       sizeBytes: z.preprocess((value) => {
@@ -75,6 +81,7 @@ export const snatchRouter = defineRouter({
         title: params.title,
         mediaType: params.mediaType,
         url: params.url,
+        protocol: params.protocol,
         infoHash: params.infoHash,
         sizeBytes: Number.isFinite(params.sizeBytes) ? params.sizeBytes : null,
         manifestationId: params.manifestationId,
@@ -118,6 +125,7 @@ export const snatchRouter = defineRouter({
           providerGuid: release.guid ?? null,
           title: release.title,
           url: release.url,
+          protocol: release.protocol,
           infoHash: release.infoHash ?? null,
           sizeBytes: release.sizeBytes,
         })),
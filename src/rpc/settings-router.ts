@@ -1,7 +1,10 @@
-import type { AppSettings } from "../app-types";
+import type { AppSettings, IndexerSource, ReleaseProtocol } from "../app-types";
+import { refreshIndexerCaps, suggestTorznabCategories } from "../library/torznab";
+
+import { z } from "zod";
 
 import { defineMethod, defineRouter } from "./framework";
-import { appSettingsSchema, emptyParamsSchema } from "./schemas";
+import { appSettingsSchema, emptyParamsSchema, indexerCapsSchema } from "./schemas";
 
 export const settingsRouter = defineRouter({
   get: defineMethod({
@@ -26,4 +29,36 @@ export const settingsRouter = defineRouter({
       return ctx.repo.updateSettings(params.settings as AppSettings);
     },
   }),
+
+  indexerCaps: defineMethod({
+    auth: "admin",
+    summary: "Fetch t=caps from every configured Torznab and Newznab source and suggest audio/ebook categories.",
+    paramsSchema: emptyParamsSchema,
+    resultSchema: z.object({
+      indexers: z.array(indexerCapsSchema),
+    }),
+    async handler(ctx) {
+      const settings = ctx.repo.getSettings();
+      const sources: Array<{ protocol: ReleaseProtocol; source: IndexerSource }> = [
+        ...settings.torznab.map((source) => ({ protocol: "torrent" as const, source })),
+        ...settings.newznab.map((source) => ({ protocol: "usenet" as const, source })),
+      ];
+      const indexers = [];
+      for (const { protocol, source } of sources) {
+        try {
+          const caps = await refreshIndexerCaps(ctx.repo, source, protocol);
+          indexers.push({ name: source.name, protocol, caps, suggestedCategories: suggestTorznabCategories(caps), error: null });
+        } catch (error) {
+          indexers.push({
+            name: source.name,
+            protocol,
+            caps: null,
+            suggestedCategories: { audio: null, ebook: null },
+            error: (error as Error).message,
+          });
+        }
+      }
+      return { indexers };
+    },
+  }),
 });
@@ -1,4 +1,3 @@
-import { createHash } from "node:crypto";
 import { rm } from "node:fs/promises";
 
 import { z } from "zod";
@@ -7,8 +6,18 @@ import { hasStoredManifestationTranscriptPayload, selectPreferredDownloadableEbo
 import { selectPreferredAudioManifestation, streamExtensionForManifestation } from "../library/media";
 import { computeDownloadFraction, pseudoProgressForMediaStatus, pseudoProgressForRelease } from "../library/progress";
 import { BooksRepo } from "../repo";
-import { RtorrentClient } from "../rtorrent";
-import type { JobRow, LibraryBook, ReleaseRow, SessionWithUserRow } from "../app-types";
+import { downloadTarget, type DownloadClients } from "../download-client";
+import type {
+  BookConsumptionRow,
+  ConsumptionState,
+  FeedTokenRow,
+  FeedTokenScope,
+  JobRow,
+  LibraryBook,
+  PlaybackPositionRow,
+  ReleaseRow,
+  SessionWithUserRow,
+} from "../app-types";
 
 export type RpcId = string | number | null;
 
@@ -58,6 +67,15 @@ export type LibraryPlaybackAudio = {
   sizeBytes: number;
 };
 
+export type PlaybackPosition = {
+  bookId: number;
+  manifestationId: number;
+  positionMs: number;
+  chapterIndex: number | null;
+  deviceName: string | null;
+  updatedAt: string;
+};
+
 export type LibraryPlayback = {
   audio: LibraryPlaybackAudio | null;
   audioOptions: LibraryPlaybackAudio[];
@@ -67,10 +85,30 @@ export type LibraryPlayback = {
     mimeType: string;
     sizeBytes: number;
   } | null;
+  resume: PlaybackPosition | null;
+};
+
+export type BookConsumption = {
+  state: ConsumptionState;
+  startedAt: string | null;
+  finishedAt: string | null;
+  abandonedAt: string | null;
+  updatedAt: string | null;
+};
+
+export type FeedToken = {
+  id: number;
+  userId: number;
+  scope: FeedTokenScope;
+  label: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
 };
 
 export type LibraryBookWithPlayback = LibraryBook & {
   playback: LibraryPlayback;
+  consumption: BookConsumption;
 };
 
 export type RpcDispatchOptions = {
@@ -103,6 +141,14 @@ export type DownloadRpcView = ReturnType<BooksRepo["listDownloads"]>[number] & {
   downloadProgress?: DownloadProgress;
 };
 
+export function requireSessionUserId(ctx: RpcContext): number {
+  const userId = ctx.session?.user_id;
+  if (!userId) {
+    throw new RpcError(-32001, "Unauthorized");
+  }
+  return userId;
+}
+
 export async function removeFileIfPresent(filePath: string): Promise<boolean> {
   try {
     await rm(filePath, { force: true });
@@ -114,9 +160,10 @@ export async function removeFileIfPresent(filePath: string): Promise<boolean> {
 
 export async function enrichDownload(
   download: ReturnType<BooksRepo["listDownloads"]>[number],
-  client: RtorrentClient | null
+  clients: DownloadClients | null
 ): Promise<DownloadRpcView> {
-  if (download.release_status !== "downloading" || !download.info_hash || !client) {
+  const target = clients ? downloadTarget(clients, download) : null;
+  if (download.release_status !== "downloading" || !target) {
     return {
       ...download,
       fullPseudoProgress: pseudoProgressForRelease(download.release_status),
@@ -124,7 +171,7 @@ export async function enrichDownload(
   }
 
   try {
-    const state = await client.getDownloadState(download.info_hash);
+    const state = await target.client.getDownloadState(target.downloadId);
     const fraction = computeDownloadFraction({
       bytesDone: state.bytesDone,
       sizeBytes: state.sizeBytes,
@@ -169,18 +216,18 @@ function mediaPseudoProgress(status: LibraryBook["audioStatus"] | LibraryBook["e
 async function liveFractionForMedia(
   releases: ReleaseRow[],
   mediaType: "audio" | "ebook",
-  client: RtorrentClient | null
+  clients: DownloadClients | null
 ): Promise<number | null> {
-  if (!client) return null;
-  const downloading = releases.filter(
-    (release) => release.media_type === mediaType && release.status === "downloading" && Boolean(release.info_hash)
-  );
+  if (!clients) return null;
+  const downloading = releases.filter((release) => release.media_type === mediaType && release.status === "downloading");
   if (downloading.length === 0) return null;
 
   let best: number | null = null;
   for (const release of downloading) {
+    const target = downloadTarget(clients, release);
+    if (!target) continue;
     try {
-      const state = await client.getDownloadState(release.info_hash);
+      const state = await target.client.getDownloadState(target.downloadId);
       const fraction = computeDownloadFraction({
         bytesDone: state.bytesDone,
         sizeBytes: state.sizeBytes,
@@ -199,7 +246,7 @@ async function liveFractionForMedia(
 export async function enrichLibraryBookProgress(
   repo: BooksRepo,
   book: LibraryBook,
-  client: RtorrentClient | null
+  clients: DownloadClients | null
 ): Promise<LibraryBook> {
   if (book.audioStatus !== "downloading" && book.ebookStatus !== "downloading") {
     return book;
@@ -207,8 +254,8 @@ export async function enrichLibraryBookProgress(
 
   const releases = repo.listReleasesByBook(book.id);
   const [audioFraction, ebookFraction] = await Promise.all([
-    liveFractionForMedia(releases, "audio", client),
-    liveFractionForMedia(releases, "ebook", client),
+    liveFractionForMedia(releases, "audio", clients),
+    liveFractionForMedia(releases, "ebook", clients),
   ]);
 
   const liveBookProgress =
@@ -223,14 +270,52 @@ export async function enrichLibraryBookProgress(
   };
 }
 
-function requestOrigin(request: Request): string {
+export function requestOrigin(request: Request): string {
   const url = new URL(request.url);
   const forwardedProto = request.headers.get("x-forwarded-proto");
   const proto = forwardedProto ? forwardedProto.split(",")[0]?.trim() : url.protocol.replace(":", "");
   return `${proto}://${url.host}`;
 }
 
-export function buildLibraryPlayback(repo: BooksRepo, request: Request, bookId: number): LibraryPlayback {
+export function toPlaybackPosition(row: PlaybackPositionRow): PlaybackPosition {
+  return {
+    bookId: row.book_id,
+    manifestationId: row.manifestation_id,
+    positionMs: row.position_ms,
+    chapterIndex: row.chapter_index,
+    deviceName: row.device_name,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toBookConsumption(row: BookConsumptionRow | null): BookConsumption {
+  return {
+    state: row?.state ?? "unstarted",
+    startedAt: row?.started_at ?? null,
+    finishedAt: row?.finished_at ?? null,
+    abandonedAt: row?.abandoned_at ?? null,
+    updatedAt: row?.updated_at ?? null,
+  };
+}
+
+export function toFeedToken(row: FeedTokenRow): FeedToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    scope: row.scope,
+    label: row.label,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+export function buildLibraryPlayback(
+  repo: BooksRepo,
+  request: Request,
+  bookId: number,
+  userId: number | null = null
+): LibraryPlayback {
   const origin = requestOrigin(request);
   const manifestations = repo.listManifestationsByBook(bookId);
   const audioCandidates = manifestations.map((manifestation) => ({
@@ -273,22 +358,27 @@ export function buildLibraryPlayback(repo: BooksRepo, request: Request, bookId:
       }
     : null;
 
-  return { audio, audioOptions, ebook };
+  // The resume point is the user's most recent position on any edition of the
+  // book, so a client can pick up where another device left off.
+  const resumeRow = userId ? repo.getLatestPlaybackPositionForBook(userId, bookId) : null;
+  const resume = resumeRow ? toPlaybackPosition(resumeRow) : null;
+
+  return { audio, audioOptions, ebook, resume };
 }
 
-export function enrichLibraryBookPlayback(repo: BooksRepo, request: Request, book: LibraryBook): LibraryBookWithPlayback {
+export function enrichLibraryBookPlayback(
+  repo: BooksRepo,
+  request: Request,
+  book: LibraryBook,
+  userId: number | null = null
+): LibraryBookWithPlayback {
   return {
     ...book,
-    playback: buildLibraryPlayback(repo, request, book.id),
+    playback: buildLibraryPlayback(repo, request, book.id, userId),
+    consumption: toBookConsumption(userId ? repo.getBookConsumption(userId, book.id) : null),
   };
 }
 
-export function uniqueManualInfoHash(bookId: number, mediaType: "audio" | "ebook", sourcePath: string): string {
-  return createHash("sha1")
-    .update(`manual:${bookId}:${mediaType}:${sourcePath}:${Date.now()}:${Math.random()}`)
-    .digest("hex");
-}
-
 const rpcRequestSchema = z
   .object({
     jsonrpc: z.literal("2.0"),
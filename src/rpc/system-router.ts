@@ -1,23 +1,27 @@
 import { defineMethod, defineRouter } from "./framework";
-import { countMapSchema, emptyParamsSchema } from "./schemas";
+import { listIndexerHealth } from "../library/indexers";
+
+import { countMapSchema, emptyParamsSchema, indexerHealthSchema } from "./schemas";
 import { z } from "zod";
 
 export const systemRouter = defineRouter({
   health: defineMethod({
     auth: "public",
     readOnly: true,
-    summary: "Service health summary (job/release counts and queue size).",
+    summary: "Service health summary (job/release counts, queue size and per-indexer search health).",
     paramsSchema: emptyParamsSchema,
     resultSchema: z.object({
       ok: z.literal(true),
       jobs: countMapSchema,
       releases: countMapSchema,
       queueSize: z.number().int().nonnegative(),
+      indexers: z.array(indexerHealthSchema),
     }),
     async handler(ctx) {
       return {
         ok: true,
         ...ctx.repo.getHealthSummary(),
+        indexers: listIndexerHealth(ctx.repo, ctx.repo.getSettings()),
       };
     },
   }),
@@ -4,26 +4,14 @@ import path from "node:path";
 import { XMLParser } from "fast-xml-parser";
 
 import type { AppSettings } from "./app-types";
+import type { DownloadClient, DownloadImportSource, DownloadState, SeedingState } from "./download-client";
 
-type RtorrentDownloadState = {
-  name: string | null;
-  hash: string | null;
-  complete: boolean;
-  isActive: boolean;
-  basePath: string | null;
+type RtorrentDownloadState = DownloadState & {
   directory: string | null;
   isMultiFile: boolean;
-  bytesDone: number | null;
-  sizeBytes: number | null;
-  leftBytes: number | null;
-  downRate: number | null;
-  message: string | null;
 };
 
-type RtorrentImportSource = {
-  basePath: string | null;
-  selectedPaths: string[];
-};
+type RtorrentImportSource = DownloadImportSource;
 
 const parser = new XMLParser({
   ignoreAttributes: false,
@@ -50,6 +38,10 @@ function xmlParamBase64(value: Uint8Array): string {
   return `<param><value><base64>${Buffer.from(value).toString("base64")}</base64></value></param>`;
 }
 
+function rtorrentStringLiteral(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
 function buildMethodCall(methodName: string, params: string[]): string {
   return `<?xml version="1.0"?><methodCall><methodName>${xmlEscape(methodName)}</methodName><params>${params.join("")}</params></methodCall>`;
 }
@@ -164,7 +156,9 @@ function asStringArray(value: unknown): string[] {
     .filter((item) => item.length > 0);
 }
 
-export class RtorrentClient {
+export class RtorrentClient implements DownloadClient {
+  readonly label = "rTorrent";
+
   constructor(private readonly settings: AppSettings["rtorrent"]) {}
 
   private async call(methodName: string, params: string[]): Promise<unknown> {
@@ -198,6 +192,20 @@ export class RtorrentClient {
     ]);
   }
 
+  // Starts the torrent in the configured download path, tagged so it can be told apart from manual loads.
+  async addTorrent(torrentBytes: Uint8Array): Promise<void> {
+    const downloadPath = this.settings.downloadPath?.trim() ?? "";
+    await this.loadRawStart(torrentBytes, [
+      ...(downloadPath ? [`d.directory.set="${rtorrentStringLiteral(downloadPath)}"`] : []),
+      'd.custom1.set="Podible"',
+      `d.custom.set=addtime,${Math.round(Date.now() / 1000)}`,
+    ]);
+  }
+
+  async remove(infoHash: string): Promise<void> {
+    await this.call("d.erase", [xmlParamString(infoHash.toUpperCase())]);
+  }
+
   async getDownloadState(infoHash: string): Promise<RtorrentDownloadState> {
     const hash = infoHash.toUpperCase();
     const [name, returnedHash, complete, isActive, basePath, directory, isMultiFile, bytesDone, sizeBytes, leftBytes, downRate, message] =
@@ -242,6 +250,31 @@ export class RtorrentClient {
     };
   }
 
+  async getSeedingState(infoHash: string): Promise<SeedingState | null> {
+    const hash = infoHash.toUpperCase();
+    let returnedHash: unknown;
+    try {
+      returnedHash = await this.call("d.hash", [xmlParamString(hash)]);
+    } catch (error) {
+      // rTorrent faults with "Could not find info-hash." once the torrent is gone.
+      if (/info-hash/i.test((error as Error).message)) return null;
+      throw error;
+    }
+    if (!maybeText(returnedHash)) return null;
+
+    const [ratio, finishedAt] = await Promise.all([
+      this.call("d.ratio", [xmlParamString(hash)]),
+      this.call("d.timestamp.finished", [xmlParamString(hash)]),
+    ]);
+    // `d.ratio` is in thousandths; `d.timestamp.finished` is 0 until the download completes.
+    const perMille = toNumber(ratio);
+    const finishedSeconds = toNumber(finishedAt);
+    return {
+      ratio: perMille === null ? null : perMille / 1000,
+      seedingSeconds: finishedSeconds ? Math.max(0, Math.round(Date.now() / 1000) - finishedSeconds) : null,
+    };
+  }
+
   async getImportSource(infoHash: string): Promise<RtorrentImportSource> {
     const hash = infoHash.toUpperCase();
     const [name, basePath, directory, isMultiFile, fileRows] = await Promise.all([
@@ -0,0 +1,150 @@
+import type { AppSettings } from "./app-types";
+import type { DownloadImportSource, DownloadState, UsenetClient } from "./download-client";
+
+type SabnzbdQueueSlot = {
+  nzo_id?: string;
+  filename?: string;
+  status?: string;
+  mb?: string | number;
+  mbleft?: string | number;
+};
+
+type SabnzbdHistorySlot = {
+  nzo_id?: string;
+  name?: string;
+  status?: string;
+  storage?: string | null;
+  bytes?: number;
+  fail_message?: string;
+};
+
+type SabnzbdResponse = {
+  status?: boolean;
+  error?: string;
+  nzo_ids?: string[];
+  queue?: { kbpersec?: string | number; slots?: SabnzbdQueueSlot[] };
+  history?: { slots?: SabnzbdHistorySlot[] };
+};
+
+type SabnzbdJob = { kind: "queue"; slot: SabnzbdQueueSlot; kbPerSec: number | null } | { kind: "history"; slot: SabnzbdHistorySlot };
+
+function toNumber(value: unknown): number | null {
+  const parsed = typeof value === "string" ? Number.parseFloat(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : null;
+}
+
+function megabytesToBytes(value: unknown): number | null {
+  const mb = toNumber(value);
+  return mb === null ? null : Math.round(mb * 1024 * 1024);
+}
+
+/**
+ * SABnzbd API client. Queue entries are still downloading; history entries
+ * are post-processing, completed into `storage`, or failed.
+ */
+export class SabnzbdClient implements UsenetClient {
+  readonly label = "SABnzbd";
+
+  constructor(private readonly settings: AppSettings["sabnzbd"]) {}
+
+  private apiUrl(params: Record<string, string>): URL {
+    const url = new URL(this.settings.url);
+    if (!url.pathname.endsWith("/api")) {
+      url.pathname = `${url.pathname.replace(/\/+$/, "")}/api`;
+    }
+    for (const [key, value] of Object.entries({ ...params, apikey: this.settings.apiKey, output: "json" })) {
+      url.searchParams.set(key, value);
+    }
+    return url;
+  }
+
+  private async call(params: Record<string, string>, init?: RequestInit): Promise<SabnzbdResponse> {
+    const response = await fetch(this.apiUrl(params), init ?? { method: "GET" });
+    if (!response.ok) {
+      throw new Error(`SABnzbd returned ${response.status}`);
+    }
+    const payload = (await response.json()) as SabnzbdResponse;
+    if (payload.status === false || payload.error) {
+      throw new Error(`SABnzbd mode=${params.mode} failed: ${payload.error ?? "unknown error"}`);
+    }
+    return payload;
+  }
+
+  private async findJob(nzoId: string): Promise<SabnzbdJob> {
+    const queue = await this.call({ mode: "queue", nzo_ids: nzoId });
+    const queued = queue.queue?.slots?.find((slot) => slot.nzo_id === nzoId);
+    if (queued) {
+      return { kind: "queue", slot: queued, kbPerSec: toNumber(queue.queue?.kbpersec) };
+    }
+    const history = await this.call({ mode: "history", nzo_ids: nzoId });
+    const finished = history.history?.slots?.find((slot) => slot.nzo_id === nzoId);
+    if (finished) {
+      return { kind: "history", slot: finished };
+    }
+    throw new Error(`SABnzbd has no download ${nzoId}`);
+  }
+
+  async addNzb(nzbBytes: Uint8Array, name: string): Promise<string> {
+    const form = new FormData();
+    form.append("name", new Blob([nzbBytes], { type: "application/x-nzb" }), `${name}.nzb`);
+    const category = this.settings.category?.trim() ?? "";
+    const payload = await this.call(
+      { mode: "addfile", nzbname: name, ...(category ? { cat: category } : {}) },
+      { method: "POST", body: form }
+    );
+    const nzoId = payload.nzo_ids?.[0];
+    if (!nzoId) {
+      throw new Error("SABnzbd did not return an id for the added NZB");
+    }
+    return nzoId;
+  }
+
+  async getDownloadState(nzoId: string): Promise<DownloadState> {
+    const job = await this.findJob(nzoId);
+    if (job.kind === "queue") {
+      const sizeBytes = megabytesToBytes(job.slot.mb);
+      const leftBytes = megabytesToBytes(job.slot.mbleft);
+      return {
+        name: job.slot.filename ?? null,
+        hash: null,
+        complete: false,
+        isActive: job.slot.status !== "Paused",
+        basePath: null,
+        bytesDone: sizeBytes !== null && leftBytes !== null ? Math.max(0, sizeBytes - leftBytes) : null,
+        sizeBytes,
+        leftBytes,
+        downRate: job.kbPerSec === null ? null : Math.round(job.kbPerSec * 1024),
+        message: null,
+      };
+    }
+
+    const sizeBytes = toNumber(job.slot.bytes);
+    const status = job.slot.status ?? "";
+    // Anything other than Completed/Failed is post-processing: all articles are
+    // fetched, but verify/repair/unpack has not produced the final folder yet.
+    return {
+      name: job.slot.name ?? null,
+      hash: null,
+      complete: status === "Completed",
+      isActive: status !== "Failed",
+      basePath: status === "Completed" ? (job.slot.storage ?? null) : null,
+      bytesDone: sizeBytes,
+      sizeBytes,
+      leftBytes: 0,
+      downRate: 0,
+      message: status === "Failed" ? job.slot.fail_message || "SABnzbd reported the download failed" : null,
+    };
+  }
+
+  async getImportSource(nzoId: string): Promise<DownloadImportSource> {
+    const job = await this.findJob(nzoId);
+    const basePath = job.kind === "history" && job.slot.status === "Completed" ? (job.slot.storage ?? null) : null;
+    // The completed folder only holds this job's unpacked output, so the importer scans all of it.
+    return { basePath, selectedPaths: [] };
+  }
+
+  async remove(nzoId: string): Promise<void> {
+    const job = await this.findJob(nzoId);
+    await this.call({ mode: job.kind, name: "delete", value: nzoId, del_files: "0" });
+  }
+}
@@ -1,14 +1,34 @@
-import type { AppSettings } from "./app-types";
+import type { AppSettings, AudioQualityProfile, ImportMode, MediaType, QualityProfileBase } from "./app-types";
 
-type SettingsOverrides = Partial<Omit<AppSettings, "rtorrent" | "polling" | "recovery" | "feed" | "auth" | "agents" | "notifications">> & {
+type SettingsOverrides = Partial<
+  Omit<AppSettings, "rtorrent" | "qbittorrent" | "transmission" | "deluge" | "sabnzbd" | "nzbget" | "polling" | "recovery" | "seeding" | "wanted" | "rss" | "quality" | "upgrades" | "naming" | "imports" | "inbox" | "tagWriting" | "feed" | "auth" | "agents" | "transcription" | "notifications">
+> & {
   rtorrent?: Partial<AppSettings["rtorrent"]>;
+  qbittorrent?: Partial<AppSettings["qbittorrent"]>;
+  transmission?: Partial<AppSettings["transmission"]>;
+  deluge?: Partial<AppSettings["deluge"]>;
+  sabnzbd?: Partial<AppSettings["sabnzbd"]>;
+  nzbget?: Partial<AppSettings["nzbget"]>;
   polling?: Partial<AppSettings["polling"]>;
   recovery?: Partial<AppSettings["recovery"]>;
+  seeding?: Partial<AppSettings["seeding"]>;
+  wanted?: Partial<AppSettings["wanted"]>;
+  rss?: Partial<AppSettings["rss"]>;
+  quality?: {
+    audio?: Partial<AppSettings["quality"]["audio"]>;
+    ebook?: Partial<AppSettings["quality"]["ebook"]>;
+  };
+  upgrades?: Partial<AppSettings["upgrades"]>;
+  naming?: Partial<AppSettings["naming"]>;
+  imports?: Partial<AppSettings["imports"]>;
+  inbox?: Partial<AppSettings["inbox"]>;
+  tagWriting?: Partial<AppSettings["tagWriting"]>;
   feed?: Partial<AppSettings["feed"]>;
     auth?: Partial<Omit<AppSettings["auth"], "plex">> & {
       plex?: Partial<AppSettings["auth"]["plex"]>;
     };
   agents?: Partial<AppSettings["agents"]>;
+  transcription?: Partial<AppSettings["transcription"]>;
   notifications?: {
     pushover?: Partial<AppSettings["notifications"]["pushover"]>;
   };
@@ -17,6 +37,9 @@ type SettingsOverrides = Partial<Omit<AppSettings, "rtorrent" | "polling" | "rec
 export function defaultSettings(overrides?: SettingsOverrides): AppSettings {
   const defaults: AppSettings = {
     torznab: [],
+    newznab: [],
+    downloadClient: "rtorrent",
+    usenetClient: "none",
     rtorrent: {
       transport: "http-xmlrpc",
       url: "http://127.0.0.1/RPC2",
@@ -24,6 +47,36 @@ export function defaultSettings(overrides?: SettingsOverrides): AppSettings {
       password: "",
       downloadPath: "",
     },
+    qbittorrent: {
+      url: "http://127.0.0.1:8080",
+      username: "",
+      password: "",
+      category: "podible",
+      savePath: "",
+    },
+    transmission: {
+      url: "http://127.0.0.1:9091/transmission/rpc",
+      username: "",
+      password: "",
+      downloadPath: "",
+    },
+    deluge: {
+      url: "http://127.0.0.1:8112/json",
+      password: "deluge",
+      downloadPath: "",
+      label: "",
+    },
+    sabnzbd: {
+      url: "http://127.0.0.1:8080",
+      apiKey: "",
+      category: "podible",
+    },
+    nzbget: {
+      url: "http://127.0.0.1:6789",
+      username: "nzbget",
+      password: "",
+      category: "podible",
+    },
     libraryRoot: "/media/library",
     polling: {
       rtorrentMs: 5000,
@@ -31,6 +84,63 @@ export function defaultSettings(overrides?: SettingsOverrides): AppSettings {
     recovery: {
       stalledTorrentMinutes: 10,
     },
+    seeding: {
+      checkMinutes: 30,
+    },
+    wanted: {
+      enabled: false,
+      checkMinutes: 60,
+      retryMinutes: 360,
+      maxRetryMinutes: 10080,
+      dailySearchLimit: 100,
+    },
+    rss: {
+      enabled: true,
+      intervalMinutes: 15,
+    },
+    quality: {
+      audio: {
+        preferredFormats: ["m4b", "m4a", "mp3"],
+        requiredWords: [],
+        forbiddenWords: [],
+        preferredLanguages: [],
+        minBitrateKbps: 0,
+        maxBitrateKbps: 0,
+        minMbPerHour: 0,
+        maxMbPerHour: 0,
+        preferredNarrators: [],
+        unabridgedOnly: false,
+      },
+      ebook: {
+        preferredFormats: ["epub", "azw3", "mobi", "pdf"],
+        requiredWords: [],
+        forbiddenWords: [],
+        preferredLanguages: [],
+      },
+    },
+    upgrades: {
+      enabled: false,
+      audioCutoff: 60,
+      ebookCutoff: 80,
+      deleteOldAfterDays: 0,
+    },
+    naming: {
+      folderTemplate: "{author}/{title}",
+      fileTemplate: "{title}",
+    },
+    imports: {
+      torrentMode: "hardlink",
+      usenetMode: "hardlink",
+    },
+    inbox: {
+      enabled: false,
+      path: "",
+      intervalMinutes: 5,
+      importMode: "move",
+    },
+    tagWriting: {
+      enabled: false,
+    },
     feed: {
       title: "Kindling",
       author: "Unknown",
@@ -53,6 +163,14 @@ export function defaultSettings(overrides?: SettingsOverrides): AppSettings {
       lowConfidenceThreshold: 0.45,
       timeoutMs: 30000,
     },
+    transcription: {
+      provider: "openai",
+      baseUrl: "",
+      apiKey: "",
+      model: "whisper-1",
+      command: [],
+      concurrency: 0,
+    },
     notifications: {
       pushover: {
         enabled: false,
@@ -69,6 +187,26 @@ export function defaultSettings(overrides?: SettingsOverrides): AppSettings {
       ...defaults.rtorrent,
       ...(overrides?.rtorrent ?? {}),
     },
+    qbittorrent: {
+      ...defaults.qbittorrent,
+      ...(overrides?.qbittorrent ?? {}),
+    },
+    transmission: {
+      ...defaults.transmission,
+      ...(overrides?.transmission ?? {}),
+    },
+    deluge: {
+      ...defaults.deluge,
+      ...(overrides?.deluge ?? {}),
+    },
+    sabnzbd: {
+      ...defaults.sabnzbd,
+      ...(overrides?.sabnzbd ?? {}),
+    },
+    nzbget: {
+      ...defaults.nzbget,
+      ...(overrides?.nzbget ?? {}),
+    },
     polling: {
       ...defaults.polling,
       rtorrentMs: overrides?.polling?.rtorrentMs ?? defaults.polling.rtorrentMs,
@@ -77,6 +215,48 @@ export function defaultSettings(overrides?: SettingsOverrides): AppSettings {
       ...defaults.recovery,
       ...(overrides?.recovery ?? {}),
     },
+    seeding: {
+      ...defaults.seeding,
+      ...(overrides?.seeding ?? {}),
+    },
+    wanted: {
+      ...defaults.wanted,
+      ...(overrides?.wanted ?? {}),
+    },
+    rss: {
+      ...defaults.rss,
+      ...(overrides?.rss ?? {}),
+    },
+    quality: {
+      audio: {
+        ...defaults.quality.audio,
+        ...(overrides?.quality?.audio ?? {}),
+      },
+      ebook: {
+        ...defaults.quality.ebook,
+        ...(overrides?.quality?.ebook ?? {}),
+      },
+    },
+    upgrades: {
+      ...defaults.upgrades,
+      ...(overrides?.upgrades ?? {}),
+    },
+    naming: {
+      ...defaults.naming,
+      ...(overrides?.naming ?? {}),
+    },
+    imports: {
+      ...defaults.imports,
+      ...(overrides?.imports ?? {}),
+    },
+    inbox: {
+      ...defaults.inbox,
+      ...(overrides?.inbox ?? {}),
+    },
+    tagWriting: {
+      ...defaults.tagWriting,
+      ...(overrides?.tagWriting ?? {}),
+    },
     feed: {
       ...defaults.feed,
       ...(overrides?.feed ?? {}),
@@ -93,6 +273,10 @@ export function defaultSettings(overrides?: SettingsOverrides): AppSettings {
       ...defaults.agents,
       ...(overrides?.agents ?? {}),
     },
+    transcription: {
+      ...defaults.transcription,
+      ...(overrides?.transcription ?? {}),
+    },
     notifications: {
       pushover: {
         ...defaults.notifications.pushover,
@@ -102,6 +286,38 @@ export function defaultSettings(overrides?: SettingsOverrides): AppSettings {
   };
 }
 
+function stringList(value: unknown, fallback: string[]): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0) : fallback;
+}
+
+function parseQualityBase(value: Record<string, unknown>, defaults: QualityProfileBase): QualityProfileBase {
+  return {
+    preferredFormats: stringList(value.preferredFormats, defaults.preferredFormats),
+    requiredWords: stringList(value.requiredWords, defaults.requiredWords),
+    forbiddenWords: stringList(value.forbiddenWords, defaults.forbiddenWords),
+    preferredLanguages: stringList(value.preferredLanguages, defaults.preferredLanguages),
+  };
+}
+
+function parseAudioQuality(value: unknown, defaults: AudioQualityProfile): AudioQualityProfile {
+  const parsed = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const limit = (entry: unknown, fallback: number): number =>
+    typeof entry === "number" && Number.isFinite(entry) ? Math.max(0, entry) : fallback;
+  return {
+    ...parseQualityBase(parsed, defaults),
+    minBitrateKbps: limit(parsed.minBitrateKbps, defaults.minBitrateKbps),
+    maxBitrateKbps: limit(parsed.maxBitrateKbps, defaults.maxBitrateKbps),
+    minMbPerHour: limit(parsed.minMbPerHour, defaults.minMbPerHour),
+    maxMbPerHour: limit(parsed.maxMbPerHour, defaults.maxMbPerHour),
+    preferredNarrators: stringList(parsed.preferredNarrators, defaults.preferredNarrators),
+    unabridgedOnly: typeof parsed.unabridgedOnly === "boolean" ? parsed.unabridgedOnly : defaults.unabridgedOnly,
+  };
+}
+
+function isImportMode(value: unknown): value is ImportMode {
+  return value === "hardlink" || value === "copy" || value === "move" || value === "symlink";
+}
+
 export function parseSettings(value: string): AppSettings {
   const parsed = JSON.parse(value) as Partial<AppSettings>;
   if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
@@ -113,8 +329,45 @@ export function parseSettings(value: string): AppSettings {
   const parsedAuthPlex =
     parsedAuth.plex && typeof parsedAuth.plex === "object" ? (parsedAuth.plex as Partial<AppSettings["auth"]["plex"]>) : {};
   const parsedAgents = (parsed.agents && typeof parsed.agents === "object" ? parsed.agents : {}) as Partial<AppSettings["agents"]>;
+  const parsedTranscription = (
+    parsed.transcription && typeof parsed.transcription === "object" ? parsed.transcription : {}
+  ) as Partial<AppSettings["transcription"]>;
+  const parsedQbittorrent = (
+    parsed.qbittorrent && typeof parsed.qbittorrent === "object" ? parsed.qbittorrent : {}
+  ) as Partial<AppSettings["qbittorrent"]>;
+  const parsedTransmission = (
+    parsed.transmission && typeof parsed.transmission === "object" ? parsed.transmission : {}
+  ) as Partial<AppSettings["transmission"]>;
+  const parsedDeluge = (parsed.deluge && typeof parsed.deluge === "object" ? parsed.deluge : {}) as Partial<
+    AppSettings["deluge"]
+  >;
+  const parsedSabnzbd = (parsed.sabnzbd && typeof parsed.sabnzbd === "object" ? parsed.sabnzbd : {}) as Partial<
+    AppSettings["sabnzbd"]
+  >;
+  const parsedNzbget = (parsed.nzbget && typeof parsed.nzbget === "object" ? parsed.nzbget : {}) as Partial<
+    AppSettings["nzbget"]
+  >;
   const parsedRecovery =
     parsed.recovery && typeof parsed.recovery === "object" ? (parsed.recovery as Partial<AppSettings["recovery"]>) : {};
+  const parsedSeeding =
+    parsed.seeding && typeof parsed.seeding === "object" ? (parsed.seeding as Partial<AppSettings["seeding"]>) : {};
+  const parsedWanted =
+    parsed.wanted && typeof parsed.wanted === "object" ? (parsed.wanted as Partial<AppSettings["wanted"]>) : {};
+  const parsedRss = parsed.rss && typeof parsed.rss === "object" ? (parsed.rss as Partial<AppSettings["rss"]>) : {};
+  const parsedQuality =
+    parsed.quality && typeof parsed.quality === "object" ? (parsed.quality as Partial<Record<MediaType, unknown>>) : {};
+  const parsedUpgrades =
+    parsed.upgrades && typeof parsed.upgrades === "object" ? (parsed.upgrades as Partial<AppSettings["upgrades"]>) : {};
+  const parsedNaming =
+    parsed.naming && typeof parsed.naming === "object" ? (parsed.naming as Partial<AppSettings["naming"]>) : {};
+  const parsedImports =
+    parsed.imports && typeof parsed.imports === "object" ? (parsed.imports as Partial<Record<string, unknown>>) : {};
+  const parsedInbox =
+    parsed.inbox && typeof parsed.inbox === "object" ? (parsed.inbox as Partial<Record<string, unknown>>) : {};
+  const parsedTagWriting =
+    parsed.tagWriting && typeof parsed.tagWriting === "object"
+      ? (parsed.tagWriting as Partial<Record<string, unknown>>)
+      : {};
   const parsedNotifications =
     parsed.notifications && typeof parsed.notifications === "object"
       ? (parsed.notifications as Partial<AppSettings["notifications"]>)
@@ -127,10 +380,29 @@ export function parseSettings(value: string): AppSettings {
     typeof parsedRecovery.stalledTorrentMinutes === "number" && Number.isFinite(parsedRecovery.stalledTorrentMinutes)
       ? Math.max(0, Math.trunc(parsedRecovery.stalledTorrentMinutes))
       : defaults.recovery.stalledTorrentMinutes;
+  const seedingCheckMinutes =
+    typeof parsedSeeding.checkMinutes === "number" && Number.isFinite(parsedSeeding.checkMinutes)
+      ? Math.max(1, Math.trunc(parsedSeeding.checkMinutes))
+      : defaults.seeding.checkMinutes;
+  const wantedInt = (value: unknown, fallback: number, min: number): number =>
+    typeof value === "number" && Number.isFinite(value) ? Math.max(min, Math.trunc(value)) : fallback;
+  const wantedRetryMinutes = wantedInt(parsedWanted.retryMinutes, defaults.wanted.retryMinutes, 1);
   return {
     ...defaults,
     ...parsed,
     torznab: Array.isArray(parsed.torznab) ? parsed.torznab : defaults.torznab,
+    newznab: Array.isArray(parsed.newznab) ? parsed.newznab : defaults.newznab,
+    downloadClient:
+      parsed.downloadClient === "rtorrent" ||
+      parsed.downloadClient === "qbittorrent" ||
+      parsed.downloadClient === "transmission" ||
+      parsed.downloadClient === "deluge"
+        ? parsed.downloadClient
+        : defaults.downloadClient,
+    usenetClient:
+      parsed.usenetClient === "none" || parsed.usenetClient === "sabnzbd" || parsed.usenetClient === "nzbget"
+        ? parsed.usenetClient
+        : defaults.usenetClient,
     rtorrent: {
       ...defaults.rtorrent,
       ...(parsed.rtorrent && typeof parsed.rtorrent === "object" ? parsed.rtorrent : {}),
@@ -141,6 +413,40 @@ export function parseSettings(value: string): AppSettings {
           ? (parsed.rtorrent as Partial<AppSettings["rtorrent"]>).downloadPath ?? defaults.rtorrent.downloadPath
           : defaults.rtorrent.downloadPath,
     },
+    qbittorrent: {
+      url: typeof parsedQbittorrent.url === "string" && parsedQbittorrent.url.trim() ? parsedQbittorrent.url : defaults.qbittorrent.url,
+      username: typeof parsedQbittorrent.username === "string" ? parsedQbittorrent.username : defaults.qbittorrent.username,
+      password: typeof parsedQbittorrent.password === "string" ? parsedQbittorrent.password : defaults.qbittorrent.password,
+      category: typeof parsedQbittorrent.category === "string" ? parsedQbittorrent.category : defaults.qbittorrent.category,
+      savePath: typeof parsedQbittorrent.savePath === "string" ? parsedQbittorrent.savePath : defaults.qbittorrent.savePath,
+    },
+    transmission: {
+      url:
+        typeof parsedTransmission.url === "string" && parsedTransmission.url.trim()
+          ? parsedTransmission.url
+          : defaults.transmission.url,
+      username: typeof parsedTransmission.username === "string" ? parsedTransmission.username : defaults.transmission.username,
+      password: typeof parsedTransmission.password === "string" ? parsedTransmission.password : defaults.transmission.password,
+      downloadPath:
+        typeof parsedTransmission.downloadPath === "string" ? parsedTransmission.downloadPath : defaults.transmission.downloadPath,
+    },
+    deluge: {
+      url: typeof parsedDeluge.url === "string" && parsedDeluge.url.trim() ? parsedDeluge.url : defaults.deluge.url,
+      password: typeof parsedDeluge.password === "string" ? parsedDeluge.password : defaults.deluge.password,
+      downloadPath: typeof parsedDeluge.downloadPath === "string" ? parsedDeluge.downloadPath : defaults.deluge.downloadPath,
+      label: typeof parsedDeluge.label === "string" ? parsedDeluge.label : defaults.deluge.label,
+    },
+    sabnzbd: {
+      url: typeof parsedSabnzbd.url === "string" && parsedSabnzbd.url.trim() ? parsedSabnzbd.url : defaults.sabnzbd.url,
+      apiKey: typeof parsedSabnzbd.apiKey === "string" ? parsedSabnzbd.apiKey : defaults.sabnzbd.apiKey,
+      category: typeof parsedSabnzbd.category === "string" ? parsedSabnzbd.category : defaults.sabnzbd.category,
+    },
+    nzbget: {
+      url: typeof parsedNzbget.url === "string" && parsedNzbget.url.trim() ? parsedNzbget.url : defaults.nzbget.url,
+      username: typeof parsedNzbget.username === "string" ? parsedNzbget.username : defaults.nzbget.username,
+      password: typeof parsedNzbget.password === "string" ? parsedNzbget.password : defaults.nzbget.password,
+      category: typeof parsedNzbget.category === "string" ? parsedNzbget.category : defaults.nzbget.category,
+    },
     polling: {
       ...defaults.polling,
       ...(parsed.polling && typeof parsed.polling === "object" ? parsed.polling : {}),
@@ -148,6 +454,74 @@ export function parseSettings(value: string): AppSettings {
     recovery: {
       stalledTorrentMinutes,
     },
+    seeding: {
+      checkMinutes: seedingCheckMinutes,
+    },
+    wanted: {
+      enabled: typeof parsedWanted.enabled === "boolean" ? parsedWanted.enabled : defaults.wanted.enabled,
+      checkMinutes: wantedInt(parsedWanted.checkMinutes, defaults.wanted.checkMinutes, 1),
+      retryMinutes: wantedRetryMinutes,
+      maxRetryMinutes: wantedInt(parsedWanted.maxRetryMinutes, defaults.wanted.maxRetryMinutes, wantedRetryMinutes),
+      dailySearchLimit: wantedInt(parsedWanted.dailySearchLimit, defaults.wanted.dailySearchLimit, 0),
+    },
+    rss: {
+      enabled: typeof parsedRss.enabled === "boolean" ? parsedRss.enabled : defaults.rss.enabled,
+      intervalMinutes:
+        typeof parsedRss.intervalMinutes === "number" && Number.isFinite(parsedRss.intervalMinutes)
+          ? Math.max(1, Math.trunc(parsedRss.intervalMinutes))
+          : defaults.rss.intervalMinutes,
+    },
+    quality: {
+      audio: parseAudioQuality(parsedQuality.audio, defaults.quality.audio),
+      ebook: parseQualityBase(
+        (parsedQuality.ebook && typeof parsedQuality.ebook === "object" ? parsedQuality.ebook : {}) as Record<string, unknown>,
+        defaults.quality.ebook
+      ),
+    },
+    upgrades: {
+      enabled: typeof parsedUpgrades.enabled === "boolean" ? parsedUpgrades.enabled : defaults.upgrades.enabled,
+      audioCutoff:
+        typeof parsedUpgrades.audioCutoff === "number" && Number.isFinite(parsedUpgrades.audioCutoff)
+          ? parsedUpgrades.audioCutoff
+          : defaults.upgrades.audioCutoff,
+      ebookCutoff:
+        typeof parsedUpgrades.ebookCutoff === "number" && Number.isFinite(parsedUpgrades.ebookCutoff)
+          ? parsedUpgrades.ebookCutoff
+          : defaults.upgrades.ebookCutoff,
+      deleteOldAfterDays:
+        typeof parsedUpgrades.deleteOldAfterDays === "number" && Number.isFinite(parsedUpgrades.deleteOldAfterDays)
+          ? Math.max(0, parsedUpgrades.deleteOldAfterDays)
+          : defaults.upgrades.deleteOldAfterDays,
+    },
+    naming: {
+      folderTemplate:
+        typeof parsedNaming.folderTemplate === "string" && parsedNaming.folderTemplate.trim()
+          ? parsedNaming.folderTemplate
+          : defaults.naming.folderTemplate,
+      fileTemplate:
+        typeof parsedNaming.fileTemplate === "string" && parsedNaming.fileTemplate.trim()
+          ? parsedNaming.fileTemplate
+          : defaults.naming.fileTemplate,
+    },
+    imports: {
+      torrentMode:
+        isImportMode(parsedImports.torrentMode) && parsedImports.torrentMode !== "move"
+          ? parsedImports.torrentMode
+          : defaults.imports.torrentMode,
+      usenetMode: isImportMode(parsedImports.usenetMode) ? parsedImports.usenetMode : defaults.imports.usenetMode,
+    },
+    inbox: {
+      enabled: typeof parsedInbox.enabled === "boolean" ? parsedInbox.enabled : defaults.inbox.enabled,
+      path: typeof parsedInbox.path === "string" ? parsedInbox.path.trim() : defaults.inbox.path,
+      intervalMinutes:
+        typeof parsedInbox.intervalMinutes === "number" && Number.isFinite(parsedInbox.intervalMinutes)
+          ? Math.max(1, Math.trunc(parsedInbox.intervalMinutes))
+          : defaults.inbox.intervalMinutes,
+      importMode: isImportMode(parsedInbox.importMode) ? parsedInbox.importMode : defaults.inbox.importMode,
+    },
+    tagWriting: {
+      enabled: typeof parsedTagWriting.enabled === "boolean" ? parsedTagWriting.enabled : defaults.tagWriting.enabled,
+    },
     feed: {
       ...defaults.feed,
       ...(parsed.feed && typeof parsed.feed === "object" ? parsed.feed : {}),
@@ -191,6 +565,27 @@ export function parseSettings(value: string): AppSettings {
           ? Math.max(1000, Math.trunc(parsedAgents.timeoutMs))
           : defaults.agents.timeoutMs,
     },
+    transcription: {
+      provider:
+        parsedTranscription.provider === "openai" ||
+        parsedTranscription.provider === "openai-compatible" ||
+        parsedTranscription.provider === "command"
+          ? parsedTranscription.provider
+          : defaults.transcription.provider,
+      baseUrl: typeof parsedTranscription.baseUrl === "string" ? parsedTranscription.baseUrl : defaults.transcription.baseUrl,
+      apiKey: typeof parsedTranscription.apiKey === "string" ? parsedTranscription.apiKey : defaults.transcription.apiKey,
+      model:
+        typeof parsedTranscription.model === "string" && parsedTranscription.model.trim()
+          ? parsedTranscription.model
+          : defaults.transcription.model,
+      command: Array.isArray(parsedTranscription.command)
+        ? parsedTranscription.command.filter((value): value is string => typeof value === "string")
+        : defaults.transcription.command,
+      concurrency:
+        typeof parsedTranscription.concurrency === "number" && Number.isFinite(parsedTranscription.concurrency)
+          ? Math.max(0, Math.trunc(parsedTranscription.concurrency))
+          : defaults.transcription.concurrency,
+    },
     notifications: {
       pushover: {
         enabled: typeof parsedPushover.enabled === "boolean" ? parsedPushover.enabled : defaults.notifications.pushover.enabled,
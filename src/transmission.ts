@@ -0,0 +1,163 @@
+import { Buffer } from "node:buffer";
+import path from "node:path";
+
+import type { AppSettings } from "./app-types";
+import type { DownloadClient, DownloadImportSource, DownloadState, SeedingState } from "./download-client";
+
+type TransmissionTorrent = {
+  name?: string;
+  hashString?: string;
+  status?: number;
+  error?: number;
+  errorString?: string;
+  sizeWhenDone?: number;
+  leftUntilDone?: number;
+  rateDownload?: number;
+  downloadDir?: string;
+  files?: Array<{ name?: string }>;
+  wanted?: Array<boolean | number>;
+  uploadRatio?: number;
+  secondsSeeding?: number;
+};
+
+type TransmissionResponse = {
+  result?: string;
+  arguments?: Record<string, unknown>;
+};
+
+const SESSION_HEADER = "X-Transmission-Session-Id";
+
+// `torrent-get` status codes: 0 stopped, 1/2 queued for or running a verify,
+// 3/4 queued for or downloading, 5/6 queued for or seeding.
+const STATUS_STOPPED = 0;
+const VERIFY_STATUSES = new Set([1, 2]);
+
+const STATE_FIELDS = [
+  "name",
+  "hashString",
+  "status",
+  "error",
+  "errorString",
+  "sizeWhenDone",
+  "leftUntilDone",
+  "rateDownload",
+  "downloadDir",
+];
+
+function toNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? Math.trunc(value) : null;
+}
+
+function torrentPath(torrent: TransmissionTorrent): string | null {
+  if (!torrent.downloadDir) return null;
+  return torrent.name ? path.join(torrent.downloadDir, torrent.name) : torrent.downloadDir;
+}
+
+/**
+ * Transmission RPC client. Transmission answers the first request of a
+ * session with 409 and the session id to echo back; that handshake is
+ * repeated whenever the daemon rotates the id.
+ */
+export class TransmissionClient implements DownloadClient {
+  readonly label = "Transmission";
+  private sessionId: string | null = null;
+
+  constructor(private readonly settings: AppSettings["transmission"]) {}
+
+  private async call(method: string, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.settings.username || this.settings.password) {
+      headers.Authorization = `Basic ${Buffer.from(`${this.settings.username ?? ""}:${this.settings.password ?? ""}`).toString("base64")}`;
+    }
+    const body = JSON.stringify({ method, arguments: args });
+
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      const response = await fetch(this.settings.url, {
+        method: "POST",
+        headers: this.sessionId ? { ...headers, [SESSION_HEADER]: this.sessionId } : headers,
+        body,
+      });
+      if (response.status === 409 && attempt === 0) {
+        this.sessionId = response.headers.get(SESSION_HEADER);
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`Transmission returned ${response.status}`);
+      }
+      const payload = (await response.json()) as TransmissionResponse;
+      if (payload.result !== "success") {
+        throw new Error(`Transmission ${method} failed: ${payload.result ?? "no result"}`);
+      }
+      return payload.arguments ?? {};
+    }
+    throw new Error("Transmission did not accept the session id");
+  }
+
+  private async findTorrent(infoHash: string, fields: string[]): Promise<TransmissionTorrent | null> {
+    const hash = infoHash.toLowerCase();
+    const result = await this.call("torrent-get", { ids: [hash], fields });
+    const torrents = Array.isArray(result.torrents) ? (result.torrents as TransmissionTorrent[]) : [];
+    return torrents.find((item) => item.hashString?.toLowerCase() === hash) ?? null;
+  }
+
+  private async getTorrent(infoHash: string, fields: string[]): Promise<TransmissionTorrent> {
+    const torrent = await this.findTorrent(infoHash, fields);
+    if (!torrent) {
+      throw new Error(`Transmission has no torrent ${infoHash.toLowerCase()}`);
+    }
+    return torrent;
+  }
+
+  async addTorrent(torrentBytes: Uint8Array): Promise<void> {
+    const downloadPath = this.settings.downloadPath?.trim() ?? "";
+    await this.call("torrent-add", {
+      metainfo: Buffer.from(torrentBytes).toString("base64"),
+      paused: false,
+      ...(downloadPath ? { "download-dir": downloadPath } : {}),
+    });
+  }
+
+  async getDownloadState(infoHash: string): Promise<DownloadState> {
+    const torrent = await this.getTorrent(infoHash, STATE_FIELDS);
+    const sizeBytes = toNumber(torrent.sizeWhenDone);
+    const leftBytes = toNumber(torrent.leftUntilDone);
+    const status = toNumber(torrent.status);
+    return {
+      name: torrent.name ?? null,
+      hash: torrent.hashString ?? null,
+      complete: leftBytes === 0 && sizeBytes !== null && status !== null && !VERIFY_STATUSES.has(status),
+      isActive: status !== STATUS_STOPPED,
+      basePath: torrentPath(torrent),
+      bytesDone: sizeBytes !== null && leftBytes !== null ? Math.max(0, sizeBytes - leftBytes) : null,
+      sizeBytes,
+      leftBytes,
+      downRate: toNumber(torrent.rateDownload),
+      message: torrent.error ? torrent.errorString || `Transmission error ${torrent.error}` : null,
+    };
+  }
+
+  async getSeedingState(infoHash: string): Promise<SeedingState | null> {
+    const torrent = await this.findTorrent(infoHash, ["hashString", "uploadRatio", "secondsSeeding"]);
+    if (!torrent) return null;
+    // Transmission uses negative sentinels when it has no meaningful ratio to report.
+    const ratio = typeof torrent.uploadRatio === "number" && torrent.uploadRatio >= 0 ? torrent.uploadRatio : null;
+    return {
+      ratio,
+      seedingSeconds: toNumber(torrent.secondsSeeding),
+    };
+  }
+
+  async getImportSource(infoHash: string): Promise<DownloadImportSource> {
+    const torrent = await this.getTorrent(infoHash, ["name", "hashString", "downloadDir", "files", "wanted"]);
+    const downloadDir = torrent.downloadDir ?? "";
+    const selectedPaths = (torrent.files ?? [])
+      .map((file, index) => ({ name: file.name ?? "", wanted: torrent.wanted?.[index] ?? true }))
+      .filter((file) => file.name.length > 0 && Boolean(file.wanted))
+      .map((file) => (downloadDir ? path.join(downloadDir, file.name) : file.name));
+    return { basePath: torrentPath(torrent), selectedPaths };
+  }
+
+  async remove(infoHash: string): Promise<void> {
+    await this.call("torrent-remove", { ids: [infoHash.toLowerCase()], "delete-local-data": false });
+  }
+}
@@ -101,6 +101,7 @@ export type OpfMetadata = {
 
 export type AudioTagMetadata = {
   title?: string;
+  album?: string;
   artist?: string;
   albumArtist?: string;
   description?: string;
@@ -112,6 +113,8 @@ export type AudioTagMetadata = {
 export type ProbeData = {
   duration?: number;
   tags?: Record<string, string>;
+  /** Whether a stream is an attached picture (embedded cover art). */
+  hasCoverArt?: boolean;
   chapters?: FfprobeChapter[];
 };
 
@@ -18,4 +18,8 @@ function formatDurationAllowZero(seconds: number): string {
   return `${m}:${s.toString().padStart(2, "0")}`;
 }
 
-export { formatDuration, formatDurationAllowZero };
+function formatPlaybackPosition(positionMs: number): string {
+  return formatDurationAllowZero(positionMs / 1000);
+}
+
+export { formatDuration, formatDurationAllowZero, formatPlaybackPosition };
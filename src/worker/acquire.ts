@@ -1,5 +1,8 @@
 import { selectSearchCandidates } from "../library/agents";
+import { scoreReleaseQuality } from "../library/quality";
 import { runSearch, runSnatchGroup } from "../library/service";
+import type { TorznabResult } from "../library/torznab";
+import { manifestationQualityScore, recordWantedOutcome } from "../library/wanted";
 import type { JobRow, MediaType } from "../app-types";
 import { workerLog, type WorkerContext } from "./context";
 
@@ -14,6 +17,11 @@ export type AcquirePayload = {
   rejectedUrls?: string[];
   rejectedGuids?: string[];
   rejectedInfoHashes?: string[];
+  // Candidates already found by RSS sync; the indexers are not searched again.
+  feedResults?: TorznabResult[];
+  // Queued for a book that already has this media below the upgrade cutoff:
+  // only releases scoring above the current copy are considered.
+  upgrade?: boolean;
 };
 
 function selectionNote(media: MediaType, decision: { mode: string; trigger: string; confidence: number; reason: string }): string {
@@ -34,6 +42,7 @@ export async function processAcquireJob(ctx: WorkerContext, job: JobRow): Promis
     return "done";
   }
   const mediaList: MediaType[] = payload.media && payload.media.length > 0 ? payload.media : ["audio", "ebook"];
+  const fromFeed = Array.isArray(payload.feedResults);
   const mediaResults = await Promise.all(
     mediaList.map(async (media) => {
       const result: {
@@ -46,11 +55,39 @@ export async function processAcquireJob(ctx: WorkerContext, job: JobRow): Promis
         noResultReason: null,
       };
 
+      const upgradeFrom = payload.upgrade === true ? ctx.repo.getBestManifestation(book.id, media) : null;
+      const currentScore = upgradeFrom ? manifestationQualityScore(ctx.repo, settings, upgradeFrom) : 0;
+      const cutoff = media === "audio" ? settings.upgrades.audioCutoff : settings.upgrades.ebookCutoff;
+      if (upgradeFrom && currentScore >= cutoff) {
+        workerLog(
+          ctx,
+          `[acquire] job=${job.id} book=${book.id} media=${media} upgrade_skipped=1 manifestation=${upgradeFrom.id} score=${currentScore} cutoff=${cutoff}`
+        );
+        return result;
+      }
+
       const query = `${book.title} ${book.author}`.trim();
-      const results = await runSearch(settings, { query, media });
+      const found =
+        payload.feedResults ??
+        (await runSearch(
+          settings,
+          { query, media, book: { title: book.title, author: book.author, durationMs: book.duration_ms } },
+          { repo: ctx.repo, bookId: book.id }
+        ).catch((error: Error) => {
+          recordWantedOutcome(ctx.repo, settings, book.id, media, "error", error.message);
+          throw error;
+        }));
+      const results = upgradeFrom
+        ? found.filter((item) => {
+            const quality = scoreReleaseQuality(settings, media, item, { durationMs: book.duration_ms });
+            return !quality.rejected && quality.score > currentScore;
+          })
+        : found;
       workerLog(
         ctx,
-        `[acquire] job=${job.id} book=${book.id} media=${media} query=${JSON.stringify(query)} results=${results.length}`
+        `[acquire] job=${job.id} book=${book.id} media=${media} query=${JSON.stringify(query)} results=${results.length}${fromFeed ? " source=rss" : ""}${
+          upgradeFrom ? ` upgrade_from=${upgradeFrom.id} current_score=${currentScore} found=${found.length}` : ""
+        }`
       );
       const decision = await selectSearchCandidates(
         settings,
@@ -64,7 +101,7 @@ export async function processAcquireJob(ctx: WorkerContext, job: JobRow): Promis
           rejectedUrls: Array.isArray(payload.rejectedUrls) ? payload.rejectedUrls : [],
           rejectedGuids: Array.isArray(payload.rejectedGuids) ? payload.rejectedGuids : [],
           rejectedInfoHashes: Array.isArray(payload.rejectedInfoHashes) ? payload.rejectedInfoHashes : [],
-          book: { id: book.id, title: book.title, author: book.author },
+          book: { id: book.id, title: book.title, author: book.author, durationMs: book.duration_ms },
         },
         {
           repo: ctx.repo,
@@ -83,6 +120,10 @@ export async function processAcquireJob(ctx: WorkerContext, job: JobRow): Promis
           `[acquire] job=${job.id} book=${book.id} media=${media} no_result mode=${decision.mode} trigger=${decision.trigger} reason=${JSON.stringify(decision.reason)}`
         );
         result.noResultReason = `${media}: ${decision.reason ?? "no candidate selected"}`;
+        // A rejected feed match says nothing about what a full search would find.
+        if (!fromFeed) {
+          recordWantedOutcome(ctx.repo, settings, book.id, media, "no_result", decision.reason ?? "no candidate selected");
+        }
         return result;
       }
       try {
@@ -100,6 +141,7 @@ export async function processAcquireJob(ctx: WorkerContext, job: JobRow): Promis
             {
               bookId: book.id,
               mediaType: media,
+              replacesManifestationId: upgradeFrom?.id ?? null,
               manifestation: {
                 ...selection.manifestation,
                 selectionNote: selectionNote(media, decision),
@@ -110,6 +152,7 @@ export async function processAcquireJob(ctx: WorkerContext, job: JobRow): Promis
                 title: part.title,
                 url: part.url,
                 sizeBytes: part.sizeBytes,
+                protocol: part.protocol,
                 infoHash: part.infoHash ?? null,
               })),
             },
@@ -126,10 +169,12 @@ export async function processAcquireJob(ctx: WorkerContext, job: JobRow): Promis
           }
         }
         result.snatchSucceeded = true;
+        recordWantedOutcome(ctx.repo, settings, book.id, media, "snatched", `${decision.selections.length} selection(s) snatched`);
       } catch (error) {
         const message = (error as Error).message;
         workerLog(ctx, `[acquire] job=${job.id} book=${book.id} media=${media} snatch_error=${JSON.stringify(message)}`);
         result.snatchError = `${media}: ${message}`;
+        recordWantedOutcome(ctx.repo, settings, book.id, media, "error", message);
         return result;
       }
       return result;
@@ -6,8 +6,15 @@ import { processAcquireJob } from "./acquire";
 import { workerLog, type WorkerContext } from "./context";
 import { processDownloadJob } from "./downloads";
 import { processImportJob } from "./imports";
+import { processInboxScanJob } from "./inbox";
 import { processFullLibraryRefreshJob, processReconcileJob } from "./maintenance";
 import { processMetadataHydrationJob } from "./metadata-hydration";
+import { processLibraryReorganizeJob } from "./reorganize";
+import { processRssSyncJob } from "./rss";
+import { processSeedingCheckJob } from "./seeding";
+import { processTagWriteJob, queueTagWriteAfterCuration } from "./tag-writing";
+import { processUpgradeCleanupJob } from "./upgrades";
+import { processWantedSearchJob } from "./wanted";
 
 export type JobProcessResult = "done" | "rescheduled";
 
@@ -32,7 +39,9 @@ export async function processJob(ctx: WorkerContext, job: JobRow): Promise<JobPr
     return processAcquireJob(ctx, job);
   }
   if (job.type === "chapter_analysis") {
-    return processChapterAnalysisJob(ctx, job);
+    const result = await processChapterAnalysisJob(ctx, job);
+    queueTagWriteAfterCuration(ctx.repo, job);
+    return result;
   }
   if (job.type === "cover_generation") {
     return processCoverGenerationJob(ctx, job);
@@ -40,6 +49,27 @@ export async function processJob(ctx: WorkerContext, job: JobRow): Promise<JobPr
   if (job.type === "metadata_hydration") {
     return processMetadataHydrationJob(ctx, job);
   }
+  if (job.type === "seeding_check") {
+    return processSeedingCheckJob(ctx, job);
+  }
+  if (job.type === "wanted_search") {
+    return processWantedSearchJob(ctx, job);
+  }
+  if (job.type === "rss_sync") {
+    return processRssSyncJob(ctx, job);
+  }
+  if (job.type === "upgrade_cleanup") {
+    return processUpgradeCleanupJob(ctx, job);
+  }
+  if (job.type === "library_reorganize") {
+    return processLibraryReorganizeJob(ctx, job);
+  }
+  if (job.type === "inbox_scan") {
+    return processInboxScanJob(ctx, job);
+  }
+  if (job.type === "tag_write") {
+    return processTagWriteJob(ctx, job);
+  }
   ctx.repo.markJobSucceeded(job.id);
   workerLog(ctx, `[worker] job=${job.id} type=${job.type} unknown_type=1 auto_succeeded=1`);
   return "done";
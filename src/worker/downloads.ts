@@ -1,7 +1,7 @@
 import { nowIso } from "../db";
-import { RtorrentClient } from "../rtorrent";
+import { createDownloadClients, downloadTarget } from "../download-client";
 import { triggerAutoAcquire } from "../library/service";
-import type { RtorrentDownloadState } from "../rtorrent";
+import type { DownloadState } from "../download-client";
 import type { AppSettings, JobRow, MediaType } from "../app-types";
 import type { WorkerContext } from "./context";
 
@@ -13,6 +13,7 @@ const ETA_MID_WINDOW_SECONDS = 120;
 
 type DownloadJobPayload = {
   infoHash?: string;
+  downloadId?: string | null;
   preferAgentImport?: boolean;
   manifestationId?: number | null;
   sequenceInManifestation?: number | null;
@@ -56,7 +57,7 @@ function logMessage(ctx: WorkerContext, message: string): void {
   console.log(message);
 }
 
-function derivedLeftBytes(state: RtorrentDownloadState): number | null {
+function derivedLeftBytes(state: DownloadState): number | null {
   if (typeof state.leftBytes === "number" && Number.isFinite(state.leftBytes)) {
     return Math.max(0, state.leftBytes);
   }
@@ -72,7 +73,7 @@ function trimMessage(value: string | null | undefined): string | null {
   return normalized.length > 0 ? normalized : null;
 }
 
-function describeDownloadIssue(prefix: string, state: RtorrentDownloadState, detail?: string | null): string {
+function describeDownloadIssue(prefix: string, state: DownloadState, detail?: string | null): string {
   const leftBytes = derivedLeftBytes(state);
   const parts = [
     prefix,
@@ -88,9 +89,11 @@ function describeDownloadIssue(prefix: string, state: RtorrentDownloadState, det
 }
 
 function analyzeDownloadIssue(
-  state: RtorrentDownloadState,
+  state: DownloadState,
   payload: DownloadJobPayload,
-  settings: AppSettings
+  settings: AppSettings,
+  clientLabel: string,
+  subject: string
 ): DownloadIssueDecision {
   const nextPayload: DownloadJobPayload = { ...payload };
   const leftBytes = derivedLeftBytes(state);
@@ -118,7 +121,7 @@ function analyzeDownloadIssue(
     return {
       action: "recover",
       nextPayload,
-      error: describeDownloadIssue("Torrent errored in rTorrent; queuing forced reacquire", state, message),
+      error: describeDownloadIssue(`${subject} errored in ${clientLabel}; queuing forced reacquire`, state, message),
     };
   }
 
@@ -134,7 +137,7 @@ function analyzeDownloadIssue(
     return {
       action: "recover",
       nextPayload,
-      error: describeDownloadIssue("Torrent stalled with no progress; queuing forced reacquire", state),
+      error: describeDownloadIssue(`${subject} stalled with no progress; queuing forced reacquire`, state),
     };
   }
 
@@ -143,7 +146,7 @@ function analyzeDownloadIssue(
     return {
       action: "recover",
       nextPayload,
-      error: describeDownloadIssue("Torrent stalled past recovery threshold; queuing forced reacquire", state),
+      error: describeDownloadIssue(`${subject} stalled past recovery threshold; queuing forced reacquire`, state),
     };
   }
 
@@ -153,7 +156,7 @@ function analyzeDownloadIssue(
   };
 }
 
-function selectDownloadPollDecision(state: RtorrentDownloadState, configuredPollMs: number): PollDecision {
+function selectDownloadPollDecision(state: DownloadState, configuredPollMs: number): PollDecision {
   const maxPollMs = Math.max(FAST_POLL_MS, Math.trunc(configuredPollMs || 5000));
   const leftBytes = derivedLeftBytes(state);
   const downRate = typeof state.downRate === "number" && Number.isFinite(state.downRate) ? state.downRate : null;
@@ -222,7 +225,7 @@ function selectDownloadPollDecision(state: RtorrentDownloadState, configuredPoll
   };
 }
 
-export function selectDownloadPollMs(state: RtorrentDownloadState, configuredPollMs: number): number {
+export function selectDownloadPollMs(state: DownloadState, configuredPollMs: number): number {
   return selectDownloadPollDecision(state, configuredPollMs).pollMs;
 }
 
@@ -245,11 +248,16 @@ export async function processDownloadJob(ctx: WorkerContext, job: JobRow): Promi
 
   const settings = ctx.getSettings();
   const payload = job.payload_json ? (JSON.parse(job.payload_json) as DownloadJobPayload) : {};
-  const client = new RtorrentClient(settings.rtorrent);
+  const target = downloadTarget(createDownloadClients(settings), release);
+  if (!target) {
+    throw new Error(`No ${release.protocol} download client configured for release ${release.id}`);
+  }
+  const { client, downloadId } = target;
+  const subject = release.protocol === "usenet" ? "Usenet download" : "Torrent";
 
-  const state = await client.getDownloadState(release.info_hash);
+  const state = await client.getDownloadState(downloadId);
   if (!state.complete) {
-    const issue = analyzeDownloadIssue(state, payload, settings);
+    const issue = analyzeDownloadIssue(state, payload, settings, client.label, subject);
     if (issue.action === "recover") {
       ctx.repo.setReleaseStatus(release.id, "failed", issue.error);
       const acquireJobId = await triggerAutoAcquire(ctx.repo, release.book_id, [release.media_type], {
@@ -257,7 +265,7 @@ export async function processDownloadJob(ctx: WorkerContext, job: JobRow): Promi
         priorFailure: true,
         requireResult: true,
         notifyOnFailure: true,
-        failureContext: `Auto-reacquire after stalled torrent for release ${release.id}`,
+        failureContext: `Auto-reacquire after stalled ${subject.toLowerCase()} for release ${release.id}`,
         rejectedUrls: [release.url],
         rejectedGuids: release.provider_guid ? [release.provider_guid] : [],
         rejectedInfoHashes: release.info_hash ? [release.info_hash] : [],
@@ -273,7 +281,7 @@ export async function processDownloadJob(ctx: WorkerContext, job: JobRow): Promi
       decision.etaSeconds === null ? "null" : (Math.round(decision.etaSeconds * 100) / 100).toFixed(2);
     logMessage(
       ctx,
-      `[download] job=${job.id} release=${release.id} media=${release.media_type} hash=${release.info_hash} complete=0 left_bytes=${decision.leftBytes ?? "null"} down_rate=${decision.downRate ?? "null"} eta_s=${etaText} poll_ms=${decision.pollMs} reason=${decision.reason}`
+      `[download] job=${job.id} release=${release.id} media=${release.media_type} id=${downloadId} complete=0 left_bytes=${decision.leftBytes ?? "null"} down_rate=${decision.downRate ?? "null"} eta_s=${etaText} poll_ms=${decision.pollMs} reason=${decision.reason}`
     );
     const pollMs = decision.pollMs;
     const nextRun = new Date(Date.now() + pollMs).toISOString();
@@ -281,10 +289,10 @@ export async function processDownloadJob(ctx: WorkerContext, job: JobRow): Promi
     return "rescheduled";
   }
 
-  const importSource = await client.getImportSource(release.info_hash);
+  const importSource = await client.getImportSource(downloadId);
   logMessage(
     ctx,
-    `[download] job=${job.id} release=${release.id} hash=${release.info_hash} complete=1 bytes_done=${state.bytesDone ?? "null"} size_bytes=${state.sizeBytes ?? "null"} base_path=${JSON.stringify(importSource.basePath)} selected_paths=${importSource.selectedPaths.length}`
+    `[download] job=${job.id} release=${release.id} id=${downloadId} complete=1 bytes_done=${state.bytesDone ?? "null"} size_bytes=${state.sizeBytes ?? "null"} base_path=${JSON.stringify(importSource.basePath)} selected_paths=${importSource.selectedPaths.length}`
   );
   ctx.repo.setReleaseStatus(release.id, "downloaded", null);
   ctx.repo.createJob({
@@ -294,7 +302,7 @@ export async function processDownloadJob(ctx: WorkerContext, job: JobRow): Promi
     payload: {
       basePath: importSource.basePath,
       selectedPaths: importSource.selectedPaths,
-      infoHash: release.info_hash,
+      ...(release.info_hash ? { infoHash: release.info_hash } : { downloadId: release.download_id }),
       preferAgentFirst: payload.preferAgentImport === true,
       manifestationId: payload.manifestationId ?? null,
       sequenceInManifestation: payload.sequenceInManifestation ?? null,
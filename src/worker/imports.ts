@@ -1,12 +1,15 @@
 import { selectManualImportPaths } from "../library/agents";
+import { blocklistRelease } from "../library/blocklist";
 import { importReleaseFromPath, inspectImportPath, type ImportInspectionFile } from "../library/importer";
-import { RtorrentClient } from "../rtorrent";
-import type { JobRow } from "../app-types";
+import { completeManifestationUpgrade } from "../library/upgrades";
+import { createDownloadClients, downloadTarget, type DownloadImportSource } from "../download-client";
+import type { AppSettings, JobRow, ReleaseRow } from "../app-types";
 import { workerLog, type WorkerContext } from "./context";
 
 type ImportJobPayload = {
   basePath?: string | null;
   infoHash?: string;
+  downloadId?: string | null;
   selectedPaths?: string[];
   reason?: string;
   userReportedIssue?: boolean;
@@ -35,6 +38,30 @@ function importNote(
   return `${context}: ${mode}${trigger}${confidence}: ${detail.reason}${selectedText}`;
 }
 
+// Runs after the import job is marked done, so it no longer counts as pending work for the manifestation.
+async function completeUpgradeAfterImport(ctx: WorkerContext, job: JobRow, manifestationId: number | null): Promise<void> {
+  if (!manifestationId) return;
+  try {
+    const upgrade = await completeManifestationUpgrade(ctx.repo, ctx.getSettings(), manifestationId);
+    if (upgrade) {
+      workerLog(
+        ctx,
+        `[import] job=${job.id} manifestation=${manifestationId} upgrade_replaced=${upgrade.replacedManifestationId} positions_mapped=${upgrade.positionsMapped} bookmarks_moved=${upgrade.bookmarksMoved} cleanup_job=${upgrade.cleanupJobId ?? "none"}`
+      );
+    }
+  } catch (error) {
+    workerLog(ctx, `[import] job=${job.id} manifestation=${manifestationId} upgrade_error=${JSON.stringify((error as Error).message)}`);
+  }
+}
+
+async function importSourceFromClient(settings: AppSettings, release: ReleaseRow): Promise<DownloadImportSource> {
+  const target = downloadTarget(createDownloadClients(settings), release);
+  if (!target) {
+    throw new Error(`No ${release.protocol} download client configured for release ${release.id}`);
+  }
+  return target.client.getImportSource(target.downloadId);
+}
+
 export async function processImportJob(ctx: WorkerContext, job: JobRow): Promise<"done" | "rescheduled"> {
   if (!job.release_id) {
     throw new Error("Import job missing release_id");
@@ -47,14 +74,13 @@ export async function processImportJob(ctx: WorkerContext, job: JobRow): Promise
 
   const settings = ctx.getSettings();
   const payload = job.payload_json ? (JSON.parse(job.payload_json) as ImportJobPayload) : {};
-  const client = new RtorrentClient(settings.rtorrent);
   const importSource =
     payload.basePath || (Array.isArray(payload.selectedPaths) && payload.selectedPaths.length > 0)
       ? {
           basePath: payload.basePath ?? null,
           selectedPaths: Array.isArray(payload.selectedPaths) ? payload.selectedPaths : [],
         }
-      : await client.getImportSource(release.info_hash);
+      : await importSourceFromClient(settings, release);
   const basePath = importSource.basePath;
   if (!basePath) {
     const nextRun = new Date(Date.now() + Math.max(1000, settings.polling.rtorrentMs || 5000)).toISOString();
@@ -96,6 +122,7 @@ export async function processImportJob(ctx: WorkerContext, job: JobRow): Promise
           });
           ctx.repo.setReleaseStatus(release.id, "imported", null);
           ctx.repo.markJobSucceeded(job.id);
+          await completeUpgradeAfterImport(ctx, job, payload.manifestationId ?? null);
           workerLog(
             ctx,
             `[import] job=${job.id} release=${release.id} wrong_file_agent_reimport=success selected=${decision.selectedPaths.length}`
@@ -114,6 +141,7 @@ export async function processImportJob(ctx: WorkerContext, job: JobRow): Promise
 
     const terminalError = `Wrong-file review failed to produce alternate import. decision=${agentDecisionReason}; agentError=${agentDecisionError ?? "none"}`;
     ctx.repo.setReleaseStatus(release.id, "failed", terminalError);
+    blocklistRelease(ctx.repo, release, "import_failed", terminalError);
     ctx.repo.createJob({
       type: "acquire",
       bookId: release.book_id,
@@ -153,6 +181,7 @@ export async function processImportJob(ctx: WorkerContext, job: JobRow): Promise
         });
         ctx.repo.setReleaseStatus(release.id, "imported", null);
         ctx.repo.markJobSucceeded(job.id);
+        await completeUpgradeAfterImport(ctx, job, payload.manifestationId ?? null);
         workerLog(
           ctx,
           `[import] job=${job.id} release=${release.id} agent_first=success mode=${decision.mode} selected=${decision.selectedPaths.length}`
@@ -178,6 +207,7 @@ export async function processImportJob(ctx: WorkerContext, job: JobRow): Promise
     });
     ctx.repo.setReleaseStatus(release.id, "imported", null);
     ctx.repo.markJobSucceeded(job.id);
+    await completeUpgradeAfterImport(ctx, job, payload.manifestationId ?? null);
     return "done";
   } catch (firstError) {
     const deterministicMessage = (firstError as Error).message || "deterministic import failed";
@@ -210,6 +240,7 @@ export async function processImportJob(ctx: WorkerContext, job: JobRow): Promise
         });
         ctx.repo.setReleaseStatus(release.id, "imported", null);
         ctx.repo.markJobSucceeded(job.id);
+        await completeUpgradeAfterImport(ctx, job, payload.manifestationId ?? null);
         workerLog(
           ctx,
           `[import] job=${job.id} release=${release.id} agent_recovery=success selected=${decision.selectedPaths.length}`
@@ -227,6 +258,7 @@ export async function processImportJob(ctx: WorkerContext, job: JobRow): Promise
 
     const terminalError = `Import failed after deterministic+agent attempts. deterministic=${deterministicMessage}; decision=${agentDecisionReason}; agentError=${agentDecisionError ?? "none"}`;
     ctx.repo.setReleaseStatus(release.id, "failed", terminalError);
+    blocklistRelease(ctx.repo, release, "import_failed", terminalError);
     ctx.repo.createJob({
       type: "acquire",
       bookId: release.book_id,
@@ -0,0 +1,41 @@
+import type { JobRow } from "../app-types";
+import { scanInbox } from "../library/inbox";
+import type { BooksRepo } from "../repo";
+
+import { workerLog, type WorkerContext } from "./context";
+
+export function queueInboxScan(repo: BooksRepo): JobRow {
+  const existing = repo
+    .listJobsByType("inbox_scan")
+    .find((job) => job.status === "queued" || job.status === "running");
+  if (existing) return existing;
+
+  return repo.createJob({ type: "inbox_scan" });
+}
+
+/**
+ * Imports settled drops from the inbox folder (see `library/inbox`). A scan
+ * that cannot read the folder is logged and tried again on the next pass. The
+ * job re-queues itself every `inbox.intervalMinutes`.
+ */
+export async function processInboxScanJob(ctx: WorkerContext, job: JobRow): Promise<"rescheduled"> {
+  const settings = ctx.getSettings();
+  const nextRun = new Date(Date.now() + settings.inbox.intervalMinutes * 60_000).toISOString();
+  if (!settings.inbox.enabled || !settings.inbox.path) {
+    ctx.repo.rescheduleJob(job.id, nextRun);
+    workerLog(ctx, `[inbox] job=${job.id} skipped=1 enabled=${settings.inbox.enabled} next=${nextRun}`);
+    return "rescheduled";
+  }
+
+  try {
+    const summary = await scanInbox(ctx.repo, settings);
+    workerLog(
+      ctx,
+      `[inbox] job=${job.id} imported=${summary.imported} unmatched=${summary.unmatched} failed=${summary.failed} pending=${summary.pending} next=${nextRun}`
+    );
+  } catch (error) {
+    workerLog(ctx, `[inbox] job=${job.id} path=${JSON.stringify(settings.inbox.path)} error=${JSON.stringify((error as Error).message)}`);
+  }
+  ctx.repo.rescheduleJob(job.id, nextRun);
+  return "rescheduled";
+}
@@ -31,7 +31,7 @@ function releaseLockKeys(repo: BooksRepo, releaseId: number | null | undefined):
 }
 
 export function jobLockKeys(repo: BooksRepo, job: JobRow): string[] {
-  if (job.type === "full_library_refresh") {
+  if (job.type === "full_library_refresh" || job.type === "library_reorganize") {
     return [GLOBAL_LOCK_KEY];
   }
 
@@ -53,6 +53,18 @@ export function jobLockKeys(repo: BooksRepo, job: JobRow): string[] {
     return unique([`manifestation:${manifestationId}`, mediaLaneKey(job.book_id, "audio")]);
   }
 
+  if (job.type === "tag_write") {
+    return job.book_id ? [mediaLaneKey(job.book_id, "audio")!] : [GLOBAL_LOCK_KEY];
+  }
+
+  if (job.type === "upgrade_cleanup") {
+    const payload = parseJson<{ supersededManifestationId?: number }>(job.payload_json) ?? {};
+    const manifestationId = payload.supersededManifestationId ?? null;
+    if (!manifestationId) return [];
+    const kind = repo.getManifestation(manifestationId)?.kind ?? null;
+    return unique([`manifestation:${manifestationId}`, mediaLaneKey(job.book_id, kind)]);
+  }
+
   return [];
 }
 
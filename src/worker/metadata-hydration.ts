@@ -3,6 +3,7 @@ import {
   CURRENT_OPENLIBRARY_METADATA_VERSION,
   hydrateBookFromOpenLibrary,
 } from "../library/hydration";
+import { queueTagWrite } from "../library/tag-writing";
 import type { BooksRepo } from "../repo";
 
 import { workerLog, type WorkerContext } from "./context";
@@ -33,6 +34,7 @@ export async function processMetadataHydrationJob(ctx: WorkerContext, job: JobRo
       failed.push(row.id);
       continue;
     }
+    queueTagWrite(ctx.repo, row.id);
     workerLog(ctx, `[metadata-hydration] book=${row.id} version=${CURRENT_OPENLIBRARY_METADATA_VERSION} hydrated=1`);
   }
 
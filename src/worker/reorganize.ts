@@ -0,0 +1,35 @@
+import type { JobRow, LibraryReorganizeReport } from "../app-types";
+import { applyLibraryReorganize, LIBRARY_REORGANIZE_STATE_KEY, planLibraryReorganize } from "../library/reorganize";
+
+import { workerLog, type WorkerContext } from "./context";
+
+/**
+ * Plans moving library files to the current naming templates and, unless the
+ * job is a dry run, applies the plan. The moves are kept as the latest
+ * reorganize report so the preview can be reviewed before applying it.
+ */
+export async function processLibraryReorganizeJob(ctx: WorkerContext, job: JobRow): Promise<"done"> {
+  const payload = job.payload_json ? (JSON.parse(job.payload_json) as { dryRun?: boolean }) : {};
+  const dryRun = payload.dryRun ?? true;
+  const settings = ctx.getSettings();
+  const plan = planLibraryReorganize(ctx.repo, settings);
+  const outcome = dryRun
+    ? { moved: plan.moves.map(({ kind, bookId, from, to }) => ({ kind, bookId, from, to })), errors: plan.errors }
+    : await applyLibraryReorganize(ctx.repo, plan, settings);
+
+  const report: LibraryReorganizeReport = {
+    jobId: job.id,
+    dryRun,
+    generatedAt: new Date().toISOString(),
+    moves: outcome.moved,
+    unchanged: plan.unchanged,
+    errors: outcome.errors,
+  };
+  ctx.repo.setJsonState(LIBRARY_REORGANIZE_STATE_KEY, report);
+  ctx.repo.markJobSucceeded(job.id);
+  workerLog(
+    ctx,
+    `[reorganize] job=${job.id} dry_run=${dryRun} moves=${report.moves.length} unchanged=${report.unchanged} errors=${report.errors.length}`
+  );
+  return "done";
+}
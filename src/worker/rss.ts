@@ -0,0 +1,92 @@
+import type { JobRow, MediaType, WantedMediaView } from "../app-types";
+import { filterBlocklisted } from "../library/blocklist";
+import { matchFeedResults } from "../library/rss";
+import { triggerAutoAcquire } from "../library/service";
+import { fetchTorznabFeed, type TorznabResult } from "../library/torznab";
+import { listWantedMediaForSettings } from "../library/wanted";
+import type { BooksRepo } from "../repo";
+
+import { workerLog, type WorkerContext } from "./context";
+
+const RSS_SEEN_STATE_KEY = "rss_sync_seen";
+// Enough to cover several pages of a busy indexer's feed between polls.
+const MAX_SEEN_PER_FEED = 500;
+
+type SeenState = Record<string, string[]>;
+
+export function queueRssSync(repo: BooksRepo): JobRow {
+  const existing = repo
+    .listJobsByType("rss_sync")
+    .find((job) => job.status === "queued" || job.status === "running");
+  if (existing) return existing;
+
+  return repo.createJob({ type: "rss_sync" });
+}
+
+function itemKey(item: TorznabResult): string {
+  return item.guid ?? item.url;
+}
+
+/**
+ * Polls each Torznab source's recent releases for the audio and ebook
+ * categories and matches items not seen on an earlier poll against wanted
+ * media. Matches are handed to an acquire job as its candidates, so selection,
+ * snatching and outcome tracking follow the normal path without a per-book
+ * search. The job re-queues itself every `rss.intervalMinutes`.
+ */
+export async function processRssSyncJob(ctx: WorkerContext, job: JobRow): Promise<"rescheduled"> {
+  const settings = ctx.getSettings();
+  const nextRun = new Date(Date.now() + settings.rss.intervalMinutes * 60_000).toISOString();
+  if (!settings.rss.enabled || settings.torznab.length === 0) {
+    ctx.repo.rescheduleJob(job.id, nextRun);
+    workerLog(ctx, `[rss] job=${job.id} skipped=1 enabled=${settings.rss.enabled} next=${nextRun}`);
+    return "rescheduled";
+  }
+
+  const seen = ctx.repo.getJsonState<SeenState>(RSS_SEEN_STATE_KEY) ?? {};
+  const fresh: Record<MediaType, TorznabResult[]> = { audio: [], ebook: [] };
+  for (const source of settings.torznab) {
+    for (const media of ["audio", "ebook"] as const) {
+      const feedKey = `${source.name}:${media}`;
+      let items: TorznabResult[];
+      try {
+        items = await fetchTorznabFeed([source], media, { repo: ctx.repo });
+      } catch (error) {
+        workerLog(ctx, `[rss] job=${job.id} source=${source.name} media=${media} error=${JSON.stringify((error as Error).message)}`);
+        continue;
+      }
+      const previous = new Set(seen[feedKey] ?? []);
+      fresh[media].push(...items.filter((item) => !previous.has(itemKey(item))));
+      seen[feedKey] = [...new Set([...items.map(itemKey), ...(seen[feedKey] ?? [])])].slice(0, MAX_SEEN_PER_FEED);
+    }
+  }
+  ctx.repo.setJsonState(RSS_SEEN_STATE_KEY, seen);
+
+  let queued = 0;
+  const wantedByBook = new Map<number, WantedMediaView[]>();
+  for (const wanted of listWantedMediaForSettings(ctx.repo, settings)) {
+    wantedByBook.set(wanted.book_id, [...(wantedByBook.get(wanted.book_id) ?? []), wanted]);
+  }
+  for (const [bookId, wantedList] of wantedByBook) {
+    if (ctx.repo.hasActiveBookWork(bookId)) continue;
+    const book = ctx.repo.getBookRow(bookId);
+    if (!book) continue;
+    for (const { media_type: media, reason } of wantedList) {
+      const matches = filterBlocklisted(ctx.repo, bookId, matchFeedResults(book, media, fresh[media]));
+      if (matches.length === 0) continue;
+      const acquireJobId = await triggerAutoAcquire(ctx.repo, bookId, [media], {
+        feedResults: matches,
+        upgrade: reason === "upgrade",
+      });
+      queued += 1;
+      workerLog(
+        ctx,
+        `[rss] job=${job.id} book=${bookId} media=${media} matches=${matches.length} acquire_job=${acquireJobId} top=${JSON.stringify(matches[0]!.title)}`
+      );
+    }
+  }
+
+  ctx.repo.rescheduleJob(job.id, nextRun);
+  workerLog(ctx, `[rss] job=${job.id} new_audio=${fresh.audio.length} new_ebook=${fresh.ebook.length} queued=${queued} next=${nextRun}`);
+  return "rescheduled";
+}
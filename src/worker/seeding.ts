@@ -0,0 +1,60 @@
+import type { JobRow } from "../app-types";
+import { createDownloadClient } from "../download-client";
+import { seedingGoalMet, seedingRuleFor } from "../library/seeding";
+import type { BooksRepo } from "../repo";
+
+import { workerLog, type WorkerContext } from "./context";
+
+export function queueSeedingCheck(repo: BooksRepo): JobRow {
+  const existing = repo
+    .listJobsByType("seeding_check")
+    .find((job) => job.status === "queued" || job.status === "running");
+  if (existing) return existing;
+
+  return repo.createJob({ type: "seeding_check" });
+}
+
+/**
+ * Checks imported torrents against their indexer's seeding goal and removes
+ * the ones that reached it from the download client. Removal keeps the data,
+ * so the hardlinked library copy is untouched. The job re-queues itself every
+ * `seeding.checkMinutes`; per-release failures are recorded on the release
+ * and retried on the next pass.
+ */
+export async function processSeedingCheckJob(ctx: WorkerContext, job: JobRow): Promise<"rescheduled"> {
+  const settings = ctx.getSettings();
+  const client = createDownloadClient(settings);
+  let checked = 0;
+  let removed = 0;
+
+  for (const release of ctx.repo.listSeedingCandidates()) {
+    const rule = seedingRuleFor(settings, release.provider);
+    if (!rule || !release.info_hash) continue;
+    checked += 1;
+
+    try {
+      const state = await client.getSeedingState(release.info_hash);
+      if (!state) {
+        ctx.repo.updateReleaseSeeding(release.id, { status: "missing" });
+        workerLog(ctx, `[seeding] release=${release.id} missing_from_client=1`);
+        continue;
+      }
+      if (!seedingGoalMet(rule, state)) {
+        ctx.repo.updateReleaseSeeding(release.id, { status: "seeding", ratio: state.ratio, seconds: state.seedingSeconds });
+        continue;
+      }
+      await client.remove(release.info_hash);
+      ctx.repo.updateReleaseSeeding(release.id, { status: "removed", ratio: state.ratio, seconds: state.seedingSeconds });
+      removed += 1;
+      workerLog(ctx, `[seeding] release=${release.id} ratio=${state.ratio ?? "?"} seconds=${state.seedingSeconds ?? "?"} removed=1`);
+    } catch (error) {
+      ctx.repo.updateReleaseSeeding(release.id, { status: "seeding", error: (error as Error).message });
+      workerLog(ctx, `[seeding] release=${release.id} error=${JSON.stringify((error as Error).message)}`);
+    }
+  }
+
+  const nextRun = new Date(Date.now() + settings.seeding.checkMinutes * 60_000).toISOString();
+  ctx.repo.rescheduleJob(job.id, nextRun);
+  workerLog(ctx, `[seeding] job=${job.id} checked=${checked} removed=${removed} next=${nextRun}`);
+  return "rescheduled";
+}
@@ -0,0 +1,73 @@
+import type { JobRow } from "../app-types";
+import { currentManifestationFingerprint } from "../library/chapter-analysis";
+import { queueTagWrite, writeBookTags, type TagWriteResult } from "../library/tag-writing";
+import type { BooksRepo } from "../repo";
+
+import { workerLog, type WorkerContext } from "./context";
+
+/** Queues a tag write for the book once a chapter analysis job has stored curated chapters. */
+export function queueTagWriteAfterCuration(repo: BooksRepo, job: JobRow): JobRow | null {
+  const payload = job.payload_json ? (JSON.parse(job.payload_json) as { manifestationId?: number }) : {};
+  if (!job.book_id || !payload.manifestationId) return null;
+  const analysis = repo.getChapterAnalysis(payload.manifestationId);
+  if (analysis?.status !== "succeeded" || !analysis.chapters_json) return null;
+  return queueTagWrite(repo, job.book_id);
+}
+
+async function audioFingerprints(repo: BooksRepo, bookId: number): Promise<Map<number, string>> {
+  const fingerprints = new Map<number, string>();
+  for (const manifestation of repo.listManifestationsByBook(bookId)) {
+    if (manifestation.kind !== "audio") continue;
+    const fingerprint = await currentManifestationFingerprint(repo, manifestation.id);
+    if (fingerprint) fingerprints.set(manifestation.id, fingerprint);
+  }
+  return fingerprints;
+}
+
+// Rewriting tags changes file sizes and mtimes but not the audio, so a transcript or chapter analysis current before stays current.
+async function writeTagsKeepingAnalysis(repo: BooksRepo, bookId: number, libraryRoot: string): Promise<TagWriteResult> {
+  const before = await audioFingerprints(repo, bookId);
+  const result = await writeBookTags(repo, bookId, libraryRoot);
+  if (result.written === 0) return result;
+  for (const [manifestationId, fingerprint] of before) {
+    const after = await currentManifestationFingerprint(repo, manifestationId);
+    if (after && after !== fingerprint) repo.replaceManifestationFingerprint(manifestationId, fingerprint, after);
+  }
+  return result;
+}
+
+/**
+ * Writes canonical tags into the library audio files of the job's book, or of
+ * every book when the job has none. Files that fail are logged and fail the
+ * job once the rest are written; a job picked up after `tagWriting` was turned
+ * off does nothing.
+ */
+export async function processTagWriteJob(ctx: WorkerContext, job: JobRow): Promise<"done"> {
+  const settings = ctx.getSettings();
+  if (!settings.tagWriting.enabled) {
+    ctx.repo.markJobSucceeded(job.id);
+    workerLog(ctx, `[tags] job=${job.id} skipped=1 enabled=false`);
+    return "done";
+  }
+
+  const bookIds = job.book_id ? [job.book_id] : ctx.repo.listAllBooks().map((book) => book.id);
+  let written = 0;
+  let skipped = 0;
+  const errors: string[] = [];
+  for (const bookId of bookIds) {
+    const result = await writeTagsKeepingAnalysis(ctx.repo, bookId, settings.libraryRoot);
+    written += result.written;
+    skipped += result.skipped;
+    for (const error of result.errors) {
+      workerLog(ctx, `[tags] job=${job.id} book=${bookId} error=${JSON.stringify(error)}`);
+      errors.push(error);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Tag writing failed for ${errors.length} file${errors.length === 1 ? "" : "s"}: ${errors[0]}`);
+  }
+  ctx.repo.markJobSucceeded(job.id);
+  workerLog(ctx, `[tags] job=${job.id} books=${bookIds.length} written=${written} skipped=${skipped}`);
+  return "done";
+}
@@ -0,0 +1,36 @@
+import { rm } from "node:fs/promises";
+
+import type { JobRow } from "../app-types";
+
+import { workerLog, type WorkerContext } from "./context";
+
+/**
+ * Deletes a manifestation replaced by an upgrade once its grace period is
+ * over. Positions and bookmarks were already carried over when the upgrade
+ * was imported. Files still referenced by another asset (an upgrade imported
+ * under the same name) are left on disk.
+ */
+export async function processUpgradeCleanupJob(ctx: WorkerContext, job: JobRow): Promise<"done"> {
+  const payload = job.payload_json ? (JSON.parse(job.payload_json) as { supersededManifestationId?: number }) : {};
+  const manifestationId = payload.supersededManifestationId ?? null;
+  const manifestation = manifestationId ? ctx.repo.getManifestation(manifestationId) : null;
+  if (!manifestation || manifestation.superseded_at === null) {
+    ctx.repo.markJobSucceeded(job.id);
+    workerLog(ctx, `[upgrade] job=${job.id} manifestation=${manifestationId ?? "none"} skipped=1`);
+    return "done";
+  }
+
+  let deletedFiles = 0;
+  for (const asset of ctx.repo.listAssetsByManifestation(manifestation.id)) {
+    const paths = ctx.repo.getAssetFiles(asset.id).map((file) => file.path);
+    ctx.repo.deleteAsset(asset.id);
+    for (const filePath of paths) {
+      if (ctx.repo.hasAssetFilePath(filePath)) continue;
+      await rm(filePath, { force: true });
+      deletedFiles += 1;
+    }
+  }
+  ctx.repo.markJobSucceeded(job.id);
+  workerLog(ctx, `[upgrade] job=${job.id} manifestation=${manifestation.id} deleted_files=${deletedFiles}`);
+  return "done";
+}
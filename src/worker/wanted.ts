@@ -0,0 +1,89 @@
+import type { JobRow, MediaType } from "../app-types";
+import { triggerAutoAcquire } from "../library/service";
+import { listWantedMediaForSettings, nextWantedSearchAt } from "../library/wanted";
+import type { BooksRepo } from "../repo";
+
+import { workerLog, type WorkerContext } from "./context";
+
+const WANTED_BUDGET_STATE_KEY = "wanted_search_budget";
+
+type WantedSearchBudget = {
+  day: string;
+  searches: number;
+};
+
+export function queueWantedSearch(repo: BooksRepo): JobRow {
+  const existing = repo
+    .listJobsByType("wanted_search")
+    .find((job) => job.status === "queued" || job.status === "running");
+  if (existing) return existing;
+
+  return repo.createJob({ type: "wanted_search" });
+}
+
+// Searches started today (UTC). Each one queries every configured indexer.
+function loadBudget(repo: BooksRepo, day: string): WantedSearchBudget {
+  const stored = repo.getJsonState<WantedSearchBudget>(WANTED_BUDGET_STATE_KEY);
+  return stored && stored.day === day && typeof stored.searches === "number" ? stored : { day, searches: 0 };
+}
+
+/**
+ * Re-searches books whose audio or ebook is still missing, or below the
+ * upgrade cutoff when upgrades are enabled, once their `next_search_at` has
+ * passed. Each due book gets an ordinary acquire job, so
+ * new indexer results go through the usual selection and snatch path, and the
+ * acquire job records the outcome and the backed-off next search time. At
+ * most `wanted.dailySearchLimit` media searches are started per UTC day. The
+ * job re-queues itself every `wanted.checkMinutes`.
+ */
+export async function processWantedSearchJob(ctx: WorkerContext, job: JobRow): Promise<"rescheduled"> {
+  const settings = ctx.getSettings();
+  const nextRun = new Date(Date.now() + settings.wanted.checkMinutes * 60_000).toISOString();
+  if (!settings.wanted.enabled || settings.torznab.length + settings.newznab.length === 0) {
+    ctx.repo.rescheduleJob(job.id, nextRun);
+    workerLog(ctx, `[wanted] job=${job.id} skipped=1 enabled=${settings.wanted.enabled} next=${nextRun}`);
+    return "rescheduled";
+  }
+
+  const now = new Date().toISOString();
+  const budget = loadBudget(ctx.repo, now.slice(0, 10));
+  const dueByBook = new Map<number, Array<{ media: MediaType; misses: number; upgrade: boolean }>>();
+  for (const wanted of listWantedMediaForSettings(ctx.repo, settings)) {
+    if (wanted.next_search_at && wanted.next_search_at > now) continue;
+    const due = dueByBook.get(wanted.book_id) ?? [];
+    due.push({ media: wanted.media_type, misses: wanted.consecutive_misses, upgrade: wanted.reason === "upgrade" });
+    dueByBook.set(wanted.book_id, due);
+  }
+
+  let queued = 0;
+  for (const [bookId, due] of dueByBook) {
+    const remaining = settings.wanted.dailySearchLimit - budget.searches;
+    if (remaining <= 0) break;
+    if (ctx.repo.hasActiveBookWork(bookId)) continue;
+    const batch = due.slice(0, remaining);
+    const acquireJobIds: number[] = [];
+    for (const upgrade of [false, true]) {
+      const media = batch.filter((entry) => entry.upgrade === upgrade).map((entry) => entry.media);
+      if (media.length > 0) acquireJobIds.push(await triggerAutoAcquire(ctx.repo, bookId, media, { upgrade }));
+    }
+    // Provisional: the acquire job replaces this with its outcome. It only
+    // matters if that job never finishes.
+    for (const entry of batch) {
+      ctx.repo.scheduleWantedSearch(bookId, entry.media, nextWantedSearchAt(settings, entry.misses + 1));
+    }
+    budget.searches += batch.length;
+    queued += batch.length;
+    workerLog(
+      ctx,
+      `[wanted] job=${job.id} book=${bookId} media=${batch.map((entry) => `${entry.media}${entry.upgrade ? ":upgrade" : ""}`).join(",")} acquire_job=${acquireJobIds.join(",")}`
+    );
+  }
+
+  ctx.repo.setJsonState(WANTED_BUDGET_STATE_KEY, budget);
+  ctx.repo.rescheduleJob(job.id, nextRun);
+  workerLog(
+    ctx,
+    `[wanted] job=${job.id} due=${dueByBook.size} queued=${queued} searches_today=${budget.searches}/${settings.wanted.dailySearchLimit} next=${nextRun}`
+  );
+  return "rescheduled";
+}
@@ -274,6 +274,7 @@ describe("podible http", () => {
 
       const healthRpc = await rpc(fetchHandler, "system.health", {}, 1);
       expect(healthRpc.result.ok).toBe(true);
+      expect(healthRpc.result.indexers).toEqual([]);
 
       const createdRpc = await rpc(fetchHandler, "library.create", { openLibraryKey: "/works/OL123W" }, 2, {
         cookie: userCookie,
@@ -555,6 +556,498 @@ describe("podible http", () => {
     db.close();
   });
 
+  test("shows a continue shelf on home and per-user finished badges on book pages", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const settings = repo.ensureSettings();
+    repo.updateSettings({
+      ...settings,
+      auth: { ...settings.auth, mode: "plex" },
+      torznab: [],
+    });
+
+    const dune = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+    const emma = repo.createBook({ title: "Emma", author: "Jane Austen" });
+    const manifestation = repo.addManifestation({ bookId: dune.id, kind: "audio" });
+    const fetchHandler = createPodibleFetchHandler(repo, Date.now());
+    const readerCookie = createBrowserSessionCookie(repo, { username: "reader" });
+    const otherCookie = createBrowserSessionCookie(repo, { username: "other" });
+    const reader = repo.listUsers().find((user) => user.username === "reader")!;
+    repo.upsertPlaybackPosition({ userId: reader.id, manifestationId: manifestation.id, positionMs: 3_725_000, deviceName: "iPhone" });
+    repo.recordListeningActivity(reader.id, dune.id);
+
+    const home = await fetchHandler(new Request("http://localhost/", { headers: { cookie: readerCookie } }));
+    const homeBody = await home.text();
+    expect(homeBody.includes("<h2>Continue</h2>")).toBe(true);
+    expect(homeBody.includes("Resume at 1:02:05 from iPhone")).toBe(true);
+
+    const otherHome = await fetchHandler(new Request("http://localhost/", { headers: { cookie: otherCookie } }));
+    expect((await otherHome.text()).includes("Nothing in progress.")).toBe(true);
+
+    const marked = await fetchHandler(
+      new Request(`http://localhost/book/${emma.id}/consumption`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded", cookie: readerCookie },
+        body: "state=finished",
+      })
+    );
+    expect(marked.status).toBe(303);
+    expect(marked.headers.get("location")).toContain(`/book/${emma.id}?notice=`);
+
+    const readerPage = await fetchHandler(new Request(`http://localhost/book/${emma.id}`, { headers: { cookie: readerCookie } }));
+    const readerBody = await readerPage.text();
+    expect(readerBody.includes('<span class="pill consumption-pill consumption-finished">Finished</span>')).toBe(true);
+    expect(readerBody.includes('<option value="finished" selected>')).toBe(true);
+
+    const otherPage = await fetchHandler(new Request(`http://localhost/book/${emma.id}`, { headers: { cookie: otherCookie } }));
+    expect((await otherPage.text()).includes('<span class="pill consumption-pill')).toBe(false);
+
+    db.close();
+  });
+
+  test("creates bookmarks with transcript excerpts, lists them on the book page, and exports markdown", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const settings = repo.ensureSettings();
+    repo.updateSettings({
+      ...settings,
+      auth: { ...settings.auth, mode: "plex" },
+      torznab: [],
+    });
+
+    const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+    const manifestation = repo.addManifestation({ bookId: book.id, kind: "audio" });
+    const transcriptPath = path.join(isolatedDataDir, "bookmark-transcript.json");
+    await writeFile(
+      transcriptPath,
+      JSON.stringify({
+        version: "1",
+        text: "I must not fear. Fear is the mind-killer.",
+        words: [
+          { startMs: 1_000, endMs: 1_400, text: "I", token: "i" },
+          { startMs: 1_400, endMs: 1_800, text: "must", token: "must" },
+          { startMs: 1_800, endMs: 2_200, text: "not", token: "not" },
+          { startMs: 2_200, endMs: 2_800, text: "fear.", token: "fear" },
+          { startMs: 40_000, endMs: 40_500, text: "Fear", token: "fear" },
+          { startMs: 40_500, endMs: 40_800, text: "is", token: "is" },
+          { startMs: 40_800, endMs: 41_000, text: "the", token: "the" },
+          { startMs: 41_000, endMs: 42_000, text: "mind-killer.", token: "mindkiller" },
+        ],
+      })
+    );
+    repo.upsertManifestationTranscript({
+      manifestationId: manifestation.id,
+      status: "succeeded",
+      source: "whisper_transcript",
+      algorithmVersion: "test",
+      fingerprint: "test",
+      transcriptPath,
+    });
+
+    const fetchHandler = createPodibleFetchHandler(repo, Date.now());
+    const readerCookie = createBrowserSessionCookie(repo, { username: "reader" });
+    const otherCookie = createBrowserSessionCookie(repo, { username: "other" });
+
+    const point = await rpc(fetchHandler, "bookmarks.create", { manifestationId: manifestation.id, positionMs: 900, note: "Litany" }, 1, {
+      cookie: readerCookie,
+    });
+    expect(point.result.bookmark.transcriptText).toBe("I must not fear.");
+    const clip = await rpc(
+      fetchHandler,
+      "bookmarks.create",
+      { manifestationId: manifestation.id, positionMs: 40_000, endMs: 40_900 },
+      2,
+      { cookie: readerCookie }
+    );
+    expect(clip.result.bookmark.transcriptText).toBe("Fear is the");
+
+    const invalidClip = await rpc(
+      fetchHandler,
+      "bookmarks.create",
+      { manifestationId: manifestation.id, positionMs: 5_000, endMs: 4_000 },
+      3,
+      { cookie: readerCookie }
+    );
+    expect(invalidClip.error.code).toBe(-32602);
+
+    const listed = await rpc(fetchHandler, "bookmarks.list", { bookId: book.id }, 4, { cookie: readerCookie });
+    expect(listed.result.items.map((item: any) => item.positionMs)).toEqual([900, 40_000]);
+    const otherListed = await rpc(fetchHandler, "bookmarks.list", { bookId: book.id }, 5, { cookie: otherCookie });
+    expect(otherListed.result.items).toEqual([]);
+
+    const exported = await rpc(fetchHandler, "bookmarks.exportMarkdown", { bookId: book.id }, 6, { cookie: readerCookie });
+    expect(exported.result.markdown).toContain("# Dune");
+    expect(exported.result.markdown).toContain("## 0:00\n\nLitany\n\n> I must not fear.");
+    expect(exported.result.markdown).toContain("## 0:40–0:40");
+
+    const page = await fetchHandler(new Request(`http://localhost/book/${book.id}`, { headers: { cookie: readerCookie } }));
+    const pageBody = await page.text();
+    expect(pageBody.includes("<h2>Bookmarks</h2>")).toBe(true);
+    expect(pageBody.includes("Litany")).toBe(true);
+    expect(pageBody.includes(`/book/${book.id}/bookmarks.md`)).toBe(true);
+
+    const markdown = await fetchHandler(
+      new Request(`http://localhost/book/${book.id}/bookmarks.md`, { headers: { cookie: readerCookie } })
+    );
+    expect(markdown.status).toBe(200);
+    expect(markdown.headers.get("content-type")).toContain("text/markdown");
+    expect(markdown.headers.get("content-disposition")).toContain("Dune bookmarks.md");
+    expect(await markdown.text()).toBe(exported.result.markdown);
+
+    const forbiddenDelete = await rpc(fetchHandler, "bookmarks.delete", { bookmarkId: point.result.bookmark.id }, 7, {
+      cookie: otherCookie,
+    });
+    expect(forbiddenDelete.error.data.error).toBe("not_found");
+
+    const deleted = await fetchHandler(
+      new Request(`http://localhost/book/${book.id}/bookmarks/${point.result.bookmark.id}/delete`, {
+        method: "POST",
+        headers: { cookie: readerCookie },
+      })
+    );
+    expect(deleted.status).toBe(303);
+    expect(repo.getBookmark(point.result.bookmark.id)).toBeNull();
+
+    db.close();
+  });
+
+  test("serves tokenized per-user feeds scoped to the token owner", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const settings = repo.ensureSettings();
+    repo.updateSettings({
+      ...settings,
+      auth: { ...settings.auth, mode: "plex" },
+      torznab: [],
+    });
+
+    const fetchHandler = createPodibleFetchHandler(repo, Date.now());
+    const readerCookie = createBrowserSessionCookie(repo, { username: "reader" });
+    const adminCookie = createBrowserSessionCookie(repo, { username: "admin", isAdmin: true });
+    const reader = repo.listUsers().find((user) => user.username === "reader")!;
+    const admin = repo.listUsers().find((user) => user.username === "admin")!;
+
+    const addPlayableBook = async (title: string, addedByUserId: number) => {
+      const book = repo.createBook({ title, author: "Frank Herbert", addedByUserId });
+      const manifestation = repo.addManifestation({ bookId: book.id, kind: "audio" });
+      const audioPath = path.join(isolatedDataDir, `feed-${title}.mp3`);
+      await writeFile(audioPath, "0123456789");
+      repo.addAsset({
+        bookId: book.id,
+        kind: "single",
+        mime: "audio/mpeg",
+        totalSize: 10,
+        durationMs: 1_000,
+        manifestationId: manifestation.id,
+        files: [{ path: audioPath, size: 10, start: 0, end: 9, durationMs: 1_000, title }],
+      });
+      return { book, manifestation };
+    };
+    const dune = await addPlayableBook("Dune", reader.id);
+    const messiah = await addPlayableBook("Dune Messiah", admin.id);
+    repo.setBookConsumption(reader.id, messiah.book.id, "finished");
+
+    const added = await rpc(fetchHandler, "feeds.createToken", { scope: "added", label: "Overcast" }, 1, { cookie: readerCookie });
+    expect(added.result.feedToken.scope).toBe("added");
+    const addedToken = added.result.token as string;
+    expect(added.result.rssUrl).toBe(`http://localhost/feed.xml?token=${addedToken}`);
+    const shelf = await rpc(fetchHandler, "feeds.createToken", { scope: "shelf" }, 2, { cookie: readerCookie });
+    const shelfToken = shelf.result.token as string;
+
+    const addedFeed = await fetchHandler(new Request(added.result.rssUrl));
+    expect(addedFeed.status).toBe(200);
+    const addedFeedBody = await addedFeed.text();
+    expect(addedFeedBody).toContain("<title>Dune</title>");
+    expect(addedFeedBody).not.toContain("Dune Messiah");
+    expect(addedFeedBody).toContain(`/stream/m/${dune.manifestation.id}.mp3?token=${addedToken}`);
+    expect(addedFeedBody).toContain(`/chapters/m/${dune.manifestation.id}.json?token=${addedToken}`);
+
+    const shelfFeed = await fetchHandler(new Request(`http://localhost/feed.json?token=${shelfToken}`));
+    const shelfFeedBody = (await shelfFeed.json()) as any;
+    expect(shelfFeedBody.items.map((item: any) => item.title)).toEqual(["Dune Messiah"]);
+    expect(shelfFeedBody.items[0].attachments[0].url).toContain(`?token=${shelfToken}`);
+
+    const stream = await fetchHandler(new Request(`http://localhost/stream/m/${dune.manifestation.id}.mp3?token=${addedToken}`));
+    expect(stream.status).toBe(200);
+    const outOfScope = await fetchHandler(
+      new Request(`http://localhost/stream/m/${messiah.manifestation.id}.mp3?token=${addedToken}`)
+    );
+    expect(outOfScope.status).toBe(404);
+    expect((await fetchHandler(new Request("http://localhost/feed.xml?token=bogus"))).status).toBe(401);
+    expect(repo.getFeedToken(added.result.feedToken.id)?.last_used_at).not.toBeNull();
+
+    const listed = await rpc(fetchHandler, "feeds.listTokens", {}, 3, { cookie: readerCookie });
+    expect(listed.result.items.map((item: any) => item.scope).sort()).toEqual(["added", "shelf"]);
+
+    const adminUsers = await fetchHandler(new Request("http://localhost/admin/users", { headers: { cookie: adminCookie } }));
+    const adminUsersBody = await adminUsers.text();
+    expect(adminUsersBody).toContain("Feed Tokens");
+    expect(adminUsersBody).toContain("Overcast");
+    expect(adminUsersBody).not.toContain(addedToken);
+
+    const revoked = await fetchHandler(
+      new Request(`http://localhost/admin/users/feed-tokens/${added.result.feedToken.id}/revoke`, {
+        method: "POST",
+        headers: { cookie: adminCookie },
+      })
+    );
+    expect(revoked.status).toBe(303);
+    expect((await fetchHandler(new Request(added.result.rssUrl))).status).toBe(401);
+
+    const otherRevoke = await rpc(fetchHandler, "feeds.revokeToken", { tokenId: shelf.result.feedToken.id }, 4, {
+      cookie: createBrowserSessionCookie(repo, { username: "other" }),
+    });
+    expect(otherRevoke.error.data.error).toBe("not_found");
+
+    db.close();
+  });
+
+  test("serves series, author, and single-book sub-feeds", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const settings = repo.ensureSettings();
+    repo.updateSettings({
+      ...settings,
+      auth: { ...settings.auth, mode: "plex" },
+      torznab: [],
+    });
+
+    const addBook = async (title: string, author: string, position: string | null, files: string[]) => {
+      const book = repo.createBook({ title, author });
+      if (position !== null) {
+        repo.updateBookMetadata(book.id, { series: [{ key: "OL1L", name: "Dune Chronicles", position }] });
+      }
+      const manifestation = repo.addManifestation({ bookId: book.id, kind: "audio" });
+      let cursor = 0;
+      const assetFiles = [];
+      for (const [index, contents] of files.entries()) {
+        const filePath = path.join(isolatedDataDir, `subfeed-${book.id}-${index}.mp3`);
+        await writeFile(filePath, contents);
+        assetFiles.push({
+          path: filePath,
+          size: contents.length,
+          start: cursor,
+          end: cursor + contents.length - 1,
+          durationMs: 1_000,
+          title: `Part ${index + 1}`,
+        });
+        cursor += contents.length;
+      }
+      repo.addAsset({
+        bookId: book.id,
+        kind: files.length > 1 ? "multi" : "single",
+        mime: "audio/mpeg",
+        totalSize: cursor,
+        durationMs: files.length * 1_000,
+        manifestationId: manifestation.id,
+        files: assetFiles,
+      });
+      return { book, manifestation };
+    };
+    const novella = await addBook("Hunters of Dune", "Frank Herbert", "2.5", ["novella"]);
+    const messiah = await addBook("Dune Messiah", "Frank Herbert", "2", ["messiah"]);
+    const dune = await addBook("Dune", "Frank Herbert", "1", ["PARTONE", "PARTTWO"]);
+    await addBook("Foundation", "Isaac Asimov", null, ["foundation"]);
+
+    const fetchHandler = createPodibleFetchHandler(repo, Date.now());
+    const cookie = createBrowserSessionCookie(repo, { username: "reader" });
+    const get = (url: string) => fetchHandler(new Request(url, { headers: { cookie } }));
+
+    const series = await get("http://localhost/feed/series/OL1L.xml");
+    expect(series.status).toBe(200);
+    const seriesBody = await series.text();
+    expect(seriesBody).toContain(": Dune Chronicles</title>");
+    expect(seriesBody).toContain("<itunes:type>serial</itunes:type>");
+    const seriesTitles = [...seriesBody.matchAll(/<item>\n<guid[^>]*>[^<]*<\/guid>\n<title>([^<]+)<\/title>/g)].map((match) => match[1]);
+    expect(seriesTitles).toEqual(["Dune", "Dune Messiah", "Hunters of Dune"]);
+    expect(seriesBody).toContain("<itunes:episode>2</itunes:episode>");
+    expect(seriesBody).toContain("<itunes:episodeType>bonus</itunes:episodeType>");
+    expect(seriesBody).not.toContain("Foundation");
+
+    const author = await get("http://localhost/feed/author/Isaac%20Asimov.xml");
+    const authorBody = await author.text();
+    expect(authorBody).toContain("<title>Foundation</title>");
+    expect(authorBody).not.toContain("Dune");
+
+    const single = await get(`http://localhost/feed/book/${dune.book.id}.xml`);
+    const singleBody = await single.text();
+    expect(singleBody).toContain("<title>Part 1</title>");
+    expect(singleBody).toContain("<title>Part 2</title>");
+    expect(singleBody).toContain(`/stream/m/${dune.manifestation.id}/episodes/2.mp3`);
+    expect(singleBody).not.toContain("podcast:chapters");
+
+    const episode = await get(`http://localhost/stream/m/${dune.manifestation.id}/episodes/2.mp3`);
+    expect(episode.status).toBe(200);
+    expect(await episode.text()).toBe("PARTTWO");
+
+    const wholeBook = await get(`http://localhost/feed/book/${messiah.book.id}.xml`);
+    expect(await wholeBook.text()).toContain(`/stream/m/${messiah.manifestation.id}.mp3`);
+
+    expect((await get("http://localhost/feed/series/missing.xml")).status).toBe(404);
+    expect((await get("http://localhost/feed/book/9999.xml")).status).toBe(404);
+    expect((await fetchHandler(new Request(`http://localhost/feed/book/${novella.book.id}.xml`))).status).toBe(401);
+
+    db.close();
+  });
+
+  test("negotiates manifestation chapter exports by extension or Accept", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const settings = repo.ensureSettings();
+    repo.updateSettings({
+      ...settings,
+      auth: { ...settings.auth, mode: "plex" },
+      torznab: [],
+    });
+
+    const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+    const manifestation = repo.addManifestation({ bookId: book.id, kind: "audio" });
+    repo.addAsset({
+      bookId: book.id,
+      kind: "multi",
+      mime: "audio/mpeg",
+      totalSize: 20,
+      durationMs: 65_000,
+      manifestationId: manifestation.id,
+      files: [
+        { path: path.join(isolatedDataDir, "01 - Book One.mp3"), size: 10, start: 0, end: 9, durationMs: 5_000, title: "Book One" },
+        { path: path.join(isolatedDataDir, "02 - Book Two.mp3"), size: 10, start: 10, end: 19, durationMs: 60_000, title: "Book Two" },
+      ],
+    });
+
+    const fetchHandler = createPodibleFetchHandler(repo, Date.now());
+    const cookie = createBrowserSessionCookie(repo, { username: "reader" });
+    const get = (suffix: string, accept?: string) =>
+      fetchHandler(
+        new Request(`http://localhost/chapters/m/${manifestation.id}${suffix}`, {
+          headers: { cookie, ...(accept ? { accept } : {}) },
+        })
+      );
+
+    const json = await get(".json");
+    expect(((await json.json()) as any).chapters).toEqual([
+      { startTime: 0, title: "Book One" },
+      { startTime: 5, title: "Book Two" },
+    ]);
+
+    const cue = await get(".cue");
+    expect(cue.headers.get("content-type")).toContain("application/x-cue");
+    const cueBody = await cue.text();
+    expect(cueBody).toContain('FILE "01 - Book One.mp3" MP3\n  TRACK 01 AUDIO\n    TITLE "Book One"');
+    expect(cueBody).toContain('FILE "02 - Book Two.mp3" MP3\n  TRACK 02 AUDIO\n    TITLE "Book Two"\n    PERFORMER "Frank Herbert"\n    INDEX 01 00:00:00');
+
+    const ffmetadata = await (await get(".ffmetadata")).text();
+    expect(ffmetadata).toContain("[CHAPTER]\nTIMEBASE=1/1000\nSTART=5000\nEND=65000\ntitle=Book Two");
+
+    const negotiated = await get("", "application/psc+xml, application/json;q=0.5");
+    expect(negotiated.headers.get("vary")).toBe("Accept");
+    expect(await negotiated.text()).toContain('<psc:chapter start="00:00:05.000" title="Book Two" />');
+    const fallback = await get("", "text/html");
+    expect(fallback.headers.get("content-type")).toContain("application/json");
+    const browser = await get("", "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8");
+    expect(browser.headers.get("content-type")).toContain("application/json");
+
+    expect(await (await get(".chpl")).text()).toBe("CHAPTER01=00:00:00.000\nCHAPTER01NAME=Book One\nCHAPTER02=00:00:05.000\nCHAPTER02NAME=Book Two\n");
+    expect((await get(".docx")).status).toBe(404);
+
+    db.close();
+  });
+
+  test("serves an OPDS catalog to e-readers using basic auth with a feed token", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const settings = repo.ensureSettings();
+    repo.updateSettings({
+      ...settings,
+      auth: { ...settings.auth, mode: "plex" },
+      torznab: [],
+    });
+
+    const addEbook = async (title: string, author: string, series: Array<{ key: string; name: string; position: string }> = []) => {
+      const book = repo.createBook({ title, author });
+      if (series.length > 0) {
+        repo.updateBookMetadata(book.id, { series });
+      }
+      const manifestation = repo.addManifestation({ bookId: book.id, kind: "ebook" });
+      const ebookPath = path.join(isolatedDataDir, `opds-${book.id}.epub`);
+      await writeFile(ebookPath, `${title} epub`);
+      const asset = repo.addAsset({
+        bookId: book.id,
+        kind: "single",
+        mime: "application/epub+zip",
+        totalSize: 10,
+        manifestationId: manifestation.id,
+        files: [{ path: ebookPath, size: 10, start: 0, end: 9, durationMs: 0, title: null }],
+      });
+      return { book, asset };
+    };
+    const dune = await addEbook("Dune", "Frank Herbert", [{ key: "OL1L", name: "Dune Chronicles", position: "1" }]);
+    await addEbook("Foundation", "Isaac Asimov");
+    repo.createBook({ title: "Audio Only", author: "Nobody" });
+
+    const fetchHandler = createPodibleFetchHandler(repo, Date.now());
+    const cookie = createBrowserSessionCookie(repo, { username: "reader" });
+    const created = await rpc(fetchHandler, "feeds.createToken", { scope: "all" }, 1, { cookie });
+    const basic = `Basic ${Buffer.from(`reader:${created.result.token}`).toString("base64")}`;
+    const get = (url: string, authorization = basic) => fetchHandler(new Request(url, { headers: { authorization } }));
+
+    const challenge = await fetchHandler(new Request("http://localhost/opds"));
+    expect(challenge.status).toBe(401);
+    expect(challenge.headers.get("www-authenticate")).toContain("Basic");
+    expect((await get("http://localhost/opds", `Basic ${Buffer.from("reader:wrong").toString("base64")}`)).status).toBe(401);
+
+    const root = await get("http://localhost/opds");
+    expect(root.status).toBe(200);
+    expect(root.headers.get("content-type")).toContain("kind=navigation");
+    const rootBody = await root.text();
+    expect(rootBody).toContain('href="http://localhost/opds/recent"');
+    expect(rootBody).toContain('href="http://localhost/opds/search.xml"');
+
+    const recentBody = await (await get("http://localhost/opds/recent")).text();
+    expect(recentBody).toContain("<title>Dune</title>");
+    expect(recentBody).toContain("<title>Foundation</title>");
+    expect(recentBody).not.toContain("Audio Only");
+    expect(recentBody).toContain(`<link rel="http://opds-spec.org/acquisition" href="http://localhost/ebook/${dune.asset.id}" type="application/epub+zip" />`);
+
+    const authorsBody = await (await get("http://localhost/opds/authors")).text();
+    expect(authorsBody).toContain('href="http://localhost/opds/authors/Isaac%20Asimov"');
+    const authorBody = await (await get("http://localhost/opds/authors/Isaac%20Asimov")).text();
+    expect(authorBody).toContain("<title>Foundation</title>");
+    expect(authorBody).not.toContain("<title>Dune</title>");
+
+    const seriesBody = await (await get("http://localhost/opds/series")).text();
+    expect(seriesBody).toContain("<title>Dune Chronicles</title>");
+    expect((await (await get("http://localhost/opds/series/OL1L")).text())).toContain("<title>Dune</title>");
+
+    const searchBody = await (await get("http://localhost/opds/search?q=asimov")).text();
+    expect(searchBody).toContain("<title>Foundation</title>");
+    expect(searchBody).not.toContain("<title>Dune</title>");
+    expect(await (await get("http://localhost/opds/search.xml")).text()).toContain(
+      'template="http://localhost/opds/search?q={searchTerms}"'
+    );
+
+    const v2 = (await (await get("http://localhost/opds/v2/recent")).json()) as any;
+    expect(v2.publications.map((publication: any) => publication.metadata.title).sort()).toEqual(["Dune", "Foundation"]);
+    expect(v2.publications.find((publication: any) => publication.metadata.title === "Dune").metadata.belongsTo.series).toEqual([
+      { name: "Dune Chronicles", position: 1 },
+    ]);
+
+    const download = await get(`http://localhost/ebook/${dune.asset.id}`);
+    expect(download.status).toBe(200);
+    expect(await download.text()).toBe("Dune epub");
+
+    const tokenized = await (await fetchHandler(new Request(`http://localhost/opds/recent?token=${created.result.token}`))).text();
+    expect(tokenized).toContain(`/ebook/${dune.asset.id}?token=${created.result.token}`);
+
+    db.close();
+  });
+
   test("surfaces user activity on home and keeps refresh in admin ops", async () => {
     const db = new Database(":memory:");
     runMigrations(db);
@@ -2016,6 +2509,36 @@ describe("podible http", () => {
     expect(payload.text).toBe("fear is the mind killer");
     expect(payload.words[0].text).toBe("fear");
 
+    const vtt = await fetchHandler(
+      new Request(`http://localhost/transcripts/m/${manifestation.id}.vtt`, {
+        headers: { cookie: userCookie },
+      })
+    );
+    expect(vtt.headers.get("content-type")).toContain("text/vtt");
+    expect(await vtt.text()).toBe("WEBVTT\n\n00:00:00.000 --> 00:00:00.500\nfear is\n");
+    const podcastJson = await fetchHandler(
+      new Request(`http://localhost/transcripts/m/${manifestation.id}.podcast.json`, {
+        headers: { cookie: userCookie },
+      })
+    );
+    expect(((await podcastJson.json()) as any).segments).toEqual([{ startTime: 0, endTime: 0.5, body: "fear is" }]);
+    const unknownFormat = await fetchHandler(
+      new Request(`http://localhost/transcripts/m/${manifestation.id}.docx`, {
+        headers: { cookie: userCookie },
+      })
+    );
+    expect(unknownFormat.status).toBe(404);
+
+    const feed = await fetchHandler(new Request("http://localhost/feed.xml", { headers: { cookie: userCookie } }));
+    const feedBody = await feed.text();
+    expect(feedBody).toContain(`<podcast:transcript url="http://localhost/transcripts/m/${manifestation.id}.vtt" type="text/vtt" />`);
+    expect(feedBody).toContain(`<podcast:transcript url="http://localhost/transcripts/m/${manifestation.id}.srt" type="application/x-subrip" />`);
+    const jsonFeed = (await (await fetchHandler(new Request("http://localhost/feed.json", { headers: { cookie: userCookie } }))).json()) as any;
+    expect(jsonFeed.items[0]._podcast.transcripts[1]).toEqual({
+      url: `http://localhost/transcripts/m/${manifestation.id}.podcast.json`,
+      type: "application/json",
+    });
+
     const missing = await fetchHandler(
       new Request("http://localhost/transcripts/m/999.json", {
         headers: { cookie: userCookie },
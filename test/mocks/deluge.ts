@@ -0,0 +1,143 @@
+import { randomUUID } from "node:crypto";
+
+import { infoHashFromTorrentBytes, normalizeInfoHash } from "../../src/library/torrent";
+
+type TorrentConfig = {
+  name: string;
+  savePath: string;
+  files?: Array<{ path: string; priority?: number }>;
+  sizeBytes: number;
+  completeAfterPolls: number;
+  ratio?: number;
+  seedingSeconds?: number;
+  errorMessage?: string;
+};
+
+type TorrentState = TorrentConfig & {
+  infoHash: string;
+  polls: number;
+};
+
+type MockDelugeOptions = {
+  password?: string;
+  byHash: Record<string, TorrentConfig>;
+  preloaded?: string[];
+};
+
+type MockDeluge = {
+  url: string;
+  logins: number;
+  connects: number;
+  added: Array<{ infoHash: string; options: Record<string, unknown> }>;
+  labels: Record<string, string>;
+  removed: Array<{ torrentId: string; removeData: boolean }>;
+  expireSessions: () => void;
+  stop: () => void;
+};
+
+// Speaks the Deluge web UI JSON-RPC calls Podible makes: password login with
+// a session cookie, daemon connection, and the core/label methods.
+export function startMockDeluge(options: MockDelugeOptions): MockDeluge {
+  const sessions = new Set<string>();
+  let daemonConnected = false;
+  const knownLabels = new Set<string>();
+  const states = new Map<string, TorrentState>();
+  for (const [rawHash, config] of Object.entries(options.byHash)) {
+    const hash = normalizeInfoHash(rawHash);
+    const preloaded = (options.preloaded ?? []).some((value) => normalizeInfoHash(value) === hash);
+    states.set(hash, { ...config, infoHash: hash, polls: preloaded ? config.completeAfterPolls : 0 });
+  }
+
+  const mock: MockDeluge = {
+    url: "",
+    logins: 0,
+    connects: 0,
+    added: [],
+    labels: {},
+    removed: [],
+    expireSessions: () => sessions.clear(),
+    stop: () => server.stop(),
+  };
+
+  function torrentStatus(state: TorrentState, keys: string[]): Record<string, unknown> {
+    const complete = state.polls >= state.completeAfterPolls;
+    const done = complete ? state.sizeBytes : Math.floor(state.sizeBytes / 2);
+    const files = state.files ?? [{ path: state.name }];
+    const all: Record<string, unknown> = {
+      name: state.name,
+      hash: state.infoHash,
+      state: state.errorMessage ? "Error" : complete ? "Seeding" : "Downloading",
+      message: state.errorMessage ?? "OK",
+      is_finished: complete,
+      total_wanted: state.sizeBytes,
+      total_done: done,
+      download_payload_rate: complete || state.errorMessage ? 0 : 10,
+      save_path: state.savePath,
+      files: files.map((file, index) => ({ index, path: file.path, size: 1, offset: 0 })),
+      file_priorities: files.map((file) => file.priority ?? 1),
+      ratio: state.ratio ?? -1,
+      seeding_time: complete ? (state.seedingSeconds ?? 0) : 0,
+    };
+    return Object.fromEntries(keys.map((key) => [key, all[key]]));
+  }
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request): Promise<Response> {
+      const body = (await request.json()) as { method: string; params: unknown[]; id: number };
+      const reply = (result: unknown, headers?: Record<string, string>) => Response.json({ result, error: null, id: body.id }, { headers });
+      const fail = (message: string, code: number) => Response.json({ result: null, error: { message, code }, id: body.id });
+
+      if (body.method === "auth.login") {
+        if (body.params[0] !== (options.password ?? "deluge")) return reply(false);
+        const sid = randomUUID();
+        sessions.add(sid);
+        mock.logins += 1;
+        return reply(true, { "Set-Cookie": `_session_id=${sid}; Path=/json` });
+      }
+
+      const sid = /_session_id=([^;]+)/.exec(request.headers.get("cookie") ?? "")?.[1];
+      if (!sid || !sessions.has(sid)) return fail("Not authenticated", 1);
+
+      if (body.method === "web.connected") return reply(daemonConnected);
+      if (body.method === "web.get_hosts") return reply([["host-1", "127.0.0.1", 58846, "Online"]]);
+      if (body.method === "web.connect") {
+        daemonConnected = body.params[0] === "host-1";
+        mock.connects += 1;
+        return reply([]);
+      }
+      if (!daemonConnected) return fail("Not connected to a daemon", 2);
+
+      if (body.method === "core.add_torrent_file") {
+        const bytes = new Uint8Array(Buffer.from(String(body.params[1] ?? ""), "base64"));
+        const infoHash = infoHashFromTorrentBytes(bytes);
+        mock.added.push({ infoHash, options: (body.params[2] ?? {}) as Record<string, unknown> });
+        return reply(infoHash);
+      }
+      if (body.method === "label.add") {
+        const label = String(body.params[0]);
+        if (knownLabels.has(label)) return fail("Label already exists", 4);
+        knownLabels.add(label);
+        return reply(null);
+      }
+      if (body.method === "label.set_torrent") {
+        mock.labels[String(body.params[0])] = String(body.params[1]);
+        return reply(null);
+      }
+      if (body.method === "core.get_torrent_status") {
+        const state = states.get(normalizeInfoHash(String(body.params[0] ?? "")));
+        if (!state) return reply({});
+        state.polls += 1;
+        return reply(torrentStatus(state, (body.params[1] ?? []) as string[]));
+      }
+      if (body.method === "core.remove_torrent") {
+        mock.removed.push({ torrentId: String(body.params[0]), removeData: body.params[1] === true });
+        return reply(true);
+      }
+      return fail(`Unknown method ${body.method}`, 2);
+    },
+  });
+
+  mock.url = `http://127.0.0.1:${server.port}/json`;
+  return mock;
+}
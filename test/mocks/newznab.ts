@@ -0,0 +1,65 @@
+import { randomUUID } from "node:crypto";
+
+type MockResult = {
+  title: string;
+  nzbId: string;
+  size: number;
+};
+
+type MockNewznabOptions = {
+  results: MockResult[];
+  nzbs: Record<string, string>;
+};
+
+type MockNewznab = {
+  baseUrl: string;
+  stop: () => void;
+};
+
+function rssItem(baseUrl: string, result: MockResult): string {
+  const nzbUrl = `${baseUrl}/getnzb/${encodeURIComponent(result.nzbId)}.nzb`;
+  return `<item>
+<title>${result.title}</title>
+<guid>${baseUrl}/details/${encodeURIComponent(result.nzbId)}</guid>
+<link>${nzbUrl}</link>
+<enclosure url="${nzbUrl}" length="${result.size}" type="application/x-nzb" />
+<newznab:attr name="size" value="${result.size}" />
+</item>`;
+}
+
+export function startMockNewznab(options: MockNewznabOptions): MockNewznab {
+  const id = randomUUID();
+  const server = Bun.serve({
+    port: 0,
+    fetch(request): Response {
+      const url = new URL(request.url);
+      if (url.pathname === "/api") {
+        const body: string = `<?xml version="1.0"?>
+<rss xmlns:newznab="http://www.newznab.com/DTD/2010/feeds/attributes/">
+  <channel>
+    ${options.results.map((result) => rssItem(url.origin, result)).join("\n")}
+  </channel>
+</rss>`;
+        return new Response(body, {
+          headers: { "Content-Type": "application/rss+xml" },
+        });
+      }
+
+      if (url.pathname.startsWith("/getnzb/")) {
+        const idPart = url.pathname.split("/")[2] ?? "";
+        const nzb = options.nzbs[decodeURIComponent(idPart.replace(/\.nzb$/i, ""))];
+        if (!nzb) return new Response("Not found", { status: 404 });
+        return new Response(nzb, {
+          headers: { "Content-Type": "application/x-nzb" },
+        });
+      }
+
+      return new Response(`Mock Newznab ${id}: not found`, { status: 404 });
+    },
+  });
+
+  return {
+    baseUrl: `http://127.0.0.1:${server.port}`,
+    stop: () => server.stop(),
+  };
+}
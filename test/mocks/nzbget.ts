@@ -0,0 +1,121 @@
+import { Buffer } from "node:buffer";
+
+type JobConfig = {
+  finalDir: string;
+  sizeBytes: number;
+  completeAfterPolls: number;
+  failStatus?: string;
+};
+
+type JobState = JobConfig & {
+  nzbId: number;
+  name: string;
+  category: string;
+  polls: number;
+  hidden: boolean;
+};
+
+type MockNzbgetOptions = {
+  username: string;
+  password: string;
+  byName: Record<string, JobConfig>;
+};
+
+type MockNzbget = {
+  url: string;
+  appended: Array<{ nzbId: number; filename: string; category: string; nzb: string }>;
+  edits: Array<{ command: string; ids: number[] }>;
+  stop: () => void;
+};
+
+// Speaks the NZBGet JSON-RPC methods Podible uses behind basic auth. Groups
+// leave the queue for history after `completeAfterPolls` listgroups calls.
+export function startMockNzbget(options: MockNzbgetOptions): MockNzbget {
+  const jobs = new Map<number, JobState>();
+  const expectedAuth = `Basic ${Buffer.from(`${options.username}:${options.password}`).toString("base64")}`;
+
+  const mock: MockNzbget = {
+    url: "",
+    appended: [],
+    edits: [],
+    stop: () => server.stop(),
+  };
+
+  const inQueue = (job: JobState) => job.polls < job.completeAfterPolls;
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request): Promise<Response> {
+      if (new URL(request.url).pathname !== "/jsonrpc") return new Response("Not found", { status: 404 });
+      if (request.headers.get("authorization") !== expectedAuth) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+      const body = (await request.json()) as { method: string; params: unknown[]; id: number };
+      const reply = (result: unknown) => Response.json({ version: "1.1", result, id: body.id });
+
+      if (body.method === "append") {
+        const filename = String(body.params[0] ?? "");
+        const name = filename.replace(/\.nzb$/i, "");
+        const config = options.byName[name];
+        if (!config) return reply(0);
+        const nzbId = mock.appended.length + 1;
+        const category = String(body.params[2] ?? "");
+        jobs.set(nzbId, { ...config, nzbId, name, category, polls: 0, hidden: false });
+        mock.appended.push({
+          nzbId,
+          filename,
+          category,
+          nzb: Buffer.from(String(body.params[1] ?? ""), "base64").toString("utf8"),
+        });
+        return reply(nzbId);
+      }
+      if (body.method === "listgroups") {
+        const groups = [...jobs.values()]
+          .map((job) => {
+            job.polls += 1;
+            return job;
+          })
+          .filter(inQueue)
+          .map((job) => ({
+            NZBID: job.nzbId,
+            NZBName: job.name,
+            Status: "DOWNLOADING",
+            FileSizeLo: job.sizeBytes,
+            FileSizeHi: 0,
+            RemainingSizeLo: Math.floor(job.sizeBytes / 2),
+            RemainingSizeHi: 0,
+          }));
+        return reply(groups);
+      }
+      if (body.method === "status") return reply({ DownloadRate: 65536 });
+      if (body.method === "history") {
+        const items = [...jobs.values()]
+          .filter((job) => !inQueue(job) && !job.hidden)
+          .map((job) => ({
+            NZBID: job.nzbId,
+            Name: job.name,
+            Status: job.failStatus ?? "SUCCESS/ALL",
+            FileSizeLo: job.sizeBytes,
+            FileSizeHi: 0,
+            DestDir: `${job.finalDir}.#${job.nzbId}`,
+            FinalDir: job.failStatus ? "" : job.finalDir,
+          }));
+        return reply(items);
+      }
+      if (body.method === "editqueue") {
+        const command = String(body.params[0] ?? "");
+        const ids = (body.params[2] ?? []) as number[];
+        mock.edits.push({ command, ids });
+        for (const id of ids) {
+          const job = jobs.get(id);
+          if (job) job.hidden = true;
+        }
+        return reply(true);
+      }
+      return Response.json({ version: "1.1", error: { name: "JSONRPCError", code: 1, message: "Invalid procedure" }, id: body.id });
+    },
+  });
+
+  mock.url = `http://127.0.0.1:${server.port}`;
+  return mock;
+}
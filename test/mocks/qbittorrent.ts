@@ -0,0 +1,167 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+
+import { infoHashFromTorrentBytes, normalizeInfoHash } from "../../src/library/torrent";
+
+type TorrentConfig = {
+  name: string;
+  savePath: string;
+  contentPath?: string;
+  files?: Array<{ name: string; priority?: number }>;
+  sizeBytes: number;
+  completeAfterPolls: number;
+  ratio?: number;
+  seedingSeconds?: number;
+  state?: string;
+};
+
+type TorrentState = TorrentConfig & {
+  infoHash: string;
+  polls: number;
+};
+
+type MockQbittorrentOptions = {
+  username?: string;
+  password?: string;
+  byHash: Record<string, TorrentConfig>;
+  preloaded?: string[];
+};
+
+type AddedTorrent = {
+  infoHash: string;
+  category: string | null;
+  savePath: string | null;
+};
+
+type MockQbittorrent = {
+  url: string;
+  logins: number;
+  added: AddedTorrent[];
+  categories: string[];
+  deleted: Array<{ hashes: string; deleteFiles: string | null }>;
+  expireSessions: () => void;
+  stop: () => void;
+};
+
+function json(value: unknown): Response {
+  return new Response(JSON.stringify(value), { headers: { "Content-Type": "application/json" } });
+}
+
+// Speaks the parts of the qBittorrent Web API v2 Podible uses, including the
+// SID cookie handshake, so session expiry and re-login can be exercised.
+export function startMockQbittorrent(options: MockQbittorrentOptions): MockQbittorrent {
+  const sessions = new Set<string>();
+  const states = new Map<string, TorrentState>();
+  const byHash = Object.fromEntries(
+    Object.entries(options.byHash).map(([hash, config]) => [normalizeInfoHash(hash), config])
+  );
+  for (const [hash, config] of Object.entries(byHash)) {
+    const preloaded = (options.preloaded ?? []).some((rawHash) => normalizeInfoHash(rawHash) === hash);
+    states.set(hash, { ...config, infoHash: hash, polls: preloaded ? config.completeAfterPolls : 0 });
+  }
+
+  const mock: MockQbittorrent = {
+    url: "",
+    logins: 0,
+    added: [],
+    categories: [],
+    deleted: [],
+    expireSessions: () => sessions.clear(),
+    stop: () => server.stop(),
+  };
+
+  function torrentInfo(state: TorrentState) {
+    const complete = state.polls >= state.completeAfterPolls;
+    const completed = complete ? state.sizeBytes : Math.floor(state.sizeBytes / 2);
+    return {
+      hash: state.infoHash,
+      name: state.name,
+      state: state.state ?? (complete ? "uploading" : "downloading"),
+      progress: completed / state.sizeBytes,
+      size: state.sizeBytes,
+      completed,
+      amount_left: state.sizeBytes - completed,
+      dlspeed: complete ? 0 : 10,
+      save_path: state.savePath,
+      content_path: state.contentPath ?? path.join(state.savePath, state.name),
+      ratio: state.ratio ?? 0,
+      seeding_time: complete ? (state.seedingSeconds ?? 0) : 0,
+    };
+  }
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request): Promise<Response> {
+      const url = new URL(request.url);
+      const endpoint = url.pathname.replace(/^\/api\/v2\//, "");
+
+      if (endpoint === "auth/login") {
+        const form = new URLSearchParams(await request.text());
+        if (form.get("username") !== (options.username ?? "") || form.get("password") !== (options.password ?? "")) {
+          return new Response("Fails.");
+        }
+        const sid = randomUUID();
+        sessions.add(sid);
+        mock.logins += 1;
+        return new Response("Ok.", { headers: { "Set-Cookie": `SID=${sid}; HttpOnly; path=/` } });
+      }
+
+      const sid = /SID=([^;]+)/.exec(request.headers.get("cookie") ?? "")?.[1];
+      if (!sid || !sessions.has(sid)) {
+        return new Response("Forbidden", { status: 403 });
+      }
+
+      if (endpoint === "torrents/createCategory") {
+        const form = new URLSearchParams(await request.text());
+        const category = form.get("category") ?? "";
+        if (mock.categories.includes(category)) return new Response("", { status: 409 });
+        mock.categories.push(category);
+        return new Response("");
+      }
+
+      if (endpoint === "torrents/add") {
+        const form = await request.formData();
+        const file = form.get("torrents");
+        if (!(file instanceof Blob)) return new Response("Fails.");
+        const infoHash = infoHashFromTorrentBytes(new Uint8Array(await file.arrayBuffer()));
+        const field = (name: string) => {
+          const value = form.get(name);
+          return typeof value === "string" ? value : null;
+        };
+        mock.added.push({ infoHash, category: field("category"), savePath: field("savepath") });
+        return new Response("Ok.");
+      }
+
+      if (endpoint === "torrents/info") {
+        const hashes = (url.searchParams.get("hashes") ?? "").split("|").map((hash) => normalizeInfoHash(hash));
+        const rows = hashes.flatMap((hash) => {
+          const state = states.get(hash);
+          if (!state) return [];
+          state.polls += 1;
+          return [torrentInfo(state)];
+        });
+        return json(rows);
+      }
+
+      if (endpoint === "torrents/files") {
+        const state = states.get(normalizeInfoHash(url.searchParams.get("hash") ?? ""));
+        if (!state) return new Response("Not Found", { status: 404 });
+        return json(
+          (state.files ?? [{ name: state.name }]).map((file, index) => ({ index, name: file.name, priority: file.priority ?? 1 }))
+        );
+      }
+
+      if (endpoint === "torrents/delete") {
+        const form = new URLSearchParams(await request.text());
+        mock.deleted.push({ hashes: form.get("hashes") ?? "", deleteFiles: form.get("deleteFiles") });
+        for (const hash of (form.get("hashes") ?? "").split("|")) states.delete(normalizeInfoHash(hash));
+        return new Response("");
+      }
+
+      return new Response("Not Found", { status: 404 });
+    },
+  });
+
+  mock.url = `http://127.0.0.1:${server.port}`;
+  return mock;
+}
@@ -10,6 +10,8 @@ type DownloadConfig = {
   filePaths?: string[];
   sizeBytes: number;
   completeAfterPolls: number;
+  ratio?: number;
+  finishedAt?: number;
 };
 
 type DownloadState = DownloadConfig & {
@@ -25,6 +27,7 @@ type MockRtorrentOptions = {
 
 type MockRtorrent = {
   url: string;
+  erased: string[];
   stop: () => void;
 };
 
@@ -80,6 +83,8 @@ export function startMockRtorrent(options: MockRtorrentOptions): MockRtorrent {
     });
   }
 
+  const erased: string[] = [];
+
   const server = Bun.serve({
     port: 0,
     async fetch(request) {
@@ -160,6 +165,17 @@ export function startMockRtorrent(options: MockRtorrentOptions): MockRtorrent {
           headers: { "Content-Type": "text/xml" },
         });
       }
+      if (method === "d.ratio") {
+        return new Response(xmlResponseInt(Math.round((state.ratio ?? 0) * 1000)), { headers: { "Content-Type": "text/xml" } });
+      }
+      if (method === "d.timestamp.finished") {
+        return new Response(xmlResponseInt(state.finishedAt ?? 0), { headers: { "Content-Type": "text/xml" } });
+      }
+      if (method === "d.erase") {
+        states.delete(hash);
+        erased.push(hash);
+        return new Response(xmlResponseInt(0), { headers: { "Content-Type": "text/xml" } });
+      }
       if (method === "d.message") {
         return new Response(xmlResponseString(""), { headers: { "Content-Type": "text/xml" } });
       }
@@ -172,6 +188,7 @@ export function startMockRtorrent(options: MockRtorrentOptions): MockRtorrent {
 
   return {
     url: `http://127.0.0.1:${server.port}`,
+    erased,
     stop: () => server.stop(),
   };
 }
@@ -0,0 +1,118 @@
+type JobConfig = {
+  storage: string;
+  sizeBytes: number;
+  completeAfterPolls: number;
+  postProcessingPolls?: number;
+  failMessage?: string;
+};
+
+type JobState = JobConfig & {
+  nzoId: string;
+  name: string;
+  polls: number;
+};
+
+type MockSabnzbdOptions = {
+  apiKey: string;
+  byName: Record<string, JobConfig>;
+};
+
+type MockSabnzbd = {
+  url: string;
+  added: Array<{ nzoId: string; name: string; category: string | null; nzb: string }>;
+  deleted: Array<{ mode: string; nzoId: string; delFiles: string | null }>;
+  stop: () => void;
+};
+
+// Speaks the SABnzbd API modes Podible uses: addfile, queue, history and
+// their delete variants. Jobs move from the queue to history after
+// `completeAfterPolls` queue lookups, optionally via a post-processing stage.
+export function startMockSabnzbd(options: MockSabnzbdOptions): MockSabnzbd {
+  const jobs = new Map<string, JobState>();
+
+  const mock: MockSabnzbd = {
+    url: "",
+    added: [],
+    deleted: [],
+    stop: () => server.stop(),
+  };
+
+  function historyStatus(job: JobState): string | null {
+    const finishedAt = job.completeAfterPolls + (job.postProcessingPolls ?? 0);
+    if (job.polls < job.completeAfterPolls) return null;
+    if (job.polls < finishedAt) return "Extracting";
+    return job.failMessage ? "Failed" : "Completed";
+  }
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request): Promise<Response> {
+      const url = new URL(request.url);
+      if (url.pathname !== "/api") return new Response("Not found", { status: 404 });
+      if (url.searchParams.get("apikey") !== options.apiKey) {
+        return Response.json({ status: false, error: "API Key Incorrect" });
+      }
+      const mode = url.searchParams.get("mode");
+
+      if (mode === "addfile") {
+        const form = await request.formData();
+        const file = form.get("name");
+        const name = url.searchParams.get("nzbname") ?? "";
+        const config = options.byName[name];
+        if (!(file instanceof Blob) || !config) {
+          return Response.json({ status: false, nzo_ids: [] });
+        }
+        const nzoId = `SABnzbd_nzo_${mock.added.length + 1}`;
+        jobs.set(nzoId, { ...config, nzoId, name, polls: 0 });
+        mock.added.push({ nzoId, name, category: url.searchParams.get("cat"), nzb: await file.text() });
+        return Response.json({ status: true, nzo_ids: [nzoId] });
+      }
+
+      const nzoId = url.searchParams.get("nzo_ids") ?? url.searchParams.get("value") ?? "";
+      const job = jobs.get(nzoId);
+
+      if ((mode === "queue" || mode === "history") && url.searchParams.get("name") === "delete") {
+        mock.deleted.push({ mode, nzoId, delFiles: url.searchParams.get("del_files") });
+        jobs.delete(nzoId);
+        return Response.json({ status: true, nzo_ids: [nzoId] });
+      }
+      if (mode === "queue") {
+        if (job) job.polls += 1;
+        const queued = job && historyStatus(job) === null;
+        const slots = queued
+          ? [
+              {
+                nzo_id: job.nzoId,
+                filename: job.name,
+                status: "Downloading",
+                mb: (job.sizeBytes / 1024 / 1024).toFixed(2),
+                mbleft: (job.sizeBytes / 2 / 1024 / 1024).toFixed(2),
+              },
+            ]
+          : [];
+        return Response.json({ queue: { kbpersec: queued ? "64.00" : "0.00", slots } });
+      }
+      if (mode === "history") {
+        const status = job ? historyStatus(job) : null;
+        const slots =
+          job && status
+            ? [
+                {
+                  nzo_id: job.nzoId,
+                  name: job.name,
+                  status,
+                  storage: status === "Completed" ? job.storage : null,
+                  bytes: job.sizeBytes,
+                  fail_message: status === "Failed" ? job.failMessage : "",
+                },
+              ]
+            : [];
+        return Response.json({ history: { slots } });
+      }
+      return Response.json({ status: false, error: "Not implemented" });
+    },
+  });
+
+  mock.url = `http://127.0.0.1:${server.port}`;
+  return mock;
+}
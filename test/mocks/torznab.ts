@@ -10,10 +10,13 @@ type MockResult = {
 type MockTorznabOptions = {
   results: MockResult[];
   torrents: Record<string, Uint8Array>;
+  caps?: string;
 };
 
 type MockTorznab = {
   baseUrl: string;
+  searches: Array<Record<string, string>>;
+  setFailing: (failing: boolean) => void;
   stop: () => void;
 };
 
@@ -33,11 +36,20 @@ ${attrs}
 
 export function startMockTorznab(options: MockTorznabOptions): MockTorznab {
   const id = randomUUID();
+  const searches: Array<Record<string, string>> = [];
+  let failing = false;
   const server = Bun.serve({
     port: 0,
     fetch(request): Response {
       const url = new URL(request.url);
+      if (url.pathname === "/api" && url.searchParams.get("t") === "caps") {
+        if (!options.caps) return new Response("Not found", { status: 404 });
+        return new Response(options.caps, { headers: { "Content-Type": "application/xml" } });
+      }
+
       if (url.pathname === "/api") {
+        searches.push(Object.fromEntries(url.searchParams));
+        if (failing) return new Response("Indexer unavailable", { status: 503 });
         const body: string = `<?xml version="1.0"?>
 <rss xmlns:torznab="http://torznab.com/schemas/2015/feed">
   <channel>
@@ -65,6 +77,10 @@ export function startMockTorznab(options: MockTorznabOptions): MockTorznab {
 
   return {
     baseUrl: `http://127.0.0.1:${server.port}`,
+    searches,
+    setFailing: (next) => {
+      failing = next;
+    },
     stop: () => server.stop(),
   };
 }
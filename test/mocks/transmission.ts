@@ -0,0 +1,117 @@
+import { randomUUID } from "node:crypto";
+
+import { infoHashFromTorrentBytes, normalizeInfoHash } from "../../src/library/torrent";
+
+type TorrentConfig = {
+  name: string;
+  downloadDir: string;
+  files?: Array<{ name: string; wanted?: boolean }>;
+  sizeBytes: number;
+  completeAfterPolls: number;
+  ratio?: number;
+  seedingSeconds?: number;
+  errorString?: string;
+};
+
+type TorrentState = TorrentConfig & {
+  infoHash: string;
+  polls: number;
+};
+
+type MockTransmissionOptions = {
+  byHash: Record<string, TorrentConfig>;
+  preloaded?: string[];
+};
+
+type MockTransmission = {
+  url: string;
+  handshakes: number;
+  added: Array<{ infoHash: string; downloadDir: string | null }>;
+  removed: Array<{ ids: string[]; deleteLocalData: boolean }>;
+  rotateSession: () => void;
+  stop: () => void;
+};
+
+// Speaks the Transmission RPC calls Podible makes, including the 409
+// X-Transmission-Session-Id handshake.
+export function startMockTransmission(options: MockTransmissionOptions): MockTransmission {
+  let sessionId = randomUUID();
+  const states = new Map<string, TorrentState>();
+  for (const [rawHash, config] of Object.entries(options.byHash)) {
+    const hash = normalizeInfoHash(rawHash);
+    const preloaded = (options.preloaded ?? []).some((value) => normalizeInfoHash(value) === hash);
+    states.set(hash, { ...config, infoHash: hash, polls: preloaded ? config.completeAfterPolls : 0 });
+  }
+
+  const mock: MockTransmission = {
+    url: "",
+    handshakes: 0,
+    added: [],
+    removed: [],
+    rotateSession: () => {
+      sessionId = randomUUID();
+    },
+    stop: () => server.stop(),
+  };
+
+  function torrentFields(state: TorrentState, fields: string[]): Record<string, unknown> {
+    const complete = state.polls >= state.completeAfterPolls;
+    const left = complete ? 0 : state.sizeBytes - Math.floor(state.sizeBytes / 2);
+    const files = state.files ?? [{ name: state.name }];
+    const all: Record<string, unknown> = {
+      name: state.name,
+      hashString: state.infoHash,
+      status: state.errorString ? 0 : complete ? 6 : 4,
+      error: state.errorString ? 3 : 0,
+      errorString: state.errorString ?? "",
+      sizeWhenDone: state.sizeBytes,
+      leftUntilDone: left,
+      rateDownload: complete || state.errorString ? 0 : 10,
+      downloadDir: state.downloadDir,
+      files: files.map((file) => ({ name: file.name, length: 1, bytesCompleted: 1 })),
+      wanted: files.map((file) => (file.wanted === false ? 0 : 1)),
+      uploadRatio: state.ratio ?? -1,
+      secondsSeeding: complete ? (state.seedingSeconds ?? 0) : 0,
+    };
+    return Object.fromEntries(fields.map((field) => [field, all[field]]));
+  }
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request): Promise<Response> {
+      if (request.headers.get("x-transmission-session-id") !== sessionId) {
+        mock.handshakes += 1;
+        return new Response("Conflict", { status: 409, headers: { "X-Transmission-Session-Id": sessionId } });
+      }
+      const body = (await request.json()) as { method: string; arguments: Record<string, unknown> };
+      const args = body.arguments ?? {};
+      const ok = (value: Record<string, unknown> = {}) => Response.json({ result: "success", arguments: value });
+
+      if (body.method === "torrent-add") {
+        const bytes = new Uint8Array(Buffer.from(String(args.metainfo ?? ""), "base64"));
+        const infoHash = infoHashFromTorrentBytes(bytes);
+        mock.added.push({ infoHash, downloadDir: typeof args["download-dir"] === "string" ? args["download-dir"] : null });
+        return ok({ "torrent-added": { hashString: infoHash, id: mock.added.length, name: "added" } });
+      }
+      if (body.method === "torrent-get") {
+        const ids = Array.isArray(args.ids) ? (args.ids as string[]) : [];
+        const fields = Array.isArray(args.fields) ? (args.fields as string[]) : [];
+        const torrents = ids.flatMap((id) => {
+          const state = states.get(normalizeInfoHash(id));
+          if (!state) return [];
+          state.polls += 1;
+          return [torrentFields(state, fields)];
+        });
+        return ok({ torrents });
+      }
+      if (body.method === "torrent-remove") {
+        mock.removed.push({ ids: args.ids as string[], deleteLocalData: args["delete-local-data"] === true });
+        return ok();
+      }
+      return Response.json({ result: `method name not recognized: ${body.method}` });
+    },
+  });
+
+  mock.url = `http://127.0.0.1:${server.port}/transmission/rpc`;
+  return mock;
+}
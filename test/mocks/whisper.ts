@@ -0,0 +1,58 @@
+type MockTranscriptionRequest = {
+  path: string;
+  authorization: string | null;
+  model: string | null;
+  responseFormat: string | null;
+  language: string | null;
+  prompt: string | null;
+  fileName: string | null;
+  fileSize: number;
+};
+
+type MockWhisperOptions = {
+  response: Record<string, unknown>;
+};
+
+type MockWhisper = {
+  baseUrl: string;
+  requests: MockTranscriptionRequest[];
+  stop: () => void;
+};
+
+// Speaks just enough of the OpenAI `/v1/audio/transcriptions` API to stand in
+// for a whisper.cpp or faster-whisper server.
+export function startMockWhisper(options: MockWhisperOptions): MockWhisper {
+  const requests: MockTranscriptionRequest[] = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request): Promise<Response> {
+      const url = new URL(request.url);
+      if (request.method !== "POST" || url.pathname !== "/v1/audio/transcriptions") {
+        return new Response("Not found", { status: 404 });
+      }
+      const form = await request.formData();
+      const file = form.get("file");
+      const field = (name: string) => {
+        const value = form.get(name);
+        return typeof value === "string" ? value : null;
+      };
+      requests.push({
+        path: url.pathname,
+        authorization: request.headers.get("authorization"),
+        model: field("model"),
+        responseFormat: field("response_format"),
+        language: field("language"),
+        prompt: field("prompt"),
+        fileName: file instanceof File ? file.name : null,
+        fileSize: file instanceof File ? file.size : 0,
+      });
+      return Response.json(options.response);
+    },
+  });
+
+  return {
+    baseUrl: `http://127.0.0.1:${server.port}/v1`,
+    requests,
+    stop: () => server.stop(),
+  };
+}
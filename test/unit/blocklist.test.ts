@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+
+import { runMigrations } from "../../src/db";
+import { selectSearchCandidates } from "../../src/library/agents";
+import { blocklistRelease, findBlocklistEntry } from "../../src/library/blocklist";
+import { runSearch } from "../../src/library/service";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings } from "../../src/settings";
+import { startMockTorznab } from "../mocks/torznab";
+
+const DUNE_HASH = "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+
+function createRepo() {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  return { db, repo: new BooksRepo(db) };
+}
+
+describe("release blocklist", () => {
+  test("entries match by info hash, guid or wildcard title and apply globally or to one book", () => {
+    const { db, repo } = createRepo();
+    const dune = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+    const emma = repo.createBook({ title: "Emma", author: "Jane Austen" });
+    const global = repo.createBlocklistEntry({ titlePattern: "dune*sample", source: "manual" });
+    const byHash = repo.createBlocklistEntry({ bookId: dune.id, infoHash: ` ${DUNE_HASH.toUpperCase()} `, source: "manual" });
+    repo.createBlocklistEntry({ bookId: emma.id, guid: "emma-guid", source: "manual" });
+
+    expect(byHash.info_hash).toBe(DUNE_HASH);
+    expect(repo.createBlocklistEntry({ bookId: dune.id, infoHash: DUNE_HASH, source: "import_failed" }).id).toBe(byHash.id);
+    expect(() => repo.createBlocklistEntry({ guid: "  ", source: "manual" })).toThrow();
+
+    const duneEntries = repo.listBlocklistForBook(dune.id);
+    expect(duneEntries.map((entry) => entry.id)).toEqual([global.id, byHash.id]);
+    expect(repo.listBlocklistForBook(null).map((entry) => entry.id)).toEqual([global.id]);
+    expect(repo.listBlocklist()).toHaveLength(3);
+
+    const candidate = { title: "Dune Frank Herbert m4b", guid: "emma-guid", infoHash: null };
+    expect(findBlocklistEntry(duneEntries, candidate)).toBeNull();
+    expect(findBlocklistEntry(duneEntries, { ...candidate, infoHash: DUNE_HASH.toUpperCase() })?.id).toBe(byHash.id);
+    expect(findBlocklistEntry(duneEntries, { ...candidate, title: "DUNE (Sample Chapter) mp3" })?.id).toBe(global.id);
+    expect(findBlocklistEntry(repo.listBlocklistForBook(emma.id), candidate)?.guid).toBe("emma-guid");
+
+    expect(repo.deleteBlocklistEntry(global.id)).toBe(true);
+    expect(repo.deleteBlocklistEntry(global.id)).toBe(false);
+    db.close();
+  });
+
+  test("failed releases are blocklisted for their book by hash, then guid, then title", () => {
+    const { db, repo } = createRepo();
+    const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+    const torrent = repo.createRelease({
+      bookId: book.id,
+      provider: "mock",
+      providerGuid: "dune-guid",
+      title: "Dune m4b",
+      mediaType: "audio",
+      infoHash: DUNE_HASH,
+      url: "https://example.com/dune.torrent",
+    });
+    const nzb = repo.createRelease({
+      bookId: book.id,
+      provider: "mock",
+      title: "Dune [epub]",
+      mediaType: "ebook",
+      protocol: "usenet",
+      url: "https://example.com/dune.nzb",
+    });
+
+    expect(blocklistRelease(repo, torrent, "import_failed", "bad archive")).toMatchObject({
+      book_id: book.id,
+      info_hash: DUNE_HASH,
+      guid: null,
+      source: "import_failed",
+      reason: "bad archive",
+      release_id: torrent.id,
+    });
+    expect(blocklistRelease(repo, nzb, "user_report", null)).toMatchObject({ title_pattern: "^Dune [epub]$", info_hash: null });
+    db.close();
+  });
+
+  test("a release blocklisted by title matches only that exact title", () => {
+    const { db, repo } = createRepo();
+    const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+    const release = repo.createRelease({
+      bookId: book.id,
+      provider: "mock",
+      title: "Dune *Unabridged* m4b",
+      mediaType: "audio",
+      protocol: "usenet",
+      url: "https://example.com/dune.nzb",
+    });
+    const entry = blocklistRelease(repo, release, "import_failed", null);
+    const entries = repo.listBlocklistForBook(book.id);
+    const candidate = { title: "dune *unabridged* M4B", guid: null, infoHash: null };
+
+    expect(findBlocklistEntry(entries, candidate)?.id).toBe(entry.id);
+    expect(findBlocklistEntry(entries, { ...candidate, title: "Dune *Unabridged* m4b (retail)" })).toBeNull();
+    expect(findBlocklistEntry(entries, { ...candidate, title: "Children of Dune *Unabridged* m4b" })).toBeNull();
+    expect(findBlocklistEntry(entries, { ...candidate, title: "Dune (Unabridged) m4b" })).toBeNull();
+    db.close();
+  });
+
+  test("searches and search selection skip blocklisted releases", async () => {
+    const { db, repo } = createRepo();
+    const torznab = startMockTorznab({
+      results: [
+        { title: "Dune Frank Herbert m4b", torrentId: "dune-m4b", size: 100, infoHash: DUNE_HASH },
+        { title: "Dune Frank Herbert mp3", torrentId: "dune-mp3", size: 100 },
+      ],
+      torrents: {},
+    });
+    try {
+      const settings = defaultSettings({ auth: { mode: "plex" }, torznab: [{ name: "mock", baseUrl: torznab.baseUrl }] });
+      repo.updateSettings(settings);
+      const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+      repo.createBlocklistEntry({ bookId: book.id, infoHash: DUNE_HASH, source: "user_report" });
+      const request = { query: "Dune Frank Herbert", media: "audio" as const };
+
+      const unscoped = await runSearch(settings, request, { repo });
+      expect(unscoped.map((result) => result.title)).toEqual(["Dune Frank Herbert m4b", "Dune Frank Herbert mp3"]);
+      const scoped = await runSearch(settings, request, { repo, bookId: book.id });
+      expect(scoped.map((result) => result.title)).toEqual(["Dune Frank Herbert mp3"]);
+
+      repo.createBlocklistEntry({ titlePattern: "herbert mp3", source: "manual" });
+      expect(await runSearch(settings, request, { repo })).toHaveLength(1);
+
+      // Results handed over from elsewhere (like RSS matches) are filtered before selection.
+      const decision = await selectSearchCandidates(
+        settings,
+        { ...request, results: unscoped, book: { id: book.id, title: book.title, author: book.author } },
+        { repo }
+      );
+      expect(decision.selections).toEqual([]);
+    } finally {
+      torznab.stop();
+      db.close();
+    }
+  });
+});
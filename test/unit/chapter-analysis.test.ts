@@ -9,6 +9,7 @@ import JSZip from "jszip";
 import { runMigrations } from "../../src/db";
 import {
   buildChunkPlan,
+  currentManifestationFingerprint,
   extractGlossaryTerms,
   getBookTranscriptStatus,
   loadEpubEntries,
@@ -558,16 +559,16 @@ describe("chapter analysis", () => {
         files: [{ path: audioPath, size: 16, start: 0, end: 15, durationMs: 1000, title: null }],
       });
 
-      const beforeApi = await getBookTranscriptStatus(repo, book.id, { apiKeyConfigured: false });
+      const beforeApi = await getBookTranscriptStatus(repo, book.id, { transcriptionConfigured: false });
       expect(beforeApi.status).toBe("missing_config");
       expect(beforeApi.jobId).toBeNull();
 
-      const first = await requestBookTranscription(repo, book.id, { apiKeyConfigured: true });
+      const first = await requestBookTranscription(repo, book.id, { transcriptionConfigured: true });
       expect(first.status).toBe("pending");
       expect(first.jobId).not.toBeNull();
       expect(repo.listJobsByType("chapter_analysis").length).toBe(1);
 
-      const second = await requestBookTranscription(repo, book.id, { apiKeyConfigured: true });
+      const second = await requestBookTranscription(repo, book.id, { transcriptionConfigured: true });
       expect(second.status).toBe("pending");
       expect(second.jobId).toBe(first.jobId);
       expect(repo.listJobsByType("chapter_analysis").length).toBe(1);
@@ -577,6 +578,47 @@ describe("chapter analysis", () => {
     }
   });
 
+  test("a transcript goes stale when the transcription provider or model changes", async () => {
+    const root = await mkdtemp(path.join(os.tmpdir(), "podible-transcript-model-"));
+    const { db, repo } = setupRepo();
+    try {
+      const audioPath = path.join(root, "audio.mp3");
+      await writeFile(audioPath, "fake audio bytes");
+      const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+      const manifestation = repo.addManifestation({ bookId: book.id, kind: "audio" });
+      repo.addAsset({
+        bookId: book.id,
+        kind: "single",
+        mime: "audio/mpeg",
+        totalSize: 16,
+        durationMs: 1000,
+        manifestationId: manifestation.id,
+        files: [{ path: audioPath, size: 16, start: 0, end: 15, durationMs: 1000, title: null }],
+      });
+      repo.upsertChapterAnalysis({
+        manifestationId: manifestation.id,
+        status: "succeeded",
+        source: "whisper_transcript",
+        algorithmVersion: "test",
+        fingerprint: (await currentManifestationFingerprint(repo, manifestation.id))!,
+      });
+      const status = async () => (await getBookTranscriptStatus(repo, book.id, { transcriptionConfigured: true })).status;
+      expect(await status()).toBe("current");
+
+      repo.updateSettings(defaultSettings({ transcription: { model: "gpt-4o-transcribe" } }));
+      expect(await status()).toBe("stale");
+
+      repo.updateSettings(defaultSettings({ transcription: { provider: "openai-compatible", baseUrl: "http://whisper.local" } }));
+      expect(await status()).toBe("stale");
+
+      repo.updateSettings(defaultSettings());
+      expect(await status()).toBe("current");
+    } finally {
+      db.close();
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
   test("runs agentic curation after transcription and stores chapters_json when epub is present", async () => {
     const root = await mkdtemp(path.join(os.tmpdir(), "podible-curation-wiring-"));
     const { db, repo } = setupRepo();
@@ -841,7 +883,7 @@ describe("chapter analysis", () => {
     const { db, repo } = setupRepo();
     try {
       const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
-      const result = await requestBookTranscription(repo, book.id, { apiKeyConfigured: true });
+      const result = await requestBookTranscription(repo, book.id, { transcriptionConfigured: true });
       expect(result.status).toBe("missing_audio");
       expect(result.jobId).toBeNull();
       expect(repo.listJobsByType("chapter_analysis").length).toBe(0);
@@ -87,6 +87,8 @@ function manifestation(overrides: Partial<ManifestationRow> = {}): Manifestation
     duration_ms: 120_000,
     total_size: 1000,
     preferred_score: 0,
+    replaces_manifestation_id: null,
+    superseded_at: null,
     created_at: "2026-01-01T00:00:00.000Z",
     updated_at: "2026-01-01T00:00:00.000Z",
     ...overrides,
@@ -105,6 +107,7 @@ function asset(overrides: Partial<AssetRow> = {}): AssetRow {
     manifestation_id: 10,
     sequence_in_manifestation: 0,
     import_note: null,
+    embedded_tags_json: null,
     created_at: "2026-01-01T00:00:00.000Z",
     updated_at: "2026-01-01T00:00:00.000Z",
     ...overrides,
@@ -122,6 +125,7 @@ function file(overrides: Partial<AssetFileRow> = {}): AssetFileRow {
     start: 0,
     end: 999,
     title: null,
+    import_mode: null,
     updated_at: "2026-01-01T00:00:00.000Z",
     ...overrides,
   };
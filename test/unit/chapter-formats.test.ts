@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  chapterFormatForAccept,
+  chapterFormatForSuffix,
+  renderCueSheet,
+  renderFfmetadata,
+  renderNeroChapters,
+  renderPodloveSimpleChapters,
+  type ChapterExport,
+} from "../../src/library/chapter-formats";
+
+const chapters: ChapterExport = {
+  title: "Dune; Part = One",
+  author: "Frank Herbert",
+  timings: [
+    { id: "c0", title: "Prologue", startMs: 0, endMs: 90_500 },
+    { id: "c1", title: 'The "Gom Jabbar"', startMs: 90_500, endMs: 3_725_040 },
+    { id: "c2", title: "Arrakis & After", startMs: 3_725_040, endMs: 4_000_000 },
+  ],
+  files: [
+    { path: "/books/dune/part-1.mp3", mime: "audio/mpeg", startMs: 0, durationMs: 3_725_040 },
+    { path: "/books/dune/part-2.mp3", mime: "audio/mpeg", startMs: 3_725_040, durationMs: 274_960 },
+  ],
+};
+
+describe("chapter formats", () => {
+  test("renders ffmetadata chapters with escaped values", () => {
+    const rendered = renderFfmetadata(chapters);
+    expect(rendered.startsWith(";FFMETADATA1\ntitle=Dune\\; Part \\= One\nartist=Frank Herbert\n")).toBe(true);
+    expect(rendered).toContain("[CHAPTER]\nTIMEBASE=1/1000\nSTART=90500\nEND=3725040\ntitle=The \"Gom Jabbar\"\n");
+  });
+
+  test("renders CUE tracks relative to the file each chapter starts in", () => {
+    expect(renderCueSheet(chapters)).toBe(
+      [
+        'PERFORMER "Frank Herbert"',
+        'TITLE "Dune; Part = One"',
+        'FILE "part-1.mp3" MP3',
+        "  TRACK 01 AUDIO",
+        '    TITLE "Prologue"',
+        '    PERFORMER "Frank Herbert"',
+        "    INDEX 01 00:00:00",
+        "  TRACK 02 AUDIO",
+        "    TITLE \"The 'Gom Jabbar'\"",
+        '    PERFORMER "Frank Herbert"',
+        "    INDEX 01 01:30:37",
+        'FILE "part-2.mp3" MP3',
+        "  TRACK 03 AUDIO",
+        '    TITLE "Arrakis & After"',
+        '    PERFORMER "Frank Herbert"',
+        "    INDEX 01 00:00:00",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("renders Podlove Simple Chapters and Nero chapter text", () => {
+    expect(renderPodloveSimpleChapters(chapters)).toContain(
+      '<psc:chapter start="01:02:05.040" title="Arrakis &amp; After" />'
+    );
+    expect(renderNeroChapters(chapters)).toContain("CHAPTER02=00:01:30.500\nCHAPTER02NAME=The \"Gom Jabbar\"\n");
+  });
+
+  test("maps suffixes and Accept headers to formats", () => {
+    expect(chapterFormatForSuffix("CUE")).toBe("cue");
+    expect(chapterFormatForSuffix("mp3")).toBeNull();
+    expect(chapterFormatForAccept("application/x-cue;q=0.4, application/x-ffmetadata")).toBe("ffmetadata");
+    expect(chapterFormatForAccept("*/*")).toBe("json");
+    expect(chapterFormatForAccept(undefined)).toBe("json");
+  });
+});
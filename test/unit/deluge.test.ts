@@ -0,0 +1,142 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+
+import { runMigrations } from "../../src/db";
+import { DelugeClient } from "../../src/deluge";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings } from "../../src/settings";
+import { infoHashFromTorrentBytes } from "../../src/library/torrent";
+import { processDownloadJob } from "../../src/worker/downloads";
+import { startMockDeluge } from "../mocks/deluge";
+
+function makeTorrentBytes(name: string): Uint8Array {
+  const nameLen = Buffer.byteLength(name);
+  const content = `d8:announce15:http://tracker/4:infod4:name${nameLen}:${name}12:piece lengthi16384e6:lengthi10e6:pieces20:12345678901234567890ee`;
+  return new Uint8Array(Buffer.from(content, "ascii"));
+}
+
+function setup(url: string, infoHash: string) {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  const repo = new BooksRepo(db);
+  repo.updateSettings(
+    defaultSettings({
+      auth: { mode: "plex" },
+      downloadClient: "deluge",
+      deluge: { url, password: "hunter2" },
+    })
+  );
+  const book = repo.createBook({ title: "Oathbringer", author: "Brandon Sanderson" });
+  const release = repo.createRelease({
+    bookId: book.id,
+    provider: "mock",
+    providerGuid: "guid-oath",
+    title: "Oathbringer",
+    mediaType: "audio",
+    infoHash,
+    url: "https://example.com/oath.torrent",
+    status: "snatched",
+  });
+  const job = repo.createJob({ type: "download", bookId: book.id, releaseId: release.id, payload: { infoHash } });
+  return { db, repo, release, job, ctx: { repo, getSettings: () => repo.getSettings(), onLog: () => {} } };
+}
+
+describe("deluge download client", () => {
+  test("logs in, connects the web UI to the daemon and labels added torrents", async () => {
+    const deluge = startMockDeluge({ password: "hunter2", byHash: {} });
+    try {
+      const first = makeTorrentBytes("oathbringer");
+      const second = makeTorrentBytes("rhythm-of-war");
+      const client = new DelugeClient({ url: deluge.url, password: "hunter2", downloadPath: "/downloads/books", label: "Podible" });
+      await client.addTorrent(first);
+      await client.addTorrent(second);
+      await client.remove(infoHashFromTorrentBytes(first));
+
+      expect(deluge.logins).toBe(1);
+      expect(deluge.connects).toBe(1);
+      expect(deluge.added.map((entry) => entry.options)).toEqual([
+        { add_paused: false, download_location: "/downloads/books" },
+        { add_paused: false, download_location: "/downloads/books" },
+      ]);
+      expect(deluge.labels).toEqual({
+        [infoHashFromTorrentBytes(first)]: "podible",
+        [infoHashFromTorrentBytes(second)]: "podible",
+      });
+      expect(deluge.removed).toEqual([{ torrentId: infoHashFromTorrentBytes(first), removeData: false }]);
+
+      const wrongPassword = new DelugeClient({ url: deluge.url, password: "nope" });
+      await expect(wrongPassword.addTorrent(first)).rejects.toThrow("Deluge login failed");
+    } finally {
+      deluge.stop();
+    }
+  });
+
+  test("download job re-authenticates after session expiry and hands prioritised files to import", async () => {
+    const infoHash = infoHashFromTorrentBytes(makeTorrentBytes("oathbringer"));
+    const deluge = startMockDeluge({
+      password: "hunter2",
+      byHash: {
+        [infoHash]: {
+          name: "Oathbringer",
+          savePath: "/downloads",
+          files: [
+            { path: "Oathbringer/Oathbringer.m4b" },
+            { path: "Oathbringer/extras.nfo", priority: 0 },
+          ],
+          sizeBytes: 4000,
+          completeAfterPolls: 2,
+        },
+      },
+    });
+    const { db, repo, release, job, ctx } = setup(deluge.url, infoHash);
+
+    try {
+      expect(await processDownloadJob(ctx, job)).toBe("rescheduled");
+      const telemetry = JSON.parse(repo.getJob(job.id)?.payload_json ?? "{}").telemetry;
+      expect(telemetry.lastBytesDone).toBe(2000);
+
+      deluge.expireSessions();
+      expect(await processDownloadJob(ctx, repo.getJob(job.id)!)).toBe("done");
+      expect(deluge.logins).toBe(2);
+      const importJob = repo.listJobsByType("import").find((row) => row.release_id === release.id);
+      const payload = JSON.parse(importJob?.payload_json ?? "{}");
+      expect(payload.basePath).toBe("/downloads/Oathbringer");
+      expect(payload.selectedPaths).toEqual(["/downloads/Oathbringer/Oathbringer.m4b"]);
+    } finally {
+      deluge.stop();
+      db.close();
+    }
+  });
+
+  test("torrent errors trigger the same forced reacquire as rTorrent", async () => {
+    const infoHash = infoHashFromTorrentBytes(makeTorrentBytes("oathbringer"));
+    const deluge = startMockDeluge({
+      password: "hunter2",
+      byHash: {
+        [infoHash]: {
+          name: "Oathbringer",
+          savePath: "/downloads",
+          sizeBytes: 4000,
+          completeAfterPolls: 99,
+          errorMessage: "Tracker: unregistered torrent",
+        },
+      },
+    });
+    const { db, repo, release, job, ctx } = setup(deluge.url, infoHash);
+
+    try {
+      const state = await new DelugeClient({ url: deluge.url, password: "hunter2" }).getDownloadState(infoHash);
+      expect(state).toMatchObject({ complete: false, isActive: false, leftBytes: 2000, downRate: 0 });
+
+      expect(await processDownloadJob(ctx, job)).toBe("done");
+      const failed = repo.getRelease(release.id);
+      expect(failed?.status).toBe("failed");
+      expect(failed?.error).toContain("Torrent errored in Deluge");
+      expect(failed?.error).toContain("unregistered torrent");
+      expect(repo.listJobsByType("acquire")).toHaveLength(1);
+    } finally {
+      deluge.stop();
+      db.close();
+    }
+  });
+});
@@ -1,12 +1,12 @@
-import { afterEach, describe, expect, test } from "bun:test";
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
 import { Database } from "bun:sqlite";
 import JSZip from "jszip";
-import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { existsSync, lstatSync, mkdirSync, mkdtempSync, promises, readFileSync, readlinkSync, rmSync, statSync, writeFileSync } from "node:fs";
 import os from "node:os";
 import path from "node:path";
 
 import { runMigrations } from "../../src/db";
-import { importReleaseFromPath } from "../../src/library/importer";
+import { importReleaseFromPath, inspectImportPath } from "../../src/library/importer";
 import { BooksRepo } from "../../src/repo";
 
 const tempDirs: string[] = [];
@@ -158,4 +158,125 @@ describe("importer path collisions", () => {
 
     db.close();
   });
+
+  test("places imports under the naming templates", async () => {
+    const { db, repo } = setupRepo();
+    const libraryRoot = tempDir("books-lib-");
+    const src = tempDir("books-src-naming-");
+    const source = path.join(src, "book.epub");
+    await createMinimalEpub(source, "Eclipse ebook content");
+
+    repo.updateSettings({
+      ...repo.getSettings(),
+      naming: { folderTemplate: "{author}/{series}/{seriesPosition:00} {title}", fileTemplate: "{title} [{manifestationLabel}]" },
+    });
+    const book = repo.createBook({ title: "Eclipse", author: "Stephenie Meyer" });
+    repo.updateBookMetadata(book.id, { series: [{ key: null, name: "Twilight", position: "3" }] });
+    const manifestation = repo.addManifestation({ bookId: book.id, kind: "ebook", label: "First Edition" });
+    const release = repo.createRelease({
+      bookId: book.id,
+      provider: "test",
+      title: "Eclipse [EPUB]",
+      mediaType: "ebook",
+      infoHash: "4444444444444444444444444444444444444444",
+      url: "https://example.com/4.torrent",
+      status: "downloaded",
+    });
+
+    const imported = await importReleaseFromPath(repo, release, source, libraryRoot, { manifestationId: manifestation.id });
+    expect(imported.linkedFiles).toEqual([
+      path.join(libraryRoot, "Stephenie Meyer", "Twilight", "03 Eclipse", "Eclipse [First Edition].epub"),
+    ]);
+
+    db.close();
+  });
+});
+
+describe("importer modes", () => {
+  async function importFixture(repo: BooksRepo, protocol: "torrent" | "usenet") {
+    const book = repo.createBook({ title: "Persuasion", author: "Jane Austen" });
+    const release = repo.createRelease({
+      bookId: book.id,
+      provider: "test",
+      title: "Persuasion [EPUB]",
+      mediaType: "ebook",
+      protocol,
+      infoHash: protocol === "torrent" ? "5555555555555555555555555555555555555555" : null,
+      url: "https://example.com/persuasion",
+      status: "downloaded",
+    });
+    const source = path.join(tempDir("books-src-mode-"), "Persuasion.epub");
+    await createMinimalEpub(source, "Persuasion ebook content");
+    return { release, source, bytes: readFileSync(source) };
+  }
+
+  function importedFile(repo: BooksRepo, assetId: number) {
+    return repo.getAssetFiles(assetId)[0]!;
+  }
+
+  test("hardlinks by default and copies with verification when the link crosses filesystems", async () => {
+    const { db, repo } = setupRepo();
+    const libraryRoot = tempDir("books-lib-");
+    const { release, source, bytes } = await importFixture(repo, "torrent");
+
+    const linked = await importReleaseFromPath(repo, release, source, libraryRoot);
+    expect(importedFile(repo, linked.assetId).import_mode).toBe("hardlink");
+    expect(statSync(linked.linkedFiles[0]!).ino).toBe(statSync(source).ino);
+
+    const link = spyOn(promises, "link").mockImplementation(async () => {
+      throw Object.assign(new Error("EXDEV: cross-device link not permitted"), { code: "EXDEV" });
+    });
+    try {
+      const copied = await importReleaseFromPath(repo, release, source, tempDir("books-lib-other-"));
+      const file = importedFile(repo, copied.assetId);
+      expect(file.import_mode).toBe("copy");
+      expect(statSync(file.path).ino).not.toBe(statSync(source).ino);
+      expect(readFileSync(file.path)).toEqual(bytes);
+    } finally {
+      link.mockRestore();
+    }
+    db.close();
+  });
+
+  test("copies, symlinks or moves as configured per protocol", async () => {
+    const { db, repo } = setupRepo();
+    const libraryRoot = tempDir("books-lib-");
+    repo.updateSettings({ ...repo.getSettings(), imports: { torrentMode: "copy", usenetMode: "move" } });
+
+    const torrent = await importFixture(repo, "torrent");
+    const copied = await importReleaseFromPath(repo, torrent.release, torrent.source, libraryRoot);
+    expect(importedFile(repo, copied.assetId).import_mode).toBe("copy");
+    // Importing the same source again reuses the identical copy.
+    const again = await importReleaseFromPath(repo, torrent.release, torrent.source, libraryRoot);
+    expect(again.linkedFiles).toEqual(copied.linkedFiles);
+
+    const usenet = await importFixture(repo, "usenet");
+    const moved = await importReleaseFromPath(repo, usenet.release, usenet.source, tempDir("books-lib-usenet-"));
+    expect(importedFile(repo, moved.assetId).import_mode).toBe("move");
+    expect(existsSync(usenet.source)).toBe(false);
+    expect(readFileSync(moved.linkedFiles[0]!)).toEqual(usenet.bytes);
+
+    repo.updateSettings({ ...repo.getSettings(), imports: { torrentMode: "symlink", usenetMode: "move" } });
+    const symlinked = await importReleaseFromPath(repo, torrent.release, torrent.source, tempDir("books-lib-links-"));
+    expect(importedFile(repo, symlinked.assetId).import_mode).toBe("symlink");
+    expect(lstatSync(symlinked.linkedFiles[0]!).isSymbolicLink()).toBe(true);
+    expect(readlinkSync(symlinked.linkedFiles[0]!)).toBe(torrent.source);
+    db.close();
+  });
+});
+
+describe("importer usenet output", () => {
+  test("ignores post-processing scratch folders inside a completed download", async () => {
+    const complete = tempDir("books-complete-");
+    writeFileSync(path.join(complete, "Mistborn.m4b"), "audio");
+    mkdirSync(path.join(complete, "_UNPACK_Mistborn"));
+    writeFileSync(path.join(complete, "_UNPACK_Mistborn", "Mistborn.part.m4b"), "partial");
+    mkdirSync(path.join(complete, "__ADMIN__"));
+    writeFileSync(path.join(complete, "__ADMIN__", "SABnzbd_nzf_1"), "admin");
+    mkdirSync(path.join(complete, "extras"));
+    writeFileSync(path.join(complete, "extras", "cover.jpg"), "cover");
+
+    const files = await inspectImportPath(complete);
+    expect(files.map((file) => file.relativePath)).toEqual([path.join("extras", "cover.jpg"), "Mistborn.m4b"]);
+  });
 });
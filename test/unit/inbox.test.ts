@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { existsSync, readdirSync, rmSync } from "node:fs";
+import path from "node:path";
+
+import { runMigrations } from "../../src/db";
+import { guessFromName } from "../../src/library/book-match";
+import { assignInboxItem, INBOX_SETTLE_MS, scanInbox } from "../../src/library/inbox";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings } from "../../src/settings";
+import { processInboxScanJob, queueInboxScan } from "../../src/worker/inbox";
+import { removeTempDirs, tempDir, writeFile } from "../helpers/temp-files";
+
+afterEach(removeTempDirs);
+
+function createInboxRepo() {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  const repo = new BooksRepo(db);
+  const inbox = tempDir("inbox-drop-");
+  const libraryRoot = tempDir("inbox-lib-");
+  repo.updateSettings(
+    defaultSettings({
+      libraryRoot,
+      inbox: { enabled: true, path: inbox, intervalMinutes: 5, importMode: "move" },
+    })
+  );
+  return { db, repo, inbox, libraryRoot };
+}
+
+function drop(filePath: string): string {
+  return writeFile(filePath, "audio-bytes");
+}
+
+function listFilesRecursive(dir: string): string[] {
+  return readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter((entry) => entry.isFile())
+    .map((entry) => path.relative(dir, path.join(entry.parentPath, entry.name)))
+    .sort();
+}
+
+const settled = () => Date.now() + INBOX_SETTLE_MS + 1_000;
+
+describe("inbox", () => {
+  test("guesses author and title from drop names", () => {
+    expect(guessFromName("Andy Weir - Project Hail Mary [2021] (Unabridged)", false)).toEqual({
+      title: "Project Hail Mary",
+      author: "Andy Weir",
+    });
+    expect(guessFromName("Brandon Sanderson - Stormlight 01 - The Way of Kings.m4b", true)).toEqual({
+      title: "The Way of Kings",
+      author: "Brandon Sanderson",
+    });
+    expect(guessFromName("Dune_Messiah.epub", true)).toEqual({ title: "Dune Messiah", author: null });
+    expect(guessFromName("[scene]", false)).toBeNull();
+  });
+
+  test("imports a settled drop that matches a library book and moves it out of the inbox", async () => {
+    const { db, repo, inbox, libraryRoot } = createInboxRepo();
+    try {
+      const book = repo.createBook({ title: "Project Hail Mary", author: "Andy Weir" });
+      drop(path.join(inbox, "Andy Weir - Project Hail Mary [2021]", "01.mp3"));
+      drop(path.join(inbox, "Andy Weir - Project Hail Mary [2021]", "02.mp3"));
+
+      expect(await scanInbox(repo, repo.getSettings())).toEqual({ imported: 0, unmatched: 0, failed: 0, pending: 1 });
+      expect(repo.listInboxItems()).toHaveLength(0);
+
+      expect(await scanInbox(repo, repo.getSettings(), settled())).toEqual({ imported: 1, unmatched: 0, failed: 0, pending: 0 });
+      const [item] = repo.listInboxItems();
+      expect(item).toMatchObject({ status: "imported", book_id: book.id, guess_title: "Project Hail Mary", guess_author: "Andy Weir" });
+
+      const [release] = repo.listReleasesByBook(book.id);
+      expect(release).toMatchObject({ provider: "inbox", media_type: "audio", status: "imported" });
+      const [asset] = repo.listAssetsByBook(book.id);
+      expect(repo.getAssetFiles(asset!.id).map((file) => file.import_mode)).toEqual(["move", "move"]);
+      expect(listFilesRecursive(libraryRoot)).toHaveLength(2);
+      expect(readdirSync(inbox)).toEqual([]);
+
+      expect(await scanInbox(repo, repo.getSettings(), settled())).toEqual({ imported: 0, unmatched: 0, failed: 0, pending: 0 });
+    } finally {
+      db.close();
+    }
+  });
+
+  test("creates books from Open Library and keeps unmatched drops for review until assigned", async () => {
+    const { db, repo, inbox } = createInboxRepo();
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (input: unknown) => {
+      const url = new URL(String(input));
+      if (url.pathname !== "/search.json") return new Response("not found", { status: 404 });
+      return Response.json({
+        docs: [{ key: "/works/OL16800608W", title: "Wool", author_name: ["Hugh Howey"], first_publish_year: 2011 }],
+      });
+    }) as typeof fetch;
+
+    try {
+      drop(path.join(inbox, "Hugh Howey - Wool.mp3"));
+      const unknown = drop(path.join(inbox, "Field Recording 7.mp3"));
+      drop(path.join(inbox, "notes.txt"));
+      drop(path.join(inbox, ".partial.mp3"));
+
+      expect(await scanInbox(repo, repo.getSettings(), settled())).toEqual({ imported: 1, unmatched: 1, failed: 1, pending: 0 });
+      const wool = repo.listAllBooks().find((book) => book.title === "Wool");
+      expect(wool?.author).toBe("Hugh Howey");
+      expect(repo.listInboxItems(["imported"])[0]?.book_id).toBe(wool!.id);
+      expect(repo.listInboxItems(["failed"])[0]?.detail).toBe("No supported audio or ebook files");
+
+      const [pending] = repo.listInboxItems(["unmatched"]);
+      expect(pending).toMatchObject({ path: unknown, guess_title: "Field Recording 7", book_id: null });
+      await expect(assignInboxItem(repo, pending!.id, 999)).rejects.toThrow("Book not found");
+
+      const target = repo.createBook({ title: "Field Recordings", author: "Someone Else" });
+      const assigned = await assignInboxItem(repo, pending!.id, target.id);
+      expect(assigned).toMatchObject({ status: "imported", book_id: target.id });
+      expect(existsSync(unknown)).toBe(false);
+      await expect(assignInboxItem(repo, pending!.id, target.id)).rejects.toThrow("already imported");
+
+      rmSync(path.join(inbox, "notes.txt"));
+      await scanInbox(repo, repo.getSettings(), settled());
+      expect(repo.listInboxItems(["failed"])).toHaveLength(0);
+    } finally {
+      globalThis.fetch = originalFetch;
+      db.close();
+    }
+  });
+
+  test("the scan job reschedules itself and skips work while disabled", async () => {
+    const { db, repo } = createInboxRepo();
+    try {
+      const job = queueInboxScan(repo);
+      expect(queueInboxScan(repo).id).toBe(job.id);
+      const logs: string[] = [];
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: (message: string) => logs.push(message) };
+
+      const before = Date.now();
+      expect(await processInboxScanJob(ctx, job)).toBe("rescheduled");
+      expect(Date.parse(repo.getJob(job.id)!.next_run_at!)).toBeGreaterThanOrEqual(before + 5 * 60_000);
+      expect(logs[0]).toContain("imported=0");
+
+      repo.updateSettings({ ...repo.getSettings(), inbox: { ...repo.getSettings().inbox, enabled: false } });
+      await processInboxScanJob(ctx, repo.getJob(job.id)!);
+      expect(logs[1]).toContain("skipped=1");
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -11,13 +11,17 @@ import { runMigrations } from "../../src/db";
 import {
   applyTranscriptLabels,
   buildManifestationChapters,
+  buildManifestationEpisodes,
   isGenericChapterLabel,
   pickTranscriptLabelForWindow,
   selectPreferredAudioAsset,
   selectPreferredAudioManifestation,
   streamAudioManifestation,
+  streamManifestationEpisode,
 } from "../../src/library/media";
 import { selectPreferredDownloadableEbookAsset, selectPreferredEpubAsset } from "../../src/library/chapter-analysis";
+import { embeddedTagsHint, formatEmbeddedTags } from "../../src/library/embedded-tags";
+import { embeddedTagsFromProbe } from "../../src/media/metadata";
 import { BooksRepo } from "../../src/repo";
 import type { AssetRow, ManifestationRow } from "../../src/app-types";
 
@@ -64,6 +68,7 @@ function asset(overrides: Partial<AssetRow>): AssetRow {
     manifestation_id: null,
     sequence_in_manifestation: 0,
     import_note: null,
+    embedded_tags_json: null,
     created_at: "2026-01-01T00:00:00.000Z",
     updated_at: "2026-01-01T00:00:00.000Z",
     ...overrides,
@@ -82,6 +87,8 @@ function manifestation(overrides: Partial<ManifestationRow>): ManifestationRow {
     duration_ms: 1000,
     total_size: 100,
     preferred_score: 0,
+    replaces_manifestation_id: null,
+    superseded_at: null,
     created_at: "2026-01-01T00:00:00.000Z",
     updated_at: "2026-01-01T00:00:00.000Z",
     ...overrides,
@@ -153,6 +160,50 @@ async function createChapterMarkerEpub(filePath: string): Promise<void> {
   await writeFile(filePath, bytes);
 }
 
+describe("embedded audio tags", () => {
+  test("maps ffprobe tags from mp3 and m4b conventions", () => {
+    const tags = embeddedTagsFromProbe({
+      tags: {
+        TITLE: "Chapter 1",
+        album: "Red Rising (Unabridged)",
+        artist: "Pierce Brown",
+        composer: "Tim Gerard Reynolds",
+        MVNM: "Red Rising Saga",
+        MVIN: "1",
+        ASIN: "b00i8u7v4u",
+        isbn: "978-0-345-53978-6",
+        publisher: "Audible Studios",
+        date: "2014-01-28",
+      },
+      hasCoverArt: true,
+    });
+    expect(tags).toEqual({
+      title: "Chapter 1",
+      album: "Red Rising (Unabridged)",
+      artist: "Pierce Brown",
+      albumArtist: null,
+      narrator: "Tim Gerard Reynolds",
+      series: "Red Rising Saga",
+      seriesPosition: "1",
+      asin: "B00I8U7V4U",
+      isbn: "9780345539786",
+      publisher: "Audible Studios",
+      year: "2014",
+      hasCover: true,
+    });
+    expect(embeddedTagsHint(tags)).toEqual({
+      title: "Red Rising (Unabridged)",
+      author: "Pierce Brown",
+      asin: "B00I8U7V4U",
+      isbn: "9780345539786",
+    });
+    expect(formatEmbeddedTags(tags)).toBe(
+      "Red Rising (Unabridged) • Pierce Brown • narrated by Tim Gerard Reynolds • series Red Rising Saga #1 • Audible Studios • 2014 • ASIN B00I8U7V4U • ISBN 9780345539786 • embedded cover"
+    );
+    expect(embeddedTagsHint(embeddedTagsFromProbe({ tags: { artist: "Someone" } }))).toBeNull();
+  });
+});
+
 describe("manifestation selection", () => {
   test("prefers a single-container m4b audio manifestation over a multi mp3 one", () => {
     const chosen = selectPreferredAudioManifestation([
@@ -471,6 +522,71 @@ describe("manifestation media", () => {
     }
   });
 
+  test("splits a single mp3 into chapter episodes by byte position", async () => {
+    const root = await mkdtemp(path.join(os.tmpdir(), "podible-manifestation-episodes-"));
+    const { db, repo } = setupRepo();
+    try {
+      const audioPath = path.join(root, "book.mp3");
+      await writeFile(audioPath, "ABCDEFGHIJ".repeat(10));
+
+      const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+      const manifestation = repo.addManifestation({ bookId: book.id, kind: "audio" });
+      repo.addAsset({
+        bookId: book.id,
+        kind: "single",
+        mime: "audio/mpeg",
+        totalSize: 100,
+        durationMs: 10_000,
+        manifestationId: manifestation.id,
+        files: [{ path: audioPath, size: 100, start: 0, end: 99, durationMs: 10_000, title: "Dune" }],
+      });
+      repo.upsertChapterAnalysis({
+        manifestationId: manifestation.id,
+        status: "succeeded",
+        source: "test",
+        algorithmVersion: "test",
+        fingerprint: "test",
+        chaptersJson: JSON.stringify([
+          { startTime: 0, title: "Book One" },
+          { startTime: 4, title: "Book Two" },
+        ]),
+        debugJson: null,
+        resolvedBoundaryCount: 1,
+        totalBoundaryCount: 1,
+        error: null,
+      });
+
+      const target = repo.getManifestationWithContainers(manifestation.id)!;
+      const episodes = await buildManifestationEpisodes(repo, target.manifestation, target.containers);
+      expect(episodes?.map((episode) => [episode.title, episode.startOffset, episode.endOffset])).toEqual([
+        ["Book One", 0, 39],
+        ["Book Two", 40, 99],
+      ]);
+
+      const full = await streamManifestationEpisode(new Request("http://localhost/stream"), repo, target.manifestation, target.containers, 1);
+      expect(full.status).toBe(200);
+      expect(full.headers.get("content-length")).toBe("60");
+      expect((await full.text()).slice(0, 10)).toBe("ABCDEFGHIJ");
+
+      const ranged = await streamManifestationEpisode(
+        new Request("http://localhost/stream", { headers: { range: "bytes=2-4" } }),
+        repo,
+        target.manifestation,
+        target.containers,
+        1
+      );
+      expect(ranged.status).toBe(206);
+      expect(ranged.headers.get("content-range")).toBe("bytes 2-4/60");
+      expect(await ranged.text()).toBe("CDE");
+
+      const missing = await streamManifestationEpisode(new Request("http://localhost/stream"), repo, target.manifestation, target.containers, 5);
+      expect(missing.status).toBe(404);
+    } finally {
+      db.close();
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
   test("remuxes multi-container mp4 manifestations into a valid ranged m4b stream", async () => {
     if (!(await commandSucceeds("ffmpeg", ["-version"]))) return;
 
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+
+import { runMigrations } from "../../src/db";
+import { NzbgetClient } from "../../src/nzbget";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings } from "../../src/settings";
+import { runSnatch } from "../../src/library/service";
+import { processDownloadJob } from "../../src/worker/downloads";
+import { startMockNewznab } from "../mocks/newznab";
+import { startMockNzbget } from "../mocks/nzbget";
+
+const NZB = `<?xml version="1.0" encoding="utf-8"?>
+<nzb xmlns="http://www.newzbin.com/DTD/2003/nzb"><file subject="tress.m4b"><segments /></file></nzb>`;
+
+describe("nzbget download client", () => {
+  test("snatch appends the NZB under the configured category and hands the final folder to import", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const newznab = startMockNewznab({ results: [], nzbs: { tress: NZB } });
+    const nzbget = startMockNzbget({
+      username: "nzbget",
+      password: "tegbzn6789",
+      byName: { "Tress of the Emerald Sea": { finalDir: "/downloads/complete/Tress", sizeBytes: 5000, completeAfterPolls: 2 } },
+    });
+    repo.updateSettings(
+      defaultSettings({
+        auth: { mode: "plex" },
+        usenetClient: "nzbget",
+        nzbget: { url: nzbget.url, username: "nzbget", password: "tegbzn6789", category: "Audiobooks" },
+      })
+    );
+    const book = repo.createBook({ title: "Tress of the Emerald Sea", author: "Brandon Sanderson" });
+
+    try {
+      const snatch = await runSnatch(repo, repo.getSettings(), {
+        bookId: book.id,
+        provider: "nzbgeek",
+        title: "Tress of the Emerald Sea",
+        mediaType: "audio",
+        url: `${newznab.baseUrl}/getnzb/tress.nzb`,
+        protocol: "usenet",
+      });
+      expect(snatch.release.download_id).toBe("1");
+      expect(snatch.release.info_hash).toBeNull();
+      expect(nzbget.appended).toEqual([{ nzbId: 1, filename: "Tress of the Emerald Sea.nzb", category: "Audiobooks", nzb: NZB }]);
+
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: () => {} };
+      expect(await processDownloadJob(ctx, repo.getJob(snatch.jobId)!)).toBe("rescheduled");
+      expect(await processDownloadJob(ctx, repo.getJob(snatch.jobId)!)).toBe("done");
+
+      const [importJob] = repo.listJobsByType("import").filter((row) => row.release_id === snatch.release.id);
+      const payload = JSON.parse(importJob?.payload_json ?? "{}");
+      expect(payload.basePath).toBe("/downloads/complete/Tress");
+      expect(payload.downloadId).toBe("1");
+    } finally {
+      newznab.stop();
+      nzbget.stop();
+      db.close();
+    }
+  });
+
+  test("reports failed history items and hides them on remove", async () => {
+    const nzbget = startMockNzbget({
+      username: "nzbget",
+      password: "tegbzn6789",
+      byName: { Yumi: { finalDir: "/downloads/complete/Yumi", sizeBytes: 100, completeAfterPolls: 0, failStatus: "FAILURE/PAR" } },
+    });
+    try {
+      const client = new NzbgetClient({ url: nzbget.url, username: "nzbget", password: "tegbzn6789" });
+      const downloadId = await client.addNzb(new TextEncoder().encode(NZB), "Yumi");
+      const state = await client.getDownloadState(downloadId);
+      expect(state.complete).toBe(false);
+      expect(state.isActive).toBe(false);
+      expect(state.message).toBe("NZBGet finished with status FAILURE/PAR");
+      expect((await client.getImportSource(downloadId)).basePath).toBeNull();
+
+      await client.remove(downloadId);
+      expect(nzbget.edits).toEqual([{ command: "HistoryDelete", ids: [1] }]);
+      await expect(client.getDownloadState(downloadId)).rejects.toThrow("NZBGet has no download 1");
+    } finally {
+      nzbget.stop();
+    }
+  });
+
+  test("surfaces bad credentials and unknown NZBs", async () => {
+    const nzbget = startMockNzbget({ username: "nzbget", password: "tegbzn6789", byName: {} });
+    try {
+      await expect(
+        new NzbgetClient({ url: nzbget.url, username: "nzbget", password: "wrong" }).getDownloadState("1")
+      ).rejects.toThrow("NZBGet returned 401");
+      await expect(
+        new NzbgetClient({ url: `${nzbget.url}/`, username: "nzbget", password: "tegbzn6789" }).addNzb(new TextEncoder().encode(NZB), "Unknown")
+      ).rejects.toThrow("NZBGet rejected the NZB");
+    } finally {
+      nzbget.stop();
+    }
+  });
+});
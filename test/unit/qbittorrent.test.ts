@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+
+import { runMigrations } from "../../src/db";
+import { QbittorrentClient } from "../../src/qbittorrent";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings } from "../../src/settings";
+import { runSnatch } from "../../src/library/service";
+import { infoHashFromTorrentBytes } from "../../src/library/torrent";
+import { torrentCacheKeyFor } from "../../src/library/torrent-cache";
+import { processDownloadJob } from "../../src/worker/downloads";
+import { startMockQbittorrent } from "../mocks/qbittorrent";
+
+function makeTorrentBytes(name: string): Uint8Array {
+  const nameLen = Buffer.byteLength(name);
+  const content = `d8:announce15:http://tracker/4:infod4:name${nameLen}:${name}12:piece lengthi16384e6:lengthi10e6:pieces20:12345678901234567890ee`;
+  return new Uint8Array(Buffer.from(content, "ascii"));
+}
+
+describe("qbittorrent download client", () => {
+  test("snatch logs in and adds the torrent under the configured category and save path", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+    const qbittorrent = startMockQbittorrent({ username: "admin", password: "secret", byHash: {} });
+
+    const torrentUrl = "https://example.com/dune.torrent";
+    const torrentBytes = makeTorrentBytes("dune-audio");
+    repo.putTorrentCache({
+      key: torrentCacheKeyFor({ provider: "mock", providerGuid: "g-dune", url: torrentUrl }),
+      provider: "mock",
+      providerGuid: "g-dune",
+      url: torrentUrl,
+      torrentBytes,
+    });
+
+    try {
+      const result = await runSnatch(
+        repo,
+        defaultSettings({
+          downloadClient: "qbittorrent",
+          qbittorrent: {
+            url: `${qbittorrent.url}/`,
+            username: "admin",
+            password: "secret",
+            category: "audiobooks",
+            savePath: "/downloads/books",
+          },
+        }),
+        {
+          bookId: book.id,
+          provider: "mock",
+          providerGuid: "g-dune",
+          title: "Dune Audio",
+          mediaType: "audio",
+          url: torrentUrl,
+        }
+      );
+      expect(result.release.info_hash).toBe(infoHashFromTorrentBytes(torrentBytes));
+      expect(qbittorrent.logins).toBe(1);
+      expect(qbittorrent.categories).toEqual(["audiobooks"]);
+      expect(qbittorrent.added).toEqual([
+        { infoHash: infoHashFromTorrentBytes(torrentBytes), category: "audiobooks", savePath: "/downloads/books" },
+      ]);
+    } finally {
+      qbittorrent.stop();
+      db.close();
+    }
+  });
+
+  test("download job polls progress, re-logs in after session expiry and hands selected files to import", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+
+    const infoHash = infoHashFromTorrentBytes(makeTorrentBytes("hero-of-ages"));
+    const qbittorrent = startMockQbittorrent({
+      byHash: {
+        [infoHash]: {
+          name: "Hero of Ages",
+          savePath: "/downloads",
+          files: [
+            { name: "Hero of Ages/Hero of Ages.m4b" },
+            { name: "Hero of Ages/sample.mp3", priority: 0 },
+          ],
+          sizeBytes: 1000,
+          completeAfterPolls: 2,
+        },
+      },
+    });
+    repo.updateSettings(
+      defaultSettings({
+        auth: { mode: "plex" },
+        downloadClient: "qbittorrent",
+        qbittorrent: { url: qbittorrent.url },
+      })
+    );
+
+    const book = repo.createBook({ title: "The Hero of Ages", author: "Brandon Sanderson" });
+    const release = repo.createRelease({
+      bookId: book.id,
+      provider: "mock",
+      providerGuid: "guid-hero",
+      title: "Hero of Ages",
+      mediaType: "audio",
+      infoHash,
+      url: "https://example.com/hero.torrent",
+      status: "snatched",
+    });
+    const job = repo.createJob({ type: "download", bookId: book.id, releaseId: release.id, payload: { infoHash } });
+    const ctx = { repo, getSettings: () => repo.getSettings(), onLog: () => {} };
+
+    try {
+      expect(await processDownloadJob(ctx, job)).toBe("rescheduled");
+      expect(repo.getRelease(release.id)?.status).toBe("downloading");
+
+      qbittorrent.expireSessions();
+      expect(await processDownloadJob(ctx, repo.getJob(job.id)!)).toBe("done");
+      expect(qbittorrent.logins).toBe(2);
+
+      const importJobs = repo.listJobsByType("import").filter((row) => row.release_id === release.id);
+      expect(importJobs).toHaveLength(1);
+      const payload = JSON.parse(importJobs[0]!.payload_json ?? "{}");
+      expect(payload.basePath).toBe("/downloads/Hero of Ages");
+      expect(payload.selectedPaths).toEqual(["/downloads/Hero of Ages/Hero of Ages.m4b"]);
+    } finally {
+      qbittorrent.stop();
+      db.close();
+    }
+  });
+
+  test("reports errored torrents, keeps data on remove and surfaces bad credentials", async () => {
+    const infoHash = "0123456789abcdef0123456789abcdef01234567";
+    const qbittorrent = startMockQbittorrent({
+      username: "admin",
+      password: "secret",
+      byHash: {
+        [infoHash]: { name: "Broken", savePath: "/downloads", sizeBytes: 100, completeAfterPolls: 99, state: "missingFiles" },
+      },
+    });
+
+    try {
+      const client = new QbittorrentClient({ url: qbittorrent.url, username: "admin", password: "secret" });
+      const state = await client.getDownloadState(infoHash.toUpperCase());
+      expect(state.complete).toBe(false);
+      expect(state.isActive).toBe(false);
+      expect(state.leftBytes).toBe(50);
+      expect(state.message).toContain("cannot find");
+
+      await client.remove(infoHash);
+      expect(qbittorrent.deleted).toEqual([{ hashes: infoHash, deleteFiles: "false" }]);
+
+      const wrongPassword = new QbittorrentClient({ url: qbittorrent.url, username: "admin", password: "nope" });
+      await expect(wrongPassword.getDownloadState(infoHash)).rejects.toThrow("qBittorrent login failed");
+    } finally {
+      qbittorrent.stop();
+    }
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+
+import { runMigrations } from "../../src/db";
+import { formatQualityBreakdown, parseQualityBreakdown, scoreReleaseQuality } from "../../src/library/quality";
+import { rankSearchResults } from "../../src/library/service";
+import type { TorznabResult } from "../../src/library/torznab";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings, parseSettings } from "../../src/settings";
+
+const HOUR_MS = 3_600_000;
+const MB = 1024 * 1024;
+
+function result(title: string, sizeBytes: number | null = 100 * MB): TorznabResult {
+  return {
+    title,
+    provider: "mock",
+    mediaType: "audio",
+    protocol: "torrent",
+    sizeBytes,
+    url: `https://example.com/${encodeURIComponent(title)}.torrent`,
+    guid: title,
+    infoHash: null,
+    seeders: 5,
+    leechers: 0,
+    raw: {},
+  };
+}
+
+describe("quality profiles", () => {
+  test("preferred formats score in list order and unlisted formats score nothing", () => {
+    const settings = defaultSettings();
+    const m4b = scoreReleaseQuality(settings, "audio", { title: "Dune - Frank Herbert [M4B]", sizeBytes: null });
+    const mp3 = scoreReleaseQuality(settings, "audio", { title: "Dune - Frank Herbert [MP3]", sizeBytes: null });
+    const flac = scoreReleaseQuality(settings, "audio", { title: "Dune - Frank Herbert [FLAC]", sizeBytes: null });
+    expect(m4b.score).toBeGreaterThan(mp3.score);
+    expect(flac.score).toBe(0);
+    expect(flac.reasons).toEqual([{ rule: "format", points: 0, detail: "flac is not a preferred format" }]);
+
+    const epub = scoreReleaseQuality(settings, "ebook", { title: "Dune (epub)", sizeBytes: null });
+    const pdf = scoreReleaseQuality(settings, "ebook", { title: "Dune (pdf)", sizeBytes: null });
+    expect(epub.score).toBeGreaterThan(pdf.score);
+    expect(pdf.rejected).toBeNull();
+  });
+
+  test("hard limits reject releases and preferences explain the score", () => {
+    const settings = defaultSettings({
+      quality: {
+        audio: {
+          requiredWords: ["unabridged"],
+          forbiddenWords: ["dramatized"],
+          preferredNarrators: ["Scott Brick"],
+          minMbPerHour: 20,
+          maxBitrateKbps: 128,
+        },
+      },
+    });
+    const target = { durationMs: 10 * HOUR_MS };
+    const score = (title: string, sizeBytes: number) => scoreReleaseQuality(settings, "audio", { title, sizeBytes }, target);
+
+    expect(score("Dune [Abridged] m4b", 400 * MB).rejected).toBe('missing required word "unabridged"');
+    expect(score("Dune Unabridged Dramatized m4b", 400 * MB).rejected).toBe('contains forbidden word "dramatized"');
+    expect(score("Dune Unabridged m4b", 100 * MB).rejected).toBe("10 MB/hour is outside 20-any");
+    expect(score("Dune Unabridged 320kbps mp3", 400 * MB).rejected).toBe("320 kbps is outside 0-128");
+    expect(score("Dune Unabridged mp3 [192k]", 400 * MB).rejected).toBe("192 kbps is outside 0-128");
+    expect(score("The 500k Club Unabridged m4b", 400 * MB).rejected).toBeNull();
+
+    const accepted = score("Dune Unabridged read by Scott Brick m4b", 400 * MB);
+    expect(accepted.rejected).toBeNull();
+    expect(accepted.reasons.map((reason) => reason.rule)).toEqual(["format", "narrator"]);
+    expect(accepted.score).toBe(60 + 40);
+    expect(formatQualityBreakdown(accepted)).toBe("score 100; m4b is a preferred format (+60); narrated by Scott Brick (+40)");
+    expect(parseQualityBreakdown(JSON.stringify(accepted))).toEqual(accepted);
+    expect(parseQualityBreakdown("not json")).toBeNull();
+
+    const unabridgedOnly = defaultSettings({ quality: { audio: { unabridgedOnly: true } } });
+    expect(scoreReleaseQuality(unabridgedOnly, "audio", { title: "Dune (Abridged) mp3", sizeBytes: null }).rejected).toBe("abridged");
+    expect(scoreReleaseQuality(unabridgedOnly, "audio", { title: "Dune (Unabridged) mp3", sizeBytes: null }).rejected).toBeNull();
+  });
+
+  test("ranking drops rejected releases and favours preferred languages", () => {
+    const settings = defaultSettings({ quality: { audio: { forbiddenWords: ["sample"], preferredLanguages: ["en"] } } });
+    const ranked = rankSearchResults(
+      "Dune Frank Herbert",
+      "audio",
+      [
+        result("Dune Frank Herbert German Hörbuch mp3"),
+        result("Dune Frank Herbert sample m4b"),
+        result("Dune Frank Herbert English mp3"),
+      ],
+      { settings }
+    );
+    expect(ranked.map((entry) => entry.result.title)).toEqual([
+      "Dune Frank Herbert English mp3",
+      "Dune Frank Herbert German Hörbuch mp3",
+    ]);
+    expect(ranked[1]?.quality?.reasons.find((reason) => reason.rule === "language")?.points).toBe(-50);
+
+    // Without a profile the built-in ranking is unchanged.
+    expect(rankSearchResults("Dune Frank Herbert", "audio", [result("Dune Frank Herbert sample m4b")])[0]?.quality).toBeNull();
+  });
+
+  test("profiles are parsed from settings and releases keep their breakdown", () => {
+    const settings = parseSettings(
+      JSON.stringify({
+        quality: {
+          audio: { preferredFormats: ["MP3", 4, "m4b"], minBitrateKbps: 64, maxBitrateKbps: -1 },
+          ebook: { forbiddenWords: "pdf" },
+        },
+      })
+    );
+    expect(settings.quality.audio.preferredFormats).toEqual(["MP3", "m4b"]);
+    expect(settings.quality.audio.minBitrateKbps).toBe(64);
+    expect(settings.quality.audio.maxBitrateKbps).toBe(0);
+    expect(settings.quality.ebook.forbiddenWords).toEqual([]);
+
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+    const breakdown = scoreReleaseQuality(settings, "audio", { title: "Dune mp3", sizeBytes: null });
+    const release = repo.createRelease({
+      bookId: book.id,
+      provider: "mock",
+      title: "Dune mp3",
+      mediaType: "audio",
+      infoHash: "1111111111111111111111111111111111111111",
+      url: "https://example.com/dune.torrent",
+      qualityJson: JSON.stringify(breakdown),
+    });
+    expect(parseQualityBreakdown(repo.getRelease(release.id)!.quality_json)).toEqual(breakdown);
+    db.close();
+  });
+});
@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+
+import { runMigrations } from "../../src/db";
+import { libraryPathFor, namingContextFor, renderNamingTemplate, unknownNamingTokens } from "../../src/library/naming";
+import {
+  applyLibraryReorganize,
+  latestLibraryReorganize,
+  planLibraryReorganize,
+  queueLibraryReorganize,
+} from "../../src/library/reorganize";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings, parseSettings } from "../../src/settings";
+import { processLibraryReorganizeJob } from "../../src/worker/reorganize";
+import { removeTempDirs, tempDir, writeFile } from "../helpers/temp-files";
+
+afterEach(removeTempDirs);
+
+function createRepo() {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  return { db, repo: new BooksRepo(db) };
+}
+
+const dune = {
+  id: 1,
+  title: "Dune Messiah",
+  author: "Frank Herbert",
+  series: [{ key: null, name: "Dune", position: "2" }],
+  publishedAt: "1969-10-15",
+  language: "en",
+};
+
+describe("naming templates", () => {
+  test("tokens fill from the book and manifestation and empty tokens collapse", () => {
+    const context = namingContextFor(dune, { label: "Full Cast", language: null });
+    expect(renderNamingTemplate("{author}/{series}/{seriesPosition:00} - {title} ({year})", context)).toEqual([
+      "Frank Herbert",
+      "Dune",
+      "02 - Dune Messiah (1969)",
+    ]);
+    expect(renderNamingTemplate("{title} [{manifestationLabel}] [{language}]", context)).toEqual(["Dune Messiah [Full Cast] [en]"]);
+
+    const standalone = namingContextFor({ ...dune, series: [], publishedAt: null, language: null });
+    expect(renderNamingTemplate("{author}/{series}/{seriesPosition:00} - {title} ({year}) [{narrator}]", standalone)).toEqual([
+      "Frank Herbert",
+      "Dune Messiah",
+    ]);
+    expect(renderNamingTemplate("{author}: {title}?", standalone)).toEqual(["Frank Herbert Dune Messiah"]);
+
+    expect(unknownNamingTokens("{author}/{publisher}/{title:000}")).toEqual(["publisher"]);
+  });
+
+  test("the default templates keep the author/title layout and invalid settings fall back", () => {
+    const settings = defaultSettings({ libraryRoot: "/library" });
+    expect(libraryPathFor(settings, namingContextFor(dune))).toEqual({
+      folder: path.join("/library", "Frank Herbert", "Dune Messiah"),
+      fileStem: "Dune Messiah",
+    });
+    const parsed = parseSettings(
+      JSON.stringify({ ...settings, naming: { folderTemplate: "  ", fileTemplate: "{author} - {title}" } })
+    );
+    expect(parsed.naming).toEqual({ folderTemplate: "{author}/{title}", fileTemplate: "{author} - {title}" });
+  });
+});
+
+describe("library reorganize", () => {
+  test("a dry run previews the moves and a run moves files, covers and database paths together", async () => {
+    const { db, repo } = createRepo();
+    const libraryRoot = tempDir("books-reorganize-");
+    repo.updateSettings(defaultSettings({ libraryRoot }));
+    const logs: string[] = [];
+    const ctx = { repo, getSettings: () => repo.getSettings(), onLog: (line: string) => logs.push(line) };
+
+    const book = repo.createBook({ title: "Dune Messiah", author: "Frank Herbert" });
+    repo.updateBookMetadata(book.id, { series: [{ key: null, name: "Dune", position: "2" }], publishedAt: "1969" });
+    const oldFolder = path.join(libraryRoot, "Frank Herbert", "Dune Messiah");
+    const audioPath = writeFile(path.join(oldFolder, "Dune Messiah.m4b"), "audio");
+    const partPaths = ["01.mp3", "02.mp3"].map((name) => writeFile(path.join(oldFolder, "Dune Messiah", name), name));
+    const coverPath = writeFile(path.join(oldFolder, "cover.jpg"), "cover");
+    repo.updateBookMetadata(book.id, { coverPath });
+    const single = repo.addManifestation({ bookId: book.id, kind: "audio", label: "Unabridged" });
+    repo.addAsset({
+      bookId: book.id,
+      kind: "single",
+      mime: "audio/mp4",
+      totalSize: 5,
+      manifestationId: single.id,
+      files: [{ path: audioPath, size: 5, start: 0, end: 4, durationMs: 1000 }],
+    });
+    const multi = repo.addManifestation({ bookId: book.id, kind: "audio", label: "Full Cast" });
+    const multiAsset = repo.addAsset({
+      bookId: book.id,
+      kind: "multi",
+      mime: "audio/mpeg",
+      totalSize: 12,
+      manifestationId: multi.id,
+      files: partPaths.map((filePath, index) => ({ path: filePath, size: 6, start: index * 6, end: index * 6 + 5, durationMs: 1000 })),
+    });
+    // Files outside the library are never moved.
+    const outside = writeFile(path.join(tempDir("books-outside-"), "Dune Messiah.epub"), "ebook");
+    repo.addAsset({
+      bookId: book.id,
+      kind: "single",
+      mime: "application/epub+zip",
+      totalSize: 5,
+      manifestationId: repo.addManifestation({ bookId: book.id, kind: "ebook" }).id,
+      files: [{ path: outside, size: 5, start: 0, end: 4, durationMs: 0 }],
+    });
+
+    // Unchanged templates leave everything in place.
+    await processLibraryReorganizeJob(ctx, queueLibraryReorganize(repo, true));
+    expect(latestLibraryReorganize(repo)).toMatchObject({ dryRun: true, moves: [], unchanged: 4, errors: [] });
+
+    repo.updateSettings({
+      ...repo.getSettings(),
+      naming: { folderTemplate: "{author}/{series}/{seriesPosition:00} - {title}", fileTemplate: "{title} ({manifestationLabel})" },
+    });
+    const newFolder = path.join(libraryRoot, "Frank Herbert", "Dune", "02 - Dune Messiah");
+    const preview = queueLibraryReorganize(repo, true);
+    await processLibraryReorganizeJob(ctx, preview);
+    const planned = latestLibraryReorganize(repo)!;
+    expect(planned.jobId).toBe(preview.id);
+    expect(planned.moves.map((move) => [move.kind, move.to])).toEqual([
+      ["file", path.join(newFolder, "Dune Messiah (Full Cast)", "01.mp3")],
+      ["file", path.join(newFolder, "Dune Messiah (Full Cast)", "02.mp3")],
+      ["file", path.join(newFolder, "Dune Messiah (Unabridged).m4b")],
+      ["cover", path.join(newFolder, "cover.jpg")],
+    ]);
+    expect(existsSync(audioPath)).toBe(true);
+    expect(repo.getJob(preview.id)?.status).toBe("succeeded");
+
+    await processLibraryReorganizeJob(ctx, queueLibraryReorganize(repo, false));
+    expect(latestLibraryReorganize(repo)).toMatchObject({ dryRun: false, errors: [] });
+    expect(readFileSync(path.join(newFolder, "Dune Messiah (Unabridged).m4b"), "utf8")).toBe("audio");
+    expect(repo.getAssetFiles(multiAsset.id).map((file) => file.path)).toEqual([
+      path.join(newFolder, "Dune Messiah (Full Cast)", "01.mp3"),
+      path.join(newFolder, "Dune Messiah (Full Cast)", "02.mp3"),
+    ]);
+    expect(repo.getBookRow(book.id)?.cover_path).toBe(path.join(newFolder, "cover.jpg"));
+    expect(existsSync(outside)).toBe(true);
+    // The emptied author/title folder is removed.
+    expect(existsSync(oldFolder)).toBe(false);
+    expect(logs.at(-1)).toContain("dry_run=false moves=4");
+    db.close();
+  });
+
+  test("a book whose move fails keeps its files and paths", async () => {
+    const { db, repo } = createRepo();
+    const libraryRoot = tempDir("books-reorganize-");
+    repo.updateSettings(defaultSettings({ libraryRoot, naming: { folderTemplate: "{title}", fileTemplate: "{title}" } }));
+    const book = repo.createBook({ title: "Emma", author: "Jane Austen" });
+    const files = ["a.mp3", "b.mp3"].map((name) => writeFile(path.join(libraryRoot, "Jane Austen", "Emma", "Emma", name), name));
+    const asset = repo.addAsset({
+      bookId: book.id,
+      kind: "multi",
+      mime: "audio/mpeg",
+      totalSize: 10,
+      manifestationId: repo.addManifestation({ bookId: book.id, kind: "audio" }).id,
+      files: files.map((filePath, index) => ({ path: filePath, size: 5, start: index * 5, end: index * 5 + 4, durationMs: 1000 })),
+    });
+
+    const plan = planLibraryReorganize(repo);
+    expect(plan.moves.map((move) => move.to)).toEqual([
+      path.join(libraryRoot, "Emma", "Emma", "a.mp3"),
+      path.join(libraryRoot, "Emma", "Emma", "b.mp3"),
+    ]);
+    // Something lands on the second destination after planning, so the first rename has to be undone.
+    writeFile(path.join(libraryRoot, "Emma", "Emma", "b.mp3"), "other");
+
+    const result = await applyLibraryReorganize(repo, plan);
+    expect(result.moved).toEqual([]);
+    expect(result.errors).toEqual([{ bookId: book.id, message: `Destination already exists: ${path.join(libraryRoot, "Emma", "Emma", "b.mp3")}` }]);
+    expect(files.every((filePath) => existsSync(filePath))).toBe(true);
+    expect(existsSync(path.join(libraryRoot, "Emma", "Emma", "a.mp3"))).toBe(false);
+    expect(repo.getAssetFiles(asset.id).map((file) => file.path)).toEqual(files);
+    db.close();
+  });
+});
@@ -460,4 +460,54 @@ test("addAsset attaches to an existing manifestation when manifestationId is pro
     expect(ordered).toEqual([high.id, mid.id, low.id]);
     db.close();
   });
+
+  test("keeps the newest playback position per user and manifestation", () => {
+    const { db, repo } = setupRepo();
+    const user = repo.upsertUser({ provider: "plex", providerUserId: "plex-1", username: "reader" });
+    const other = repo.upsertUser({ provider: "plex", providerUserId: "plex-2", username: "other" });
+    const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+    const first = repo.addManifestation({ bookId: book.id, kind: "audio" });
+    const second = repo.addManifestation({ bookId: book.id, kind: "audio" });
+
+    const saved = repo.upsertPlaybackPosition({
+      userId: user.id,
+      manifestationId: first.id,
+      positionMs: 60_000,
+      chapterIndex: 2,
+      deviceName: "iPhone",
+      updatedAt: "2026-01-01T10:00:00.000Z",
+    });
+    expect(saved.applied).toBe(true);
+    expect(saved.position.book_id).toBe(book.id);
+
+    const stale = repo.upsertPlaybackPosition({
+      userId: user.id,
+      manifestationId: first.id,
+      positionMs: 5_000,
+      deviceName: "Mac",
+      updatedAt: "2026-01-01T09:00:00.000Z",
+    });
+    expect(stale.applied).toBe(false);
+    expect(stale.position.position_ms).toBe(60_000);
+    expect(stale.position.device_name).toBe("iPhone");
+
+    repo.upsertPlaybackPosition({
+      userId: user.id,
+      manifestationId: second.id,
+      positionMs: 90_000,
+      deviceName: "Mac",
+      updatedAt: "2026-01-01T11:00:00.000Z",
+    });
+    repo.upsertPlaybackPosition({
+      userId: other.id,
+      manifestationId: first.id,
+      positionMs: 1_000,
+      updatedAt: "2026-01-01T12:00:00.000Z",
+    });
+
+    expect(repo.getLatestPlaybackPositionForBook(user.id, book.id)?.manifestation_id).toBe(second.id);
+    expect(repo.listRecentPlaybackPositions(user.id).map((row) => row.manifestation_id)).toEqual([second.id, first.id]);
+    expect(repo.getPlaybackPosition(other.id, first.id)?.position_ms).toBe(1_000);
+    db.close();
+  });
 });
@@ -494,6 +494,8 @@ describe("json-rpc handler", () => {
       fingerprint: "tfp",
     });
     repo.createJob({ type: "acquire", bookId: book.id });
+    repo.createBlocklistEntry({ titlePattern: "dune sample", source: "manual" });
+    repo.upsertInboxItem({ path: path.join(root, "inbox", "Dune"), status: "imported", bookId: book.id });
     repo.setJsonState("probe_cache_v1", [{ file: assetPath, mtimeMs: 123, data: null, error: "boom" }]);
 
     const wiped = await callRpc(repo, {
@@ -521,6 +523,8 @@ describe("json-rpc handler", () => {
     expect(repo.listBooks(10).items).toHaveLength(0);
     expect(repo.listReleasesByBook(book.id)).toHaveLength(0);
     expect(repo.listJobsByType("acquire")).toHaveLength(0);
+    expect(repo.listBlocklist()).toHaveLength(0);
+    expect(repo.listInboxItems()).toHaveLength(0);
     expect(repo.getJsonState("probe_cache_v1")).toBeNull();
     expect(repo.getHealthSummary().queueSize).toBe(0);
     expect(repo.getSettings().feed.title).toBe("Books Test Feed");
@@ -702,6 +706,9 @@ describe("json-rpc handler", () => {
       expect(result.result.deletedAssetCount).toBe(0);
       expect(result.result.deletedAssetFileCount).toBe(0);
       expect(result.result.deletedAssetPaths).toEqual([]);
+      expect(repo.listBlocklistForBook(book.id)).toMatchObject([
+        { id: result.result.blocklistEntryId, book_id: book.id, source: "user_report", release_id: release.id },
+      ]);
 
       const failedRelease = repo.getRelease(release.id);
       expect(failedRelease?.status).toBe("imported");
@@ -722,6 +729,96 @@ describe("json-rpc handler", () => {
     }
   });
 
+  test("releases.blocklist adds, lists and removes entries", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+
+    const invalid = await callRpc(repo, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "releases.blocklist.add",
+      params: { bookId: book.id, infoHash: "not-a-hash" },
+    });
+    expect(invalid.error.code).toBe(-32602);
+    expect(invalid.error.data.error).toBe("invalid_blocklist_entry");
+
+    const added = await callRpc(repo, {
+      jsonrpc: "2.0",
+      id: 2,
+      method: "releases.blocklist.add",
+      params: { titlePattern: "*dramatized*", reason: "not the unabridged reading" },
+    });
+    expect(added.result.entry).toMatchObject({ book_id: null, title_pattern: "*dramatized*", source: "manual" });
+    const forUser = await callRpc(repo, { jsonrpc: "2.0", id: 3, method: "releases.blocklist.list", params: {} }, "user");
+    expect(forUser.error.code).toBe(-32003);
+
+    const listed = await callRpc(repo, { jsonrpc: "2.0", id: 4, method: "releases.blocklist.list", params: { bookId: book.id } });
+    expect(listed.result.entries.map((entry: { id: number }) => entry.id)).toEqual([added.result.entry.id]);
+
+    const removed = await callRpc(repo, {
+      jsonrpc: "2.0",
+      id: 5,
+      method: "releases.blocklist.remove",
+      params: { id: added.result.entry.id },
+    });
+    expect(removed.result).toEqual({ ok: true });
+    expect(repo.listBlocklist()).toEqual([]);
+    db.close();
+  });
+
+  test("library.reorganize queues a dry run by default and settings reject unknown naming tokens", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+
+    const empty = await callRpc(repo, { jsonrpc: "2.0", id: 1, method: "library.reorganizePlan", params: {} });
+    expect(empty.result).toEqual({ report: null });
+
+    const queued = await callRpc(repo, { jsonrpc: "2.0", id: 2, method: "library.reorganize", params: {} });
+    const job = repo.getJob(queued.result.jobId);
+    expect(job?.type).toBe("library_reorganize");
+    expect(JSON.parse(job?.payload_json ?? "{}")).toEqual({ dryRun: true });
+    const applied = await callRpc(repo, { jsonrpc: "2.0", id: 3, method: "library.reorganize", params: { dryRun: false } });
+    expect(JSON.parse(repo.getJob(applied.result.jobId)?.payload_json ?? "{}")).toEqual({ dryRun: false });
+
+    const invalid = await callRpc(repo, {
+      jsonrpc: "2.0",
+      id: 4,
+      method: "settings.update",
+      params: { settings: { ...repo.getSettings(), naming: { folderTemplate: "{author}/{publisher}", fileTemplate: "{title}" } } },
+    });
+    expect(invalid.error.code).toBe(-32602);
+    const valid = await callRpc(repo, {
+      jsonrpc: "2.0",
+      id: 5,
+      method: "settings.update",
+      params: { settings: { ...repo.getSettings(), naming: { folderTemplate: "{author}/{series}/{title}", fileTemplate: "{title}" } } },
+    });
+    expect(valid.result.naming.folderTemplate).toBe("{author}/{series}/{title}");
+    db.close();
+  });
+
+  test("library.writeTags queues a tag write only while tag writing is enabled", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+
+    const disabled = await callRpc(repo, { jsonrpc: "2.0", id: 1, method: "library.writeTags", params: { bookId: book.id } });
+    expect(disabled.error.data.error).toBe("disabled");
+
+    repo.updateSettings({ ...repo.getSettings(), tagWriting: { enabled: true } });
+    const missing = await callRpc(repo, { jsonrpc: "2.0", id: 2, method: "library.writeTags", params: { bookId: 999 } });
+    expect(missing.error.data.error).toBe("not_found");
+    const queued = await callRpc(repo, { jsonrpc: "2.0", id: 3, method: "library.writeTags", params: { bookId: book.id } });
+    expect(repo.getJob(queued.result.jobId)).toMatchObject({ type: "tag_write", book_id: book.id });
+    const all = await callRpc(repo, { jsonrpc: "2.0", id: 4, method: "library.writeTags", params: {} });
+    expect(repo.getJob(all.result.jobId)?.book_id).toBeNull();
+    db.close();
+  });
+
   test("library.reportImportIssue targets imported release when releaseId is omitted", async () => {
     const originalFetch = globalThis.fetch;
     try {
@@ -1893,6 +1990,45 @@ describe("json-rpc handler", () => {
     db.close();
   });
 
+  test("import.inbox.list shows review items and import.inbox.assign imports them", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+
+    const root = await mkdtemp(path.join(os.tmpdir(), "books-inbox-assign-"));
+    const libraryRoot = path.join(root, "library");
+    const dropPath = path.join(root, "inbox", "Untitled Scan.pdf");
+    await mkdir(path.dirname(dropPath), { recursive: true });
+    await writeFile(dropPath, Buffer.from("pdf-bytes"));
+    repo.updateSettings(defaultSettings({ auth: { mode: "plex" }, libraryRoot }));
+
+    const imported = repo.upsertInboxItem({ path: path.join(root, "inbox", "done"), status: "imported" });
+    const unmatched = repo.upsertInboxItem({ path: dropPath, status: "unmatched", guessTitle: "Untitled Scan" });
+    const listed = await callRpc(repo, { jsonrpc: "2.0", id: 1, method: "import.inbox.list", params: {} });
+    expect(listed.result.items.map((item: any) => item.id)).toEqual([unmatched.id, imported.id]);
+
+    const alreadyDone = await callRpc(repo, {
+      jsonrpc: "2.0",
+      id: 2,
+      method: "import.inbox.assign",
+      params: { id: imported.id, bookId: 1 },
+    });
+    expect(alreadyDone.error.data.error).toBe("already_imported");
+
+    const book = repo.createBook({ title: "Field Guide", author: "Example Author" });
+    const assigned = await callRpc(repo, {
+      jsonrpc: "2.0",
+      id: 3,
+      method: "import.inbox.assign",
+      params: { id: unmatched.id, bookId: book.id },
+    });
+    expect(assigned.result.item).toMatchObject({ status: "imported", book_id: book.id });
+    expect(repo.listReleasesByBook(book.id)[0]).toMatchObject({ provider: "inbox", media_type: "ebook" });
+    expect(await Bun.file(dropPath).exists()).toBe(false);
+
+    db.close();
+  });
+
   test("agent.import.plan returns deterministic selected paths", async () => {
     const db = new Database(":memory:");
     runMigrations(db);
@@ -1962,6 +2098,259 @@ describe("json-rpc handler", () => {
     db.close();
   });
 
+  test("playback methods sync the caller's position and surface it as a resume point", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    repo.ensureSettings();
+
+    const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+    const manifestation = repo.addManifestation({ bookId: book.id, kind: "audio" });
+    repo.addAsset({
+      bookId: book.id,
+      kind: "single",
+      mime: "audio/mpeg",
+      totalSize: 100,
+      durationMs: 600_000,
+      manifestationId: manifestation.id,
+      sequenceInManifestation: 0,
+      files: [{ path: "/tmp/dune.mp3", size: 100, start: 0, end: 99, durationMs: 600_000, title: "Dune" }],
+    });
+
+    const empty = await callRpc(repo, { jsonrpc: "2.0", id: 1, method: "playback.get", params: { bookId: book.id } }, "user");
+    expect(empty.result.position).toBeNull();
+
+    const updated = await callRpc(
+      repo,
+      {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "playback.update",
+        params: {
+          manifestationId: manifestation.id,
+          positionMs: 123_456,
+          chapterIndex: 3,
+          deviceName: "iPhone",
+          updatedAt: "2026-01-01T10:00:00.000Z",
+        },
+      },
+      "user"
+    );
+    expect(updated.result.applied).toBe(true);
+    expect(updated.result.position).toEqual({
+      bookId: book.id,
+      manifestationId: manifestation.id,
+      positionMs: 123_456,
+      chapterIndex: 3,
+      deviceName: "iPhone",
+      updatedAt: "2026-01-01T10:00:00.000Z",
+    });
+
+    const stale = await callRpc(
+      repo,
+      {
+        jsonrpc: "2.0",
+        id: 3,
+        method: "playback.update",
+        params: { manifestationId: manifestation.id, positionMs: 1_000, deviceName: "Mac", updatedAt: "2026-01-01T09:00:00.000Z" },
+      },
+      "user"
+    );
+    expect(stale.result.applied).toBe(false);
+    expect(stale.result.position.positionMs).toBe(123_456);
+
+    const recent = await callRpc(repo, { jsonrpc: "2.0", id: 4, method: "playback.listRecent", params: {} }, "user");
+    expect(recent.result.items.map((item: any) => item.manifestationId)).toEqual([manifestation.id]);
+
+    const fetched = await callRpc(repo, { jsonrpc: "2.0", id: 5, method: "library.get", params: { bookId: book.id } }, "user");
+    expect(fetched.result.book.playback.resume.positionMs).toBe(123_456);
+    expect(fetched.result.book.playback.resume.deviceName).toBe("iPhone");
+
+    const otherUser = await callRpc(repo, { jsonrpc: "2.0", id: 6, method: "library.get", params: { bookId: book.id } }, "admin");
+    expect(otherUser.result.book.playback.resume).toBeNull();
+
+    const missing = await callRpc(
+      repo,
+      { jsonrpc: "2.0", id: 7, method: "playback.update", params: { manifestationId: 999, positionMs: 1 } },
+      "user"
+    );
+    expect(missing.error.code).toBe(-32000);
+    expect(missing.error.data.error).toBe("not_found");
+
+    db.close();
+  });
+
+  test("library.setConsumption tracks per-user states and filters library.list", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    repo.ensureSettings();
+
+    const dune = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+    const emma = repo.createBook({ title: "Emma", author: "Jane Austen" });
+    const ulysses = repo.createBook({ title: "Ulysses", author: "James Joyce" });
+    const duneAudio = repo.addManifestation({ bookId: dune.id, kind: "audio" });
+
+    const listened = await callRpc(
+      repo,
+      { jsonrpc: "2.0", id: 1, method: "playback.update", params: { manifestationId: duneAudio.id, positionMs: 5_000 } },
+      "user"
+    );
+    expect(listened.result.applied).toBe(true);
+
+    const finished = await callRpc(
+      repo,
+      { jsonrpc: "2.0", id: 2, method: "library.setConsumption", params: { bookId: emma.id, state: "finished" } },
+      "user"
+    );
+    expect(finished.result.consumption.state).toBe("finished");
+    expect(finished.result.consumption.startedAt).toBeTruthy();
+    expect(finished.result.consumption.finishedAt).toBeTruthy();
+
+    await callRpc(
+      repo,
+      { jsonrpc: "2.0", id: 3, method: "library.setConsumption", params: { bookId: ulysses.id, state: "abandoned" } },
+      "admin"
+    );
+
+    const listIds = async (consumption: unknown, auth: RpcCallerAuth = "user") => {
+      const payload = await callRpc(repo, { jsonrpc: "2.0", id: 4, method: "library.list", params: { consumption } }, auth);
+      return payload.result.items.map((item: any) => item.id);
+    };
+    expect(await listIds(["listening"])).toEqual([dune.id]);
+    expect(await listIds("finished")).toEqual([emma.id]);
+    expect(await listIds(["unstarted"])).toEqual([ulysses.id]);
+    expect(await listIds(["abandoned"], "admin")).toEqual([ulysses.id]);
+    expect(await listIds(["unstarted"], "admin")).toEqual([emma.id, dune.id]);
+
+    const fetched = await callRpc(repo, { jsonrpc: "2.0", id: 5, method: "library.get", params: { bookId: emma.id } }, "user");
+    expect(fetched.result.book.consumption.state).toBe("finished");
+
+    const reset = await callRpc(
+      repo,
+      { jsonrpc: "2.0", id: 6, method: "library.setConsumption", params: { bookId: emma.id, state: "unstarted" } },
+      "user"
+    );
+    expect(reset.result.consumption).toEqual({
+      state: "unstarted",
+      startedAt: null,
+      finishedAt: null,
+      abandonedAt: null,
+      updatedAt: null,
+    });
+
+    const invalid = await callRpc(
+      repo,
+      { jsonrpc: "2.0", id: 7, method: "library.setConsumption", params: { bookId: emma.id, state: "skimmed" } },
+      "user"
+    );
+    expect(invalid.error.code).toBe(-32602);
+
+    db.close();
+  });
+
+  test("chapters editor saves a manual override that survives re-analysis until discarded", async () => {
+    const root = await mkdtemp(path.join(os.tmpdir(), "podible-chapter-editor-"));
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    repo.ensureSettings();
+    try {
+      const book = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+      const manifestation = repo.addManifestation({ bookId: book.id, kind: "audio" });
+      repo.addAsset({
+        bookId: book.id,
+        kind: "multi",
+        mime: "audio/mpeg",
+        totalSize: 20,
+        durationMs: 600_000,
+        manifestationId: manifestation.id,
+        files: [
+          { path: path.join(root, "part-1.mp3"), size: 10, start: 0, end: 9, durationMs: 300_000, title: "Book One" },
+          { path: path.join(root, "part-2.mp3"), size: 10, start: 10, end: 19, durationMs: 300_000, title: "Book Two" },
+        ],
+      });
+      const transcriptPath = path.join(root, "transcript.json");
+      await writeFile(
+        transcriptPath,
+        JSON.stringify({
+          version: "1",
+          text: "the end of book one. book two muad'dib",
+          words: [],
+          utterances: [
+            { startMs: 295_000, endMs: 299_500, text: "the end of book one." },
+            { startMs: 301_200, endMs: 304_000, text: "Book two. Muad'Dib." },
+          ],
+        })
+      );
+      repo.upsertManifestationTranscript({
+        manifestationId: manifestation.id,
+        status: "succeeded",
+        source: "test",
+        algorithmVersion: "test",
+        fingerprint: "fp",
+        transcriptPath,
+      });
+      const call = async (method: string, params: Record<string, unknown>, auth: RpcCallerAuth = "admin") =>
+        callRpc(repo, { jsonrpc: "2.0", id: 1, method, params }, auth);
+
+      const initial = await call("chapters.get", { manifestationId: manifestation.id });
+      expect(initial.result.override).toBeNull();
+      expect(initial.result.chapters.map((chapter: any) => [chapter.title, chapter.startTime])).toEqual([
+        ["Book One", 0],
+        ["Book Two", 300],
+      ]);
+
+      const window = await call("chapters.transcriptWindow", { manifestationId: manifestation.id, time: 300, radiusSeconds: 10 });
+      expect(window.result.utterances.map((utterance: any) => utterance.startTime)).toEqual([295, 301.2]);
+
+      const forbidden = await call("chapters.saveOverride", { manifestationId: manifestation.id, chapters: [] }, "user");
+      expect(forbidden.error.code).toBe(-32003);
+      const outOfOrder = await call("chapters.saveOverride", {
+        manifestationId: manifestation.id,
+        chapters: [
+          { title: "Book One", startTime: 0 },
+          { title: "Book Two", startTime: 700 },
+        ],
+      });
+      expect(outOfOrder.error.data.error).toBe("invalid_chapters");
+
+      const saved = await call("chapters.saveOverride", {
+        manifestationId: manifestation.id,
+        chapters: [
+          { title: "Prologue", startTime: 0 },
+          { title: "Book One", startTime: 12.5 },
+          { title: "Book Two: Muad'Dib", startTime: 301.2 },
+        ],
+      });
+      expect(saved.result.override).not.toBeNull();
+      expect(saved.result.chapters.map((chapter: any) => [chapter.title, chapter.startTime, chapter.source])).toEqual([
+        ["Prologue", 0, "manual"],
+        ["Book One", 12.5, "manual"],
+        ["Book Two: Muad'Dib", 301.2, "manual"],
+      ]);
+
+      repo.upsertChapterAnalysis({
+        manifestationId: manifestation.id,
+        status: "succeeded",
+        source: "test",
+        algorithmVersion: "test",
+        fingerprint: "rerun",
+        chaptersJson: JSON.stringify([{ startTime: 0, title: "Curated" }]),
+      });
+      const afterRerun = await call("chapters.get", { manifestationId: manifestation.id });
+      expect(afterRerun.result.curatedChaptersStored).toBe(true);
+      expect(afterRerun.result.chapters[2].title).toBe("Book Two: Muad'Dib");
+
+      const discarded = await call("chapters.discardOverride", { manifestationId: manifestation.id });
+      expect(discarded.result.override).toBeNull();
+      expect(discarded.result.chapters.map((chapter: any) => chapter.title)).toEqual(["Curated"]);
+    } finally {
+      db.close();
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
   test("auth.beginAppLogin validates redirect URIs and auth.exchange returns an app session", async () => {
     const db = new Database(":memory:");
     runMigrations(db);
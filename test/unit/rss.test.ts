@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+
+import { runMigrations } from "../../src/db";
+import { matchFeedResults } from "../../src/library/rss";
+import type { TorznabResult } from "../../src/library/torznab";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings } from "../../src/settings";
+import { processRssSyncJob, queueRssSync } from "../../src/worker/rss";
+import { startMockTorznab } from "../mocks/torznab";
+
+function feedItem(title: string): TorznabResult {
+  return {
+    title,
+    provider: "mock",
+    mediaType: "audio",
+    protocol: "torrent",
+    sizeBytes: 100,
+    url: `https://example.com/${encodeURIComponent(title)}.torrent`,
+    guid: title,
+    infoHash: null,
+    seeders: 5,
+    leechers: 0,
+    raw: {},
+  };
+}
+
+describe("rss sync", () => {
+  test("matches whole title words, the author surname and the book language", () => {
+    const book = { title: "It", author: "Stephen King", language: "en" };
+    const items = [
+      feedItem("Stephen King - It (Unabridged) [m4b]"),
+      feedItem("Stephen King - It [German] [mp3]"),
+      feedItem("Stephen King - Italian Stories [m4b]"),
+      feedItem("Stephen King - It [epub]"),
+      feedItem("Someone Else - It [m4b]"),
+    ];
+    expect(matchFeedResults(book, "audio", items).map((item) => item.title)).toEqual(["Stephen King - It (Unabridged) [m4b]"]);
+    expect(matchFeedResults(book, "ebook", items).map((item) => item.title)).toEqual(["Stephen King - It [epub]"]);
+    expect(matchFeedResults({ ...book, language: null }, "audio", items)).toHaveLength(2);
+  });
+
+  test("queues acquires with feed matches for wanted media and skips items already seen", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const torznab = startMockTorznab({
+      results: [
+        { title: "Brandon Sanderson - Elantris [m4b]", torrentId: "elantris", size: 100 },
+        { title: "Brandon Sanderson - Warbreaker [epub]", torrentId: "warbreaker", size: 10 },
+        { title: "Brandon Sanderson - Mistborn [m4b]", torrentId: "mistborn", size: 100 },
+      ],
+      torrents: {},
+    });
+    repo.updateSettings(
+      defaultSettings({
+        auth: { mode: "plex" },
+        torznab: [{ name: "mock", baseUrl: torznab.baseUrl, categories: { audio: "3030", ebook: "7020" } }],
+        rss: { intervalMinutes: 5 },
+      })
+    );
+    const elantris = repo.createBook({ title: "Elantris", author: "Brandon Sanderson" });
+    const warbreaker = repo.createBook({ title: "Warbreaker", author: "Brandon Sanderson" });
+
+    try {
+      const job = queueRssSync(repo);
+      expect(queueRssSync(repo).id).toBe(job.id);
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: () => {} };
+
+      const before = Date.now();
+      expect(await processRssSyncJob(ctx, job)).toBe("rescheduled");
+      expect(Date.parse(repo.getJob(job.id)!.next_run_at!)).toBeGreaterThanOrEqual(before + 5 * 60_000);
+      expect(torznab.searches).toEqual([
+        { t: "search", cat: "3030" },
+        { t: "search", cat: "7020" },
+      ]);
+
+      const acquires = repo.listJobsByType("acquire");
+      const payloads = acquires
+        .map((acquire) => JSON.parse(acquire.payload_json ?? "{}"))
+        .map((payload) => [payload.bookId, payload.media, payload.feedResults.map((item: TorznabResult) => item.title)])
+        .sort((a, b) => a[0] - b[0]);
+      expect(payloads).toEqual([
+        [elantris.id, ["audio"], ["Brandon Sanderson - Elantris [m4b]"]],
+        [warbreaker.id, ["ebook"], ["Brandon Sanderson - Warbreaker [epub]"]],
+      ]);
+
+      for (const acquire of acquires) repo.markJobCancelled(acquire.id);
+      await processRssSyncJob(ctx, repo.getJob(job.id)!);
+      expect(repo.listJobsByType("acquire")).toHaveLength(2);
+    } finally {
+      torznab.stop();
+      db.close();
+    }
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+
+import { runMigrations } from "../../src/db";
+import { BooksRepo } from "../../src/repo";
+import { SabnzbdClient } from "../../src/sabnzbd";
+import { defaultSettings } from "../../src/settings";
+import { runSearch, runSnatch } from "../../src/library/service";
+import { processDownloadJob } from "../../src/worker/downloads";
+import { startMockNewznab } from "../mocks/newznab";
+import { startMockSabnzbd } from "../mocks/sabnzbd";
+
+const NZB = `<?xml version="1.0" encoding="utf-8"?>
+<nzb xmlns="http://www.newzbin.com/DTD/2003/nzb"><file subject="elantris.m4b"><segments /></file></nzb>`;
+
+describe("sabnzbd download client", () => {
+  test("merges Newznab results into search and snatches NZBs without an info hash", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const book = repo.createBook({ title: "Elantris", author: "Brandon Sanderson" });
+    const newznab = startMockNewznab({
+      results: [{ title: "Elantris Audiobook M4B", nzbId: "elantris", size: 4096 }],
+      nzbs: { elantris: NZB },
+    });
+    const sabnzbd = startMockSabnzbd({
+      apiKey: "sab-key",
+      byName: { "Elantris Audiobook M4B": { storage: "/complete/Elantris", sizeBytes: 4096, completeAfterPolls: 1 } },
+    });
+    const settings = defaultSettings({
+      newznab: [{ name: "nzbgeek", baseUrl: newznab.baseUrl }],
+      usenetClient: "sabnzbd",
+      sabnzbd: { url: sabnzbd.url, apiKey: "sab-key", category: "audiobooks" },
+    });
+
+    try {
+      expect(await runSearch(defaultSettings({ newznab: settings.newznab }), { query: "Elantris", media: "audio" })).toEqual([]);
+
+      const [result] = await runSearch(settings, { query: "Elantris", media: "audio" });
+      expect(result?.protocol).toBe("usenet");
+      expect(result?.infoHash).toBeNull();
+
+      const snatch = await runSnatch(repo, settings, {
+        bookId: book.id,
+        provider: result!.provider,
+        providerGuid: result!.guid,
+        title: result!.title,
+        mediaType: "audio",
+        url: result!.url,
+        protocol: result!.protocol,
+      });
+      expect(snatch.release.protocol).toBe("usenet");
+      expect(snatch.release.info_hash).toBeNull();
+      expect(snatch.release.download_id).toBe("SABnzbd_nzo_1");
+      expect(sabnzbd.added).toEqual([{ nzoId: "SABnzbd_nzo_1", name: "Elantris Audiobook M4B", category: "audiobooks", nzb: NZB }]);
+      expect(JSON.parse(repo.getJob(snatch.jobId)?.payload_json ?? "{}").downloadId).toBe("SABnzbd_nzo_1");
+
+      const again = await runSnatch(repo, settings, {
+        bookId: book.id,
+        provider: result!.provider,
+        providerGuid: result!.guid,
+        title: result!.title,
+        mediaType: "audio",
+        url: result!.url,
+        protocol: "usenet",
+      });
+      expect(again.idempotent).toBe(true);
+      expect(sabnzbd.added).toHaveLength(1);
+    } finally {
+      newznab.stop();
+      sabnzbd.stop();
+      db.close();
+    }
+  });
+
+  test("download job waits out post-processing and imports from the completed folder", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const sabnzbd = startMockSabnzbd({
+      apiKey: "sab-key",
+      byName: {
+        Warbreaker: { storage: "/complete/audiobooks/Warbreaker", sizeBytes: 2 * 1024 * 1024, completeAfterPolls: 2, postProcessingPolls: 1 },
+      },
+    });
+    repo.updateSettings(
+      defaultSettings({
+        auth: { mode: "plex" },
+        usenetClient: "sabnzbd",
+        sabnzbd: { url: sabnzbd.url, apiKey: "sab-key" },
+      })
+    );
+
+    try {
+      const downloadId = await new SabnzbdClient({ url: sabnzbd.url, apiKey: "sab-key" }).addNzb(new TextEncoder().encode(NZB), "Warbreaker");
+      const book = repo.createBook({ title: "Warbreaker", author: "Brandon Sanderson" });
+      const release = repo.createRelease({
+        bookId: book.id,
+        provider: "nzbgeek",
+        title: "Warbreaker",
+        mediaType: "audio",
+        protocol: "usenet",
+        downloadId,
+        url: "https://indexer.example/getnzb/warbreaker.nzb",
+        status: "snatched",
+      });
+      const job = repo.createJob({ type: "download", bookId: book.id, releaseId: release.id, payload: { downloadId } });
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: () => {} };
+
+      expect(await processDownloadJob(ctx, job)).toBe("rescheduled");
+      expect(repo.getRelease(release.id)?.status).toBe("downloading");
+      // Second poll lands in post-processing: nothing left to fetch, but no folder yet.
+      expect(await processDownloadJob(ctx, repo.getJob(job.id)!)).toBe("rescheduled");
+      expect(repo.getRelease(release.id)?.status).toBe("downloading");
+      expect(await processDownloadJob(ctx, repo.getJob(job.id)!)).toBe("done");
+      expect(repo.getRelease(release.id)?.status).toBe("downloaded");
+
+      const importJobs = repo.listJobsByType("import").filter((row) => row.release_id === release.id);
+      expect(importJobs).toHaveLength(1);
+      const payload = JSON.parse(importJobs[0]!.payload_json ?? "{}");
+      expect(payload.basePath).toBe("/complete/audiobooks/Warbreaker");
+      expect(payload.selectedPaths).toEqual([]);
+      expect(payload.downloadId).toBe(downloadId);
+    } finally {
+      sabnzbd.stop();
+      db.close();
+    }
+  });
+
+  test("failed jobs force a reacquire and remove keeps files on disk", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const sabnzbd = startMockSabnzbd({
+      apiKey: "sab-key",
+      byName: {
+        Skyward: { storage: "", sizeBytes: 1024, completeAfterPolls: 0, failMessage: "Repair failed, not enough repair blocks" },
+      },
+    });
+    repo.updateSettings(
+      defaultSettings({
+        auth: { mode: "plex" },
+        usenetClient: "sabnzbd",
+        sabnzbd: { url: sabnzbd.url, apiKey: "sab-key" },
+      })
+    );
+
+    try {
+      const client = new SabnzbdClient({ url: sabnzbd.url, apiKey: "sab-key" });
+      const downloadId = await client.addNzb(new TextEncoder().encode(NZB), "Skyward");
+      const book = repo.createBook({ title: "Skyward", author: "Brandon Sanderson" });
+      const release = repo.createRelease({
+        bookId: book.id,
+        provider: "nzbgeek",
+        title: "Skyward",
+        mediaType: "audio",
+        protocol: "usenet",
+        downloadId,
+        url: "https://indexer.example/getnzb/skyward.nzb",
+        status: "snatched",
+      });
+      const job = repo.createJob({ type: "download", bookId: book.id, releaseId: release.id, payload: { downloadId } });
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: () => {} };
+
+      expect(await processDownloadJob(ctx, job)).toBe("done");
+      const failed = repo.getRelease(release.id);
+      expect(failed?.status).toBe("failed");
+      expect(failed?.error).toContain("Usenet download errored in SABnzbd");
+      expect(failed?.error).toContain("Repair failed");
+      expect(repo.listJobsByType("acquire")).toHaveLength(1);
+
+      await client.remove(downloadId);
+      expect(sabnzbd.deleted).toEqual([{ mode: "history", nzoId: downloadId, delFiles: "0" }]);
+
+      await expect(new SabnzbdClient({ url: sabnzbd.url, apiKey: "wrong" }).getDownloadState(downloadId)).rejects.toThrow(
+        "API Key Incorrect"
+      );
+    } finally {
+      sabnzbd.stop();
+      db.close();
+    }
+  });
+});
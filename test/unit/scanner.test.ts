@@ -2,11 +2,13 @@ import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 
-import { describe, expect, test } from "bun:test";
+import { describe, expect, spyOn, test } from "bun:test";
 import { Database } from "bun:sqlite";
 import JSZip from "jszip";
 
+import type { EmbeddedAudioTags } from "../../src/app-types";
 import { runMigrations } from "../../src/db";
+import * as metadata from "../../src/media/metadata";
 import { BooksRepo } from "../../src/repo";
 import { scanLibraryRoot } from "../../src/library/scanner";
 
@@ -48,6 +50,24 @@ async function createMinimalEpub(filePath: string, text: string): Promise<void>
   await writeFile(filePath, Buffer.from(await zip.generateAsync({ type: "uint8array" })));
 }
 
+function tags(overrides: Partial<EmbeddedAudioTags>): EmbeddedAudioTags {
+  return {
+    title: null,
+    album: null,
+    artist: null,
+    albumArtist: null,
+    narrator: null,
+    series: null,
+    seriesPosition: null,
+    asin: null,
+    isbn: null,
+    publisher: null,
+    year: null,
+    hasCover: false,
+    ...overrides,
+  };
+}
+
 describe("library scanner metadata hydration", () => {
   test("hydrates work identifiers from Open Library for discovered books", async () => {
     const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "books-scan-"));
@@ -203,4 +223,66 @@ describe("library scanner metadata hydration", () => {
       await rm(tmpRoot, { recursive: true, force: true });
     }
   });
+
+  test("identifies books from embedded tags and nested folders outside Author/Title", async () => {
+    const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "books-scan-tags-"));
+    const tagged = path.join(tmpRoot, "Downloads", "rr-2014");
+    const byAsin = path.join(tmpRoot, "misc", "gs", "part 1");
+    const flat = path.join(tmpRoot, "Andy Weir - Project Hail Mary");
+    const discs = path.join(tmpRoot, "Brandon Sanderson", "Mistborn", "The Final Empire");
+    const loose = path.join(tmpRoot, "Field Recordings");
+    for (const dir of [tagged, byAsin, flat, path.join(discs, "CD 1"), path.join(discs, "CD 2"), loose]) {
+      await mkdir(dir, { recursive: true });
+    }
+    await writeFile(path.join(tagged, "Red Rising.m4b"), "audio");
+    await writeFile(path.join(byAsin, "01.mp3"), "audio");
+    await writeFile(path.join(flat, "01.mp3"), "audio");
+    await writeFile(path.join(discs, "CD 2", "01.mp3"), "disc two");
+    await writeFile(path.join(discs, "CD 1", "01.mp3"), "disc one");
+    await writeFile(path.join(loose, "01.mp3"), "audio");
+
+    const readTags = spyOn(metadata, "readEmbeddedAudioTags").mockImplementation((filePath: string) => {
+      if (filePath.startsWith(tagged)) {
+        return tags({ album: "Red Rising", artist: "Pierce Brown", narrator: "Tim Gerard Reynolds", asin: "B00I8U7V4U" });
+      }
+      if (filePath.startsWith(byAsin)) return tags({ album: "Golden Son (Unabridged)", artist: "P. Brown", asin: "B00I8UVJU6" });
+      return null;
+    });
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () => Response.json({ docs: [] })) as unknown as typeof fetch;
+
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+
+    try {
+      const goldenSon = repo.createBook({ title: "Golden Son", author: "Pierce Brown" });
+      repo.updateBookMetadata(goldenSon.id, { identifiers: { asin: "B00I8UVJU6" } });
+
+      const result = await scanLibraryRoot(repo, tmpRoot);
+      expect(result).toEqual({ booksCreated: 3, assetsCreated: 4 });
+
+      const redRising = repo.findBookByTitleAuthor("Red Rising", "Pierce Brown");
+      expect(JSON.parse(redRising?.identifiers_json ?? "{}")).toEqual({ asin: "B00I8U7V4U" });
+      const [redRisingAsset] = repo.listAssetsByBook(redRising!.id);
+      expect(JSON.parse(redRisingAsset!.embedded_tags_json ?? "null")).toMatchObject({ narrator: "Tim Gerard Reynolds" });
+      expect(repo.listAssetsByBook(goldenSon.id)).toHaveLength(1);
+      expect(repo.findBookByTitleAuthor("Project Hail Mary", "Andy Weir")).toBeTruthy();
+      const finalEmpire = repo.findBookByTitleAuthor("The Final Empire", "Brandon Sanderson");
+      const finalEmpireAssets = repo.listAssetsByBook(finalEmpire!.id);
+      expect(finalEmpireAssets).toHaveLength(1);
+      expect(repo.getAssetFiles(finalEmpireAssets[0]!.id).map((file) => path.relative(discs, file.path))).toEqual([
+        path.join("CD 1", "01.mp3"),
+        path.join("CD 2", "01.mp3"),
+      ]);
+      expect(repo.listAllBooks()).toHaveLength(4);
+
+      expect(await scanLibraryRoot(repo, tmpRoot)).toEqual({ booksCreated: 0, assetsCreated: 0 });
+    } finally {
+      readTags.mockRestore();
+      globalThis.fetch = originalFetch;
+      db.close();
+      await rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
 });
@@ -136,6 +136,134 @@ describe("schema migrations", () => {
     db.close();
   });
 
+  test("rebuilds releases for Usenet without dropping dependent jobs", () => {
+    const db = new Database(":memory:");
+    db.exec("PRAGMA foreign_keys = ON;");
+    runMigrations(db);
+
+    const now = new Date().toISOString();
+    const book = db
+      .query("INSERT INTO books (title, author, added_at, updated_at) VALUES (?, ?, ?, ?) RETURNING id")
+      .get("Book", "Author", now, now) as { id: number };
+    const release = db
+      .query(
+        `INSERT INTO releases (book_id, provider, title, media_type, info_hash, size_bytes, url, snatched_at, status, updated_at)
+         VALUES (?, 'mock', 'Book', 'audio', ?, 100, 'https://example.com/book.torrent', ?, 'downloading', ?)
+         RETURNING id`
+      )
+      .get(book.id, "3333333333333333333333333333333333333333", now, now) as { id: number };
+    const job = db
+      .query(
+        "INSERT INTO jobs (type, status, book_id, release_id, created_at, updated_at) VALUES ('download', 'queued', ?, ?, ?, ?) RETURNING id"
+      )
+      .get(book.id, release.id, now, now) as { id: number };
+
+    // Roll releases back to the pre-Usenet columns and replay the migration.
+    db.exec("ALTER TABLE releases DROP COLUMN download_id; ALTER TABLE releases DROP COLUMN protocol;");
+    db.query("DELETE FROM schema_migrations WHERE id = 35").run();
+    runMigrations(db);
+
+    expect(db.query("SELECT protocol, info_hash, download_id FROM releases WHERE id = ?").get(release.id)).toEqual({
+      protocol: "torrent",
+      info_hash: "3333333333333333333333333333333333333333",
+      download_id: null,
+    });
+    expect(db.query("SELECT release_id FROM jobs WHERE id = ?").get(job.id)).toEqual({ release_id: release.id });
+    expect(db.query("PRAGMA foreign_keys").get()).toEqual({ foreign_keys: 1 });
+
+    const insertNzb = db.query(
+      `INSERT INTO releases (book_id, provider, title, media_type, protocol, info_hash, download_id, url, snatched_at, status, updated_at)
+       VALUES (?, 'nzbgeek', ?, 'audio', 'usenet', NULL, ?, ?, ?, 'snatched', ?)`
+    );
+    expect(() => {
+      insertNzb.run(book.id, "Book NZB", "SABnzbd_nzo_1", "https://indexer.example/1.nzb", now, now);
+      insertNzb.run(book.id, "Book NZB 2", "SABnzbd_nzo_2", "https://indexer.example/2.nzb", now, now);
+    }).not.toThrow();
+
+    db.close();
+  });
+
+  test("adds seeding columns to releases and accepts seeding check jobs", () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+
+    const now = new Date().toISOString();
+    const book = db
+      .query("INSERT INTO books (title, author, added_at, updated_at) VALUES (?, ?, ?, ?) RETURNING id")
+      .get("Book", "Author", now, now) as { id: number };
+    const release = db
+      .query(
+        `INSERT INTO releases (book_id, provider, title, media_type, info_hash, url, snatched_at, status, updated_at)
+         VALUES (?, 'mock', 'Book', 'audio', ?, 'https://example.com/book.torrent', ?, 'imported', ?)
+         RETURNING seed_status, seed_ratio, seed_seconds, seed_checked_at, seed_removed_at, seed_error`
+      )
+      .get(book.id, "5555555555555555555555555555555555555555", now, now);
+    expect(release).toEqual({
+      seed_status: null,
+      seed_ratio: null,
+      seed_seconds: null,
+      seed_checked_at: null,
+      seed_removed_at: null,
+      seed_error: null,
+    });
+    expect(() => {
+      db.query("UPDATE releases SET seed_status = 'paused'").run();
+    }).toThrow();
+    expect(() => {
+      db.query("INSERT INTO jobs (type, status, created_at, updated_at) VALUES ('seeding_check', 'queued', ?, ?)").run(now, now);
+    }).not.toThrow();
+
+    db.close();
+  });
+
+  test("tracks wanted media per book and accepts wanted search jobs", () => {
+    const db = new Database(":memory:");
+    db.exec("PRAGMA foreign_keys = ON;");
+    runMigrations(db);
+
+    const now = new Date().toISOString();
+    const book = db
+      .query("INSERT INTO books (title, author, added_at, updated_at) VALUES (?, ?, ?, ?) RETURNING id")
+      .get("Book", "Author", now, now) as { id: number };
+    const insertWanted = db.query(
+      "INSERT INTO wanted_media (book_id, media_type, last_outcome, created_at, updated_at) VALUES (?, ?, ?, ?, ?)"
+    );
+    insertWanted.run(book.id, "audio", "no_result", now, now);
+    expect(() => insertWanted.run(book.id, "audio", "no_result", now, now)).toThrow();
+    expect(() => insertWanted.run(book.id, "ebook", "skipped", now, now)).toThrow();
+    expect(() => {
+      db.query("INSERT INTO jobs (type, status, created_at, updated_at) VALUES ('wanted_search', 'queued', ?, ?)").run(now, now);
+    }).not.toThrow();
+
+    db.query("DELETE FROM books WHERE id = ?").run(book.id);
+    expect(db.query("SELECT COUNT(*) AS count FROM wanted_media").get()).toEqual({ count: 0 });
+
+    db.close();
+  });
+
+  test("requires a match on blocklist entries and drops book-scoped ones with the book", () => {
+    const db = new Database(":memory:");
+    db.exec("PRAGMA foreign_keys = ON;");
+    runMigrations(db);
+
+    const now = new Date().toISOString();
+    const book = db
+      .query("INSERT INTO books (title, author, added_at, updated_at) VALUES (?, ?, ?, ?) RETURNING id")
+      .get("Book", "Author", now, now) as { id: number };
+    const insertEntry = db.query(
+      "INSERT INTO release_blocklist (book_id, guid, title_pattern, source, created_at) VALUES (?, ?, ?, ?, ?)"
+    );
+    insertEntry.run(book.id, "guid-1", null, "user_report", now);
+    insertEntry.run(null, null, "sample", "manual", now);
+    expect(() => insertEntry.run(book.id, null, null, "manual", now)).toThrow();
+    expect(() => insertEntry.run(book.id, "guid-2", null, "agent", now)).toThrow();
+
+    db.query("DELETE FROM books WHERE id = ?").run(book.id);
+    expect(db.query("SELECT title_pattern FROM release_blocklist").all()).toEqual([{ title_pattern: "sample" }]);
+
+    db.close();
+  });
+
   test("prunes stale empty manifestations while preserving active import targets", () => {
     const db = new Database(":memory:");
     runMigrations(db);
@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+
+import { runMigrations } from "../../src/db";
+import { seedingGoalMet, seedingRuleFor } from "../../src/library/seeding";
+import { BooksRepo } from "../../src/repo";
+import { RtorrentClient } from "../../src/rtorrent";
+import { defaultSettings } from "../../src/settings";
+import { processSeedingCheckJob, queueSeedingCheck } from "../../src/worker/seeding";
+import { startMockQbittorrent } from "../mocks/qbittorrent";
+import { startMockRtorrent } from "../mocks/rtorrent";
+
+const DONE_HASH = "1111111111111111111111111111111111111111";
+const SEEDING_HASH = "2222222222222222222222222222222222222222";
+const GONE_HASH = "3333333333333333333333333333333333333333";
+const UNRULED_HASH = "4444444444444444444444444444444444444444";
+
+function importedRelease(repo: BooksRepo, title: string, provider: string, infoHash: string) {
+  const book = repo.createBook({ title, author: "Brandon Sanderson" });
+  return repo.createRelease({
+    bookId: book.id,
+    provider,
+    title,
+    mediaType: "audio",
+    infoHash,
+    url: `https://example.com/${infoHash}.torrent`,
+    status: "imported",
+  });
+}
+
+describe("seeding goals", () => {
+  test("rules need every configured limit and ignore empty ones", () => {
+    const settings = defaultSettings({
+      torznab: [
+        { name: "both", baseUrl: "http://indexer", seeding: { minRatio: 1.5, minSeedMinutes: 60 } },
+        { name: "empty", baseUrl: "http://indexer", seeding: { minRatio: 0 } },
+        { name: "none", baseUrl: "http://indexer" },
+      ],
+    });
+    const rule = seedingRuleFor(settings, "both")!;
+    expect(seedingRuleFor(settings, "empty")).toBeNull();
+    expect(seedingRuleFor(settings, "none")).toBeNull();
+    expect(seedingRuleFor(settings, "missing")).toBeNull();
+
+    expect(seedingGoalMet(rule, { ratio: 2, seedingSeconds: 3600 })).toBe(true);
+    expect(seedingGoalMet(rule, { ratio: 2, seedingSeconds: 3599 })).toBe(false);
+    expect(seedingGoalMet(rule, { ratio: 1.4, seedingSeconds: 7200 })).toBe(false);
+    expect(seedingGoalMet({ minRatio: 1 }, { ratio: 1, seedingSeconds: null })).toBe(true);
+    expect(seedingGoalMet({ minSeedMinutes: 10 }, { ratio: 5, seedingSeconds: null })).toBe(false);
+  });
+
+  test("check job removes torrents that met their goal and records every outcome", async () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const repo = new BooksRepo(db);
+    const qbittorrent = startMockQbittorrent({
+      username: "admin",
+      password: "secret",
+      byHash: {
+        [DONE_HASH]: { name: "Elantris", savePath: "/downloads", sizeBytes: 100, completeAfterPolls: 0, ratio: 2.1, seedingSeconds: 7200 },
+        [SEEDING_HASH]: { name: "Warbreaker", savePath: "/downloads", sizeBytes: 100, completeAfterPolls: 0, ratio: 0.4, seedingSeconds: 7200 },
+        [UNRULED_HASH]: { name: "Skyward", savePath: "/downloads", sizeBytes: 100, completeAfterPolls: 0, ratio: 9 },
+      },
+    });
+    repo.updateSettings(
+      defaultSettings({
+        auth: { mode: "plex" },
+        downloadClient: "qbittorrent",
+        qbittorrent: { url: qbittorrent.url, username: "admin", password: "secret" },
+        torznab: [
+          { name: "private", baseUrl: "http://indexer", seeding: { minRatio: 1, minSeedMinutes: 60 } },
+          { name: "public", baseUrl: "http://indexer" },
+        ],
+        seeding: { checkMinutes: 15 },
+      })
+    );
+    const done = importedRelease(repo, "Elantris", "private", DONE_HASH);
+    const seeding = importedRelease(repo, "Warbreaker", "private", SEEDING_HASH);
+    const gone = importedRelease(repo, "Mistborn", "private", GONE_HASH);
+    const unruled = importedRelease(repo, "Skyward", "public", UNRULED_HASH);
+
+    try {
+      const job = queueSeedingCheck(repo);
+      expect(queueSeedingCheck(repo).id).toBe(job.id);
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: () => {} };
+
+      const before = Date.now();
+      expect(await processSeedingCheckJob(ctx, job)).toBe("rescheduled");
+      const rescheduled = repo.getJob(job.id)!;
+      expect(rescheduled.status).toBe("queued");
+      expect(Date.parse(rescheduled.next_run_at!)).toBeGreaterThanOrEqual(before + 15 * 60_000);
+
+      expect(qbittorrent.deleted).toEqual([{ hashes: DONE_HASH, deleteFiles: "false" }]);
+      const removed = repo.getRelease(done.id)!;
+      expect(removed.seed_status).toBe("removed");
+      expect(removed.seed_ratio).toBe(2.1);
+      expect(removed.seed_seconds).toBe(7200);
+      expect(removed.seed_removed_at).not.toBeNull();
+      expect(removed.status).toBe("imported");
+
+      const stillSeeding = repo.getRelease(seeding.id)!;
+      expect(stillSeeding.seed_status).toBe("seeding");
+      expect(stillSeeding.seed_ratio).toBe(0.4);
+      expect(stillSeeding.seed_checked_at).not.toBeNull();
+
+      expect(repo.getRelease(gone.id)?.seed_status).toBe("missing");
+      expect(repo.getRelease(unruled.id)?.seed_status).toBeNull();
+
+      // Finished releases drop out of later passes; a client outage is recorded
+      // without losing the last reported figures.
+      qbittorrent.stop();
+      expect(await processSeedingCheckJob(ctx, repo.getJob(job.id)!)).toBe("rescheduled");
+      const failedCheck = repo.getRelease(seeding.id)!;
+      expect(failedCheck.seed_status).toBe("seeding");
+      expect(failedCheck.seed_ratio).toBe(0.4);
+      expect(failedCheck.seed_error).not.toBeNull();
+      expect(repo.getRelease(done.id)?.seed_error).toBeNull();
+      expect(repo.getRelease(gone.id)?.seed_error).toBeNull();
+    } finally {
+      qbittorrent.stop();
+      db.close();
+    }
+  });
+
+  test("rtorrent reports ratio in thousandths and seed time since completion", async () => {
+    const finishedAt = Math.round(Date.now() / 1000) - 5400;
+    const rtorrent = startMockRtorrent({
+      byHash: {
+        [DONE_HASH]: { name: "Elantris", basePath: "/downloads/Elantris", sizeBytes: 100, completeAfterPolls: 0, ratio: 1.25, finishedAt },
+      },
+    });
+    try {
+      const client = new RtorrentClient({ transport: "http-xmlrpc", url: rtorrent.url });
+      const state = await client.getSeedingState(DONE_HASH);
+      expect(state?.ratio).toBe(1.25);
+      expect(state?.seedingSeconds).toBeGreaterThanOrEqual(5400);
+      expect(await client.getSeedingState(GONE_HASH)).toBeNull();
+
+      await client.remove(DONE_HASH);
+      expect(rtorrent.erased).toEqual([DONE_HASH]);
+      expect(await client.getSeedingState(DONE_HASH)).toBeNull();
+    } finally {
+      rtorrent.stop();
+    }
+  });
+});
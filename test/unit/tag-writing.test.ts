@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { chmodSync, existsSync, linkSync, mkdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { runMigrations } from "../../src/db";
+import { currentManifestationFingerprint } from "../../src/library/chapter-analysis";
+import { bookTagValues, queueTagWrite, tagWriteArgs } from "../../src/library/tag-writing";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings } from "../../src/settings";
+import { processTagWriteJob, queueTagWriteAfterCuration } from "../../src/worker/tag-writing";
+import { removeTempDirs, tempDir, writeFile } from "../helpers/temp-files";
+
+afterEach(removeTempDirs);
+
+// Stands in for ffmpeg: copies the first input to the output, appends a marker and records its arguments.
+function installFakeFfmpeg(): { argsFile: string; restore: () => void } {
+  const binDir = tempDir("fake-ffmpeg-");
+  const argsFile = path.join(binDir, "args.txt");
+  const script = path.join(binDir, "ffmpeg");
+  writeFileSync(
+    script,
+    `#!/bin/sh
+printf '%s\\n' "$@" >> "${argsFile}"
+src=""; prev=""; out=""
+for arg in "$@"; do
+  if [ "$prev" = "-i" ] && [ -z "$src" ]; then src="$arg"; fi
+  prev="$arg"; out="$arg"
+done
+cat "$src" > "$out" && printf ' tagged' >> "$out"
+`
+  );
+  chmodSync(script, 0o755);
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${binDir}:${originalPath ?? ""}`;
+  return {
+    argsFile,
+    restore: () => {
+      process.env.PATH = originalPath;
+    },
+  };
+}
+
+function createTagRepo(enabled: boolean) {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  const repo = new BooksRepo(db);
+  const libraryRoot = tempDir("tags-lib-");
+  repo.updateSettings(defaultSettings({ libraryRoot, tagWriting: { enabled } }));
+  return { db, repo, libraryRoot };
+}
+
+const book = {
+  title: "Dune Messiah",
+  author: "Frank Herbert",
+  publishedAt: "1969-10-15T00:00:00.000Z",
+  description: "Twelve years after Arrakis.",
+  series: [{ key: null, name: "Dune", position: "2" }],
+};
+
+describe("tag writing", () => {
+  test("builds ffmpeg arguments from the book's metadata, cover and chapters", () => {
+    const tags = bookTagValues(book, "Scott Brick");
+    expect(tags).toEqual({
+      title: "Dune Messiah",
+      album: "Dune Messiah",
+      artist: "Frank Herbert",
+      album_artist: "Frank Herbert",
+      composer: "Scott Brick",
+      genre: "Audiobook",
+      date: "1969",
+      description: "Twelve years after Arrakis.",
+      comment: "Twelve years after Arrakis.",
+      series: "Dune",
+      "series-part": "2",
+      grouping: "Dune #2",
+    });
+    expect(Object.keys(bookTagValues({ ...book, description: null, series: [] }, null))).not.toContain("composer");
+
+    expect(
+      tagWriteArgs({ source: "/lib/a.m4b", output: "/lib/.a.tagging.m4b", tags: { title: "Dune" }, coverPath: "/lib/cover.jpg", chaptersPath: "/tmp/ch.txt" })
+    ).toEqual([
+      "-v", "error", "-y",
+      "-i", "/lib/a.m4b",
+      "-i", "/lib/cover.jpg",
+      "-f", "ffmetadata", "-i", "/tmp/ch.txt",
+      "-map", "0:a", "-map", "1:v",
+      "-map_metadata", "0", "-map_chapters", "2", "-c", "copy",
+      "-disposition:v:0", "attached_pic",
+      "-metadata", "title=Dune",
+      "/lib/.a.tagging.m4b",
+    ]);
+    const mp3Args = tagWriteArgs({ source: "/lib/01.mp3", output: "/lib/.01.tagging.mp3", tags: {}, coverPath: null, chaptersPath: null });
+    expect(mp3Args).toContain("0:v?");
+    expect(mp3Args.slice(-3)).toEqual(["-id3v2_version", "3", "/lib/.01.tagging.mp3"]);
+  });
+
+  test("queues only while enabled and skips a job once disabled", async () => {
+    const { db, repo } = createTagRepo(false);
+    try {
+      const created = repo.createBook({ title: "Dune", author: "Frank Herbert" });
+      expect(queueTagWrite(repo, created.id)).toBeNull();
+
+      repo.updateSettings({ ...repo.getSettings(), tagWriting: { enabled: true } });
+      const job = queueTagWrite(repo, created.id)!;
+      expect(job).toMatchObject({ type: "tag_write", book_id: created.id });
+      expect(queueTagWrite(repo, created.id)?.id).toBe(job.id);
+      expect(queueTagWrite(repo, null)?.id).not.toBe(job.id);
+
+      repo.updateSettings({ ...repo.getSettings(), tagWriting: { enabled: false } });
+      const logs: string[] = [];
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: (message: string) => logs.push(message) };
+      expect(await processTagWriteJob(ctx, job)).toBe("done");
+      expect(repo.getJob(job.id)?.status).toBe("succeeded");
+      expect(logs[0]).toContain("skipped=1");
+    } finally {
+      db.close();
+    }
+  });
+
+  test("rewrites library copies through a new file and leaves hardlinked download files alone", async () => {
+    const { db, repo, libraryRoot } = createTagRepo(true);
+    const fake = installFakeFfmpeg();
+    try {
+      const downloads = tempDir("tags-dl-");
+      const download = writeFile(path.join(downloads, "Dune Messiah.m4b"), "audio");
+      const libraryFile = path.join(libraryRoot, "Frank Herbert", "Dune Messiah", "Dune Messiah.m4b");
+      mkdirSync(path.dirname(libraryFile), { recursive: true });
+      linkSync(download, libraryFile);
+      const outside = writeFile(path.join(downloads, "Elsewhere.mp3"), "audio");
+      const cover = writeFile(path.join(libraryRoot, "Frank Herbert", "Dune Messiah", "cover.jpg"), "jpeg");
+
+      const created = repo.createBook({ title: "Dune Messiah", author: "Frank Herbert" });
+      repo.updateBookMetadata(created.id, { coverPath: cover });
+      const manifestation = repo.addManifestation({ bookId: created.id, kind: "audio" });
+      const asset = repo.addAsset({
+        bookId: created.id,
+        kind: "single",
+        mime: "audio/mp4",
+        totalSize: 5,
+        durationMs: 60_000,
+        sourceReleaseId: null,
+        manifestationId: manifestation.id,
+        files: [{ path: libraryFile, size: 5, start: 0, end: 4, durationMs: 60_000, title: null, importMode: "hardlink" }],
+      });
+      repo.addAsset({
+        bookId: created.id,
+        kind: "single",
+        mime: "audio/mpeg",
+        totalSize: 5,
+        durationMs: 60_000,
+        sourceReleaseId: null,
+        manifestationId: repo.addManifestation({ bookId: created.id, kind: "audio" }).id,
+        files: [{ path: outside, size: 5, start: 0, end: 4, durationMs: 60_000, title: null }],
+      });
+      const fingerprint = (await currentManifestationFingerprint(repo, manifestation.id))!;
+      const analysisJob = repo.createJob({ type: "chapter_analysis", bookId: created.id, payload: { manifestationId: manifestation.id } });
+      repo.upsertChapterAnalysis({
+        manifestationId: manifestation.id,
+        status: "succeeded",
+        source: "test",
+        algorithmVersion: "test",
+        fingerprint,
+        chaptersJson: JSON.stringify([
+          { title: "Book One", startTime: 0 },
+          { title: "Book Two", startTime: 30 },
+        ]),
+      });
+
+      const job = queueTagWriteAfterCuration(repo, analysisJob)!;
+      expect(job.type).toBe("tag_write");
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: () => undefined };
+      expect(await processTagWriteJob(ctx, job)).toBe("done");
+      expect(repo.getJob(job.id)?.status).toBe("succeeded");
+
+      expect(readFileSync(download, "utf8")).toBe("audio");
+      expect(readFileSync(libraryFile, "utf8")).toBe("audio tagged");
+      expect(statSync(libraryFile).ino).not.toBe(statSync(download).ino);
+      expect(readFileSync(outside, "utf8")).toBe("audio");
+      expect(existsSync(path.join(path.dirname(libraryFile), ".Dune Messiah.tagging.m4b"))).toBe(false);
+
+      const args = readFileSync(fake.argsFile, "utf8").split("\n");
+      expect(args).toContain(cover);
+      expect(args).toContain("title=Dune Messiah");
+      expect(args).toContain("ffmetadata");
+
+      expect(repo.getAsset(asset.id)?.total_size).toBe(12);
+      expect(repo.getAssetFiles(asset.id)[0]).toMatchObject({ size: 12, start: 0, end: 11, import_mode: "copy" });
+      const carried = repo.getChapterAnalysis(manifestation.id)?.fingerprint;
+      expect(carried).not.toBe(fingerprint);
+      expect(carried).toBe((await currentManifestationFingerprint(repo, manifestation.id))!);
+    } finally {
+      fake.restore();
+      db.close();
+    }
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
 
-import { parseTorznabSearch } from "../../src/library/torznab";
+import { runMigrations } from "../../src/db";
+import { listIndexerHealth } from "../../src/library/indexers";
+import { parseTorznabCaps, parseTorznabSearch, searchTorznab, suggestTorznabCategories } from "../../src/library/torznab";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings } from "../../src/settings";
+import { startMockTorznab } from "../mocks/torznab";
 
 const SAMPLE = `<?xml version="1.0"?>
 <rss><channel>
@@ -25,6 +31,30 @@ const SAMPLE = `<?xml version="1.0"?>
   </item>
 </channel></rss>`;
 
+const CAPS = `<?xml version="1.0"?>
+<caps>
+  <searching>
+    <search available="yes" supportedParams="q" />
+    <book-search available="yes" supportedParams="q,title,author" />
+  </searching>
+  <categories>
+    <category id="3000" name="Audio">
+      <subcat id="3030" name="Audio/Audiobook" />
+    </category>
+    <category id="8000" name="Other">
+      <subcat id="8010" name="Ebooks" />
+    </category>
+  </categories>
+</caps>`;
+
+const DUNE = { title: "Dune", author: "Frank Herbert" };
+
+function createRepo() {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  return { db, repo: new BooksRepo(db) };
+}
+
 describe("torznab parser", () => {
   test("normalizes search results", () => {
     const results = parseTorznabSearch(SAMPLE, "prowlarr", "audio");
@@ -41,4 +71,84 @@ describe("torznab parser", () => {
     expect(results[1]?.infoHash).toBeNull();
     expect(results[1]?.guid).toBe("https://tracker.example/torrent/2");
   });
+
+  test("marks Newznab results as usenet without an info hash", () => {
+    const results = parseTorznabSearch(SAMPLE, "nzbgeek", "audio", "usenet");
+    expect(results).toHaveLength(2);
+    expect(results.map((result) => result.protocol)).toEqual(["usenet", "usenet"]);
+    expect(results[0]?.infoHash).toBeNull();
+    expect(results[0]?.sizeBytes).toBe(12345);
+  });
+});
+
+describe("torznab caps", () => {
+  test("parses book search support and suggests categories", () => {
+    const caps = parseTorznabCaps(CAPS);
+    expect(caps.bookSearch).toEqual({ available: true, params: ["q", "title", "author"] });
+    expect(caps.categories.map((category) => category.id)).toEqual(["3000", "8000"]);
+    expect(suggestTorznabCategories(caps)).toEqual({ audio: "3030", ebook: "8010" });
+    expect(() => parseTorznabCaps(`<error code="100" description="Incorrect user credentials" />`)).toThrow(
+      "Incorrect user credentials"
+    );
+  });
+
+  test("uses t=book when the indexer supports it and caches caps", async () => {
+    const { db, repo } = createRepo();
+    const withCaps = startMockTorznab({ results: [], torrents: {}, caps: CAPS });
+    const withoutCaps = startMockTorznab({ results: [], torrents: {} });
+    try {
+      const sources = [
+        { name: "books", baseUrl: withCaps.baseUrl, categories: { audio: "3030" } },
+        { name: "plain", baseUrl: withoutCaps.baseUrl },
+      ];
+      await searchTorznab(sources, "Dune Frank Herbert", "audio", { repo, book: DUNE });
+      await searchTorznab(sources, "Dune Frank Herbert", "audio", { repo, book: DUNE });
+
+      expect(withCaps.searches[0]).toMatchObject({ t: "book", title: "Dune", author: "Frank Herbert", cat: "3030" });
+      expect(withoutCaps.searches[0]).toMatchObject({ t: "search", q: "Dune Frank Herbert" });
+      expect(repo.getIndexerStatus("torrent", "books")?.caps_json).not.toBeNull();
+      expect(repo.getIndexerStatus("torrent", "plain")?.caps_json).toBeNull();
+      expect(repo.getIndexerStatus("torrent", "books")?.success_count).toBe(2);
+    } finally {
+      withCaps.stop();
+      withoutCaps.stop();
+      db.close();
+    }
+  });
+
+  test("backs off repeatedly failing indexers without sinking healthy ones", async () => {
+    const { db, repo } = createRepo();
+    const flaky = startMockTorznab({ results: [], torrents: {} });
+    const healthy = startMockTorznab({ results: [{ title: "Dune Audiobook", torrentId: "dune", size: 100 }], torrents: {} });
+    try {
+      const sources = [
+        { name: "flaky", baseUrl: flaky.baseUrl },
+        { name: "healthy", baseUrl: healthy.baseUrl },
+      ];
+      const settings = defaultSettings({ torznab: sources });
+      flaky.setFailing(true);
+      for (let attempt = 0; attempt < 3; attempt += 1) {
+        const results = await searchTorznab(sources, "Dune", "audio", { repo });
+        expect(results.map((result) => result.title)).toEqual(["Dune Audiobook"]);
+        if (attempt === 0) {
+          expect(listIndexerHealth(repo, settings)[0]).toMatchObject({ healthy: true, consecutiveFailures: 1 });
+        }
+      }
+      expect(flaky.searches).toHaveLength(3);
+
+      await searchTorznab(sources, "Dune", "audio", { repo });
+      expect(flaky.searches).toHaveLength(3);
+      await expect(searchTorznab([sources[0]!], "Dune", "audio", { repo })).rejects.toThrow("backing off");
+
+      const [flakyHealth, healthyHealth] = listIndexerHealth(repo, settings);
+      expect(flakyHealth).toMatchObject({ name: "flaky", healthy: false, failureCount: 3, consecutiveFailures: 3 });
+      expect(flakyHealth?.lastError).toContain("503");
+      expect(Date.parse(flakyHealth!.disabledUntil!)).toBeGreaterThan(Date.now());
+      expect(healthyHealth).toMatchObject({ name: "healthy", healthy: true, successCount: 4, disabledUntil: null });
+    } finally {
+      flaky.stop();
+      healthy.stop();
+      db.close();
+    }
+  });
 });
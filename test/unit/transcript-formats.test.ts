@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  renderPodcastTranscriptJson,
+  renderSrt,
+  renderWebVtt,
+  transcriptFormatForSuffix,
+} from "../../src/library/transcript-formats";
+import type { StoredTranscriptPayload } from "../../src/library/chapter-analysis";
+
+const payload: StoredTranscriptPayload = {
+  version: "1",
+  text: "I must not fear. Fear is the mind-killer.",
+  words: [],
+  utterances: [
+    { startMs: 1_000, endMs: 2_800, text: "I must not fear." },
+    { startMs: 3_661_005, endMs: 3_662_000, text: "Fear is  the --> mind-killer." },
+  ],
+};
+
+describe("transcript formats", () => {
+  test("renders WebVTT cues with dotted milliseconds", () => {
+    expect(renderWebVtt(payload)).toBe(
+      "WEBVTT\n\n00:00:01.000 --> 00:00:02.800\nI must not fear.\n\n01:01:01.005 --> 01:01:02.000\nFear is the -&gt; mind-killer.\n"
+    );
+  });
+
+  test("escapes markup characters in WebVTT cue text", () => {
+    const vtt = renderWebVtt({
+      version: "1",
+      text: "",
+      words: [],
+      utterances: [{ startMs: 0, endMs: 1_000, text: "Salt & <b>spice</b> > water" }],
+    });
+    expect(vtt).toBe("WEBVTT\n\n00:00:00.000 --> 00:00:01.000\nSalt &amp; &lt;b&gt;spice&lt;/b&gt; &gt; water\n");
+  });
+
+  test("renders numbered SRT cues with comma milliseconds", () => {
+    expect(renderSrt(payload)).toBe(
+      "1\n00:00:01,000 --> 00:00:02,800\nI must not fear.\n\n2\n01:01:01,005 --> 01:01:02,000\nFear is the --> mind-killer.\n"
+    );
+  });
+
+  test("renders Podcasting 2.0 JSON segments in seconds", () => {
+    expect(JSON.parse(renderPodcastTranscriptJson(payload))).toEqual({
+      version: "1.0.0",
+      segments: [
+        { startTime: 1, endTime: 2.8, body: "I must not fear." },
+        { startTime: 3661.005, endTime: 3662, body: "Fear is the --> mind-killer." },
+      ],
+    });
+  });
+
+  test("falls back to grouping words when utterances are missing", () => {
+    const fromWords = renderSrt({
+      version: "1",
+      text: "fear is",
+      words: [
+        { startMs: 0, endMs: 300, text: "fear", token: "fear" },
+        { startMs: 301, endMs: 500, text: "is", token: "is" },
+      ],
+    });
+    expect(fromWords).toBe("1\n00:00:00,000 --> 00:00:00,500\nfear is\n");
+  });
+
+  test("maps served suffixes back to formats", () => {
+    expect(transcriptFormatForSuffix("VTT")).toBe("vtt");
+    expect(transcriptFormatForSuffix("podcast.json")).toBe("podcast-json");
+    expect(transcriptFormatForSuffix("json")).toBeNull();
+  });
+});
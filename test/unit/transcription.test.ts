@@ -0,0 +1,108 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { describe, expect, test } from "bun:test";
+
+import { transcribeChunk } from "../../src/library/chapter-analysis";
+import { transcriptionConcurrency, transcriptionConfigured, transcriptionModel } from "../../src/library/transcription";
+import { defaultSettings, parseSettings } from "../../src/settings";
+import { startMockWhisper } from "../mocks/whisper";
+import type { BookRow } from "../../src/app-types";
+
+const book = { title: "Dune", author: "Frank Herbert", language: "en" } as BookRow;
+
+const verboseJson = {
+  text: "Fear is the mind-killer.",
+  segments: [{ start: 1, end: 3, text: "Fear is the mind-killer." }],
+  words: [
+    { word: "Fear", start: 1, end: 1.4 },
+    { word: "is", start: 1.5, end: 1.7 },
+  ],
+};
+
+async function withClip<T>(run: (clipPath: string, root: string) => Promise<T>): Promise<T> {
+  const root = await mkdtemp(path.join(os.tmpdir(), "podible-transcription-"));
+  try {
+    const clipPath = path.join(root, "clip-0.mp3");
+    await writeFile(clipPath, "ID3-not-really-audio");
+    return await run(clipPath, root);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+}
+
+describe("transcription providers", () => {
+  test("sends clips to an OpenAI-compatible server without needing an OpenAI key", async () => {
+    const whisper = startMockWhisper({ response: verboseJson });
+    try {
+      const settings = defaultSettings({
+        transcription: { provider: "openai-compatible", baseUrl: `${whisper.baseUrl}/`, model: "large-v3" },
+      });
+      expect(transcriptionConfigured(settings)).toBe(true);
+
+      const chunk = await withClip((clipPath) => transcribeChunk(settings, clipPath, "Dune by Frank Herbert.", book));
+
+      expect(whisper.requests).toHaveLength(1);
+      expect(whisper.requests[0]).toMatchObject({
+        model: "large-v3",
+        responseFormat: "verbose_json",
+        language: "en",
+        prompt: "Dune by Frank Herbert.",
+        fileName: "clip-0.mp3",
+      });
+      // Clips are sped up 2x before transcription, so timestamps are scaled back.
+      expect(chunk.words.map((word) => [word.raw, word.startMs, word.endMs])).toEqual([
+        ["Fear", 2000, 2800],
+        ["is", 3000, 3400],
+      ]);
+      expect(chunk.segments).toEqual([{ startMs: 2000, endMs: 6000, text: "Fear is the mind-killer." }]);
+    } finally {
+      whisper.stop();
+    }
+  });
+
+  test("runs a local command with placeholders and reads verbose_json from stdout", async () => {
+    const settings = defaultSettings({
+      transcription: {
+        provider: "command",
+        command: ["sh", "-c", 'test -f "$0" && test "$1" = en && printf "%s" "$2"', "{input}", "{language}", JSON.stringify(verboseJson)],
+      },
+    });
+    const chunk = await withClip((clipPath) => transcribeChunk(settings, clipPath, "prompt", book));
+    expect(chunk.words).toHaveLength(2);
+  });
+
+  test("reads the command's {output} file and surfaces failures", async () => {
+    await withClip(async (clipPath, root) => {
+      const fixturePath = path.join(root, "fixture.json");
+      await writeFile(fixturePath, JSON.stringify(verboseJson));
+      const fromFile = defaultSettings({
+        transcription: { provider: "command", command: ["cp", fixturePath, "{output}"] },
+      });
+      expect((await transcribeChunk(fromFile, clipPath, "prompt", book)).segments).toHaveLength(1);
+
+      const failing = defaultSettings({
+        transcription: { provider: "command", command: ["sh", "-c", "echo model missing >&2; exit 3"] },
+      });
+      await expect(transcribeChunk(failing, clipPath, "prompt", book)).rejects.toThrow("exited with code 3: model missing");
+    });
+  });
+
+  test("reports configuration and concurrency per provider", () => {
+    expect(transcriptionConfigured(defaultSettings())).toBe(false);
+    expect(transcriptionConfigured(defaultSettings({ agents: { apiKey: "sk-test" } }))).toBe(true);
+    expect(transcriptionConfigured(defaultSettings({ transcription: { provider: "command", command: [] } }))).toBe(false);
+
+    expect(transcriptionConcurrency(defaultSettings(), 64)).toBe(64);
+    expect(transcriptionConcurrency(defaultSettings({ transcription: { provider: "command", command: ["whisper"] } }), 64)).toBe(1);
+    expect(transcriptionConcurrency(defaultSettings({ transcription: { provider: "openai-compatible", concurrency: 3 } }), 64)).toBe(3);
+
+    expect(transcriptionModel(defaultSettings())).toBe("whisper-1");
+    expect(transcriptionModel(defaultSettings({ transcription: { provider: "openai-compatible", model: "large-v3" } }))).toBe("large-v3");
+    expect(transcriptionModel(defaultSettings({ transcription: { provider: "command", command: ["whisper-cli", "{input}"] } }))).toBe("whisper-cli");
+
+    const parsed = parseSettings(JSON.stringify({ transcription: { provider: "bogus", command: ["whisper", 4], concurrency: -2 } }));
+    expect(parsed.transcription).toEqual({ ...defaultSettings().transcription, command: ["whisper"] });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+
+import { runMigrations } from "../../src/db";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings } from "../../src/settings";
+import { TransmissionClient } from "../../src/transmission";
+import { infoHashFromTorrentBytes } from "../../src/library/torrent";
+import { processDownloadJob } from "../../src/worker/downloads";
+import { startMockTransmission } from "../mocks/transmission";
+
+function makeTorrentBytes(name: string): Uint8Array {
+  const nameLen = Buffer.byteLength(name);
+  const content = `d8:announce15:http://tracker/4:infod4:name${nameLen}:${name}12:piece lengthi16384e6:lengthi10e6:pieces20:12345678901234567890ee`;
+  return new Uint8Array(Buffer.from(content, "ascii"));
+}
+
+function setup(url: string, infoHash: string) {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  const repo = new BooksRepo(db);
+  repo.updateSettings(
+    defaultSettings({
+      auth: { mode: "plex" },
+      downloadClient: "transmission",
+      transmission: { url },
+    })
+  );
+  const book = repo.createBook({ title: "Words of Radiance", author: "Brandon Sanderson" });
+  const release = repo.createRelease({
+    bookId: book.id,
+    provider: "mock",
+    providerGuid: "guid-wor",
+    title: "Words of Radiance",
+    mediaType: "audio",
+    infoHash,
+    url: "https://example.com/wor.torrent",
+    status: "snatched",
+  });
+  const job = repo.createJob({ type: "download", bookId: book.id, releaseId: release.id, payload: { infoHash } });
+  return { db, repo, release, job, ctx: { repo, getSettings: () => repo.getSettings(), onLog: () => {} } };
+}
+
+describe("transmission download client", () => {
+  test("negotiates the session id and adds torrents into the download path", async () => {
+    const transmission = startMockTransmission({ byHash: {} });
+    try {
+      const torrentBytes = makeTorrentBytes("words-of-radiance");
+      const client = new TransmissionClient({ url: transmission.url, downloadPath: "/downloads/books" });
+      await client.addTorrent(torrentBytes);
+      await client.remove(infoHashFromTorrentBytes(torrentBytes));
+      expect(transmission.handshakes).toBe(1);
+      expect(transmission.added).toEqual([
+        { infoHash: infoHashFromTorrentBytes(torrentBytes), downloadDir: "/downloads/books" },
+      ]);
+      expect(transmission.removed).toEqual([{ ids: [infoHashFromTorrentBytes(torrentBytes)], deleteLocalData: false }]);
+
+      transmission.rotateSession();
+      await client.addTorrent(torrentBytes);
+      expect(transmission.handshakes).toBe(2);
+      expect(transmission.added).toHaveLength(2);
+    } finally {
+      transmission.stop();
+    }
+  });
+
+  test("download job reports progress then hands wanted files to import", async () => {
+    const infoHash = infoHashFromTorrentBytes(makeTorrentBytes("words-of-radiance"));
+    const transmission = startMockTransmission({
+      byHash: {
+        [infoHash]: {
+          name: "Words of Radiance",
+          downloadDir: "/downloads",
+          files: [
+            { name: "Words of Radiance/Words of Radiance.m4b" },
+            { name: "Words of Radiance/cover.jpg", wanted: false },
+          ],
+          sizeBytes: 2000,
+          completeAfterPolls: 2,
+        },
+      },
+    });
+    const { db, repo, release, job, ctx } = setup(transmission.url, infoHash);
+
+    try {
+      const state = await new TransmissionClient({ url: transmission.url }).getDownloadState(infoHash);
+      expect(state).toMatchObject({ complete: false, isActive: true, bytesDone: 1000, leftBytes: 1000, downRate: 10, message: null });
+
+      expect(await processDownloadJob(ctx, job)).toBe("done");
+      expect(repo.getRelease(release.id)?.status).toBe("downloaded");
+      const importJob = repo.listJobsByType("import").find((row) => row.release_id === release.id);
+      const payload = JSON.parse(importJob?.payload_json ?? "{}");
+      expect(payload.basePath).toBe("/downloads/Words of Radiance");
+      expect(payload.selectedPaths).toEqual(["/downloads/Words of Radiance/Words of Radiance.m4b"]);
+    } finally {
+      transmission.stop();
+      db.close();
+    }
+  });
+
+  test("torrent errors trigger the same forced reacquire as rTorrent", async () => {
+    const infoHash = infoHashFromTorrentBytes(makeTorrentBytes("words-of-radiance"));
+    const transmission = startMockTransmission({
+      byHash: {
+        [infoHash]: {
+          name: "Words of Radiance",
+          downloadDir: "/downloads",
+          sizeBytes: 2000,
+          completeAfterPolls: 99,
+          errorString: "No data found! Ensure your drives are connected",
+        },
+      },
+    });
+    const { db, repo, release, job, ctx } = setup(transmission.url, infoHash);
+
+    try {
+      expect(await processDownloadJob(ctx, job)).toBe("done");
+      const failed = repo.getRelease(release.id);
+      expect(failed?.status).toBe("failed");
+      expect(failed?.error).toContain("Torrent errored in Transmission");
+      expect(failed?.error).toContain("No data found!");
+      expect(repo.listJobsByType("acquire")).toHaveLength(1);
+      expect(repo.getJob(job.id)?.status).toBe("cancelled");
+    } finally {
+      transmission.stop();
+      db.close();
+    }
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtemp, rm, stat, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { runMigrations } from "../../src/db";
+import { selectPreferredAudioManifestation } from "../../src/library/media";
+import { completeManifestationUpgrade, mapPlaybackPosition } from "../../src/library/upgrades";
+import { listWantedMediaForSettings } from "../../src/library/wanted";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings } from "../../src/settings";
+import { processAcquireJob } from "../../src/worker/acquire";
+import { processUpgradeCleanupJob } from "../../src/worker/upgrades";
+import { startMockTorznab } from "../mocks/torznab";
+
+function createRepo() {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  return { db, repo: new BooksRepo(db) };
+}
+
+function importedManifestation(
+  repo: BooksRepo,
+  bookId: number,
+  input: { filePath: string; mime: string; durationMs: number; score: number; replaces?: number }
+) {
+  const manifestation = repo.addManifestation({
+    bookId,
+    kind: "audio",
+    preferredScore: input.score,
+    replacesManifestationId: input.replaces ?? null,
+  });
+  repo.addAsset({
+    bookId,
+    kind: "single",
+    mime: input.mime,
+    totalSize: 100,
+    durationMs: input.durationMs,
+    manifestationId: manifestation.id,
+    files: [{ path: input.filePath, size: 100, start: 0, end: 99, durationMs: input.durationMs }],
+  });
+  return manifestation;
+}
+
+describe("upgrades", () => {
+  test("positions keep their chapter offset, or their share of the duration when chapters differ", () => {
+    const from = {
+      chapters: [
+        { startMs: 0, endMs: 100_000 },
+        { startMs: 100_000, endMs: 300_000 },
+        { startMs: 300_000, endMs: 600_000 },
+      ],
+      durationMs: 600_000,
+    };
+    const to = {
+      chapters: [
+        { startMs: 0, endMs: 120_000 },
+        { startMs: 120_000, endMs: 180_000 },
+        { startMs: 180_000, endMs: 660_000 },
+      ],
+      durationMs: 660_000,
+    };
+    expect(mapPlaybackPosition(150_000, from, to)).toEqual({ positionMs: 170_000, chapterIndex: 1 });
+    // Clamped to the end of a shorter chapter.
+    expect(mapPlaybackPosition(290_000, from, to)).toEqual({ positionMs: 179_999, chapterIndex: 1 });
+    expect(mapPlaybackPosition(300_000, from, { chapters: [], durationMs: 1_200_000 })).toEqual({ positionMs: 600_000, chapterIndex: null });
+    expect(mapPlaybackPosition(300_000, { chapters: [], durationMs: null }, { chapters: [], durationMs: 200_000 })).toEqual({
+      positionMs: 200_000,
+      chapterIndex: null,
+    });
+  });
+
+  test("media below the cutoff is wanted as an upgrade and acquire only considers better releases", async () => {
+    const { db, repo } = createRepo();
+    const torznab = startMockTorznab({
+      results: [{ title: "Brandon Sanderson - Elantris [mp3]", torrentId: "elantris-mp3", size: 100 }],
+      torrents: {},
+    });
+    try {
+      repo.updateSettings(
+        defaultSettings({
+          auth: { mode: "plex" },
+          torznab: [{ name: "mock", baseUrl: torznab.baseUrl }],
+          upgrades: { enabled: true, audioCutoff: 60 },
+        })
+      );
+      const mp3Book = repo.createBook({ title: "Elantris", author: "Brandon Sanderson" });
+      const m4bBook = repo.createBook({ title: "Warbreaker", author: "Brandon Sanderson" });
+      const current = importedManifestation(repo, mp3Book.id, { filePath: "/library/elantris.mp3", mime: "audio/mpeg", durationMs: 1000, score: 20 });
+      importedManifestation(repo, m4bBook.id, { filePath: "/library/warbreaker.m4b", mime: "audio/mp4", durationMs: 1000, score: 60 });
+
+      expect(repo.listWantedMedia().filter((wanted) => wanted.media_type === "audio")).toEqual([]);
+      const upgrades = repo
+        .listWantedMedia({ audio: 60, ebook: 80 })
+        .filter((wanted) => wanted.media_type === "audio")
+        .map((wanted) => [wanted.book_id, wanted.reason, wanted.current_score]);
+      expect(upgrades).toEqual([[mp3Book.id, "upgrade", 20]]);
+
+      const logs: string[] = [];
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: (line: string) => logs.push(line) };
+      const payload = { bookId: mp3Book.id, media: ["audio"], upgrade: true };
+      await processAcquireJob(ctx, repo.createJob({ type: "acquire", bookId: mp3Book.id, payload }));
+      expect(logs.some((line) => line.includes(`results=0 upgrade_from=${current.id} current_score=20 found=1`))).toBe(true);
+      expect(repo.getWantedMedia(mp3Book.id, "audio")?.last_outcome).toBe("no_result");
+      expect(repo.listReleasesByBook(mp3Book.id)).toEqual([]);
+
+      const m4bPayload = { bookId: m4bBook.id, media: ["audio"], upgrade: true };
+      await processAcquireJob(ctx, repo.createJob({ type: "acquire", bookId: m4bBook.id, payload: m4bPayload }));
+      expect(logs.some((line) => line.includes(`book=${m4bBook.id} media=audio upgrade_skipped=1`))).toBe(true);
+      expect(torznab.searches).toHaveLength(1);
+    } finally {
+      torznab.stop();
+      db.close();
+    }
+  });
+
+  test("copies without a release score are scored from their files before they count as upgradeable", async () => {
+    const { db, repo } = createRepo();
+    const torznab = startMockTorznab({ results: [], torrents: {} });
+    try {
+      repo.updateSettings(
+        defaultSettings({
+          auth: { mode: "plex" },
+          torznab: [{ name: "mock", baseUrl: torznab.baseUrl }],
+          upgrades: { enabled: true, audioCutoff: 60 },
+        })
+      );
+      const mp3Book = repo.createBook({ title: "Elantris", author: "Brandon Sanderson" });
+      const m4bBook = repo.createBook({ title: "Warbreaker", author: "Brandon Sanderson" });
+      importedManifestation(repo, mp3Book.id, { filePath: "/library/elantris.mp3", mime: "audio/mpeg", durationMs: 1000, score: 0 });
+      importedManifestation(repo, m4bBook.id, { filePath: "/library/warbreaker.m4b", mime: "audio/mp4", durationMs: 1000, score: 0 });
+
+      const upgrades = listWantedMediaForSettings(repo, repo.getSettings())
+        .filter((wanted) => wanted.media_type === "audio")
+        .map((wanted) => [wanted.book_id, wanted.reason, wanted.current_score]);
+      expect(upgrades).toEqual([[mp3Book.id, "upgrade", 20]]);
+
+      const logs: string[] = [];
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: (line: string) => logs.push(line) };
+      const payload = { bookId: m4bBook.id, media: ["audio"], upgrade: true };
+      await processAcquireJob(ctx, repo.createJob({ type: "acquire", bookId: m4bBook.id, payload }));
+      expect(logs.some((line) => line.includes(`book=${m4bBook.id} media=audio upgrade_skipped=1`) && line.includes("score=60"))).toBe(true);
+      expect(torznab.searches).toHaveLength(0);
+    } finally {
+      torznab.stop();
+      db.close();
+    }
+  });
+
+  test("an imported upgrade takes over positions and bookmarks, and cleanup deletes the old files", async () => {
+    const { db, repo } = createRepo();
+    const dir = await mkdtemp(path.join(os.tmpdir(), "podible-upgrade-"));
+    try {
+      repo.updateSettings(defaultSettings({ auth: { mode: "plex" }, upgrades: { enabled: true, deleteOldAfterDays: 7 } }));
+      const book = repo.createBook({ title: "Elantris", author: "Brandon Sanderson" });
+      const user = repo.upsertUser({ provider: "plex", providerUserId: "1", username: "reader" });
+      const oldPath = path.join(dir, "elantris.mp3");
+      const newPath = path.join(dir, "elantris.m4b");
+      await writeFile(oldPath, "old");
+      await writeFile(newPath, "new");
+
+      const old = importedManifestation(repo, book.id, { filePath: oldPath, mime: "audio/mpeg", durationMs: 600_000, score: 20 });
+      repo.upsertChapterOverride(old.id, JSON.stringify([{ startTime: 0, title: "One" }, { startTime: 100, title: "Two" }]), null);
+      repo.upsertPlaybackPosition({ userId: user.id, manifestationId: old.id, positionMs: 150_000, updatedAt: "2026-01-01T00:00:00.000Z" });
+      const bookmark = repo.createBookmark({ userId: user.id, manifestationId: old.id, positionMs: 50_000, note: "intro" });
+
+      const upgrade = importedManifestation(repo, book.id, {
+        filePath: newPath,
+        mime: "audio/mp4",
+        durationMs: 660_000,
+        score: 60,
+        replaces: old.id,
+      });
+      repo.upsertChapterOverride(upgrade.id, JSON.stringify([{ startTime: 0, title: "One" }, { startTime: 120, title: "Two" }]), null);
+
+      const before = Date.now();
+      const completion = await completeManifestationUpgrade(repo, repo.getSettings(), upgrade.id);
+      expect(completion).toMatchObject({ replacedManifestationId: old.id, positionsMapped: 1, bookmarksMoved: 1 });
+      expect(await completeManifestationUpgrade(repo, repo.getSettings(), upgrade.id)).toBeNull();
+
+      expect(repo.getPlaybackPosition(user.id, upgrade.id)).toMatchObject({ position_ms: 170_000, chapter_index: 1 });
+      expect(repo.getBookmark(bookmark.id)).toMatchObject({ manifestation_id: upgrade.id, position_ms: 50_000 });
+      expect(repo.getManifestation(old.id)?.superseded_at).not.toBeNull();
+
+      // The old copy has better container heuristics on paper (longer), but it is superseded.
+      const candidates = [old.id, upgrade.id].map((id) => ({
+        manifestation: repo.getManifestation(id)!,
+        containers: repo.listAssetsByManifestation(id),
+      }));
+      expect(selectPreferredAudioManifestation(candidates)?.manifestation.id).toBe(upgrade.id);
+      expect(repo.listWantedMedia({ audio: 60, ebook: 80 }).some((wanted) => wanted.media_type === "audio")).toBe(false);
+
+      const cleanup = repo.getJob(completion!.cleanupJobId!)!;
+      expect(cleanup.type).toBe("upgrade_cleanup");
+      expect(Date.parse(cleanup.next_run_at!)).toBeGreaterThanOrEqual(before + 7 * 24 * 60 * 60_000);
+
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: () => {} };
+      expect(await processUpgradeCleanupJob(ctx, cleanup)).toBe("done");
+      expect(repo.getManifestation(old.id)).toBeNull();
+      expect(repo.getPlaybackPosition(user.id, upgrade.id)?.position_ms).toBe(170_000);
+      await expect(stat(oldPath)).rejects.toThrow();
+      expect((await stat(newPath)).isFile()).toBe(true);
+    } finally {
+      db.close();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+
+import { runMigrations } from "../../src/db";
+import { BooksRepo } from "../../src/repo";
+import { defaultSettings } from "../../src/settings";
+import { processAcquireJob } from "../../src/worker/acquire";
+import { processWantedSearchJob, queueWantedSearch } from "../../src/worker/wanted";
+import { startMockTorznab } from "../mocks/torznab";
+
+function createRepo() {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  return { db, repo: new BooksRepo(db) };
+}
+
+describe("wanted re-search", () => {
+  test("lists only media with nothing imported or in flight", () => {
+    const { db, repo } = createRepo();
+    const missing = repo.createBook({ title: "Elantris", author: "Brandon Sanderson" });
+    const downloading = repo.createBook({ title: "Warbreaker", author: "Brandon Sanderson" });
+    repo.createRelease({
+      bookId: downloading.id,
+      provider: "mock",
+      title: "Warbreaker",
+      mediaType: "audio",
+      infoHash: "1111111111111111111111111111111111111111",
+      url: "https://example.com/warbreaker.torrent",
+      status: "downloading",
+    });
+
+    expect(repo.listWantedMedia().map((wanted) => [wanted.book_id, wanted.media_type])).toEqual([
+      [missing.id, "audio"],
+      [missing.id, "ebook"],
+      [downloading.id, "ebook"],
+    ]);
+    db.close();
+  });
+
+  test("acquire records misses with a doubling retry delay", async () => {
+    const { db, repo } = createRepo();
+    const torznab = startMockTorznab({ results: [], torrents: {} });
+    try {
+      repo.updateSettings(
+        defaultSettings({
+          auth: { mode: "plex" },
+          torznab: [{ name: "mock", baseUrl: torznab.baseUrl }],
+          wanted: { retryMinutes: 60, maxRetryMinutes: 90 },
+        })
+      );
+      const book = repo.createBook({ title: "Elantris", author: "Brandon Sanderson" });
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: () => {} };
+
+      const before = Date.now();
+      await processAcquireJob(ctx, repo.createJob({ type: "acquire", bookId: book.id, payload: { bookId: book.id, media: ["audio"] } }));
+      const first = repo.getWantedMedia(book.id, "audio")!;
+      expect(first).toMatchObject({ search_count: 1, consecutive_misses: 1, last_outcome: "no_result" });
+      expect(Date.parse(first.next_search_at!) - before).toBeGreaterThanOrEqual(60 * 60_000);
+      expect(Date.parse(first.next_search_at!) - before).toBeLessThan(61 * 60_000);
+
+      await processAcquireJob(ctx, repo.createJob({ type: "acquire", bookId: book.id, payload: { bookId: book.id, media: ["audio"] } }));
+      const second = repo.getWantedMedia(book.id, "audio")!;
+      expect(second).toMatchObject({ search_count: 2, consecutive_misses: 2 });
+      // 120 minutes, capped at maxRetryMinutes.
+      expect(Date.parse(second.next_search_at!) - before).toBeGreaterThanOrEqual(90 * 60_000);
+      expect(Date.parse(second.next_search_at!) - before).toBeLessThan(91 * 60_000);
+      expect(repo.getWantedMedia(book.id, "ebook")).toBeNull();
+    } finally {
+      torznab.stop();
+      db.close();
+    }
+  });
+
+  test("search job queues acquires for due media within the daily cap", async () => {
+    const { db, repo } = createRepo();
+    repo.updateSettings(
+      defaultSettings({
+        auth: { mode: "plex" },
+        torznab: [{ name: "mock", baseUrl: "http://indexer" }],
+        wanted: { enabled: true, checkMinutes: 45, dailySearchLimit: 3 },
+      })
+    );
+    const due = repo.createBook({ title: "Elantris", author: "Brandon Sanderson" });
+    const busy = repo.createBook({ title: "Warbreaker", author: "Brandon Sanderson" });
+    const later = repo.createBook({ title: "Mistborn", author: "Brandon Sanderson" });
+    const capped = repo.createBook({ title: "Skyward", author: "Brandon Sanderson" });
+    repo.createJob({ type: "acquire", bookId: busy.id, payload: { bookId: busy.id } });
+    const future = new Date(Date.now() + 60 * 60_000).toISOString();
+    repo.scheduleWantedSearch(later.id, "audio", future);
+    repo.scheduleWantedSearch(later.id, "ebook", future);
+    repo.recordWantedSearch(due.id, "ebook", {
+      outcome: "no_result",
+      detail: "nothing matched",
+      nextSearchAt: new Date(Date.now() - 60_000).toISOString(),
+    });
+
+    try {
+      const job = queueWantedSearch(repo);
+      expect(queueWantedSearch(repo).id).toBe(job.id);
+      const ctx = { repo, getSettings: () => repo.getSettings(), onLog: () => {} };
+
+      const before = Date.now();
+      expect(await processWantedSearchJob(ctx, job)).toBe("rescheduled");
+      const rescheduled = repo.getJob(job.id)!;
+      expect(rescheduled.status).toBe("queued");
+      expect(Date.parse(rescheduled.next_run_at!)).toBeGreaterThanOrEqual(before + 45 * 60_000);
+
+      const queued = repo
+        .listJobsByType("acquire")
+        .filter((acquire) => acquire.book_id !== busy.id)
+        .map((acquire) => [acquire.book_id, JSON.parse(acquire.payload_json ?? "{}").media])
+        .sort((a, b) => a[0] - b[0]);
+      expect(queued).toEqual([
+        [due.id, ["audio", "ebook"]],
+        [capped.id, ["audio"]],
+      ]);
+      expect(repo.getWantedMedia(due.id, "audio")?.next_search_at).not.toBeNull();
+      expect(repo.getWantedMedia(later.id, "audio")?.next_search_at).toBe(future);
+
+      // The cap is spent for today, so a second pass queues nothing new.
+      await processWantedSearchJob(ctx, repo.getJob(job.id)!);
+      expect(repo.listJobsByType("acquire")).toHaveLength(3);
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -1614,8 +1614,6 @@ describe("download ETA polling", () => {
         complete: false,
         isActive: true,
         basePath: null,
-        directory: null,
-        isMultiFile: false,
         bytesDone: 90,
         sizeBytes: 100,
         leftBytes: 10,
@@ -1635,8 +1633,6 @@ describe("download ETA polling", () => {
         complete: false,
         isActive: true,
         basePath: null,
-        directory: null,
-        isMultiFile: false,
         bytesDone: 0,
         sizeBytes: 500,
         leftBytes: 500,
@@ -1656,8 +1652,6 @@ describe("download ETA polling", () => {
         complete: false,
         isActive: true,
         basePath: null,
-        directory: null,
-        isMultiFile: false,
         bytesDone: 50,
         sizeBytes: 100,
         leftBytes: 50,
@@ -1677,8 +1671,6 @@ describe("download ETA polling", () => {
         complete: false,
         isActive: true,
         basePath: null,
-        directory: null,
-        isMultiFile: false,
         bytesDone: 960,
         sizeBytes: 1000,
         leftBytes: null,